@@ -2,12 +2,17 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Capacitor } from "@capacitor/core";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { OfflineSyncProvider } from "@/contexts/OfflineSyncContext";
+import { PwaUpdatePrompt } from "@/components/PwaUpdatePrompt";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Admin from "./pages/Admin";
 import ExportData from "./pages/ExportData";
+import Kitchen from "./pages/Kitchen";
+import DigitalReceipt from "./pages/DigitalReceipt";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +35,17 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+// Cashier screen; kitchen staff are sent to the kitchen display
+function CashierRoute({ children }: { children: React.ReactNode }) {
+  const { role } = useAuth();
+
+  if (role === 'kitchen') {
+    return <Navigate to="/kitchen" replace />;
+  }
+
+  return <ProtectedRoute>{children}</ProtectedRoute>;
+}
+
 function AdminRoute({ children }: { children: React.ReactNode }) {
   const { user, role, loading } = useAuth();
   
@@ -56,11 +72,21 @@ function AppRoutes() {
   return (
     <Routes>
       <Route path="/auth" element={<Auth />} />
+      {/* Public: opened by customers from the digital receipt link */}
+      <Route path="/receipt/:token" element={<DigitalReceipt />} />
       <Route
         path="/"
         element={
-          <ProtectedRoute>
+          <CashierRoute>
             <Index />
+          </CashierRoute>
+        }
+      />
+      <Route
+        path="/kitchen"
+        element={
+          <ProtectedRoute>
+            <Kitchen />
           </ProtectedRoute>
         }
       />
@@ -88,13 +114,17 @@ function AppRoutes() {
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <AppRoutes />
-        </BrowserRouter>
-      </TooltipProvider>
+      <OfflineSyncProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          {/* The native app ships its web assets in the APK, so only the browser build registers a service worker */}
+          {!Capacitor.isNativePlatform() && <PwaUpdatePrompt />}
+          <BrowserRouter>
+            <AppRoutes />
+          </BrowserRouter>
+        </TooltipProvider>
+      </OfflineSyncProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,49 @@
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { RefreshCw, X } from 'lucide-react';
+
+// Checks for a newly deployed build every hour while the register stays open all day
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export function PwaUpdatePrompt() {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW(_url, registration) {
+      if (!registration) return;
+      setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL_MS);
+    },
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    },
+  });
+
+  if (!needRefresh) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-sm bg-card rounded-2xl border border-border shadow-2xl p-4 animate-scale-in">
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center shrink-0">
+          <RefreshCw className="w-5 h-5 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold">Versi baru tersedia</p>
+          <p className="text-sm text-muted-foreground">Muat ulang setelah pesanan yang sedang dibuat selesai.</p>
+        </div>
+        <button
+          onClick={() => setNeedRefresh(false)}
+          className="p-1 rounded-md text-muted-foreground hover:bg-secondary"
+          title="Nanti"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <button
+        onClick={() => updateServiceWorker(true)}
+        className="mt-3 w-full py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-all active:scale-95"
+      >
+        Perbarui Sekarang
+      </button>
+    </div>
+  );
+}
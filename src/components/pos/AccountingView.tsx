@@ -1,38 +1,60 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { CalendarIcon, RefreshCw, TrendingUp, Wallet, CreditCard, Smartphone, FileText } from 'lucide-react';
+import { CalendarIcon, RefreshCw, TrendingUp, Wallet, CreditCard, Smartphone, FileText, BookOpen, Scale, Landmark, Lock, History } from 'lucide-react';
 import { format } from 'date-fns';
 import { id } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import { useLedger, isDebitNormal, ACCOUNT_TYPE_LABELS } from '@/hooks/useLedger';
+import { useSettlementRuns, SETTLEMENT_TRIGGER_LABELS, SettlementStats, SettlementTrigger } from '@/hooks/useSettlementRuns';
+import { FinancialStatements } from './FinancialStatements';
+import { PeriodClosing } from './PeriodClosing';
 
-interface AccountingEntry {
-  id: string;
-  entry_date: string;
-  entry_type: string;
-  description: string;
-  debit: number;
-  credit: number;
-  balance: number;
-  payment_method: string | null;
-  created_at: string;
-}
+const SOURCE_LABELS: Record<string, string> = {
+  order: 'Penjualan',
+  order_cogs: 'HPP',
+  order_refund: 'Refund',
+  order_void: 'Void',
+  order_void_cogs: 'Void HPP',
+  goods_receipt: 'Penerimaan',
+  supplier_payment: 'Bayar Supplier',
+  cash_movement: 'Kas Laci',
+  expense: 'Biaya',
+  settlement: 'Settlement',
+  adjustment: 'Penyesuaian',
+};
 
 export function AccountingView() {
-  const [entries, setEntries] = useState<AccountingEntry[]>([]);
-  const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState<{ from: Date; to: Date }>({
     from: new Date(new Date().setDate(1)), // First day of current month
     to: new Date(),
   });
   const [isFromOpen, setIsFromOpen] = useState(false);
   const [isToOpen, setIsToOpen] = useState(false);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState('ledger');
+
+  const { accounts, trialBalance, ledger, loading, refetch } = useLedger(
+    selectedAccountId,
+    format(dateRange.from, 'yyyy-MM-dd'),
+    format(dateRange.to, 'yyyy-MM-dd'),
+  );
+  const { runs, loading: runsLoading, runSettlement } = useSettlementRuns();
+
+  // Open on the cash account once the chart of accounts is loaded
+  useEffect(() => {
+    if (!selectedAccountId && accounts.length > 0) {
+      setSelectedAccountId((accounts.find(a => a.code === '1101') ?? accounts[0]).id);
+    }
+  }, [accounts, selectedAccountId]);
+
+  const selectedAccount = accounts.find(a => a.id === selectedAccountId);
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('id-ID', {
@@ -42,72 +64,37 @@ export function AccountingView() {
     }).format(price);
   };
 
-  const fetchEntries = async () => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('accounting_entries')
-        .select('*')
-        .gte('entry_date', dateRange.from.toISOString().split('T')[0])
-        .lte('entry_date', dateRange.to.toISOString().split('T')[0])
-        .order('entry_date', { ascending: false })
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setEntries(data || []);
-    } catch (error) {
-      console.error('Error fetching accounting entries:', error);
-      toast.error('Gagal memuat data accounting');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchEntries();
-  }, [dateRange]);
-
   const triggerDailySummary = async () => {
     try {
       toast.info('Membuat settlement harian...');
-      const { data, error } = await supabase.functions.invoke('send-daily-summary');
-      if (error) throw error;
-      toast.success('Settlement berhasil dibuat');
-      fetchEntries();
+      const result = await runSettlement();
+      const backfilled = result?.backfilled?.length || 0;
+      toast.success(backfilled > 0 ? `Settlement berhasil dibuat, termasuk ${backfilled} hari yang terlewat` : 'Settlement berhasil dibuat');
+      refetch();
     } catch (error) {
       console.error('Error triggering daily summary:', error);
       toast.error('Gagal membuat settlement');
     }
   };
 
-  // Calculate totals
-  const totalDebit = entries.reduce((sum, e) => sum + e.debit, 0);
-  const totalCredit = entries.reduce((sum, e) => sum + e.credit, 0);
-  const summaryEntries = entries.filter(e => e.entry_type === 'daily_summary');
-  const latestBalance = summaryEntries[0]?.balance || 0;
-
-  // Group by payment method
-  const cashTotal = entries.filter(e => e.payment_method === 'cash').reduce((sum, e) => sum + e.debit, 0);
-  const transferTotal = entries.filter(e => e.payment_method === 'transfer').reduce((sum, e) => sum + e.debit, 0);
-  const qrisTotal = entries.filter(e => e.payment_method === 'qris').reduce((sum, e) => sum + e.debit, 0);
+  // Trial balance totals; both sides must match
+  const totalDebit = trialBalance.reduce((sum, row) => sum + row.debit, 0);
+  const totalCredit = trialBalance.reduce((sum, row) => sum + row.credit, 0);
+  const isBalanced = totalDebit === totalCredit;
 
-  const getPaymentMethodIcon = (method: string | null) => {
-    switch (method) {
-      case 'cash': return <Wallet className="w-4 h-4" />;
-      case 'transfer': return <CreditCard className="w-4 h-4" />;
-      case 'qris': return <Smartphone className="w-4 h-4" />;
-      default: return <FileText className="w-4 h-4" />;
-    }
+  const balanceOf = (code: string) => {
+    const row = trialBalance.find(r => r.code === code);
+    return row ? row.debit - row.credit : 0;
   };
 
-  const getPaymentMethodColor = (method: string | null) => {
-    switch (method) {
-      case 'cash': return 'bg-success/20 text-success';
-      case 'transfer': return 'bg-primary/20 text-primary';
-      case 'qris': return 'bg-warning/20 text-warning';
-      default: return 'bg-secondary text-secondary-foreground';
-    }
-  };
+  // Running balance on the account's normal side
+  const sign = selectedAccount && !isDebitNormal(selectedAccount.account_type) ? -1 : 1;
+  const openingBalance = (ledger?.opening_balance || 0) * sign;
+  let runningBalance = openingBalance;
+  const ledgerRows = (ledger?.lines || []).map(line => {
+    runningBalance += (line.debit - line.credit) * sign;
+    return { ...line, balance: runningBalance };
+  });
 
   return (
     <div className="space-y-6">
@@ -172,103 +159,274 @@ export function AccountingView() {
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Debit</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <Wallet className="w-4 h-4" /> Kas
+            </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-success">{formatPrice(totalDebit)}</p>
+            <p className="text-2xl font-bold">{formatPrice(balanceOf('1101'))}</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-              <Wallet className="w-4 h-4" /> Tunai
+              <CreditCard className="w-4 h-4" /> Bank
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">{formatPrice(cashTotal)}</p>
+            <p className="text-2xl font-bold">{formatPrice(balanceOf('1102'))}</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-              <CreditCard className="w-4 h-4" /> Transfer
+              <Smartphone className="w-4 h-4" /> Kliring QRIS
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">{formatPrice(transferTotal)}</p>
+            <p className="text-2xl font-bold">{formatPrice(balanceOf('1103'))}</p>
+            <p className="text-xs text-muted-foreground">Belum masuk bank</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-              <Smartphone className="w-4 h-4" /> QRIS
+              <Scale className="w-4 h-4" /> Neraca Saldo
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">{formatPrice(qrisTotal)}</p>
+            <p className={cn("text-2xl font-bold", isBalanced ? "text-success" : "text-destructive")}>
+              {isBalanced ? 'Seimbang' : 'Tidak seimbang'}
+            </p>
+            <p className="text-xs text-muted-foreground">Per {format(dateRange.to, 'dd MMM yyyy', { locale: id })}</p>
           </CardContent>
         </Card>
       </div>
 
-      {/* Entries Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">Jurnal Accounting</CardTitle>
-        </CardHeader>
-        <CardContent>
-          {loading ? (
-            <div className="flex items-center justify-center py-8">
-              <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
-            </div>
-          ) : entries.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              <FileText className="w-12 h-12 mx-auto mb-3 opacity-50" />
-              <p>Belum ada data accounting</p>
-              <p className="text-sm">Data akan otomatis terbuat setelah settlement harian</p>
-            </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Tanggal</TableHead>
-                    <TableHead>Deskripsi</TableHead>
-                    <TableHead>Tipe</TableHead>
-                    <TableHead className="text-right">Debit</TableHead>
-                    <TableHead className="text-right">Credit</TableHead>
-                    <TableHead className="text-right">Saldo</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {entries.map((entry) => (
-                    <TableRow key={entry.id}>
-                      <TableCell className="whitespace-nowrap">
-                        {format(new Date(entry.entry_date), 'dd MMM yyyy', { locale: id })}
-                      </TableCell>
-                      <TableCell className="max-w-[300px] truncate">{entry.description}</TableCell>
-                      <TableCell>
-                        <Badge variant="secondary" className={cn("gap-1", getPaymentMethodColor(entry.payment_method))}>
-                          {getPaymentMethodIcon(entry.payment_method)}
-                          {entry.payment_method || entry.entry_type}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-right text-success font-medium">
-                        {entry.debit > 0 ? formatPrice(entry.debit) : '-'}
-                      </TableCell>
-                      <TableCell className="text-right text-destructive font-medium">
-                        {entry.credit > 0 ? formatPrice(entry.credit) : '-'}
-                      </TableCell>
-                      <TableCell className="text-right font-bold">
-                        {entry.entry_type === 'daily_summary' ? formatPrice(entry.balance) : '-'}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="h-auto flex-wrap">
+          <TabsTrigger value="ledger" className="gap-2">
+            <BookOpen className="w-4 h-4" /> Buku Besar
+          </TabsTrigger>
+          <TabsTrigger value="trial-balance" className="gap-2">
+            <Scale className="w-4 h-4" /> Neraca Saldo
+          </TabsTrigger>
+          <TabsTrigger value="statements" className="gap-2">
+            <Landmark className="w-4 h-4" /> Laporan Keuangan
+          </TabsTrigger>
+          <TabsTrigger value="settlements" className="gap-2">
+            <History className="w-4 h-4" /> Riwayat Settlement
+          </TabsTrigger>
+          <TabsTrigger value="closing" className="gap-2">
+            <Lock className="w-4 h-4" /> Tutup Buku
+          </TabsTrigger>
+        </TabsList>
+
+        {/* General Ledger */}
+        <TabsContent value="ledger">
+          <Card>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+              <CardTitle className="text-lg">Buku Besar</CardTitle>
+              <select
+                value={selectedAccountId ?? ''}
+                onChange={(e) => setSelectedAccountId(e.target.value)}
+                className="px-3 py-2 rounded-lg bg-secondary border border-border"
+              >
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>
+                    {account.code} · {account.name}
+                  </option>
+                ))}
+              </select>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex items-center justify-center py-8">
+                  <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Tanggal</TableHead>
+                        <TableHead>Deskripsi</TableHead>
+                        <TableHead>Sumber</TableHead>
+                        <TableHead className="text-right">Debit</TableHead>
+                        <TableHead className="text-right">Credit</TableHead>
+                        <TableHead className="text-right">Saldo</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell className="whitespace-nowrap">
+                          {format(dateRange.from, 'dd MMM yyyy', { locale: id })}
+                        </TableCell>
+                        <TableCell colSpan={4} className="text-muted-foreground">Saldo awal</TableCell>
+                        <TableCell className="text-right font-bold">{formatPrice(openingBalance)}</TableCell>
+                      </TableRow>
+                      {ledgerRows.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(line.entry_date), 'dd MMM yyyy', { locale: id })}
+                          </TableCell>
+                          <TableCell className="max-w-[300px] truncate">{line.description}</TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{SOURCE_LABELS[line.source_type] || line.source_type}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right text-success font-medium">
+                            {line.debit > 0 ? formatPrice(line.debit) : '-'}
+                          </TableCell>
+                          <TableCell className="text-right text-destructive font-medium">
+                            {line.credit > 0 ? formatPrice(line.credit) : '-'}
+                          </TableCell>
+                          <TableCell className="text-right font-bold">{formatPrice(line.balance)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {ledgerRows.length === 0 && (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <FileText className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                      <p>Belum ada jurnal di periode ini</p>
+                      <p className="text-sm">Penjualan, refund, pembelian dan pembayaran otomatis terjurnal</p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Trial Balance */}
+        <TabsContent value="trial-balance">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                Neraca Saldo per {format(dateRange.to, 'dd MMM yyyy', { locale: id })}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex items-center justify-center py-8">
+                  <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Kode</TableHead>
+                        <TableHead>Akun</TableHead>
+                        <TableHead>Tipe</TableHead>
+                        <TableHead className="text-right">Debit</TableHead>
+                        <TableHead className="text-right">Credit</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trialBalance.map((row) => (
+                        <TableRow
+                          key={row.account_id}
+                          className="cursor-pointer"
+                          onClick={() => {
+                            setSelectedAccountId(row.account_id);
+                            setActiveTab('ledger');
+                          }}
+                        >
+                          <TableCell className="font-mono">{row.code}</TableCell>
+                          <TableCell>{row.name}</TableCell>
+                          <TableCell className="text-muted-foreground">{ACCOUNT_TYPE_LABELS[row.account_type]}</TableCell>
+                          <TableCell className="text-right">{row.debit > 0 ? formatPrice(row.debit) : '-'}</TableCell>
+                          <TableCell className="text-right">{row.credit > 0 ? formatPrice(row.credit) : '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={3} className="font-bold">Total</TableCell>
+                        <TableCell className="text-right font-bold">{formatPrice(totalDebit)}</TableCell>
+                        <TableCell className="text-right font-bold">{formatPrice(totalCredit)}</TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Financial Statements */}
+        <TabsContent value="statements">
+          <FinancialStatements period={dateRange} onPeriodChange={setDateRange} />
+        </TabsContent>
+
+        {/* Settlement Runs */}
+        <TabsContent value="settlements">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Riwayat Settlement</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {runsLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : runs.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">Belum ada settlement</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Hari Bisnis</TableHead>
+                        <TableHead>Dijalankan</TableHead>
+                        <TableHead>Pemicu</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Pesanan</TableHead>
+                        <TableHead className="text-right">Pendapatan</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {runs.map((run) => {
+                        const stats = run.stats as unknown as SettlementStats | null;
+                        return (
+                          <TableRow key={run.id}>
+                            <TableCell className="whitespace-nowrap">
+                              {format(new Date(`${run.business_date}T00:00:00`), 'dd MMM yyyy', { locale: id })}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap text-muted-foreground">
+                              {format(new Date(run.started_at), 'dd MMM HH:mm', { locale: id })}
+                            </TableCell>
+                            <TableCell>
+                              {SETTLEMENT_TRIGGER_LABELS[run.trigger as SettlementTrigger] || run.trigger}
+                              {run.profiles && <span className="text-muted-foreground"> · {run.profiles.full_name}</span>}
+                            </TableCell>
+                            <TableCell>
+                              {run.status === 'failed' ? (
+                                <Badge variant="destructive" title={run.error || undefined}>Gagal</Badge>
+                              ) : (
+                                <Badge variant="secondary">{run.status === 'succeeded' ? 'Berhasil' : 'Berjalan'}</Badge>
+                              )}
+                              {run.error && <p className="text-xs text-destructive mt-1">{run.error}</p>}
+                            </TableCell>
+                            <TableCell className="text-right">{stats?.total_orders ?? '-'}</TableCell>
+                            <TableCell className="text-right">{stats ? formatPrice(stats.total_revenue) : '-'}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Period Closing */}
+        <TabsContent value="closing">
+          <PeriodClosing accounts={accounts} onPosted={refetch} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { useBluetoothPrinter, BluetoothDevice } from '@/hooks/useBluetoothPrinter';
+import { useBluetoothPrinter, BluetoothDevice, PRINTER_STATIONS } from '@/hooks/useBluetoothPrinter';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
 import { Bluetooth, BluetoothSearching, Printer, CheckCircle, XCircle, Loader2, RefreshCw, TestTube, Link } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
@@ -19,11 +20,16 @@ export function BluetoothPrinterSettings({ isOpen, onClose }: BluetoothPrinterSe
     isPrinting,
     devices,
     error,
+    stationPrinters,
+    assignStationPrinter,
+    paperWidth,
+    setPaperWidth,
     scanDevices,
     connectPrinter,
     disconnectPrinter,
     testPrint,
   } = useBluetoothPrinter();
+  const { settings: restaurantSettings } = useRestaurantSettings();
 
   const [isConnecting, setIsConnecting] = useState<string | null>(null);
   const [isTesting, setIsTesting] = useState(false);
@@ -77,7 +83,7 @@ export function BluetoothPrinterSettings({ isOpen, onClose }: BluetoothPrinterSe
 
   const handleTestPrint = async () => {
     setIsTesting(true);
-    const success = await testPrint();
+    const success = await testPrint(restaurantSettings);
     setIsTesting(false);
     
     if (success) {
@@ -91,7 +97,7 @@ export function BluetoothPrinterSettings({ isOpen, onClose }: BluetoothPrinterSe
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in">
-      <div className="w-full max-w-md bg-card rounded-2xl border border-border shadow-2xl animate-scale-in">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-card rounded-2xl border border-border shadow-2xl animate-scale-in">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-border">
           <div className="flex items-center gap-2">
@@ -173,6 +179,63 @@ export function BluetoothPrinterSettings({ isOpen, onClose }: BluetoothPrinterSe
                 </div>
               )}
 
+              {/* Paper Width */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Lebar Kertas</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {([58, 80] as const).map(width => (
+                    <button
+                      key={width}
+                      onClick={() => setPaperWidth(width)}
+                      className={cn(
+                        "py-2 rounded-lg text-sm font-medium transition-all",
+                        paperWidth === width ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+                      )}
+                    >
+                      {width}mm
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Station Printers */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Printer per Stasiun</p>
+                {PRINTER_STATIONS.map(station => {
+                  const assigned = stationPrinters[station.id];
+                  return (
+                    <div key={station.id} className="flex items-center gap-2 p-2 rounded-lg bg-secondary/50">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium">{station.label}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {assigned ? `${assigned.name} (${assigned.address})` : 'Belum diatur'}
+                        </p>
+                      </div>
+                      {connectedDevice && connectedDevice.address !== assigned?.address && (
+                        <button
+                          onClick={() => assignStationPrinter(station.id, connectedDevice)}
+                          className="px-2 py-1 text-xs bg-primary/10 text-primary rounded-lg hover:bg-primary/20 transition-colors"
+                        >
+                          Pakai printer ini
+                        </button>
+                      )}
+                      {assigned && (
+                        <button
+                          onClick={() => assignStationPrinter(station.id, null)}
+                          className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                          title="Hapus"
+                        >
+                          <XCircle className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+                <p className="text-xs text-muted-foreground">
+                  Hubungkan printer, lalu pilih stasiunnya. Jika printer stasiun mati, tiket dicetak di printer lain.
+                </p>
+              </div>
+
               {/* Error Display */}
               {error && (
                 <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive text-sm">
@@ -1,16 +1,109 @@
-import { CartItem } from '@/hooks/useOrders';
-import { Minus, Plus, Trash2, ShoppingCart } from 'lucide-react';
+import { useState } from 'react';
+import { CartItem, Order } from '@/hooks/useOrders';
+import { Minus, Plus, Trash2, ShoppingCart, MapPin, Send, StickyNote, Tag, Percent, ShieldCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatModifiers } from '@/utils/receiptPrinter';
+import { AppliedPromotion, ManualDiscount } from '@/utils/promotions';
+
+// Quick-pick notes for lines and orders
+const NOTE_PRESETS = ['Bungkus', 'Tanpa kuah', 'Tidak pedas', 'Pisah sambal', 'Tanpa es'];
+
+// Toggle a preset in a comma separated note
+const togglePreset = (notes: string, preset: string) => {
+  const parts = notes.split(',').map(part => part.trim()).filter(Boolean);
+  const next = parts.includes(preset) ? parts.filter(part => part !== preset) : [...parts, preset];
+  return next.join(', ');
+};
+
+interface NoteEditorProps {
+  value: string;
+  placeholder: string;
+  onChange: (notes: string) => void;
+}
+
+function NoteEditor({ value, placeholder, onChange }: NoteEditorProps) {
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 rounded-lg bg-background border border-border text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      <div className="flex flex-wrap gap-1">
+        {NOTE_PRESETS.map(preset => {
+          const isActive = value.split(',').map(part => part.trim()).includes(preset);
+          return (
+            <button
+              key={preset}
+              type="button"
+              onClick={() => onChange(togglePreset(value, preset))}
+              className={cn(
+                "px-2 py-1 rounded-full text-xs font-medium transition-colors",
+                isActive ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground hover:bg-muted/80"
+              )}
+            >
+              {preset}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
 
 interface CartPanelProps {
   items: CartItem[];
+  orderNotes: string;
+  billTotal: number;
+  charges: { label: string; amount: number }[];
+  promotion: AppliedPromotion | null;
+  manualDiscount: ManualDiscount;
+  manualDiscountAmount: number;
+  approverName?: string | null;
+  needsApproval: boolean;
+  tableNumber?: number | null;
+  openOrder?: Order | null;
+  onOpenTables: () => void;
+  onSendToTable: () => void;
   onUpdateQuantity: (id: string, quantity: number) => void;
   onRemoveItem: (id: string) => void;
+  onUpdateNotes: (id: string, notes: string) => void;
+  onOrderNotesChange: (notes: string) => void;
+  onManualDiscountChange: (discount: ManualDiscount) => void;
+  onRequestApproval: () => void;
   onCheckout: () => void;
   onClear: () => void;
 }
 
-export function CartPanel({ items, onUpdateQuantity, onRemoveItem, onCheckout, onClear }: CartPanelProps) {
+export function CartPanel({
+  items,
+  orderNotes,
+  billTotal,
+  charges,
+  promotion,
+  manualDiscount,
+  manualDiscountAmount,
+  approverName,
+  needsApproval,
+  tableNumber,
+  openOrder,
+  onOpenTables,
+  onSendToTable,
+  onUpdateQuantity,
+  onRemoveItem,
+  onUpdateNotes,
+  onOrderNotesChange,
+  onManualDiscountChange,
+  onRequestApproval,
+  onCheckout,
+  onClear,
+}: CartPanelProps) {
+  const [noteLineId, setNoteLineId] = useState<string | null>(null);
+  const [isOrderNoteOpen, setIsOrderNoteOpen] = useState(false);
+  const [isDiscountOpen, setIsDiscountOpen] = useState(false);
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -21,6 +114,8 @@ export function CartPanel({ items, onUpdateQuantity, onRemoveItem, onCheckout, o
 
   const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
+  const openOrderItems = openOrder?.order_items?.reduce((sum, item) => sum + item.quantity, 0) || 0;
+  const canCheckout = items.length > 0 || !!openOrder;
 
   return (
     <div className="flex flex-col h-full bg-card rounded-xl border border-border/50">
@@ -45,50 +140,101 @@ export function CartPanel({ items, onUpdateQuantity, onRemoveItem, onCheckout, o
         )}
       </div>
 
+      {/* Table */}
+      <div className="px-3 pt-3 space-y-2">
+        <button
+          onClick={onOpenTables}
+          className="w-full flex items-center justify-between px-3 py-2 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors text-sm"
+        >
+          <span className="flex items-center gap-2 font-medium">
+            <MapPin className="w-4 h-4 text-primary" />
+            {tableNumber ? `Meja ${tableNumber}` : 'Bawa Pulang'}
+          </span>
+          <span className="text-primary text-xs font-medium">Ganti</span>
+        </button>
+
+        {openOrder && (
+          <div className="p-3 rounded-lg bg-primary/10 border border-primary/20 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Tagihan berjalan</span>
+              <span className="font-bold">{formatPrice(openOrder.total)}</span>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {openOrder.order_number} · {openOrderItems} item sudah dipesan
+            </p>
+          </div>
+        )}
+      </div>
+
       {/* Cart Items */}
       <div className="flex-1 overflow-y-auto p-3 space-y-2 no-scrollbar">
         {items.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-muted-foreground py-8">
             <ShoppingCart className="w-12 h-12 mb-3 opacity-30" />
-            <p className="text-sm">Belum ada pesanan</p>
+            <p className="text-sm">{openOrder ? 'Tambah pesanan untuk meja ini' : 'Belum ada pesanan'}</p>
           </div>
         ) : (
           items.map((item, index) => (
             <div
               key={item.id}
               className={cn(
-                "flex items-center gap-3 p-3 bg-secondary/50 rounded-lg animate-slide-in-right"
+                "p-3 bg-secondary/50 rounded-lg space-y-2 animate-slide-in-right"
               )}
               style={{ animationDelay: `${index * 50}ms` }}
             >
-              <div className="flex-1 min-w-0">
-                <h4 className="font-medium text-sm truncate">{item.name}</h4>
-                <p className="text-primary font-semibold text-sm">
-                  {formatPrice(item.price)}
-                </p>
-              </div>
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-medium text-sm truncate">{item.name}</h4>
+                  {formatModifiers(item.modifiers) && (
+                    <p className="text-xs text-muted-foreground truncate">{formatModifiers(item.modifiers)}</p>
+                  )}
+                  {item.notes && (
+                    <p className="text-xs italic text-muted-foreground truncate">"{item.notes}"</p>
+                  )}
+                  <p className="text-primary font-semibold text-sm">
+                    {formatPrice(item.price)}
+                  </p>
+                </div>
 
-              <div className="flex items-center gap-1">
-                <button
-                  onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
-                  className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-muted/80 transition-colors active:scale-95"
-                >
-                  <Minus className="w-4 h-4" />
-                </button>
-                <span className="w-8 text-center font-bold">{item.quantity}</span>
-                <button
-                  onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
-                  className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-muted/80 transition-colors active:scale-95"
-                >
-                  <Plus className="w-4 h-4" />
-                </button>
-                <button
-                  onClick={() => onRemoveItem(item.id)}
-                  className="w-8 h-8 flex items-center justify-center rounded-lg bg-destructive/10 text-destructive hover:bg-destructive/20 transition-colors active:scale-95 ml-1"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setNoteLineId(noteLineId === item.id ? null : item.id)}
+                    className={cn(
+                      "w-8 h-8 flex items-center justify-center rounded-lg transition-colors active:scale-95",
+                      item.notes || noteLineId === item.id ? "bg-primary/10 text-primary" : "bg-muted hover:bg-muted/80"
+                    )}
+                  >
+                    <StickyNote className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
+                    className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-muted/80 transition-colors active:scale-95"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </button>
+                  <span className="w-8 text-center font-bold">{item.quantity}</span>
+                  <button
+                    onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
+                    className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-muted/80 transition-colors active:scale-95"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onRemoveItem(item.id)}
+                    className="w-8 h-8 flex items-center justify-center rounded-lg bg-destructive/10 text-destructive hover:bg-destructive/20 transition-colors active:scale-95 ml-1"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
+
+              {noteLineId === item.id && (
+                <NoteEditor
+                  value={item.notes || ''}
+                  placeholder="Catatan item..."
+                  onChange={(notes) => onUpdateNotes(item.id, notes)}
+                />
+              )}
             </div>
           ))
         )}
@@ -96,23 +242,140 @@ export function CartPanel({ items, onUpdateQuantity, onRemoveItem, onCheckout, o
 
       {/* Footer */}
       <div className="p-4 border-t border-border/50 space-y-4">
-        <div className="flex items-center justify-between">
-          <span className="text-muted-foreground">Subtotal</span>
-          <span className="font-bold text-xl text-foreground">{formatPrice(subtotal)}</span>
+        {/* Order Note */}
+        <div className="space-y-2">
+          <button
+            onClick={() => setIsOrderNoteOpen(!isOrderNoteOpen)}
+            className="w-full flex items-center justify-between text-sm"
+          >
+            <span className="flex items-center gap-2 font-medium">
+              <StickyNote className="w-4 h-4 text-primary" />
+              Catatan Pesanan
+            </span>
+            <span className="text-xs text-muted-foreground truncate max-w-[60%]">
+              {orderNotes || 'Tambah'}
+            </span>
+          </button>
+          {isOrderNoteOpen && (
+            <NoteEditor
+              value={orderNotes}
+              placeholder="Catatan untuk seluruh pesanan..."
+              onChange={onOrderNotesChange}
+            />
+          )}
         </div>
 
+        {/* Manual Discount */}
+        <div className="space-y-2">
+          <button
+            onClick={() => setIsDiscountOpen(!isDiscountOpen)}
+            className="w-full flex items-center justify-between text-sm"
+          >
+            <span className="flex items-center gap-2 font-medium">
+              <Percent className="w-4 h-4 text-primary" />
+              Diskon Manual
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {manualDiscountAmount > 0 ? `-${formatPrice(manualDiscountAmount)}` : 'Tambah'}
+            </span>
+          </button>
+          {isDiscountOpen && (
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                value={manualDiscount.value || ''}
+                onChange={(e) => onManualDiscountChange({ ...manualDiscount, value: Math.max(0, parseInt(e.target.value) || 0) })}
+                placeholder={manualDiscount.mode === 'percent' ? 'Persen' : 'Nominal'}
+                className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-background border border-border text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              {(['amount', 'percent'] as const).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => onManualDiscountChange({ ...manualDiscount, mode })}
+                  className={cn(
+                    "px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+                    manualDiscount.mode === mode ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground hover:bg-muted/80"
+                  )}
+                >
+                  {mode === 'amount' ? 'Rp' : '%'}
+                </button>
+              ))}
+            </div>
+          )}
+          {manualDiscountAmount > 0 && (needsApproval ? (
+            <button
+              onClick={onRequestApproval}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-destructive/10 text-destructive text-xs font-medium"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Perlu persetujuan admin
+            </button>
+          ) : approverName && (
+            <p className="flex items-center gap-1 text-xs text-success">
+              <ShieldCheck className="w-3 h-3" />
+              Disetujui {approverName}
+            </p>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">{openOrder ? 'Pesanan Baru' : 'Subtotal'}</span>
+            <span className="font-bold text-xl text-foreground">{formatPrice(subtotal)}</span>
+          </div>
+          {promotion && (
+            <div className="flex items-center justify-between text-sm text-success">
+              <span className="flex items-center gap-1 min-w-0">
+                <Tag className="w-3 h-3 shrink-0" />
+                <span className="truncate">{promotion.promotion.name}</span>
+              </span>
+              <span>-{formatPrice(promotion.amount)}</span>
+            </div>
+          )}
+          {manualDiscountAmount > 0 && (
+            <div className="flex items-center justify-between text-sm text-success">
+              <span>Diskon</span>
+              <span>-{formatPrice(manualDiscountAmount)}</span>
+            </div>
+          )}
+          {charges.map(charge => (
+            <div key={charge.label} className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>{charge.label}</span>
+              <span>{formatPrice(charge.amount)}</span>
+            </div>
+          ))}
+        </div>
+
+        {tableNumber && (
+          <button
+            onClick={onSendToTable}
+            disabled={items.length === 0}
+            className={cn(
+              "w-full py-3 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all active:scale-95",
+              items.length > 0
+                ? "bg-secondary text-foreground hover:bg-secondary/80"
+                : "bg-muted text-muted-foreground cursor-not-allowed"
+            )}
+          >
+            <Send className="w-4 h-4" />
+            {openOrder ? 'Tambah ke Tagihan Meja' : 'Buka Tagihan Meja'}
+          </button>
+        )}
+
         <button
           onClick={onCheckout}
-          disabled={items.length === 0}
+          disabled={!canCheckout}
           className={cn(
             "w-full py-4 rounded-xl font-bold text-lg transition-all duration-200",
             "active:scale-95 touch-action-pan-y",
-            items.length > 0
+            canCheckout
               ? "bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg shadow-primary/25 animate-pulse-glow"
               : "bg-muted text-muted-foreground cursor-not-allowed"
           )}
         >
-          Bayar {formatPrice(subtotal)}
+          Bayar {formatPrice(billTotal)}
         </button>
       </div>
     </div>
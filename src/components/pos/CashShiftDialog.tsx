@@ -0,0 +1,391 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { id as idLocale } from 'date-fns/locale';
+import { Wallet, XCircle, ArrowDownCircle, ArrowUpCircle, Printer, Loader2, Lock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { formatPrice } from '@/utils/receiptPrinter';
+import { CASH_DENOMINATIONS, countCash, DenominationCounts } from '@/utils/shiftReport';
+import { CashMovementType, CashShiftSummary, useCashShift, usePrintShiftReport } from '@/hooks/useCashShift';
+
+interface CashShiftDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FLOAT_PRESETS = [100000, 200000, 300000, 500000];
+const MOVEMENT_REASONS: Record<CashMovementType, string[]> = {
+  cash_in: ['Tambah uang kembalian', 'Setoran pemilik'],
+  cash_out: ['Beli es batu', 'Bayar pemasok', 'Beli gas', 'Setor ke bank'],
+};
+
+const inputClass = 'w-full px-3 py-2 rounded-lg bg-secondary border border-border focus:outline-none focus:ring-2 focus:ring-primary';
+
+function SummaryRow({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className={cn("flex justify-between text-sm", className)}>
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  );
+}
+
+function VarianceBadge({ variance }: { variance: number }) {
+  return (
+    <span
+      className={cn(
+        "font-bold",
+        variance === 0 && "text-success",
+        variance > 0 && "text-blue-500",
+        variance < 0 && "text-destructive"
+      )}
+    >
+      {variance === 0 ? 'Pas' : `${variance > 0 ? '+' : '-'}${formatPrice(Math.abs(variance))}`}
+    </span>
+  );
+}
+
+export function CashShiftDialog({ isOpen, onClose }: CashShiftDialogProps) {
+  const { summary, loading, refetch, openShift, recordMovement, closeShift } = useCashShift();
+  const printShiftReport = usePrintShiftReport();
+
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movementType, setMovementType] = useState<CashMovementType>('cash_out');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+  const [counts, setCounts] = useState<DenominationCounts>({});
+  const [closingNotes, setClosingNotes] = useState('');
+  const [closedSummary, setClosedSummary] = useState<CashShiftSummary | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Sales keep landing in the shift while the dialog is closed
+  useEffect(() => {
+    if (!isOpen) return;
+    refetch().catch(error => console.error('Error fetching cash shift:', error));
+  }, [isOpen, refetch]);
+
+  if (!isOpen) return null;
+
+  const counted = countCash(counts);
+
+  const handleClose = () => {
+    setIsClosing(false);
+    setCounts({});
+    setClosingNotes('');
+    setClosedSummary(null);
+    onClose();
+  };
+
+  const submit = async (action: () => Promise<unknown>, errorMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(errorMessage, error);
+      toast.error(errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenShift = () =>
+    submit(async () => {
+      await openShift(parseInt(openingFloat) || 0);
+      setOpeningFloat('');
+      toast.success('Shift dibuka');
+    }, 'Gagal membuka shift');
+
+  const handleRecordMovement = () => {
+    const amount = parseInt(movementAmount) || 0;
+    if (amount <= 0 || !movementReason.trim()) {
+      toast.error('Isi jumlah dan alasan');
+      return;
+    }
+    return submit(async () => {
+      await recordMovement(movementType, amount, movementReason.trim());
+      setMovementAmount('');
+      setMovementReason('');
+      toast.success(movementType === 'cash_in' ? 'Kas masuk dicatat' : 'Kas keluar dicatat');
+    }, 'Gagal mencatat kas');
+  };
+
+  const handleCloseShift = () =>
+    submit(async () => {
+      const result = await closeShift(counts, closingNotes.trim());
+      setClosedSummary(result);
+      setIsClosing(false);
+      setCounts({});
+      setClosingNotes('');
+      toast.success('Shift ditutup');
+      printShiftReport(result).catch(error => console.error('Print error:', error));
+    }, 'Gagal menutup shift');
+
+  const setCount = (denomination: number, value: string) =>
+    setCounts(prev => ({ ...prev, [denomination]: Math.max(0, parseInt(value) || 0) }));
+
+  const renderOpenForm = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Hitung uang di laci sebelum mulai berjualan dan catat sebagai modal awal.
+      </p>
+      <div className="grid grid-cols-4 gap-2">
+        {FLOAT_PRESETS.map(amount => (
+          <button
+            key={amount}
+            onClick={() => setOpeningFloat(String(amount))}
+            className={cn(
+              "py-2 rounded-lg text-xs font-medium transition-all",
+              openingFloat === String(amount) ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+            )}
+          >
+            {formatPrice(amount)}
+          </button>
+        ))}
+      </div>
+      <input
+        type="number"
+        inputMode="numeric"
+        value={openingFloat}
+        onChange={(e) => setOpeningFloat(e.target.value)}
+        placeholder="Modal awal"
+        className={inputClass}
+      />
+      <button
+        onClick={handleOpenShift}
+        disabled={isSubmitting}
+        className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-semibold hover:bg-primary/90 transition-all active:scale-95 disabled:opacity-50"
+      >
+        {isSubmitting ? <Loader2 className="w-5 h-5 mx-auto animate-spin" /> : 'Buka Shift'}
+      </button>
+    </div>
+  );
+
+  const renderSummary = (current: CashShiftSummary) => (
+    <div className="p-4 rounded-xl bg-secondary/50 space-y-1.5">
+      <SummaryRow label="Modal awal" value={formatPrice(current.shift.opening_float)} />
+      <SummaryRow label={`Penjualan tunai (${current.order_count} transaksi)`} value={formatPrice(current.cash_sales)} />
+      {current.cash_refunds > 0 && <SummaryRow label="Refund tunai" value={`-${formatPrice(current.cash_refunds)}`} />}
+      {current.cash_voids > 0 && <SummaryRow label="Void tunai" value={`-${formatPrice(current.cash_voids)}`} />}
+      <SummaryRow label="Kas masuk" value={formatPrice(current.cash_in)} />
+      <SummaryRow label="Kas keluar" value={`-${formatPrice(current.cash_out)}`} />
+      <div className="flex justify-between pt-2 border-t border-border">
+        <span className="font-semibold">Kas seharusnya</span>
+        <span className="font-bold text-primary">{formatPrice(current.expected_cash)}</span>
+      </div>
+    </div>
+  );
+
+  const renderOverview = (current: CashShiftSummary) => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {current.shift.cashier_name} · dibuka {format(new Date(current.shift.opened_at), 'dd MMM HH:mm', { locale: idLocale })}
+      </p>
+
+      {renderSummary(current)}
+
+      {/* Cash in / out */}
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            { id: 'cash_out', label: 'Kas Keluar', icon: ArrowUpCircle },
+            { id: 'cash_in', label: 'Kas Masuk', icon: ArrowDownCircle },
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setMovementType(id)}
+              className={cn(
+                "flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all",
+                movementType === id ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+              )}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {MOVEMENT_REASONS[movementType].map(reason => (
+            <button
+              key={reason}
+              onClick={() => setMovementReason(reason)}
+              className="px-2 py-1 rounded-md text-xs bg-secondary hover:bg-secondary/80"
+            >
+              {reason}
+            </button>
+          ))}
+        </div>
+        <input
+          value={movementReason}
+          onChange={(e) => setMovementReason(e.target.value)}
+          placeholder="Alasan"
+          className={inputClass}
+        />
+        <div className="flex gap-2">
+          <input
+            type="number"
+            inputMode="numeric"
+            value={movementAmount}
+            onChange={(e) => setMovementAmount(e.target.value)}
+            placeholder="Jumlah"
+            className={cn(inputClass, "flex-1 min-w-0")}
+          />
+          <button
+            onClick={handleRecordMovement}
+            disabled={isSubmitting}
+            className="px-4 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-all active:scale-95 disabled:opacity-50"
+          >
+            Catat
+          </button>
+        </div>
+      </div>
+
+      {current.movements.length > 0 && (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {[...current.movements].reverse().map(movement => (
+            <div key={movement.id} className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                {format(new Date(movement.created_at), 'HH:mm')} · {movement.reason}
+              </span>
+              <span className={movement.movement_type === 'cash_in' ? 'text-success' : 'text-destructive'}>
+                {movement.movement_type === 'cash_in' ? '+' : '-'}{formatPrice(movement.amount)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => printShiftReport(current)}
+          className="flex items-center justify-center gap-2 py-3 rounded-xl bg-secondary hover:bg-secondary/80 font-medium transition-all active:scale-95"
+        >
+          <Printer className="w-4 h-4" />
+          Cetak Sementara
+        </button>
+        <button
+          onClick={() => setIsClosing(true)}
+          className="flex items-center justify-center gap-2 py-3 rounded-xl bg-destructive text-destructive-foreground font-medium hover:bg-destructive/90 transition-all active:scale-95"
+        >
+          <Lock className="w-4 h-4" />
+          Tutup Shift
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderCloseForm = (current: CashShiftSummary) => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">Hitung uang di laci per pecahan.</p>
+      <div className="grid grid-cols-2 gap-2">
+        {CASH_DENOMINATIONS.map(denomination => (
+          <label key={denomination} className="flex items-center gap-2 p-2 rounded-lg bg-secondary/50">
+            <span className="flex-1 text-sm font-medium">{formatPrice(denomination)}</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={counts[denomination] || ''}
+              onChange={(e) => setCount(denomination, e.target.value)}
+              placeholder="0"
+              className="w-16 px-2 py-1 rounded-md bg-background border border-border text-right focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="p-4 rounded-xl bg-secondary/50 space-y-1.5">
+        <SummaryRow label="Kas seharusnya" value={formatPrice(current.expected_cash)} />
+        <SummaryRow label="Kas dihitung" value={formatPrice(counted)} />
+        <div className="flex justify-between pt-2 border-t border-border">
+          <span className="font-semibold">Selisih</span>
+          <VarianceBadge variance={counted - current.expected_cash} />
+        </div>
+      </div>
+
+      <textarea
+        value={closingNotes}
+        onChange={(e) => setClosingNotes(e.target.value)}
+        placeholder="Catatan (opsional), misalnya penjelasan selisih"
+        rows={2}
+        className={cn(inputClass, "resize-none")}
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => setIsClosing(false)}
+          className="py-3 rounded-xl bg-secondary hover:bg-secondary/80 font-medium transition-all"
+        >
+          Kembali
+        </button>
+        <button
+          onClick={handleCloseShift}
+          disabled={isSubmitting}
+          className="py-3 rounded-xl bg-destructive text-destructive-foreground font-semibold hover:bg-destructive/90 transition-all active:scale-95 disabled:opacity-50"
+        >
+          {isSubmitting ? <Loader2 className="w-5 h-5 mx-auto animate-spin" /> : 'Tutup & Cetak'}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderClosed = (closed: CashShiftSummary) => (
+    <div className="space-y-4">
+      {renderSummary(closed)}
+      <div className="p-4 rounded-xl bg-secondary/50 space-y-1.5">
+        <SummaryRow label="Kas dihitung" value={formatPrice(closed.shift.counted_cash || 0)} />
+        <div className="flex justify-between">
+          <span className="font-semibold">Selisih</span>
+          <VarianceBadge variance={closed.shift.variance || 0} />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => printShiftReport(closed)}
+          className="flex items-center justify-center gap-2 py-3 rounded-xl bg-secondary hover:bg-secondary/80 font-medium transition-all active:scale-95"
+        >
+          <Printer className="w-4 h-4" />
+          Cetak Ulang
+        </button>
+        <button
+          onClick={handleClose}
+          className="py-3 rounded-xl bg-primary text-primary-foreground font-semibold hover:bg-primary/90 transition-all active:scale-95"
+        >
+          Selesai
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderBody = () => {
+    if (closedSummary) return renderClosed(closedSummary);
+    if (loading) {
+      return <Loader2 className="w-6 h-6 mx-auto my-8 animate-spin text-muted-foreground" />;
+    }
+    if (!summary) return renderOpenForm();
+    return isClosing ? renderCloseForm(summary) : renderOverview(summary);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-card rounded-2xl border border-border shadow-2xl animate-scale-in">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-bold">
+              {closedSummary ? 'Shift Ditutup' : summary ? (isClosing ? 'Tutup Shift' : 'Shift Kas') : 'Buka Shift'}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-muted transition-colors"
+          >
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4">{renderBody()}</div>
+      </div>
+    </div>
+  );
+}
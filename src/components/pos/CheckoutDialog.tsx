@@ -1,25 +1,55 @@
 import { useState, useEffect } from 'react';
-import { CartItem } from '@/hooks/useOrders';
+import { CartItem, Order, OrderSplit, PaymentTender, SplitPayment, orderItemToCartItem } from '@/hooks/useOrders';
 import { RestaurantTable } from '@/hooks/useTables';
-import { X, Banknote, CreditCard, QrCode, MapPin, ArrowLeft, CheckCircle, Loader2 } from 'lucide-react';
+import { X, Banknote, CreditCard, QrCode, MapPin, ArrowLeft, CheckCircle, Loader2, Split } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useBluetoothPrinter } from '@/hooks/useBluetoothPrinter';
-import { printReceipt as webPrintReceipt } from '@/utils/receiptPrinter';
+import { printReceipt as webPrintReceipt, formatModifiers } from '@/utils/receiptPrinter';
+import { ReceiptData } from '@/utils/receiptDocument';
+import { getDigitalReceiptUrl } from '@/utils/receiptDelivery';
+import { DigitalReceiptSender } from './DigitalReceiptSender';
+import { getChargeLines } from '@/utils/billTotals';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
 import { QrisPaymentDialog } from './QrisPaymentDialog';
+import { SplitBillPanel } from './SplitBillPanel';
+import { toast } from 'sonner';
 
 interface CheckoutDialogProps {
   isOpen: boolean;
   onClose: () => void;
   items: CartItem[];
   total: number;
+  discounts?: { label: string; amount: number }[];
+  charges?: { label: string; amount: number }[];
   tables: RestaurantTable[];
   selectedTable: string | null;
   onSelectTable: (tableId: string | null) => void;
-  onComplete: (paymentMethod: 'cash' | 'transfer' | 'qris', amountPaid: number) => void;
+  lockTable?: boolean;
+  onComplete: (payments: PaymentTender[]) => Promise<Order>;
+  onFinish: () => void;
+  onPrepareSplit: () => Promise<Order>;
+  onPaySplit: (orderId: string, split: SplitPayment) => Promise<Order>;
+  onCancelSplit?: (order: Order) => Promise<void>;
 }
 
+// Receipt lines come from the persisted order so settled tabs include every round
+const getOrderLines = (order: Order, fallback: CartItem[]): CartItem[] =>
+  order.order_items?.map(orderItemToCartItem) ?? fallback;
+
+// Lines covered by an item share; other share types reprint the whole bill
+const getSplitLines = (order: Order, split: OrderSplit): CartItem[] => {
+  const picks = (split.items as { order_item_id: string; quantity: number }[] | null) || [];
+  if (picks.length === 0) return getOrderLines(order, []);
+
+  return picks.flatMap(pick => {
+    const item = order.order_items?.find(i => i.id === pick.order_item_id);
+    return item
+      ? [{ ...orderItemToCartItem(item), quantity: pick.quantity }]
+      : [];
+  });
+};
+
 const quickCashOptions = [20000, 50000, 100000, 200000];
 
 const paymentMethods = [
@@ -28,21 +58,36 @@ const paymentMethods = [
   { id: 'transfer' as const, label: 'Transfer', icon: CreditCard },
 ];
 
+const paymentMethodLabel: Record<string, string> = {
+  cash: 'Tunai',
+  transfer: 'Transfer',
+  qris: 'QRIS',
+};
+
 export function CheckoutDialog({
   isOpen,
   onClose,
   items,
   total,
+  discounts,
+  charges,
   tables,
   selectedTable,
   onSelectTable,
+  lockTable = false,
   onComplete,
+  onFinish,
+  onPrepareSplit,
+  onPaySplit,
+  onCancelSplit,
 }: CheckoutDialogProps) {
   const [paymentMethod, setPaymentMethod] = useState<'cash' | 'transfer' | 'qris'>('cash');
   const [amountPaid, setAmountPaid] = useState<number>(total);
+  const [tenders, setTenders] = useState<PaymentTender[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [receiptData, setReceiptData] = useState<{
+    order: Order;
     paymentMethod: 'cash' | 'transfer' | 'qris';
     amountPaid: number;
     change: number;
@@ -51,6 +96,12 @@ export function CheckoutDialog({
   // QRIS states
   const [showQrisPayment, setShowQrisPayment] = useState(false);
   const [tempOrderId, setTempOrderId] = useState('');
+  const [qrisAmount, setQrisAmount] = useState(0);
+
+  // Split bill states
+  const [splitOrder, setSplitOrder] = useState<Order | null>(null);
+  const [isPreparingSplit, setIsPreparingSplit] = useState(false);
+  const [pendingQrisShare, setPendingQrisShare] = useState<SplitPayment | null>(null);
 
   // Bluetooth printer hook
   const bluetoothPrinter = useBluetoothPrinter();
@@ -65,144 +116,264 @@ export function CheckoutDialog({
     }).format(price);
   };
 
-  const change = paymentMethod === 'cash' ? Math.max(0, amountPaid - total) : 0;
+  // Tenders already added cover part of the bill; the amount being entered pays the rest.
+  // Only cash may exceed what is left and produce change.
+  const paidSoFar = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  const remaining = Math.max(0, total - paidSoFar);
   const isCashPayment = paymentMethod === 'cash';
   const isQrisPayment = paymentMethod === 'qris';
-  const canConfirm = !isCashPayment || amountPaid >= total;
-
-  // Reset received amount when dialog opens or total changes
+  const currentAmount = isCashPayment ? amountPaid : Math.min(amountPaid, remaining);
+  const coversRemaining = currentAmount >= remaining;
+  const change = isCashPayment ? amountPaid - remaining : 0;
+  // Tenders can cover the bill on their own when a tab shrinks while they are being taken
+  const tendersCoverBill = tenders.length > 0 && remaining === 0;
+  const canConfirm = currentAmount > 0 || tendersCoverBill;
+  // The order already exists once split mode starts, so its table can no longer change
+  const isTableLocked = lockTable || !!splitOrder;
+
+  // Start from a clean payment when the dialog opens
   useEffect(() => {
     if (isOpen) {
-      setAmountPaid(total);
+      setTenders([]);
       setShowQrisPayment(false);
       // Generate a temporary order ID for QRIS
       setTempOrderId(crypto.randomUUID());
     }
-  }, [isOpen, total]);
+  }, [isOpen]);
 
-  const handleComplete = async () => {
-    if (paymentMethod === 'qris') {
-      setShowQrisPayment(true);
-      return;
+  // A tab can change while the dialog is open (another device adds a round); tenders taken so
+  // far stay and only the amount still to pay follows the new total
+  useEffect(() => {
+    if (isOpen) {
+      setAmountPaid(Math.max(0, total - tenders.reduce((sum, tender) => sum + tender.amount, 0)));
     }
+  }, [isOpen, total]);
 
-    if (paymentMethod === 'cash' && amountPaid < total) return;
-
-    setIsProcessing(true);
-    
+  const buildReceiptData = (
+    order: Order,
+    lines: CartItem[],
+    method: 'cash' | 'transfer' | 'qris',
+    paid: number,
+    changeAmount: number
+  ): ReceiptData => {
     const tableNum = selectedTable ? tables.find(t => t.id === selectedTable)?.table_number : undefined;
-    const finalAmountPaid = paymentMethod === 'cash' ? amountPaid : total;
-    const changeAmount = paymentMethod === 'cash' ? Math.max(0, amountPaid - total) : 0;
 
-    // Build receipt data
-    const receiptPrintData = {
-      orderNumber: `ORD-${Date.now()}`,
+    return {
+      orderNumber: order.order_number,
       cashierName: fullName || 'Kasir',
       tableNumber: tableNum,
-      items: items,
-      subtotal: total,
-      discount: 0,
-      total: total,
-      paymentMethod,
-      amountPaid: finalAmountPaid,
+      items: lines,
+      subtotal: order.subtotal,
+      discount: order.discount || 0,
+      promotionName: order.promotion_name || undefined,
+      charges: getChargeLines({ serviceCharge: order.service_charge, tax: order.tax, rounding: order.rounding }, order),
+      total: order.total,
+      paymentMethod: method,
+      amountPaid: paid,
       change: changeAmount,
-      timestamp: new Date(),
-      restaurantSettings: restaurantSettings ? {
-        restaurant_name: restaurantSettings.restaurant_name,
-        address_line1: restaurantSettings.address_line1,
-        address_line2: restaurantSettings.address_line2,
-        address_line3: restaurantSettings.address_line3,
-        whatsapp_number: restaurantSettings.whatsapp_number,
-        instagram_handle: restaurantSettings.instagram_handle,
-        footer_message: restaurantSettings.footer_message,
-      } : undefined,
+      timestamp: new Date(order.created_at),
+      notes: order.notes || undefined,
+      receiptUrl: getDigitalReceiptUrl(order.receipt_token),
     };
+  };
 
+  const printReceiptData = async (receiptPrintData: ReceiptData) => {
     // Print receipt immediately using Bluetooth printer if connected
     try {
       if (bluetoothPrinter.isNative && bluetoothPrinter.isConnected) {
-        const btSuccess = await bluetoothPrinter.printReceipt(receiptPrintData);
+        const btSuccess = await bluetoothPrinter.printReceipt(receiptPrintData, restaurantSettings);
         if (!btSuccess) {
           // Fallback to web print if Bluetooth fails
-          webPrintReceipt(receiptPrintData);
+          webPrintReceipt(receiptPrintData, restaurantSettings);
         }
       } else {
-        webPrintReceipt(receiptPrintData);
+        webPrintReceipt(receiptPrintData, restaurantSettings);
       }
     } catch (error) {
       console.error('Print error:', error);
-      webPrintReceipt(receiptPrintData);
+      webPrintReceipt(receiptPrintData, restaurantSettings);
     }
+  };
+
+  // Print the receipt of a persisted order so the printed number and tenders match the database
+  const printOrderReceipt = (order: Order) =>
+    printReceiptData({
+      ...buildReceiptData(
+        order,
+        getOrderLines(order, items),
+        order.payment_method || 'cash',
+        order.amount_paid || 0,
+        order.change_amount || 0
+      ),
+      payments: order.order_payments?.map(payment => ({
+        paymentMethod: payment.payment_method,
+        amount: payment.amount_tendered,
+      })),
+    });
+
+  // Each paid share gets its own receipt, totalled at the share amount
+  const printSplitReceipt = (order: Order, split: OrderSplit) => {
+    const lines = getSplitLines(order, split);
+    const lineTotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+    const isItemShare = split.split_type === 'items';
+
+    return printReceiptData({
+      ...buildReceiptData(order, lines, split.payment_method, split.amount_paid, split.change_amount),
+      subtotal: isItemShare ? lineTotal : order.total,
+      discount: isItemShare ? Math.max(0, lineTotal - split.amount) : 0,
+      total: split.amount,
+      splitLabel: order.status === 'completed'
+        ? `Bagian ${split.split_number} dari ${order.order_splits?.length ?? split.split_number}`
+        : `Bagian ${split.split_number}`,
+    });
+  };
+
+  // Add a tender; the order is saved once the tenders cover the whole bill
+  const applyTender = async (tender: PaymentTender | null) => {
+    const nextTenders = tender ? [...tenders, tender] : tenders;
+
+    if (tender && tender.amount < remaining) {
+      setTenders(nextTenders);
+      setAmountPaid(remaining - tender.amount);
+      return;
+    }
+
+    setIsProcessing(true);
+
+    let order: Order;
+    try {
+      order = await onComplete(nextTenders);
+    } catch {
+      setIsProcessing(false);
+      return;
+    }
+
+    await printOrderReceipt(order);
 
     setIsProcessing(false);
+    setTenders(nextTenders);
     setReceiptData({
-      paymentMethod,
-      amountPaid: finalAmountPaid,
-      change: changeAmount,
+      order,
+      paymentMethod: order.payment_method || nextTenders[nextTenders.length - 1].paymentMethod,
+      amountPaid: order.amount_paid || 0,
+      change: order.change_amount || 0,
     });
     setShowReceipt(true);
   };
 
+  const handleComplete = async () => {
+    if (!canConfirm) return;
+
+    if (tendersCoverBill) {
+      await applyTender(null);
+      return;
+    }
+
+    if (paymentMethod === 'qris') {
+      setQrisAmount(currentAmount);
+      setShowQrisPayment(true);
+      return;
+    }
+
+    await applyTender({ paymentMethod, amount: currentAmount });
+  };
+
+  const handleRemoveTender = (index: number) => {
+    setTenders(prev => prev.filter((_, i) => i !== index));
+    setAmountPaid(remaining + tenders[index].amount);
+  };
+
   const handleQrisPaymentSuccess = async () => {
     setShowQrisPayment(false);
-    
-    const tableNum = selectedTable ? tables.find(t => t.id === selectedTable)?.table_number : undefined;
+    // Each QRIS payment needs its own reference
+    setTempOrderId(crypto.randomUUID());
 
-    // Build receipt data
-    const receiptPrintData = {
-      orderNumber: `ORD-${Date.now()}`,
-      cashierName: fullName || 'Kasir',
-      tableNumber: tableNum,
-      items: items,
-      subtotal: total,
-      discount: 0,
-      total: total,
-      paymentMethod: 'qris' as const,
-      amountPaid: total,
-      change: 0,
-      timestamp: new Date(),
-      restaurantSettings: restaurantSettings ? {
-        restaurant_name: restaurantSettings.restaurant_name,
-        address_line1: restaurantSettings.address_line1,
-        address_line2: restaurantSettings.address_line2,
-        address_line3: restaurantSettings.address_line3,
-        whatsapp_number: restaurantSettings.whatsapp_number,
-        instagram_handle: restaurantSettings.instagram_handle,
-        footer_message: restaurantSettings.footer_message,
-      } : undefined,
-    };
+    if (pendingQrisShare) {
+      const share = pendingQrisShare;
+      setPendingQrisShare(null);
+      await paySplitShare(share);
+      return;
+    }
+
+    await applyTender({ paymentMethod: 'qris', amount: qrisAmount });
+  };
 
-    // Print receipt
+  const handleStartSplit = async () => {
+    setIsPreparingSplit(true);
     try {
-      if (bluetoothPrinter.isNative && bluetoothPrinter.isConnected) {
-        const btSuccess = await bluetoothPrinter.printReceipt(receiptPrintData);
-        if (!btSuccess) {
-          webPrintReceipt(receiptPrintData);
-        }
-      } else {
-        webPrintReceipt(receiptPrintData);
-      }
-    } catch (error) {
-      console.error('Print error:', error);
-      webPrintReceipt(receiptPrintData);
+      setSplitOrder(await onPrepareSplit());
+    } catch {
+      // The caller already reported the error
+    } finally {
+      setIsPreparingSplit(false);
     }
+  };
 
-    setReceiptData({
-      paymentMethod: 'qris',
-      amountPaid: total,
-      change: 0,
-    });
-    setShowReceipt(true);
+  const paySplitShare = async (share: SplitPayment) => {
+    if (!splitOrder) return;
+
+    setIsProcessing(true);
+    let order: Order;
+    try {
+      order = await onPaySplit(splitOrder.id, share);
+    } catch {
+      setIsProcessing(false);
+      return;
+    }
+
+    const paidSplit = order.order_splits?.[order.order_splits.length - 1];
+    if (paidSplit) {
+      await printSplitReceipt(order, paidSplit);
+    }
+
+    setIsProcessing(false);
+    setSplitOrder(order);
+
+    if (order.status === 'completed') {
+      setReceiptData({
+        order,
+        paymentMethod: order.payment_method || share.paymentMethod,
+        amountPaid: order.amount_paid || 0,
+        change: order.change_amount || 0,
+      });
+      setShowReceipt(true);
+    }
   };
 
-  const handleBackToMenu = () => {
-    if (receiptData) {
-      onComplete(receiptData.paymentMethod, receiptData.amountPaid);
+  const handlePayShare = (share: SplitPayment) => {
+    if (share.paymentMethod === 'qris') {
+      setPendingQrisShare(share);
+      setShowQrisPayment(true);
+      return;
+    }
+    paySplitShare(share);
+  };
+
+  // Leaving split mode is only possible before the first share is paid
+  const handleCancelSplit = async () => {
+    if (!splitOrder) return true;
+
+    if ((splitOrder.order_splits?.length ?? 0) > 0) {
+      toast.error('Selesaikan pembayaran semua bagian terlebih dahulu');
+      return false;
+    }
+
+    if (onCancelSplit) {
+      await onCancelSplit(splitOrder);
     }
+    setSplitOrder(null);
+    return true;
+  };
+
+  const handleBackToMenu = () => {
+    onFinish();
     // Reset all states
+    setSplitOrder(null);
+    setPendingQrisShare(null);
     setShowReceipt(false);
     setReceiptData(null);
     setAmountPaid(0);
+    setTenders([]);
     setPaymentMethod('cash');
     setShowQrisPayment(false);
   };
@@ -212,13 +383,22 @@ export function CheckoutDialog({
   };
 
   const handleExactAmount = () => {
-    setAmountPaid(total);
+    setAmountPaid(remaining);
   };
 
   // Reset states when dialog closes
-  const handleClose = () => {
+  const handleClose = async () => {
+    if (splitOrder && !(await handleCancelSplit())) return;
+
+    // Partial tenders exist only here until the bill is covered; a charged QRIS would be lost
+    if (tenders.length > 0 && !showReceipt) {
+      toast.error('Selesaikan pembayaran atau hapus pembayaran sebagian terlebih dahulu');
+      return;
+    }
+
     if (!showReceipt && !showQrisPayment) {
       setAmountPaid(0);
+      setTenders([]);
       setPaymentMethod('cash');
       onClose();
     }
@@ -231,12 +411,16 @@ export function CheckoutDialog({
     return (
       <QrisPaymentDialog
         open={showQrisPayment}
-        onClose={() => setShowQrisPayment(false)}
+        onClose={() => {
+          setShowQrisPayment(false);
+          setPendingQrisShare(null);
+        }}
         onPaymentSuccess={handleQrisPaymentSuccess}
-        orderId={tempOrderId}
-        total={total}
+        orderId={pendingQrisShare && splitOrder ? `${splitOrder.id}-${(splitOrder.order_splits?.length ?? 0) + 1}` : tempOrderId}
+        total={pendingQrisShare ? pendingQrisShare.amount : qrisAmount}
         customerName={fullName || undefined}
-        cart={items}
+        // Item details must add up to the charged amount, so partial, discounted or taxed payments send none
+        cart={!pendingQrisShare && qrisAmount === total && !discounts?.length && !charges?.length ? items : []}
       />
     );
   }
@@ -267,6 +451,12 @@ export function CheckoutDialog({
 
             {/* Receipt Details */}
             <div className="bg-secondary/50 rounded-xl p-4 space-y-3">
+              {/* Order Number */}
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">No. Order</span>
+                <span className="font-mono font-medium">{receiptData.order.order_number}</span>
+              </div>
+
               {/* Table */}
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Meja</span>
@@ -275,7 +465,7 @@ export function CheckoutDialog({
 
               {/* Items */}
               <div className="border-t border-border pt-3 space-y-2">
-                {items.map((item) => (
+                {getOrderLines(receiptData.order, items).map((item) => (
                   <div key={item.id} className="flex justify-between text-sm">
                     <span>
                       {item.quantity}x {item.name}
@@ -289,36 +479,73 @@ export function CheckoutDialog({
               <div className="border-t border-border pt-3">
                 <div className="flex justify-between">
                   <span className="font-semibold">Total</span>
-                  <span className="font-bold text-primary">{formatPrice(total)}</span>
+                  <span className="font-bold text-primary">{formatPrice(receiptData.order.total)}</span>
                 </div>
               </div>
 
-              {/* Payment Method */}
-              <div className="border-t border-border pt-3">
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Metode Pembayaran</span>
-                  <span className="font-medium capitalize">
-                    {receiptData.paymentMethod === 'cash' ? 'Tunai' : 
-                     receiptData.paymentMethod === 'transfer' ? 'Transfer' : 'QRIS'}
-                  </span>
+              {/* Split Shares */}
+              {(receiptData.order.order_splits?.length ?? 0) > 0 && (
+                <div className="border-t border-border pt-3 space-y-2">
+                  {receiptData.order.order_splits?.map(split => (
+                    <div key={split.id} className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        Bagian {split.split_number} ({split.payment_method === 'cash' ? 'Tunai' :
+                          split.payment_method === 'transfer' ? 'Transfer' : 'QRIS'})
+                      </span>
+                      <span className="font-medium">{formatPrice(split.amount)}</span>
+                    </div>
+                  ))}
                 </div>
-                {receiptData.paymentMethod === 'cash' && (
-                  <>
+              )}
+
+              {/* Payment Method */}
+              {!receiptData.order.order_splits?.length && (
+                <div className="border-t border-border pt-3">
+                  {(receiptData.order.order_payments?.length ?? 0) > 1 ? (
+                    receiptData.order.order_payments?.map(payment => (
+                      <div key={payment.id} className="flex justify-between text-sm mt-2 first:mt-0">
+                        <span className="text-muted-foreground">{paymentMethodLabel[payment.payment_method]}</span>
+                        <span className="font-medium">{formatPrice(payment.amount_tendered)}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Metode Pembayaran</span>
+                      <span className="font-medium capitalize">
+                        {receiptData.paymentMethod === 'cash' ? 'Tunai' : 
+                         receiptData.paymentMethod === 'transfer' ? 'Transfer' : 'QRIS'}
+                      </span>
+                    </div>
+                  )}
+                  {(receiptData.order.order_payments?.length ?? 0) > 1 && receiptData.change > 0 && (
                     <div className="flex justify-between text-sm mt-2">
-                      <span className="text-muted-foreground">Dibayar</span>
-                      <span className="font-medium">{formatPrice(receiptData.amountPaid)}</span>
+                      <span className="text-muted-foreground">Kembalian</span>
+                      <span className="font-bold text-green-500">{formatPrice(receiptData.change)}</span>
                     </div>
-                    {receiptData.change > 0 && (
+                  )}
+                  {(receiptData.order.order_payments?.length ?? 0) <= 1 && receiptData.paymentMethod === 'cash' && (
+                    <>
                       <div className="flex justify-between text-sm mt-2">
-                        <span className="text-muted-foreground">Kembalian</span>
-                        <span className="font-bold text-green-500">{formatPrice(receiptData.change)}</span>
+                        <span className="text-muted-foreground">Dibayar</span>
+                        <span className="font-medium">{formatPrice(receiptData.amountPaid)}</span>
                       </div>
-                    )}
-                  </>
-                )}
-              </div>
+                      {receiptData.change > 0 && (
+                        <div className="flex justify-between text-sm mt-2">
+                          <span className="text-muted-foreground">Kembalian</span>
+                          <span className="font-bold text-green-500">{formatPrice(receiptData.change)}</span>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
             </div>
 
+            <DigitalReceiptSender
+              order={receiptData.order}
+              restaurantName={restaurantSettings?.restaurant_name}
+            />
+
             {/* Back to Menu Button */}
             <button
               onClick={handleBackToMenu}
@@ -352,169 +579,277 @@ export function CheckoutDialog({
           <div>
             <label className="text-sm font-medium text-muted-foreground flex items-center gap-2 mb-2">
               <MapPin className="w-4 h-4" />
-              Pilih Meja (Opsional)
+              {isTableLocked ? 'Meja' : 'Pilih Meja (Opsional)'}
             </label>
-            <div className="flex flex-wrap gap-2">
-              <button
-                onClick={() => onSelectTable(null)}
-                className={cn(
-                  "px-4 py-2 rounded-lg font-medium text-sm transition-all",
-                  selectedTable === null
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-muted text-muted-foreground hover:bg-muted/80"
-                )}
-              >
-                Bawa Pulang
-              </button>
-              {tables.filter(t => t.status === 'available').map((table) => (
+            {isTableLocked ? (
+              <div className="px-4 py-2 rounded-lg font-medium text-sm bg-primary/10 text-primary inline-block">
+                {selectedTable
+                  ? `Meja ${tables.find(t => t.id === selectedTable)?.table_number} · Tagihan Terbuka`
+                  : 'Bawa Pulang'}
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
                 <button
-                  key={table.id}
-                  onClick={() => onSelectTable(table.id)}
+                  onClick={() => onSelectTable(null)}
                   className={cn(
                     "px-4 py-2 rounded-lg font-medium text-sm transition-all",
-                    selectedTable === table.id
+                    selectedTable === null
                       ? "bg-primary text-primary-foreground"
                       : "bg-muted text-muted-foreground hover:bg-muted/80"
                   )}
                 >
-                  Meja {table.table_number}
+                  Bawa Pulang
                 </button>
-              ))}
-            </div>
-          </div>
-
-          {/* Order Summary */}
-          <div className="bg-secondary/50 rounded-xl p-4 space-y-2">
-            <h4 className="font-medium text-sm text-muted-foreground">Ringkasan Pesanan</h4>
-            {items.map(item => (
-              <div key={item.id} className="flex justify-between text-sm">
-                <span>
-                  {item.name} x{item.quantity}
-                </span>
-                <span>{formatPrice(item.price * item.quantity)}</span>
-              </div>
-            ))}
-            <div className="border-t border-border pt-2 mt-2">
-              <div className="flex justify-between font-bold text-lg">
-                <span>Total</span>
-                <span className="text-primary">{formatPrice(total)}</span>
-              </div>
-            </div>
-          </div>
-
-          {/* Payment Method */}
-          <div className="space-y-3">
-            <label className="text-sm font-medium text-muted-foreground">Metode Pembayaran</label>
-            <div className="grid grid-cols-3 gap-2">
-              {paymentMethods.map(method => {
-                const Icon = method.icon;
-                return (
+                {tables.filter(t => t.status === 'available').map((table) => (
                   <button
-                    key={method.id}
-                    type="button"
-                    onClick={() => setPaymentMethod(method.id)}
+                    key={table.id}
+                    onClick={() => onSelectTable(table.id)}
                     className={cn(
-                      "flex flex-col items-center gap-2 p-4 rounded-xl transition-all",
-                      paymentMethod === method.id
-                        ? "bg-primary text-primary-foreground shadow-lg"
+                      "px-4 py-2 rounded-lg font-medium text-sm transition-all",
+                      selectedTable === table.id
+                        ? "bg-primary text-primary-foreground"
                         : "bg-muted text-muted-foreground hover:bg-muted/80"
                     )}
                   >
-                    <Icon className="h-6 w-6" />
-                    <span className="text-sm font-medium">{method.label}</span>
+                    Meja {table.table_number}
                   </button>
-                );
-              })}
-            </div>
+                ))}
+              </div>
+            )}
           </div>
 
-          {/* QRIS Info */}
-          {isQrisPayment && (
-            <div className="p-4 bg-primary/10 rounded-xl border border-primary/20">
-              <div className="flex items-center gap-3">
-                <QrCode className="h-8 w-8 text-primary" />
-                <div>
-                  <p className="font-medium text-sm">Pembayaran QRIS</p>
-                  <p className="text-xs text-muted-foreground">
-                    QR code akan ditampilkan setelah konfirmasi
-                  </p>
+          {splitOrder ? (
+            <SplitBillPanel order={splitOrder} isProcessing={isProcessing} onPayShare={handlePayShare} />
+          ) : (
+            <>
+              {/* Order Summary */}
+              <div className="bg-secondary/50 rounded-xl p-4 space-y-2">
+                <h4 className="font-medium text-sm text-muted-foreground">Ringkasan Pesanan</h4>
+                {items.map(item => (
+                  <div key={item.id} className="flex justify-between text-sm">
+                    <span>
+                      {item.name} x{item.quantity}
+                      {formatModifiers(item.modifiers) && (
+                        <span className="block text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</span>
+                      )}
+                      {item.notes && (
+                        <span className="block text-xs italic text-muted-foreground">"{item.notes}"</span>
+                      )}
+                    </span>
+                    <span>{formatPrice(item.price * item.quantity)}</span>
+                  </div>
+                ))}
+                {discounts?.map(discount => (
+                  <div key={discount.label} className="flex justify-between text-sm text-success">
+                    <span>{discount.label}</span>
+                    <span>-{formatPrice(discount.amount)}</span>
+                  </div>
+                ))}
+                {charges?.map(charge => (
+                  <div key={charge.label} className="flex justify-between text-sm text-muted-foreground">
+                    <span>{charge.label}</span>
+                    <span>{formatPrice(charge.amount)}</span>
+                  </div>
+                ))}
+                <div className="border-t border-border pt-2 mt-2">
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Total</span>
+                    <span className="text-primary">{formatPrice(total)}</span>
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
 
-          {/* Cash Payment - Received Amount */}
-          {isCashPayment && (
-            <div className="space-y-3 p-4 bg-secondary/50 rounded-xl">
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Uang Diterima *</label>
-                <input
-                  type="number"
-                  value={amountPaid}
-                  onChange={(e) => setAmountPaid(parseFloat(e.target.value) || 0)}
-                  placeholder="Masukkan jumlah uang..."
-                  className="w-full px-4 py-3 rounded-lg bg-background border border-border text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-primary"
-                  min={0}
-                />
-              </div>
+              {/* Tenders added so far */}
+              {tenders.length > 0 && (
+                <div className="bg-secondary/50 rounded-xl p-4 space-y-2">
+                  <h4 className="font-medium text-sm text-muted-foreground">Pembayaran Diterima</h4>
+                  {tenders.map((tender, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm">
+                      <span>{paymentMethodLabel[tender.paymentMethod]}</span>
+                      <div className="flex items-center gap-2">
+                        <span>{formatPrice(tender.amount)}</span>
+                        {/* A QRIS payment has already been charged and cannot be taken back here */}
+                        {tender.paymentMethod !== 'qris' && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveTender(index)}
+                            className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-muted transition-colors"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="border-t border-border pt-2 flex justify-between font-bold">
+                    <span>Sisa</span>
+                    <span className="text-primary">{formatPrice(remaining)}</span>
+                  </div>
+                </div>
+              )}
 
-              {/* Quick Amount Buttons */}
-              <div className="flex flex-wrap gap-2">
-                <button
-                  type="button"
-                  onClick={handleExactAmount}
-                  className="px-3 py-2 text-xs font-medium bg-muted rounded-lg hover:bg-muted/80 transition-colors"
-                >
-                  Uang Pas
-                </button>
-                {quickCashOptions.map(amount => (
-                  <button
-                    key={amount}
-                    type="button"
-                    onClick={() => handleQuickCash(amount)}
-                    className="px-3 py-2 text-xs font-medium bg-muted rounded-lg hover:bg-muted/80 transition-colors"
-                  >
-                    {formatPrice(amount)}
-                  </button>
-                ))}
+              {/* Payment Method */}
+              <div className="space-y-3">
+                <label className="text-sm font-medium text-muted-foreground">Metode Pembayaran</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {paymentMethods.map(method => {
+                    const Icon = method.icon;
+                    return (
+                      <button
+                        key={method.id}
+                        type="button"
+                        onClick={() => setPaymentMethod(method.id)}
+                        className={cn(
+                          "flex flex-col items-center gap-2 p-4 rounded-xl transition-all",
+                          paymentMethod === method.id
+                            ? "bg-primary text-primary-foreground shadow-lg"
+                            : "bg-muted text-muted-foreground hover:bg-muted/80"
+                        )}
+                      >
+                        <Icon className="h-6 w-6" />
+                        <span className="text-sm font-medium">{method.label}</span>
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
 
-              {/* Change Amount Display */}
-              {amountPaid > 0 && (
-                <div className={cn(
-                  "p-4 rounded-xl text-center",
-                  change >= 0 ? "bg-green-500/10" : "bg-destructive/10"
-                )}>
-                  <p className="text-sm text-muted-foreground">Kembalian</p>
-                  <p className={cn(
-                    "text-2xl font-bold",
-                    change >= 0 ? "text-green-500" : "text-destructive"
-                  )}>
-                    {change >= 0 ? formatPrice(change) : `Kurang ${formatPrice(Math.abs(change))}`}
-                  </p>
+              {/* Non-cash Amount - may cover only part of the bill */}
+              {!isCashPayment && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Nominal {paymentMethodLabel[paymentMethod]}</label>
+                  <input
+                    type="number"
+                    value={amountPaid}
+                    onChange={(e) => setAmountPaid(Math.min(remaining, parseFloat(e.target.value) || 0))}
+                    className="w-full px-4 py-3 rounded-lg bg-background border border-border text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-primary"
+                    min={0}
+                    max={remaining}
+                  />
                 </div>
               )}
-            </div>
+
+              {/* QRIS Info */}
+              {isQrisPayment && (
+                <div className="p-4 bg-primary/10 rounded-xl border border-primary/20">
+                  <div className="flex items-center gap-3">
+                    <QrCode className="h-8 w-8 text-primary" />
+                    <div>
+                      <p className="font-medium text-sm">Pembayaran QRIS</p>
+                      <p className="text-xs text-muted-foreground">
+                        QR code akan ditampilkan setelah konfirmasi
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Cash Payment - Received Amount */}
+              {isCashPayment && (
+                <div className="space-y-3 p-4 bg-secondary/50 rounded-xl">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Uang Diterima *</label>
+                    <input
+                      type="number"
+                      value={amountPaid}
+                      onChange={(e) => setAmountPaid(parseFloat(e.target.value) || 0)}
+                      placeholder="Masukkan jumlah uang..."
+                      className="w-full px-4 py-3 rounded-lg bg-background border border-border text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-primary"
+                      min={0}
+                    />
+                  </div>
+
+                  {/* Quick Amount Buttons */}
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={handleExactAmount}
+                      className="px-3 py-2 text-xs font-medium bg-muted rounded-lg hover:bg-muted/80 transition-colors"
+                    >
+                      Uang Pas
+                    </button>
+                    {quickCashOptions.map(amount => (
+                      <button
+                        key={amount}
+                        type="button"
+                        onClick={() => handleQuickCash(amount)}
+                        className="px-3 py-2 text-xs font-medium bg-muted rounded-lg hover:bg-muted/80 transition-colors"
+                      >
+                        {formatPrice(amount)}
+                      </button>
+                    ))}
+                  </div>
+
+                  {/* Change Amount Display */}
+                  {amountPaid > 0 && (
+                    <div className={cn(
+                      "p-4 rounded-xl text-center",
+                      change >= 0 ? "bg-green-500/10" : "bg-destructive/10"
+                    )}>
+                      <p className="text-sm text-muted-foreground">Kembalian</p>
+                      <p className={cn(
+                        "text-2xl font-bold",
+                        change >= 0 ? "text-green-500" : "text-destructive"
+                      )}>
+                        {change >= 0 ? formatPrice(change) : `Kurang ${formatPrice(Math.abs(change))}`}
+                      </p>
+                      {change < 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Sisanya dapat dibayar dengan metode lain
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
           )}
         </div>
 
         {/* Footer */}
         <div className="p-4 border-t border-border space-y-2">
-          <button
-            onClick={handleComplete}
-            disabled={isProcessing || !canConfirm}
-            className={cn(
-              "w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all active:scale-95",
-              canConfirm
-                ? "bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg"
-                : "bg-muted text-muted-foreground cursor-not-allowed"
-            )}
-          >
-            {isProcessing ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : null}
-            {isProcessing ? 'Memproses...' : isQrisPayment ? 'Tampilkan QRIS' : 'Konfirmasi & Cetak Struk'}
-          </button>
+          {splitOrder ? (
+            <button
+              onClick={handleCancelSplit}
+              disabled={isProcessing || (splitOrder.order_splits?.length ?? 0) > 0}
+              className="w-full py-3 rounded-xl font-medium flex items-center justify-center gap-2 bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95 disabled:opacity-50"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Bayar Sekaligus
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={handleComplete}
+                disabled={isProcessing || !canConfirm}
+                className={cn(
+                  "w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all active:scale-95",
+                  canConfirm
+                    ? "bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg"
+                    : "bg-muted text-muted-foreground cursor-not-allowed"
+                )}
+              >
+                {isProcessing ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : null}
+                {isProcessing
+                  ? 'Memproses...'
+                  : tendersCoverBill
+                    ? 'Konfirmasi & Cetak Struk'
+                    : !coversRemaining
+                    ? (isQrisPayment ? 'Tampilkan QRIS Sebagian' : 'Tambah Pembayaran')
+                    : isQrisPayment ? 'Tampilkan QRIS' : 'Konfirmasi & Cetak Struk'}
+              </button>
+              <button
+                onClick={handleStartSplit}
+                disabled={isProcessing || isPreparingSplit || total <= 0 || tenders.length > 0}
+                className="w-full py-3 rounded-xl font-medium flex items-center justify-center gap-2 bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-all active:scale-95"
+              >
+                {isPreparingSplit ? <Loader2 className="w-4 h-4 animate-spin" /> : <Split className="w-4 h-4" />}
+                Split Bill
+              </button>
+            </>
+          )}
           <button
             onClick={handleClose}
             className="w-full py-3 rounded-xl font-medium flex items-center justify-center gap-2 bg-muted text-muted-foreground hover:bg-muted/80 transition-all active:scale-95"
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Order } from '@/hooks/useOrders';
+import { MessageCircle, Mail, Send, Loader2, Copy } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  getDigitalReceiptUrl,
+  getReceiptDeliveryProvider,
+  isValidRecipient,
+  ReceiptChannel,
+} from '@/utils/receiptDelivery';
+import { toast } from 'sonner';
+
+interface DigitalReceiptSenderProps {
+  order: Order;
+  restaurantName?: string;
+}
+
+const channels: { id: ReceiptChannel; label: string; icon: typeof Mail; placeholder: string }[] = [
+  { id: 'whatsapp', label: 'WhatsApp', icon: MessageCircle, placeholder: '0812-XXXX-XXXX' },
+  { id: 'email', label: 'Email', icon: Mail, placeholder: 'nama@email.com' },
+];
+
+// Sends the link to the order's public receipt page for customers who skip the paper copy
+export function DigitalReceiptSender({ order, restaurantName }: DigitalReceiptSenderProps) {
+  const [channel, setChannel] = useState<ReceiptChannel>('whatsapp');
+  const [recipient, setRecipient] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const url = getDigitalReceiptUrl(order.receipt_token);
+  const canSend = !isSending && isValidRecipient(channel, recipient);
+  const current = channels.find(c => c.id === channel)!;
+
+  const handleSend = async () => {
+    if (!canSend) return;
+    setIsSending(true);
+    try {
+      await getReceiptDeliveryProvider().send(
+        {
+          orderId: order.id,
+          orderNumber: order.order_number,
+          restaurantName: restaurantName || 'RM.MINANG MAIMBAOE',
+          url,
+        },
+        channel,
+        recipient
+      );
+      toast.success('Struk digital dikirim');
+      setRecipient('');
+    } catch (error) {
+      console.error('Digital receipt error:', error);
+      toast.error('Gagal mengirim struk digital');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link struk disalin');
+    } catch {
+      toast.error('Gagal menyalin link');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-muted-foreground">Kirim Struk Digital</span>
+        <button
+          onClick={handleCopy}
+          className="flex items-center gap-1 text-xs text-primary hover:underline"
+        >
+          <Copy className="w-3 h-3" />
+          Salin link
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {channels.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setChannel(id)}
+            className={cn(
+              "flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all",
+              channel === id ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+            )}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type={channel === 'email' ? 'email' : 'tel'}
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+          placeholder={current.placeholder}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-secondary border border-border focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <button
+          onClick={handleSend}
+          disabled={!canSend}
+          className={cn(
+            "px-4 rounded-lg flex items-center gap-2 font-medium transition-all active:scale-95",
+            canSend ? "bg-primary text-primary-foreground hover:bg-primary/90" : "bg-muted text-muted-foreground cursor-not-allowed"
+          )}
+        >
+          {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          Kirim
+        </button>
+      </div>
+    </div>
+  );
+}
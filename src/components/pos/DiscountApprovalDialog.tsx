@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { X, ShieldCheck, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/utils/receiptPrinter';
+
+interface DiscountApprovalDialogProps {
+  isOpen: boolean;
+  amount: number;
+  onClose: () => void;
+  onVerify: (pin: string) => Promise<string>;
+  onApproved: (pin: string, approverName: string) => void;
+}
+
+export function DiscountApprovalDialog({ isOpen, amount, onClose, onVerify, onApproved }: DiscountApprovalDialogProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPin('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async () => {
+    if (pin.length < 4 || isVerifying) return;
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const approverName = await onVerify(pin);
+      onApproved(pin, approverName);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      setError(message.includes('Too many') ? 'Terlalu banyak percobaan PIN, coba lagi nanti' : 'PIN salah');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-sm bg-card rounded-2xl border border-border shadow-2xl animate-scale-in">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+            <h2 className="text-xl font-bold">Persetujuan Admin</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-muted transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Diskon manual {formatPrice(amount)} melebihi batas kasir. Minta admin memasukkan PIN persetujuan.
+          </p>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            maxLength={8}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            placeholder="PIN admin"
+            className="w-full px-4 py-3 rounded-xl bg-secondary border border-border text-center text-2xl tracking-widest focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          {error && <p className="text-sm text-destructive text-center">{error}</p>}
+          <button
+            onClick={handleSubmit}
+            disabled={pin.length < 4 || isVerifying}
+            className={cn(
+              "w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all active:scale-95",
+              pin.length >= 4 && !isVerifying
+                ? "bg-primary text-primary-foreground hover:bg-primary/90"
+                : "bg-muted text-muted-foreground cursor-not-allowed"
+            )}
+          >
+            {isVerifying && <Loader2 className="w-4 h-4 animate-spin" />}
+            Setujui Diskon
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
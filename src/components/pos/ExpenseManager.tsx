@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+  useExpenses,
+  ExpenseCategory,
+  ExpensePaymentSource,
+  RecurringExpense,
+  RecurringFrequency,
+  FREQUENCY_LABELS,
+  PAYMENT_SOURCE_LABELS,
+} from '@/hooks/useExpenses';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, Receipt, Repeat, Tags, History, Camera, ImageIcon, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/utils/receiptPrinter';
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const emptyExpense = () => ({
+  category_id: '',
+  description: '',
+  amount: '',
+  payment_source: 'cash_drawer' as ExpensePaymentSource,
+  expense_date: today(),
+  shift_id: '',
+});
+
+const emptyRecurring = () => ({
+  category_id: '',
+  description: '',
+  amount: '',
+  payment_source: 'bank' as ExpensePaymentSource,
+  frequency: 'monthly' as RecurringFrequency,
+  start_date: today(),
+});
+
+export function ExpenseManager() {
+  const {
+    categories,
+    expenses,
+    recurring,
+    expenseAccounts,
+    openShifts,
+    addCategory,
+    updateCategory,
+    recordExpense,
+    getReceiptUrl,
+    addRecurringExpense,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+  } = useExpenses();
+  const [newExpense, setNewExpense] = useState(emptyExpense);
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newRecurring, setNewRecurring] = useState(emptyRecurring);
+  const [newCategory, setNewCategory] = useState({ name: '', account_id: '' });
+
+  const activeCategories = categories.filter(category => category.is_active);
+  const categoryName = (id: string) => categories.find(category => category.id === id)?.name ?? '-';
+  const accountName = (id: string) => {
+    const account = expenseAccounts.find(a => a.id === id);
+    return account ? `${account.code} ${account.name}` : '-';
+  };
+
+  const currentMonth = format(new Date(), 'yyyy-MM');
+  const monthTotal = expenses
+    .filter(expense => expense.expense_date.startsWith(currentMonth))
+    .reduce((sum, expense) => sum + expense.amount, 0);
+
+  const handleRecordExpense = async () => {
+    const amount = parseInt(newExpense.amount);
+    if (!newExpense.category_id) { toast.error('Pilih kategori'); return; }
+    if (!newExpense.description.trim()) { toast.error('Masukkan keterangan'); return; }
+    if (!(amount > 0)) { toast.error('Masukkan jumlah'); return; }
+
+    setIsSaving(true);
+    try {
+      await recordExpense({
+        categoryId: newExpense.category_id,
+        amount,
+        paymentSource: newExpense.payment_source,
+        expenseDate: newExpense.expense_date,
+        description: newExpense.description.trim(),
+        shiftId: newExpense.payment_source === 'cash_drawer' ? newExpense.shift_id || null : null,
+        receipt,
+      });
+      setNewExpense(emptyExpense());
+      setReceipt(null);
+      toast.success('Biaya berhasil dicatat');
+    } catch { toast.error('Gagal mencatat biaya'); }
+    finally { setIsSaving(false); }
+  };
+
+  const handleViewReceipt = async (path: string) => {
+    try {
+      window.open(await getReceiptUrl(path), '_blank');
+    } catch { toast.error('Gagal membuka foto nota'); }
+  };
+
+  const handleAddRecurring = async () => {
+    const amount = parseInt(newRecurring.amount);
+    if (!newRecurring.category_id) { toast.error('Pilih kategori'); return; }
+    if (!newRecurring.description.trim()) { toast.error('Masukkan keterangan'); return; }
+    if (!(amount > 0)) { toast.error('Masukkan jumlah'); return; }
+    try {
+      await addRecurringExpense({
+        categoryId: newRecurring.category_id,
+        description: newRecurring.description.trim(),
+        amount,
+        paymentSource: newRecurring.payment_source,
+        frequency: newRecurring.frequency,
+        startDate: newRecurring.start_date,
+      });
+      setNewRecurring(emptyRecurring());
+      toast.success('Biaya rutin berhasil ditambahkan');
+    } catch { toast.error('Gagal menambahkan biaya rutin'); }
+  };
+
+  const handleToggleRecurring = async (item: RecurringExpense) => {
+    try {
+      await updateRecurringExpense(item.id, { is_active: !item.is_active });
+    } catch { toast.error('Gagal mengubah biaya rutin'); }
+  };
+
+  const handleDeleteRecurring = async (item: RecurringExpense) => {
+    if (!confirm(`Hapus biaya rutin "${item.description}"? Biaya yang sudah tercatat tetap ada.`)) return;
+    try {
+      await deleteRecurringExpense(item.id);
+      toast.success('Biaya rutin dihapus');
+    } catch { toast.error('Gagal menghapus biaya rutin'); }
+  };
+
+  const handleAddCategory = async () => {
+    if (!newCategory.name.trim()) { toast.error('Masukkan nama kategori'); return; }
+    const accountId = newCategory.account_id || expenseAccounts.find(a => a.code === '6101')?.id;
+    if (!accountId) { toast.error('Pilih akun beban'); return; }
+    try {
+      await addCategory(newCategory.name.trim(), accountId);
+      setNewCategory({ name: '', account_id: '' });
+      toast.success('Kategori berhasil ditambahkan');
+    } catch { toast.error('Gagal menambahkan kategori'); }
+  };
+
+  const handleToggleCategory = async (category: ExpenseCategory) => {
+    try {
+      await updateCategory(category.id, { is_active: !category.is_active });
+    } catch { toast.error('Gagal mengubah kategori'); }
+  };
+
+  const paymentSourceButtons = (value: ExpensePaymentSource, onChange: (source: ExpensePaymentSource) => void) => (
+    <div className="flex gap-2">
+      {(Object.keys(PAYMENT_SOURCE_LABELS) as ExpensePaymentSource[]).map(source => (
+        <button
+          key={source}
+          onClick={() => onChange(source)}
+          className={cn(
+            "px-4 py-2 rounded-lg text-sm font-medium transition-all",
+            value === source ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+          )}
+        >
+          {PAYMENT_SOURCE_LABELS[source]}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Record Expense */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+        <div className="flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Catat Biaya</h3>
+        </div>
+        <div className="flex gap-3 flex-wrap">
+          <select value={newExpense.category_id} onChange={(e) => setNewExpense({ ...newExpense, category_id: e.target.value })} className="flex-1 min-w-[160px] px-3 py-2 rounded-lg bg-secondary border border-border">
+            <option value="">Pilih kategori</option>
+            {activeCategories.map((category) => <option key={category.id} value={category.id}>{category.name}</option>)}
+          </select>
+          <Input placeholder="Keterangan (mis. Gas 3 tabung)" value={newExpense.description} onChange={(e) => setNewExpense({ ...newExpense, description: e.target.value })} className="flex-1 min-w-[200px]" />
+          <Input placeholder="Jumlah" type="number" value={newExpense.amount} onChange={(e) => setNewExpense({ ...newExpense, amount: e.target.value })} className="w-36" />
+          <Input type="date" value={newExpense.expense_date} onChange={(e) => setNewExpense({ ...newExpense, expense_date: e.target.value })} className="w-44" />
+        </div>
+        <div className="flex gap-3 flex-wrap items-center">
+          {paymentSourceButtons(newExpense.payment_source, (source) => setNewExpense({ ...newExpense, payment_source: source }))}
+          {newExpense.payment_source === 'cash_drawer' && (
+            <select value={newExpense.shift_id} onChange={(e) => setNewExpense({ ...newExpense, shift_id: e.target.value })} className="flex-1 min-w-[200px] px-3 py-2 rounded-lg bg-secondary border border-border">
+              <option value="">Shift saya (jika ada yang buka)</option>
+              {openShifts.map((shift) => (
+                <option key={shift.id} value={shift.id}>
+                  Laci {shift.cashier_name} · buka {new Date(shift.opened_at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex gap-3 flex-wrap items-center">
+          <label className="flex items-center gap-2 px-4 py-2 rounded-lg bg-secondary hover:bg-secondary/80 cursor-pointer text-sm font-medium">
+            <Camera className="w-4 h-4" />
+            {receipt ? receipt.name : 'Foto Nota'}
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              onChange={(e) => setReceipt(e.target.files?.[0] ?? null)}
+            />
+          </label>
+          {receipt && (
+            <button onClick={() => setReceipt(null)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+          )}
+          <div className="flex-1" />
+          <Button onClick={handleRecordExpense} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Simpan Biaya
+          </Button>
+        </div>
+      </div>
+
+      {/* Recurring Expenses */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+        <div className="flex items-center gap-2">
+          <Repeat className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Biaya Rutin</h3>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Dicatat otomatis saat jatuh tempo. Biaya rutin dari laci kas tidak mengurangi kas shift mana pun.
+        </p>
+        <div className="flex gap-3 flex-wrap">
+          <select value={newRecurring.category_id} onChange={(e) => setNewRecurring({ ...newRecurring, category_id: e.target.value })} className="flex-1 min-w-[160px] px-3 py-2 rounded-lg bg-secondary border border-border">
+            <option value="">Pilih kategori</option>
+            {activeCategories.map((category) => <option key={category.id} value={category.id}>{category.name}</option>)}
+          </select>
+          <Input placeholder="Keterangan (mis. Sewa ruko)" value={newRecurring.description} onChange={(e) => setNewRecurring({ ...newRecurring, description: e.target.value })} className="flex-1 min-w-[200px]" />
+          <Input placeholder="Jumlah" type="number" value={newRecurring.amount} onChange={(e) => setNewRecurring({ ...newRecurring, amount: e.target.value })} className="w-36" />
+        </div>
+        <div className="flex gap-3 flex-wrap items-center">
+          {paymentSourceButtons(newRecurring.payment_source, (source) => setNewRecurring({ ...newRecurring, payment_source: source }))}
+          <select value={newRecurring.frequency} onChange={(e) => setNewRecurring({ ...newRecurring, frequency: e.target.value as RecurringFrequency })} className="px-3 py-2 rounded-lg bg-secondary border border-border">
+            {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map(frequency => (
+              <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+            ))}
+          </select>
+          <Input type="date" value={newRecurring.start_date} onChange={(e) => setNewRecurring({ ...newRecurring, start_date: e.target.value })} className="w-44" />
+          <Button variant="outline" onClick={handleAddRecurring}><Plus className="w-4 h-4 mr-2" />Tambah</Button>
+        </div>
+        <div className="divide-y divide-border rounded-lg border border-border">
+          {recurring.length === 0 ? (
+            <div className="p-4 text-center text-sm text-muted-foreground">Belum ada biaya rutin</div>
+          ) : recurring.map((item) => (
+            <div key={item.id} className="flex items-center gap-3 p-3 flex-wrap">
+              <div className={cn("flex-1 min-w-[160px]", !item.is_active && "opacity-50")}>
+                <div className="font-medium">{item.description}</div>
+                <div className="text-xs text-muted-foreground">
+                  {categoryName(item.category_id)} · {FREQUENCY_LABELS[item.frequency as RecurringFrequency]} · {PAYMENT_SOURCE_LABELS[item.payment_source as ExpensePaymentSource]}
+                </div>
+              </div>
+              <div className="text-right text-sm">
+                <div className="font-semibold">{formatPrice(item.amount)}</div>
+                <div className="text-xs text-muted-foreground">Berikutnya {new Date(item.next_due_date).toLocaleDateString('id-ID')}</div>
+              </div>
+              <Switch checked={item.is_active} onCheckedChange={() => handleToggleRecurring(item)} />
+              <button onClick={() => handleDeleteRecurring(item)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Categories */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+        <div className="flex items-center gap-2">
+          <Tags className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Kategori Biaya</h3>
+        </div>
+        <div className="flex gap-3 flex-wrap">
+          <Input placeholder="Nama kategori" value={newCategory.name} onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })} className="flex-1 min-w-[180px]" />
+          <select value={newCategory.account_id} onChange={(e) => setNewCategory({ ...newCategory, account_id: e.target.value })} className="flex-1 min-w-[180px] px-3 py-2 rounded-lg bg-secondary border border-border">
+            <option value="">Akun: 6101 Beban Operasional</option>
+            {expenseAccounts.map((account) => <option key={account.id} value={account.id}>{account.code} {account.name}</option>)}
+          </select>
+          <Button onClick={handleAddCategory}><Plus className="w-4 h-4 mr-2" />Tambah</Button>
+        </div>
+        <div className="divide-y divide-border rounded-lg border border-border">
+          {categories.map((category) => (
+            <div key={category.id} className="flex items-center gap-3 p-3">
+              <div className={cn("flex-1", !category.is_active && "opacity-50")}>
+                <div className="font-medium">{category.name}</div>
+                <div className="text-xs text-muted-foreground">{accountName(category.account_id)}</div>
+              </div>
+              <Switch checked={category.is_active} onCheckedChange={() => handleToggleCategory(category)} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Expense History */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold flex-1">Riwayat Biaya</h3>
+          <span className="text-sm text-muted-foreground">Bulan ini <span className="font-semibold text-foreground">{formatPrice(monthTotal)}</span></span>
+        </div>
+        <div className="divide-y divide-border rounded-lg border border-border">
+          {expenses.length === 0 ? (
+            <div className="p-4 text-center text-sm text-muted-foreground">Belum ada biaya</div>
+          ) : expenses.map((expense) => (
+            <div key={expense.id} className="flex items-center gap-3 p-3 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">
+                  {expense.description}
+                  {expense.recurring_expense_id && <Repeat className="inline w-3 h-3 ml-1 text-muted-foreground" />}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(expense.expense_date).toLocaleDateString('id-ID')} · {categoryName(expense.category_id)} · {PAYMENT_SOURCE_LABELS[expense.payment_source as ExpensePaymentSource]}
+                </div>
+              </div>
+              {expense.receipt_path && (
+                <button onClick={() => handleViewReceipt(expense.receipt_path!)} className="p-2 hover:bg-secondary rounded-lg" title="Lihat nota">
+                  <ImageIcon className="w-4 h-4" />
+                </button>
+              )}
+              <span className="font-semibold text-destructive w-28 text-right">{formatPrice(expense.amount)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
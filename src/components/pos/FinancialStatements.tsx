@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { endOfMonth, startOfMonth, subMonths } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, FileDown, FileSpreadsheet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { useFinancialStatements } from '@/hooks/useFinancialStatements';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import type { FinancialStatement, StatementPeriod } from '@/utils/financialStatements';
+import { exportStatementsPdf, exportStatementsXlsx, formatPeriod } from '@/utils/statementExport';
+
+interface FinancialStatementsProps {
+  period: StatementPeriod;
+  onPeriodChange: (period: StatementPeriod) => void;
+}
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(price);
+
+export function FinancialStatements({ period, onPeriodChange }: FinancialStatementsProps) {
+  const { statements, previous, loading } = useFinancialStatements(period);
+  const { settings } = useRestaurantSettings();
+  const [activeId, setActiveId] = useState<FinancialStatement['id']>('profit-loss');
+  const [exporting, setExporting] = useState<'pdf' | 'xlsx' | null>(null);
+
+  const statement = statements.find(s => s.id === activeId);
+
+  const selectMonth = (monthsAgo: number) => {
+    const month = subMonths(new Date(), monthsAgo);
+    onPeriodChange({ from: startOfMonth(month), to: endOfMonth(month) });
+  };
+
+  const handleExport = async (type: 'pdf' | 'xlsx') => {
+    setExporting(type);
+    try {
+      const options = { statements, period, previous, restaurantName: settings?.restaurant_name };
+      await (type === 'pdf' ? exportStatementsPdf(options) : exportStatementsXlsx(options));
+    } catch (error) {
+      console.error('Error exporting financial statements:', error);
+      toast.error('Gagal mengekspor laporan keuangan');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg">Laporan Keuangan</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => selectMonth(0)}>Bulan Ini</Button>
+            <Button variant="outline" size="sm" onClick={() => selectMonth(1)}>Bulan Lalu</Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="gap-2"
+              disabled={loading || exporting !== null}
+              onClick={() => handleExport('pdf')}
+            >
+              {exporting === 'pdf' ? <RefreshCw className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+              PDF
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="gap-2"
+              disabled={loading || exporting !== null}
+              onClick={() => handleExport('xlsx')}
+            >
+              {exporting === 'xlsx' ? <RefreshCw className="w-4 h-4 animate-spin" /> : <FileSpreadsheet className="w-4 h-4" />}
+              XLSX
+            </Button>
+          </div>
+        </div>
+        <div className="flex gap-2 overflow-x-auto">
+          {statements.map(s => (
+            <button
+              key={s.id}
+              onClick={() => setActiveId(s.id)}
+              className={cn(
+                "px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-all",
+                activeId === s.id ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+              )}
+            >
+              {s.title}
+            </button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading || !statement ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Keterangan</TableHead>
+                  <TableHead className="text-right whitespace-nowrap">{formatPeriod(period)}</TableHead>
+                  <TableHead className="text-right whitespace-nowrap">{formatPeriod(previous)}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.lines.map((line, index) => (
+                  <TableRow key={`${line.label}-${index}`} className={cn(line.kind === 'total' && "bg-muted/50")}>
+                    <TableCell className={cn(line.kind === 'item' ? "pl-8" : "font-bold")}>{line.label}</TableCell>
+                    {line.kind === 'heading' ? (
+                      <TableCell colSpan={2} />
+                    ) : (
+                      <>
+                        <TableCell className={cn("text-right", line.kind !== 'item' && "font-bold", line.current < 0 && "text-destructive")}>
+                          {formatPrice(line.current)}
+                        </TableCell>
+                        <TableCell className={cn("text-right text-muted-foreground", line.kind !== 'item' && "font-bold")}>
+                          {formatPrice(line.previous)}
+                        </TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { PackageCheck, XCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatPrice } from '@/utils/receiptPrinter';
+import type { Ingredient } from '@/hooks/useInventory';
+import type { GoodsReceiptLine, PurchaseOrder } from '@/hooks/usePurchasing';
+
+interface GoodsReceiptDialogProps {
+  purchaseOrder: PurchaseOrder;
+  ingredients: Ingredient[];
+  onClose: () => void;
+  onReceive: (items: GoodsReceiptLine[], notes?: string) => Promise<void>;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg bg-secondary border border-border focus:outline-none focus:ring-2 focus:ring-primary';
+
+export function GoodsReceiptDialog({ purchaseOrder, ingredients, onClose, onReceive }: GoodsReceiptDialogProps) {
+  // Prefilled with what is still outstanding at the agreed cost
+  const [lines, setLines] = useState(() => Object.fromEntries(
+    purchaseOrder.purchase_order_items.map(item => [item.id, {
+      quantity: String(Math.max(0, item.quantity - item.received_quantity)),
+      unit_cost: String(item.unit_cost),
+    }])
+  ));
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const ingredientById = (id: string) => ingredients.find(ingredient => ingredient.id === id);
+  const receivedLines = purchaseOrder.purchase_order_items
+    .map(item => ({
+      purchase_order_item_id: item.id,
+      quantity: parseFloat(lines[item.id]?.quantity) || 0,
+      unit_cost: parseInt(lines[item.id]?.unit_cost) || 0,
+    }))
+    .filter(line => line.quantity > 0);
+  const total = receivedLines.reduce((sum, line) => sum + Math.round(line.quantity * line.unit_cost), 0);
+
+  const updateLine = (id: string, field: 'quantity' | 'unit_cost', value: string) => {
+    setLines(prev => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const handleSubmit = async () => {
+    if (receivedLines.length === 0) {
+      toast.error('Masukkan jumlah barang yang diterima');
+      return;
+    }
+    if (purchaseOrder.purchase_order_items.some(item =>
+      (parseFloat(lines[item.id]?.quantity) || 0) > item.quantity - item.received_quantity)) {
+      toast.error('Jumlah diterima melebihi sisa pesanan');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onReceive(receivedLines, notes);
+      toast.success('Penerimaan barang disimpan, stok bertambah');
+      onClose();
+    } catch (error) {
+      console.error('Error receiving goods:', error);
+      const message = error instanceof Error ? error.message : '';
+      toast.error(message.includes('outstanding') ? 'Jumlah diterima melebihi sisa pesanan' : 'Gagal menyimpan penerimaan barang');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-card rounded-2xl border border-border shadow-2xl animate-scale-in">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <PackageCheck className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="text-lg font-bold">Terima Barang</h2>
+              <p className="text-xs text-muted-foreground">{purchaseOrder.po_number}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-muted transition-colors"
+          >
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {purchaseOrder.purchase_order_items.map(item => {
+            const ingredient = ingredientById(item.ingredient_id);
+            return (
+              <div key={item.id} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{ingredient?.name ?? '-'}</span>
+                  <span className="text-muted-foreground">
+                    Diterima {item.received_quantity} / {item.quantity} {ingredient?.unit}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-muted-foreground space-y-1">
+                    <span>Jumlah ({ingredient?.unit})</span>
+                    <input
+                      type="number"
+                      max={Math.max(0, item.quantity - item.received_quantity)}
+                      value={lines[item.id]?.quantity ?? ''}
+                      onChange={(e) => updateLine(item.id, 'quantity', e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="text-xs text-muted-foreground space-y-1">
+                    <span>Harga / {ingredient?.unit ?? 'unit'}</span>
+                    <input
+                      type="number"
+                      value={lines[item.id]?.unit_cost ?? ''}
+                      onChange={(e) => updateLine(item.id, 'unit_cost', e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+
+          <input
+            placeholder="Catatan (mis. no. nota supplier)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className={inputClass}
+          />
+
+          <div className="flex justify-between font-bold">
+            <span>Total Diterima</span>
+            <span>{formatPrice(total)}</span>
+          </div>
+
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-semibold disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Simpan Penerimaan
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Receipt, Clock, LogOut, Settings, Printer } from 'lucide-react';
+import { Receipt, Clock, LogOut, Settings, Printer, ChefHat, Wallet } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import {
@@ -10,14 +10,16 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { OfflineSyncStatus } from './OfflineSyncStatus';
 
 interface HeaderProps {
   onOpenHistory: () => void;
   onOpenPrinterSettings: () => void;
+  onOpenCashShift: () => void;
   orderCount: number;
 }
 
-export function Header({ onOpenHistory, onOpenPrinterSettings, orderCount }: HeaderProps) {
+export function Header({ onOpenHistory, onOpenPrinterSettings, onOpenCashShift, orderCount }: HeaderProps) {
   const [currentTime, setCurrentTime] = useState(new Date());
   const { fullName, role, signOut } = useAuth();
   const navigate = useNavigate();
@@ -81,6 +83,16 @@ export function Header({ onOpenHistory, onOpenPrinterSettings, orderCount }: Hea
           <span className="text-xs text-muted-foreground">{formatDate(currentTime)}</span>
         </div>
 
+        <OfflineSyncStatus />
+
+        <button
+          onClick={onOpenCashShift}
+          className="flex items-center gap-2 px-3 py-3 bg-secondary hover:bg-secondary/80 rounded-xl transition-all active:scale-95"
+          title="Shift Kas"
+        >
+          <Wallet className="w-5 h-5" />
+        </button>
+
         <button
           onClick={onOpenPrinterSettings}
           className="flex items-center gap-2 px-3 py-3 bg-secondary hover:bg-secondary/80 rounded-xl transition-all active:scale-95"
@@ -126,6 +138,11 @@ export function Header({ onOpenHistory, onOpenPrinterSettings, orderCount }: Hea
                 <DropdownMenuSeparator />
               </>
             )}
+            <DropdownMenuItem onClick={() => navigate('/kitchen')}>
+              <ChefHat className="w-4 h-4 mr-2" />
+              Layar Dapur
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleLogout} className="text-destructive">
               <LogOut className="w-4 h-4 mr-2" />
               Logout
@@ -0,0 +1,320 @@
+import { useState } from 'react';
+import { useInventory, Ingredient, INGREDIENT_UNITS, isLowStock } from '@/hooks/useInventory';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, Package, ClipboardList, History, PackagePlus, ClipboardCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+const emptyIngredient = { name: '', unit: 'gram', low_stock_threshold: '', stock: '' };
+const emptyRecipeLine = { ingredient_id: '', quantity: '', is_required: true };
+
+const movementLabel: Record<string, string> = {
+  sale: 'Penjualan',
+  restock: 'Restok',
+  adjustment: 'Stok opname',
+  purchase: 'Pembelian',
+  void: 'Void',
+};
+
+const formatQuantity = (value: number) => new Intl.NumberFormat('id-ID', { maximumFractionDigits: 3 }).format(value);
+
+export function InventoryManager() {
+  const {
+    ingredients,
+    recipes,
+    movements,
+    menuItems,
+    modifierOptions,
+    addIngredient,
+    updateIngredient,
+    deleteIngredient,
+    adjustStock,
+    addRecipeLine,
+    updateRecipeLine,
+    deleteRecipeLine,
+  } = useInventory();
+  const [newIngredient, setNewIngredient] = useState(emptyIngredient);
+  const [stockInputs, setStockInputs] = useState<Record<string, string>>({});
+  const [target, setTarget] = useState(''); // 'item:<id>' or 'option:<id>'
+  const [newLine, setNewLine] = useState(emptyRecipeLine);
+
+  const [targetType, targetId] = target.split(':');
+  const targetLines = recipes.filter(recipe =>
+    targetType === 'item' ? recipe.menu_item_id === targetId : recipe.modifier_option_id === targetId
+  );
+  const ingredientById = (id: string) => ingredients.find(ingredient => ingredient.id === id);
+
+  const handleAddIngredient = async () => {
+    if (!newIngredient.name.trim()) { toast.error('Masukkan nama bahan'); return; }
+    try {
+      await addIngredient({
+        name: newIngredient.name.trim(),
+        unit: newIngredient.unit,
+        low_stock_threshold: Math.max(0, parseFloat(newIngredient.low_stock_threshold) || 0),
+      }, Math.max(0, parseFloat(newIngredient.stock) || 0));
+      setNewIngredient(emptyIngredient);
+      toast.success('Bahan berhasil ditambahkan');
+    } catch { toast.error('Gagal menambahkan bahan'); }
+  };
+
+  const handleThreshold = async (ingredient: Ingredient, value: string) => {
+    const threshold = Math.max(0, parseFloat(value) || 0);
+    if (threshold === ingredient.low_stock_threshold) return;
+    try {
+      await updateIngredient(ingredient.id, { low_stock_threshold: threshold });
+    } catch { toast.error('Gagal mengubah batas stok'); }
+  };
+
+  const handleRestock = async (ingredient: Ingredient) => {
+    const quantity = parseFloat(stockInputs[ingredient.id] || '');
+    if (!(quantity > 0)) { toast.error('Masukkan jumlah restok'); return; }
+    try {
+      await adjustStock(ingredient.id, quantity, 'restock');
+      setStockInputs(prev => ({ ...prev, [ingredient.id]: '' }));
+      toast.success(`${ingredient.name} +${formatQuantity(quantity)} ${ingredient.unit}`);
+    } catch { toast.error('Gagal menambah stok'); }
+  };
+
+  // The input holds the counted stock; the movement records the difference
+  const handleStockTake = async (ingredient: Ingredient) => {
+    const counted = parseFloat(stockInputs[ingredient.id] || '');
+    if (isNaN(counted) || counted < 0) { toast.error('Masukkan jumlah stok hasil hitung'); return; }
+    const difference = counted - ingredient.stock;
+    if (difference === 0) { toast.info('Stok sudah sesuai'); return; }
+    try {
+      await adjustStock(ingredient.id, difference, 'adjustment', `Hitung fisik ${formatQuantity(counted)} ${ingredient.unit}`);
+      setStockInputs(prev => ({ ...prev, [ingredient.id]: '' }));
+      toast.success('Stok opname disimpan');
+    } catch { toast.error('Gagal menyimpan stok opname'); }
+  };
+
+  const handleDeleteIngredient = async (ingredient: Ingredient) => {
+    if (!confirm(`Hapus ${ingredient.name}? Resep yang memakai bahan ini ikut terhapus.`)) return;
+    try {
+      await deleteIngredient(ingredient.id);
+      toast.success('Bahan berhasil dihapus');
+    } catch { toast.error('Gagal menghapus bahan'); }
+  };
+
+  const handleAddLine = async () => {
+    if (!target) { toast.error('Pilih menu atau opsi'); return; }
+    if (!newLine.ingredient_id) { toast.error('Pilih bahan'); return; }
+    const quantity = parseFloat(newLine.quantity);
+    if (!(quantity > 0)) { toast.error('Masukkan takaran per porsi'); return; }
+    if (targetLines.some(line => line.ingredient_id === newLine.ingredient_id)) {
+      toast.error('Bahan sudah ada di resep ini');
+      return;
+    }
+    try {
+      await addRecipeLine({
+        menu_item_id: targetType === 'item' ? targetId : null,
+        modifier_option_id: targetType === 'option' ? targetId : null,
+        ingredient_id: newLine.ingredient_id,
+        quantity,
+        is_required: newLine.is_required,
+      });
+      setNewLine(emptyRecipeLine);
+    } catch { toast.error('Gagal menambahkan bahan ke resep'); }
+  };
+
+  const handleLineQuantity = async (id: string, current: number, value: string) => {
+    const quantity = parseFloat(value);
+    if (!(quantity > 0) || quantity === current) return;
+    try {
+      await updateRecipeLine(id, { quantity });
+    } catch { toast.error('Gagal mengubah takaran'); }
+  };
+
+  const handleLineRequired = async (id: string, isRequired: boolean) => {
+    try {
+      await updateRecipeLine(id, { is_required: isRequired });
+    } catch { toast.error('Gagal mengubah resep'); }
+  };
+
+  const handleDeleteLine = async (id: string) => {
+    try {
+      await deleteRecipeLine(id);
+    } catch { toast.error('Gagal menghapus bahan dari resep'); }
+  };
+
+  const menuItemName = (id: string) => menuItems.find(item => item.id === id)?.name ?? '-';
+  const autoUnavailable = menuItems.filter(item => item.auto_unavailable);
+
+  return (
+    <div className="space-y-6">
+      {/* Add Ingredient */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+        <h3 className="font-semibold">Tambah Bahan</h3>
+        <div className="flex gap-3 flex-wrap">
+          <Input placeholder="Nama bahan (mis. Beras)" value={newIngredient.name} onChange={(e) => setNewIngredient({ ...newIngredient, name: e.target.value })} className="flex-1 min-w-[200px]" />
+          <select value={newIngredient.unit} onChange={(e) => setNewIngredient({ ...newIngredient, unit: e.target.value })} className="px-3 py-2 rounded-lg bg-secondary border border-border">
+            {INGREDIENT_UNITS.map((unit) => <option key={unit} value={unit}>{unit}</option>)}
+          </select>
+          <Input placeholder="Stok awal" type="number" value={newIngredient.stock} onChange={(e) => setNewIngredient({ ...newIngredient, stock: e.target.value })} className="w-32" />
+          <Input placeholder="Batas menipis" type="number" value={newIngredient.low_stock_threshold} onChange={(e) => setNewIngredient({ ...newIngredient, low_stock_threshold: e.target.value })} className="w-36" />
+          <Button onClick={handleAddIngredient}><Plus className="w-4 h-4 mr-2" />Tambah</Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Admin dengan notifikasi Telegram menerima peringatan saat stok mencapai batas menipis.
+        </p>
+      </div>
+
+      {/* Ingredient List */}
+      <div className="bg-card rounded-xl border border-border divide-y divide-border">
+        {ingredients.length === 0 ? (
+          <div className="p-6 text-center text-muted-foreground">Belum ada bahan</div>
+        ) : ingredients.map((ingredient) => (
+          <div key={ingredient.id} className="flex items-center gap-3 p-4 flex-wrap">
+            <Package className={cn(
+              "w-5 h-5 shrink-0",
+              ingredient.stock <= 0 ? "text-destructive" : isLowStock(ingredient) ? "text-yellow-500" : "text-success"
+            )} />
+            <div className="flex-1 min-w-[160px]">
+              <div className="font-medium">{ingredient.name}</div>
+              <div className={cn(
+                "text-sm",
+                ingredient.stock <= 0 ? "text-destructive font-semibold" : isLowStock(ingredient) ? "text-yellow-500 font-semibold" : "text-muted-foreground"
+              )}>
+                {ingredient.stock <= 0 ? 'Habis' : `${formatQuantity(ingredient.stock)} ${ingredient.unit}`}
+                {isLowStock(ingredient) && ingredient.stock > 0 && ' · menipis'}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              Batas
+              <Input
+                type="number"
+                defaultValue={ingredient.low_stock_threshold}
+                onBlur={(e) => handleThreshold(ingredient, e.target.value)}
+                className="w-24"
+              />
+            </label>
+            <Input
+              placeholder={ingredient.unit}
+              type="number"
+              value={stockInputs[ingredient.id] || ''}
+              onChange={(e) => setStockInputs(prev => ({ ...prev, [ingredient.id]: e.target.value }))}
+              className="w-28"
+            />
+            <Button variant="outline" size="sm" onClick={() => handleRestock(ingredient)}>
+              <PackagePlus className="w-4 h-4 mr-1" />Restok
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleStockTake(ingredient)}>
+              <ClipboardCheck className="w-4 h-4 mr-1" />Opname
+            </Button>
+            <button onClick={() => handleDeleteIngredient(ingredient)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+      </div>
+
+      {autoUnavailable.length > 0 && (
+        <div className="p-4 rounded-xl border border-destructive/30 bg-destructive/10 text-sm">
+          <span className="font-semibold text-destructive">Menu tidak tersedia karena stok habis: </span>
+          {autoUnavailable.map(item => item.name).join(', ')}
+        </div>
+      )}
+
+      {/* Recipes */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-4">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Resep</h3>
+        </div>
+        <select value={target} onChange={(e) => { setTarget(e.target.value); setNewLine(emptyRecipeLine); }} className="w-full px-3 py-2 rounded-lg bg-secondary border border-border">
+          <option value="">Pilih menu atau opsi modifier</option>
+          <optgroup label="Menu">
+            {menuItems.map((item) => <option key={item.id} value={`item:${item.id}`}>{item.name}</option>)}
+          </optgroup>
+          {modifierOptions.length > 0 && (
+            <optgroup label="Opsi modifier">
+              {modifierOptions.map((option) => (
+                <option key={option.id} value={`option:${option.id}`}>
+                  {menuItemName(option.menu_item_id)} · {option.group_name}: {option.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+
+        {target && (
+          <>
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {targetLines.length === 0 ? (
+                <div className="p-4 text-center text-sm text-muted-foreground">Belum ada bahan di resep ini</div>
+              ) : targetLines.map((line) => {
+                const ingredient = ingredientById(line.ingredient_id);
+                return (
+                  <div key={line.id} className="flex items-center gap-3 p-3 flex-wrap">
+                    <div className="flex-1 min-w-[140px] font-medium">{ingredient?.name ?? '-'}</div>
+                    <Input
+                      type="number"
+                      defaultValue={line.quantity}
+                      onBlur={(e) => handleLineQuantity(line.id, line.quantity, e.target.value)}
+                      className="w-24"
+                    />
+                    <span className="text-sm text-muted-foreground w-12">{ingredient?.unit}</span>
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Switch checked={line.is_required} onCheckedChange={(checked) => handleLineRequired(line.id, checked)} />
+                      Wajib
+                    </label>
+                    <button onClick={() => handleDeleteLine(line.id)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-3 flex-wrap items-center">
+              <select value={newLine.ingredient_id} onChange={(e) => setNewLine({ ...newLine, ingredient_id: e.target.value })} className="flex-1 min-w-[160px] px-3 py-2 rounded-lg bg-secondary border border-border">
+                <option value="">Pilih bahan</option>
+                {ingredients.map((ingredient) => <option key={ingredient.id} value={ingredient.id}>{ingredient.name} ({ingredient.unit})</option>)}
+              </select>
+              <Input placeholder="Takaran / porsi" type="number" value={newLine.quantity} onChange={(e) => setNewLine({ ...newLine, quantity: e.target.value })} className="w-36" />
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Switch checked={newLine.is_required} onCheckedChange={(checked) => setNewLine({ ...newLine, is_required: checked })} />
+                Wajib
+              </label>
+              <Button onClick={handleAddLine}><Plus className="w-4 h-4 mr-2" />Tambah</Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Stok dipotong saat pesanan selesai. Menu otomatis tidak tersedia jika bahan wajib tidak cukup untuk satu porsi,
+              dan tersedia lagi setelah restok.
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Stock Movements */}
+      <div className="bg-card rounded-xl border border-border">
+        <div className="flex items-center gap-2 p-4 border-b border-border">
+          <History className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Riwayat Stok</h3>
+        </div>
+        {movements.length === 0 ? (
+          <div className="p-6 text-center text-muted-foreground">Belum ada pergerakan stok</div>
+        ) : (
+          <div className="divide-y divide-border">
+            {movements.map((movement) => {
+              const ingredient = ingredientById(movement.ingredient_id);
+              return (
+                <div key={movement.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">{ingredient?.name ?? '-'}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {movementLabel[movement.movement_type] || movement.movement_type}
+                      {movement.note && ` · ${movement.note}`}
+                      {' · '}
+                      {new Date(movement.created_at).toLocaleString('id-ID', { dateStyle: 'short', timeStyle: 'short' })}
+                    </div>
+                  </div>
+                  <span className={cn("font-semibold", movement.quantity < 0 ? "text-destructive" : "text-success")}>
+                    {movement.quantity > 0 ? '+' : ''}{formatQuantity(movement.quantity)} {ingredient?.unit}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
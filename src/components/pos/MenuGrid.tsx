@@ -1,14 +1,20 @@
-import { MenuItem } from '@/hooks/useMenuItems';
+import { useState } from 'react';
+import { MenuItem, ModifierGroup } from '@/hooks/useMenuItems';
+import { CartModifier } from '@/hooks/useOrders';
 import { cn } from '@/lib/utils';
-import { Plus, ImageOff } from 'lucide-react';
+import { Plus, ImageOff, SlidersHorizontal } from 'lucide-react';
+import { ModifierDialog } from './ModifierDialog';
 
 interface MenuGridProps {
   items: MenuItem[];
-  onAddItem: (item: MenuItem) => void;
+  getModifierGroups: (menuItemId: string) => ModifierGroup[];
+  onAddItem: (item: MenuItem, modifiers: CartModifier[]) => void;
   loading?: boolean;
 }
 
-export function MenuGrid({ items, onAddItem, loading }: MenuGridProps) {
+export function MenuGrid({ items, getModifierGroups, onAddItem, loading }: MenuGridProps) {
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -43,34 +49,61 @@ export function MenuGrid({ items, onAddItem, loading }: MenuGridProps) {
     );
   }
 
+  // Items with modifier groups ask for their options first
+  const handleSelect = (item: MenuItem) => {
+    if (getModifierGroups(item.id).length > 0) {
+      setModifierItem(item);
+      return;
+    }
+    onAddItem(item, []);
+  };
+
   return (
-    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
-      {items.map((item, index) => (
-        <button
-          key={item.id}
-          onClick={() => onAddItem(item)}
-          className={cn(
-            "group relative flex flex-col p-4 bg-card rounded-xl border border-border/50",
-            "hover:border-primary/50 hover:shadow-lg hover:shadow-primary/5",
-            "active:scale-95 transition-all duration-200",
-            "animate-fade-in touch-action-pan-y"
-          )}
-          style={{ animationDelay: `${index * 30}ms` }}
-        >
-          <div className="absolute top-3 right-3 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-            <Plus className="w-4 h-4 text-primary" />
-          </div>
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+        {items.map((item, index) => (
+          <button
+            key={item.id}
+            onClick={() => handleSelect(item)}
+            className={cn(
+              "group relative flex flex-col p-4 bg-card rounded-xl border border-border/50",
+              "hover:border-primary/50 hover:shadow-lg hover:shadow-primary/5",
+              "active:scale-95 transition-all duration-200",
+              "animate-fade-in touch-action-pan-y"
+            )}
+            style={{ animationDelay: `${index * 30}ms` }}
+          >
+            <div className="absolute top-3 right-3 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <Plus className="w-4 h-4 text-primary" />
+            </div>
           
-          <div className="flex-1 flex flex-col justify-between min-h-[80px]">
-            <h3 className="font-semibold text-foreground text-left text-sm leading-tight mb-2">
-              {item.name}
-            </h3>
-            <p className="text-primary font-bold text-lg">
-              {formatPrice(item.price)}
-            </p>
-          </div>
-        </button>
-      ))}
-    </div>
+            <div className="flex-1 flex flex-col justify-between min-h-[80px]">
+              <h3 className="font-semibold text-foreground text-left text-sm leading-tight mb-2">
+                {item.name}
+              </h3>
+              <p className="text-primary font-bold text-lg">
+                {formatPrice(item.price)}
+              </p>
+              {getModifierGroups(item.id).length > 0 && (
+                <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                  <SlidersHorizontal className="w-3 h-3" />
+                  Ada pilihan
+                </p>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <ModifierDialog
+        item={modifierItem}
+        groups={modifierItem ? getModifierGroups(modifierItem.id) : []}
+        onClose={() => setModifierItem(null)}
+        onConfirm={(item, modifiers) => {
+          onAddItem(item, modifiers);
+          setModifierItem(null);
+        }}
+      />
+    </>
   );
 }
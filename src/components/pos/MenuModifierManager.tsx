@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { ModifierGroup, ModifierOption } from '@/hooks/useMenuItems';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatPrice } from '@/utils/receiptPrinter';
+
+interface MenuModifierManagerProps {
+  menuItemId: string;
+  groups: ModifierGroup[];
+  onAddGroup: (group: Omit<ModifierGroup, 'id' | 'options'>) => Promise<ModifierGroup>;
+  onDeleteGroup: (id: string) => Promise<void>;
+  onAddOption: (option: Omit<ModifierOption, 'id'>) => Promise<ModifierOption>;
+  onDeleteOption: (groupId: string, id: string) => Promise<void>;
+}
+
+export function MenuModifierManager({
+  menuItemId,
+  groups,
+  onAddGroup,
+  onDeleteGroup,
+  onAddOption,
+  onDeleteOption,
+}: MenuModifierManagerProps) {
+  const [newGroup, setNewGroup] = useState({ name: '', is_required: false, selection_type: 'single' as ModifierGroup['selection_type'] });
+  const [newOptions, setNewOptions] = useState<Record<string, { name: string; price_delta: string }>>({});
+
+  const handleAddGroup = async () => {
+    if (!newGroup.name) { toast.error('Masukkan nama grup pilihan'); return; }
+    try {
+      await onAddGroup({ ...newGroup, menu_item_id: menuItemId, sort_order: groups.length });
+      setNewGroup({ name: '', is_required: false, selection_type: 'single' });
+      toast.success('Grup pilihan ditambahkan');
+    } catch { toast.error('Gagal menambahkan grup pilihan'); }
+  };
+
+  const handleAddOption = async (group: ModifierGroup) => {
+    const option = newOptions[group.id];
+    if (!option?.name) { toast.error('Masukkan nama pilihan'); return; }
+    try {
+      await onAddOption({
+        group_id: group.id,
+        name: option.name,
+        price_delta: parseInt(option.price_delta) || 0,
+        sort_order: group.options.length,
+      });
+      setNewOptions(prev => ({ ...prev, [group.id]: { name: '', price_delta: '' } }));
+    } catch { toast.error('Gagal menambahkan pilihan'); }
+  };
+
+  const handleDeleteGroup = async (id: string) => {
+    try {
+      await onDeleteGroup(id);
+    } catch { toast.error('Gagal menghapus grup pilihan'); }
+  };
+
+  const handleDeleteOption = async (groupId: string, id: string) => {
+    try {
+      await onDeleteOption(groupId, id);
+    } catch { toast.error('Gagal menghapus pilihan'); }
+  };
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <div key={group.id} className="bg-secondary/50 p-3 rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <span className="font-medium">{group.name}</span>
+              <span className="ml-2 text-xs text-muted-foreground">
+                {group.is_required ? 'Wajib' : 'Opsional'} · {group.selection_type === 'single' ? 'Pilih 1' : 'Pilih beberapa'}
+              </span>
+            </div>
+            <button onClick={() => handleDeleteGroup(group.id)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {group.options.map((option) => (
+              <span key={option.id} className="flex items-center gap-1 px-2 py-1 rounded bg-background border border-border text-sm">
+                {option.name}
+                {option.price_delta !== 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    {option.price_delta > 0 ? '+' : '-'}{formatPrice(Math.abs(option.price_delta))}
+                  </span>
+                )}
+                <button onClick={() => handleDeleteOption(group.id, option.id)} className="text-destructive"><Trash2 className="w-3 h-3" /></button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Input
+              placeholder="Nama pilihan"
+              value={newOptions[group.id]?.name || ''}
+              onChange={(e) => setNewOptions(prev => ({ ...prev, [group.id]: { price_delta: '', ...prev[group.id], name: e.target.value } }))}
+              className="flex-1 min-w-[150px]"
+            />
+            <Input
+              placeholder="+/- Harga"
+              type="number"
+              value={newOptions[group.id]?.price_delta || ''}
+              onChange={(e) => setNewOptions(prev => ({ ...prev, [group.id]: { name: '', ...prev[group.id], price_delta: e.target.value } }))}
+              className="w-28"
+            />
+            <Button variant="outline" onClick={() => handleAddOption(group)}><Plus className="w-4 h-4" /></Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2 flex-wrap items-center">
+        <Input placeholder="Grup pilihan baru (mis. Level Pedas)" value={newGroup.name} onChange={(e) => setNewGroup({ ...newGroup, name: e.target.value })} className="flex-1 min-w-[200px]" />
+        <select value={newGroup.selection_type} onChange={(e) => setNewGroup({ ...newGroup, selection_type: e.target.value as ModifierGroup['selection_type'] })} className="px-3 py-2 rounded-lg bg-secondary border border-border">
+          <option value="single">Pilih 1</option>
+          <option value="multi">Pilih beberapa</option>
+        </select>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={newGroup.is_required} onChange={(e) => setNewGroup({ ...newGroup, is_required: e.target.checked })} />
+          Wajib
+        </label>
+        <Button onClick={handleAddGroup}><Plus className="w-4 h-4 mr-2" />Tambah Grup</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { MenuItem, ModifierGroup } from '@/hooks/useMenuItems';
+import { CartModifier } from '@/hooks/useOrders';
+import { X, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/utils/receiptPrinter';
+
+interface ModifierDialogProps {
+  item: MenuItem | null;
+  groups: ModifierGroup[];
+  onClose: () => void;
+  onConfirm: (item: MenuItem, modifiers: CartModifier[]) => void;
+}
+
+export function ModifierDialog({ item, groups, onClose, onConfirm }: ModifierDialogProps) {
+  // Selected option ids per group
+  const [selected, setSelected] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    setSelected({});
+  }, [item?.id]);
+
+  if (!item) return null;
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    setSelected(prev => {
+      const current = prev[group.id] || [];
+      if (group.selection_type === 'single') {
+        // Optional single-select groups can be cleared by tapping the chosen option again
+        const next = current.includes(optionId) && !group.is_required ? [] : [optionId];
+        return { ...prev, [group.id]: next };
+      }
+      const next = current.includes(optionId)
+        ? current.filter(id => id !== optionId)
+        : [...current, optionId];
+      return { ...prev, [group.id]: next };
+    });
+  };
+
+  const modifiers: CartModifier[] = groups.flatMap(group =>
+    group.options
+      .filter(option => (selected[group.id] || []).includes(option.id))
+      .map(option => ({ option_id: option.id, group_name: group.name, name: option.name, price_delta: option.price_delta }))
+  );
+
+  const missingGroups = groups.filter(group => group.is_required && !(selected[group.id] || []).length);
+  const linePrice = item.price + modifiers.reduce((sum, modifier) => sum + modifier.price_delta, 0);
+  const canConfirm = missingGroups.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-card rounded-2xl border border-border shadow-2xl animate-scale-in">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border sticky top-0 bg-card z-10">
+          <div>
+            <h2 className="text-xl font-bold">{item.name}</h2>
+            <p className="text-sm text-muted-foreground">{formatPrice(item.price)}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-muted transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          {groups.map(group => (
+            <div key={group.id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-sm">{group.name}</h3>
+                <span className={cn(
+                  "text-xs px-2 py-0.5 rounded",
+                  group.is_required ? "bg-primary/10 text-primary" : "bg-muted text-muted-foreground"
+                )}>
+                  {group.is_required ? 'Wajib' : 'Opsional'} · {group.selection_type === 'single' ? 'Pilih 1' : 'Pilih beberapa'}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {group.options.map(option => {
+                  const isSelected = (selected[group.id] || []).includes(option.id);
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => toggleOption(group, option.id)}
+                      className={cn(
+                        "flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm text-left transition-all",
+                        isSelected
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted text-foreground hover:bg-muted/80"
+                      )}
+                    >
+                      <span className="flex items-center gap-1 min-w-0">
+                        {isSelected && <Check className="w-4 h-4 shrink-0" />}
+                        <span className="truncate">{option.name}</span>
+                      </span>
+                      {option.price_delta !== 0 && (
+                        <span className="text-xs shrink-0">
+                          {option.price_delta > 0 ? '+' : '-'}{formatPrice(Math.abs(option.price_delta))}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-border">
+          <button
+            onClick={() => onConfirm(item, modifiers)}
+            disabled={!canConfirm}
+            className={cn(
+              "w-full py-4 rounded-xl font-bold text-lg transition-all active:scale-95",
+              canConfirm
+                ? "bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg"
+                : "bg-muted text-muted-foreground cursor-not-allowed"
+            )}
+          >
+            {canConfirm
+              ? `Tambah ${formatPrice(linePrice)}`
+              : `Pilih ${missingGroups.map(group => group.name).join(', ')}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
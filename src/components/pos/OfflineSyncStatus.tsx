@@ -0,0 +1,152 @@
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, Check, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAuth } from '@/contexts/AuthContext';
+import { describeConflict, useOfflineSync } from '@/contexts/OfflineSyncContext';
+import { formatPrice } from '@/utils/receiptPrinter';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+export function OfflineSyncStatus() {
+  const { role } = useAuth();
+  const { isOnline, isSyncing, pendingOrders, conflictReports, syncNow, discardOrder, dismissConflicts } = useOfflineSync();
+
+  const Icon = isSyncing ? RefreshCw : isOnline ? Cloud : CloudOff;
+  const badgeCount = pendingOrders.length + conflictReports.length;
+  const rejectedCount = pendingOrders.filter(order => order.error).length;
+
+  const handleDiscard = async (clientId: string, orderNumber: string) => {
+    if (!confirm(`Hapus pesanan ${orderNumber} dari antrean? Pesanan ini tidak akan tercatat di server; catat ulang secara manual bila perlu.`)) return;
+
+    try {
+      await discardOrder(clientId);
+    } catch (error) {
+      console.error('Error discarding offline order:', error);
+      toast.error('Gagal menghapus pesanan offline');
+    }
+  };
+
+  const handleReviewed = async () => {
+    try {
+      await dismissConflicts();
+    } catch (error) {
+      console.error('Error reviewing sync conflicts:', error);
+      toast.error('Gagal menandai sudah dicek');
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "relative flex items-center gap-2 px-3 py-3 rounded-xl transition-all active:scale-95",
+            isOnline ? "bg-secondary hover:bg-secondary/80" : "bg-destructive/10 text-destructive hover:bg-destructive/20"
+          )}
+          title={isOnline ? 'Status Sinkronisasi' : 'Sedang Offline'}
+        >
+          <Icon className={cn("w-5 h-5", isSyncing && "animate-spin")} />
+          {badgeCount > 0 && (
+            <span
+              className={cn(
+                "absolute -top-1 -right-1 min-w-5 h-5 px-1 flex items-center justify-center text-xs font-bold rounded-full",
+                rejectedCount > 0
+                  ? "bg-destructive text-destructive-foreground"
+                  : conflictReports.length > 0 ? "bg-yellow-500 text-white" : "bg-primary text-primary-foreground"
+              )}
+            >
+              {badgeCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="p-4 border-b border-border">
+          <p className="font-semibold">{isOnline ? 'Online' : 'Offline'}</p>
+          <p className="text-xs text-muted-foreground">
+            {pendingOrders.length > 0
+              ? `${pendingOrders.length} pesanan menunggu dikirim ke server`
+              : 'Semua pesanan sudah tersinkron'}
+          </p>
+          {rejectedCount > 0 && (
+            <p className="text-xs text-destructive mt-1">
+              {rejectedCount} ditolak server dan ditahan; kirim ulang setelah diperbaiki atau hapus
+            </p>
+          )}
+        </div>
+
+        {pendingOrders.length > 0 && (
+          <div className="max-h-48 overflow-y-auto p-2 space-y-1">
+            {pendingOrders.map(order => (
+              <div key={order.clientId} className="px-2 py-1.5 rounded-lg bg-secondary/50">
+                <div className="flex justify-between text-sm">
+                  <span className="font-mono">{order.orderNumber}</span>
+                  <span className="font-medium">{formatPrice(order.total)}</span>
+                </div>
+                {order.error && (
+                  <div className="flex items-start justify-between gap-2 mt-0.5">
+                    <p className="text-xs text-destructive">{order.error}</p>
+                    <button
+                      onClick={() => handleDiscard(order.clientId, order.orderNumber)}
+                      className="p-1 rounded-md text-destructive hover:bg-destructive/10 shrink-0"
+                      title="Hapus dari antrean"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pendingOrders.length > 0 && (
+          <div className="p-2 border-t border-border">
+            <button
+              onClick={() => syncNow(true)}
+              disabled={!isOnline || isSyncing}
+              className="w-full py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:bg-muted disabled:text-muted-foreground disabled:cursor-not-allowed transition-all"
+            >
+              {isSyncing ? 'Menyinkronkan...' : rejectedCount > 0 ? 'Sinkronkan & Kirim Ulang' : 'Sinkronkan'}
+            </button>
+          </div>
+        )}
+
+        {conflictReports.length > 0 && (
+          <div className="border-t border-border">
+            <div className="flex items-center justify-between px-4 pt-3">
+              <span className="flex items-center gap-1.5 text-sm font-semibold">
+                <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                Perlu Dicek
+              </span>
+              {role === 'admin' && (
+                <button
+                  onClick={handleReviewed}
+                  className="p-1 rounded-md text-muted-foreground hover:bg-secondary"
+                  title="Tandai sudah dicek"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <div className="max-h-56 overflow-y-auto p-2 space-y-2">
+              {conflictReports.map(report => (
+                <div key={report.id} className="px-2 py-1.5 rounded-lg bg-yellow-500/10">
+                  <p className="text-xs font-medium">
+                    {report.offlineNumber} → #{report.orderNumber}
+                  </p>
+                  <ul className="mt-1 space-y-0.5">
+                    {report.conflicts.map((conflict, index) => (
+                      <li key={index} className="text-xs text-muted-foreground">
+                        {describeConflict(conflict)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,15 +1,25 @@
-import { Order } from '@/hooks/useOrders';
-import { X, Receipt, Clock, Printer } from 'lucide-react';
+import { useState, ComponentProps } from 'react';
+import { Order, orderItemToCartItem } from '@/hooks/useOrders';
+import { X, Receipt, Clock, Printer, Undo2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { printReceipt, formatPrice } from '@/utils/receiptPrinter';
+import { printReceipt, formatPrice, formatModifiers } from '@/utils/receiptPrinter';
+import { getChargeLines } from '@/utils/billTotals';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { getDigitalReceiptUrl } from '@/utils/receiptDelivery';
+import { VoidRefundDialog } from './VoidRefundDialog';
 
-interface OrderHistoryProps {
+type VoidRefundHandlers = Pick<ComponentProps<typeof VoidRefundDialog>, 'onVoidOrder' | 'onVoidItems' | 'onRefund'>;
+
+interface OrderHistoryProps extends VoidRefundHandlers {
   isOpen: boolean;
   onClose: () => void;
   orders: Order[];
 }
 
-export function OrderHistory({ isOpen, onClose, orders }: OrderHistoryProps) {
+export function OrderHistory({ isOpen, onClose, orders, onVoidOrder, onVoidItems, onRefund }: OrderHistoryProps) {
+  const [voidRefundOrderId, setVoidRefundOrderId] = useState<string | null>(null);
+  const voidRefundOrder = orders.find(o => o.id === voidRefundOrderId) || null;
+  const { settings: restaurantSettings } = useRestaurantSettings();
 
   const formatTime = (dateString: string) => {
     return new Intl.DateTimeFormat('id-ID', {
@@ -19,12 +29,7 @@ export function OrderHistory({ isOpen, onClose, orders }: OrderHistoryProps) {
   };
 
   const handlePrint = (order: Order) => {
-    const items = order.order_items?.map(item => ({
-      id: item.menu_item_id || item.id,
-      name: item.menu_item_name,
-      price: item.unit_price,
-      quantity: item.quantity,
-    })) || [];
+    const items = order.order_items?.map(orderItemToCartItem) || [];
 
     printReceipt({
       orderNumber: order.order_number,
@@ -32,19 +37,22 @@ export function OrderHistory({ isOpen, onClose, orders }: OrderHistoryProps) {
       items,
       subtotal: order.subtotal,
       discount: order.discount || 0,
+      promotionName: order.promotion_name || undefined,
+      charges: getChargeLines({ serviceCharge: order.service_charge, tax: order.tax, rounding: order.rounding }, order),
       total: order.total,
       paymentMethod: order.payment_method || 'cash',
       amountPaid: order.amount_paid || order.total,
       change: order.change_amount || 0,
       timestamp: new Date(order.created_at),
-    });
+      notes: order.notes || undefined,
+      receiptUrl: getDigitalReceiptUrl(order.receipt_token),
+    }, restaurantSettings);
   };
 
   if (!isOpen) return null;
 
-  const todayTotal = orders
-    .filter(o => o.status === 'completed')
-    .reduce((sum, order) => sum + order.total, 0);
+  const paidOrders = orders.filter(o => o.status === 'completed' || o.status === 'refunded');
+  const todayTotal = paidOrders.reduce((sum, order) => sum + order.total - order.refunded_amount, 0);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in">
@@ -70,7 +78,7 @@ export function OrderHistory({ isOpen, onClose, orders }: OrderHistoryProps) {
             <span className="text-2xl font-bold text-primary">{formatPrice(todayTotal)}</span>
           </div>
           <p className="text-sm text-muted-foreground mt-1">
-            {orders.filter(o => o.status === 'completed').length} transaksi
+            {paidOrders.length} transaksi
           </p>
         </div>
 
@@ -98,14 +106,24 @@ export function OrderHistory({ isOpen, onClose, orders }: OrderHistoryProps) {
                     <span
                       className={cn(
                         "px-2 py-0.5 rounded text-xs font-medium",
-                        order.payment_method === 'cash'
+                        order.status === 'pending'
+                          ? "bg-muted text-muted-foreground"
+                          : order.status === 'cancelled' || order.status === 'refunded'
+                          ? "bg-destructive/20 text-destructive"
+                          : order.payment_method === 'cash'
                           ? "bg-accent/20 text-accent"
                           : order.payment_method === 'qris'
                           ? "bg-purple-500/20 text-purple-400"
                           : "bg-primary/20 text-primary"
                       )}
                     >
-                      {order.payment_method === 'cash'
+                      {order.status === 'pending'
+                        ? 'Tagihan Terbuka'
+                        : order.status === 'cancelled'
+                        ? 'Void'
+                        : order.status === 'refunded'
+                        ? 'Refund'
+                        : order.payment_method === 'cash'
                         ? 'Tunai'
                         : order.payment_method === 'qris'
                         ? 'QRIS'
@@ -124,6 +142,15 @@ export function OrderHistory({ isOpen, onClose, orders }: OrderHistoryProps) {
                     >
                       <Printer className="w-4 h-4" />
                     </button>
+                    {order.status !== 'cancelled' && order.status !== 'refunded' && (
+                      <button
+                        onClick={() => setVoidRefundOrderId(order.id)}
+                        className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-destructive/20 hover:text-destructive transition-colors"
+                        title="Void / Refund"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -132,21 +159,47 @@ export function OrderHistory({ isOpen, onClose, orders }: OrderHistoryProps) {
                     <div key={item.id} className="flex justify-between text-sm">
                       <span className="text-muted-foreground">
                         {item.quantity}x {item.menu_item_name}
+                        {formatModifiers(orderItemToCartItem(item).modifiers) && (
+                          <span className="block text-xs">{formatModifiers(orderItemToCartItem(item).modifiers)}</span>
+                        )}
+                        {item.notes && (
+                          <span className="block text-xs italic">"{item.notes}"</span>
+                        )}
                       </span>
                       <span>{formatPrice(item.total_price)}</span>
                     </div>
                   ))}
                 </div>
 
+                {order.notes && (
+                  <p className="mb-3 text-xs italic text-muted-foreground">Catatan: {order.notes}</p>
+                )}
+
                 <div className="flex items-center justify-between pt-2 border-t border-border/50">
                   <span className="font-semibold">Total</span>
-                  <span className="font-bold text-primary">{formatPrice(order.total)}</span>
+                  <span className={cn("font-bold", order.status === 'cancelled' ? "text-muted-foreground line-through" : "text-primary")}>
+                    {formatPrice(order.total)}
+                  </span>
                 </div>
+                {order.order_refunds?.map((refund) => (
+                  <div key={refund.id} className="flex justify-between text-sm text-destructive">
+                    <span>Refund · {refund.reason}</span>
+                    <span>-{formatPrice(refund.amount)}</span>
+                  </div>
+                ))}
               </div>
             ))
           )}
         </div>
       </div>
+
+      <VoidRefundDialog
+        order={voidRefundOrder}
+        onClose={() => setVoidRefundOrderId(null)}
+        onVoidOrder={onVoidOrder}
+        onVoidItems={onVoidItems}
+        onRefund={onRefund}
+      />
     </div>
   );
 }
@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { addDays, endOfMonth, format, parseISO, subMonths } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lock, LockOpen, Plus, Trash2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { usePeriodClosing } from '@/hooks/usePeriodClosing';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
+import type { Account } from '@/hooks/useLedger';
+
+interface PeriodClosingProps {
+  accounts: Account[];
+  onPosted: () => void;
+}
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(price);
+
+const formatDate = (date: string) => format(parseISO(date), 'd MMM yyyy', { locale: id });
+
+const emptyLine = () => ({ account: '', debit: '', credit: '' });
+
+export function PeriodClosing({ accounts, onPosted }: PeriodClosingProps) {
+  const { closings, snapshots, lockedThrough, loading, closePeriod, postAdjustingEntry } = usePeriodClosing();
+  const { pendingOrders } = useOfflineSync();
+  const [closeThrough, setCloseThrough] = useState(format(endOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'));
+  const [closeNotes, setCloseNotes] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+  const [entryDate, setEntryDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [entryDescription, setEntryDescription] = useState('');
+  const [lines, setLines] = useState([emptyLine(), emptyLine()]);
+  const [isPosting, setIsPosting] = useState(false);
+
+  const openFrom = lockedThrough ? format(addDays(parseISO(lockedThrough), 1), 'yyyy-MM-dd') : undefined;
+  const yesterday = format(addDays(new Date(), -1), 'yyyy-MM-dd');
+
+  const totalDebit = lines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0);
+  const totalCredit = lines.reduce((sum, line) => sum + (Number(line.credit) || 0), 0);
+  const canPost = entryDescription.trim() !== '' && totalDebit > 0 && totalDebit === totalCredit
+    && lines.every(line => line.account || (!Number(line.debit) && !Number(line.credit)));
+
+  const updateLine = (index: number, updates: Partial<ReturnType<typeof emptyLine>>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...updates } : line));
+  };
+
+  const handleClose = async () => {
+    if (!closeThrough) return;
+    const unsynced = pendingOrders.length > 0
+      ? `\n\nPerangkat ini masih punya ${pendingOrders.length} pesanan offline yang belum tersinkron.`
+      : '';
+    if (!confirm(
+      `Tutup buku sampai ${formatDate(closeThrough)}? Transaksi sampai tanggal ini tidak bisa diubah atau dihapus lagi.\n\n` +
+      'Perangkat kasir lain yang belum tersinkron mungkin masih menyimpan pesanan offline; pesanan itu akan dicatat di hari pertama yang masih terbuka.' +
+      unsynced
+    )) return;
+
+    setIsClosing(true);
+    try {
+      await closePeriod(closeThrough, closeNotes.trim());
+      setCloseNotes('');
+      toast.success(`Buku ditutup sampai ${formatDate(closeThrough)}`);
+    } catch (error) {
+      console.error('Error closing period:', error);
+      const message = error instanceof Error ? error.message : '';
+      toast.error(message.includes('open orders') ? 'Masih ada pesanan terbuka di periode ini' : 'Gagal menutup buku');
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const handlePostEntry = async () => {
+    setIsPosting(true);
+    try {
+      await postAdjustingEntry(
+        entryDate,
+        entryDescription.trim(),
+        lines
+          .filter(line => line.account)
+          .map(line => ({ account: line.account, debit: Number(line.debit) || 0, credit: Number(line.credit) || 0 })),
+      );
+      setEntryDescription('');
+      setLines([emptyLine(), emptyLine()]);
+      toast.success('Jurnal penyesuaian dicatat');
+      onPosted();
+    } catch (error) {
+      console.error('Error posting adjusting entry:', error);
+      toast.error('Gagal mencatat jurnal penyesuaian');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Close Period */}
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+          <CardTitle className="text-lg">Tutup Buku</CardTitle>
+          {lockedThrough ? (
+            <Badge variant="secondary" className="gap-1">
+              <Lock className="w-3 h-3" /> Terkunci s/d {formatDate(lockedThrough)}
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="gap-1">
+              <LockOpen className="w-3 h-3" /> Belum pernah tutup buku
+            </Badge>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Pesanan, jurnal dan laporan harian sampai tanggal tutup buku dikunci. Koreksi setelahnya dicatat sebagai jurnal penyesuaian di periode yang masih terbuka.
+          </p>
+          <div className="flex items-start gap-2 p-3 rounded-lg border border-destructive/50 bg-destructive/10 text-sm">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+            <span>Pastikan semua perangkat kasir sudah online dan tersinkron. Pesanan offline dari periode yang sudah ditutup dicatat di hari pertama yang masih terbuka, bukan di tanggal penjualannya.</span>
+          </div>
+          <div className="flex gap-3 flex-wrap">
+            <Input
+              type="date"
+              value={closeThrough}
+              min={openFrom}
+              max={yesterday}
+              onChange={(e) => setCloseThrough(e.target.value)}
+              className="w-44"
+            />
+            <Input
+              placeholder="Catatan (opsional)"
+              value={closeNotes}
+              onChange={(e) => setCloseNotes(e.target.value)}
+              className="flex-1 min-w-[200px]"
+            />
+            <Button onClick={handleClose} disabled={isClosing || !closeThrough} className="gap-2">
+              {isClosing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+              Tutup Buku
+            </Button>
+          </div>
+          {closings.length > 0 && (
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {closings.map((closing) => (
+                <div key={closing.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                  <div>
+                    <p className="font-medium">s/d {formatDate(closing.closed_through)}</p>
+                    {closing.notes && <p className="text-muted-foreground">{closing.notes}</p>}
+                  </div>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {format(new Date(closing.closed_at), 'd MMM yyyy HH:mm', { locale: id })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Monthly Snapshots */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Ringkasan Bulanan Terkunci</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {snapshots.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Belum ada bulan yang ditutup penuh</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bulan</TableHead>
+                    <TableHead className="text-right">Pesanan</TableHead>
+                    <TableHead className="text-right">Penjualan</TableHead>
+                    <TableHead className="text-right">Pendapatan</TableHead>
+                    <TableHead className="text-right">HPP</TableHead>
+                    <TableHead className="text-right">Biaya</TableHead>
+                    <TableHead className="text-right">Laba Bersih</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {snapshots.map((snapshot) => (
+                    <TableRow key={snapshot.id}>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(snapshot.period_start), 'MMMM yyyy', { locale: id })}</TableCell>
+                      <TableCell className="text-right">{snapshot.order_count}</TableCell>
+                      <TableCell className="text-right">{formatPrice(snapshot.sales_total)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(snapshot.revenue)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(snapshot.cogs)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(snapshot.expenses)}</TableCell>
+                      <TableCell className={cn("text-right font-bold", snapshot.net_profit < 0 && "text-destructive")}>
+                        {formatPrice(snapshot.net_profit)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Adjusting Entry */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Jurnal Penyesuaian</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-3 flex-wrap">
+            <Input
+              type="date"
+              value={entryDate}
+              min={openFrom}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setEntryDate(e.target.value)}
+              className="w-44"
+            />
+            <Input
+              placeholder="Keterangan (mis. Koreksi HPP Maret)"
+              value={entryDescription}
+              onChange={(e) => setEntryDescription(e.target.value)}
+              className="flex-1 min-w-[200px]"
+            />
+          </div>
+          <div className="space-y-2">
+            {lines.map((line, index) => (
+              <div key={index} className="flex gap-2 flex-wrap items-center">
+                <select
+                  value={line.account}
+                  onChange={(e) => updateLine(index, { account: e.target.value })}
+                  className="flex-1 min-w-[200px] px-3 py-2 rounded-lg bg-secondary border border-border"
+                >
+                  <option value="">Pilih akun</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.code}>{account.code} · {account.name}</option>
+                  ))}
+                </select>
+                <Input
+                  placeholder="Debit"
+                  type="number"
+                  value={line.debit}
+                  onChange={(e) => updateLine(index, { debit: e.target.value, credit: e.target.value ? '' : line.credit })}
+                  className="w-36"
+                />
+                <Input
+                  placeholder="Kredit"
+                  type="number"
+                  value={line.credit}
+                  onChange={(e) => updateLine(index, { credit: e.target.value, debit: e.target.value ? '' : line.debit })}
+                  className="w-36"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={lines.length <= 2}
+                  onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-3 flex-wrap items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setLines(prev => [...prev, emptyLine()])}>
+              <Plus className="w-4 h-4 mr-2" />Baris
+            </Button>
+            <div className="flex items-center gap-3 text-sm">
+              <span>Debit {formatPrice(totalDebit)}</span>
+              <span>Kredit {formatPrice(totalCredit)}</span>
+              <Badge variant={totalDebit === totalCredit ? 'secondary' : 'destructive'}>
+                {totalDebit === totalCredit ? 'Seimbang' : 'Tidak seimbang'}
+              </Badge>
+            </div>
+          </div>
+          <Button onClick={handlePostEntry} disabled={!canPost || isPosting} className="w-full">
+            {isPosting ? 'Menyimpan...' : 'Catat Jurnal Penyesuaian'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
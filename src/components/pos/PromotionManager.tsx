@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import { useMenuItems } from '@/hooks/useMenuItems';
+import { usePromotions, Promotion, PromotionScope, PromotionType } from '@/hooks/usePromotions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, Tag, ShieldCheck, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { describePromotion, isPromotionActive } from '@/utils/promotions';
+
+const emptyPromotion = {
+  name: '',
+  promo_type: 'percent' as PromotionType,
+  scope: 'order' as PromotionScope,
+  target_id: '',
+  value: '',
+  min_spend: '',
+  buy_quantity: '',
+  get_quantity: '',
+  start_date: '',
+  end_date: '',
+  start_time: '',
+  end_time: '',
+};
+
+export function PromotionManager() {
+  const { categories, items } = useMenuItems();
+  const {
+    promotions,
+    approvalLimit,
+    addPromotion,
+    updatePromotion,
+    deletePromotion,
+    updateApprovalLimit,
+    setApprovalPin,
+  } = usePromotions();
+  const [newPromotion, setNewPromotion] = useState(emptyPromotion);
+  const [limit, setLimit] = useState('');
+  const [pin, setPin] = useState('');
+
+  useEffect(() => {
+    setLimit(String(approvalLimit));
+  }, [approvalLimit]);
+
+  const handleAdd = async () => {
+    const promo = newPromotion;
+    if (!promo.name) { toast.error('Masukkan nama promo'); return; }
+    if (promo.scope !== 'order' && !promo.target_id) {
+      toast.error(promo.scope === 'item' ? 'Pilih menu' : 'Pilih kategori');
+      return;
+    }
+    if (promo.promo_type === 'buy_x_get_y' && (!parseInt(promo.buy_quantity) || !parseInt(promo.get_quantity))) {
+      toast.error('Masukkan jumlah beli dan gratis');
+      return;
+    }
+    if (promo.promo_type !== 'buy_x_get_y' && !parseInt(promo.value)) {
+      toast.error('Masukkan nilai diskon');
+      return;
+    }
+    if ((promo.start_time && !promo.end_time) || (!promo.start_time && promo.end_time)) {
+      toast.error('Lengkapi jam mulai dan selesai');
+      return;
+    }
+
+    try {
+      await addPromotion({
+        name: promo.name,
+        promo_type: promo.promo_type,
+        scope: promo.scope,
+        menu_item_id: promo.scope === 'item' ? promo.target_id : null,
+        category_id: promo.scope === 'category' ? promo.target_id : null,
+        value: promo.promo_type === 'buy_x_get_y' ? 0 : parseInt(promo.value) || 0,
+        min_spend: parseInt(promo.min_spend) || 0,
+        buy_quantity: promo.promo_type === 'buy_x_get_y' ? parseInt(promo.buy_quantity) : null,
+        get_quantity: promo.promo_type === 'buy_x_get_y' ? parseInt(promo.get_quantity) : null,
+        start_date: promo.start_date || null,
+        end_date: promo.end_date || null,
+        start_time: promo.start_time || null,
+        end_time: promo.end_time || null,
+        is_active: true,
+      });
+      setNewPromotion(emptyPromotion);
+      toast.success('Promo berhasil ditambahkan');
+    } catch { toast.error('Gagal menambahkan promo'); }
+  };
+
+  const handleToggle = async (promotion: Promotion) => {
+    try {
+      await updatePromotion(promotion.id, { is_active: !promotion.is_active });
+    } catch { toast.error('Gagal mengubah promo'); }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePromotion(id);
+      toast.success('Promo berhasil dihapus');
+    } catch { toast.error('Gagal menghapus promo'); }
+  };
+
+  const handleSaveLimit = async () => {
+    try {
+      await updateApprovalLimit(Math.max(0, parseInt(limit) || 0));
+      toast.success('Batas diskon disimpan');
+    } catch { toast.error('Gagal menyimpan batas diskon'); }
+  };
+
+  const handleSavePin = async () => {
+    if (!/^[0-9]{4,8}$/.test(pin)) { toast.error('PIN harus 4-8 angka'); return; }
+    try {
+      await setApprovalPin(pin);
+      setPin('');
+      toast.success('PIN persetujuan disimpan');
+    } catch { toast.error('Gagal menyimpan PIN'); }
+  };
+
+  const getTargetName = (promotion: Promotion) => {
+    if (promotion.scope === 'item') return items.find(i => i.id === promotion.menu_item_id)?.name;
+    if (promotion.scope === 'category') return categories.find(c => c.id === promotion.category_id)?.name;
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Add Promotion */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+        <h3 className="font-semibold">Tambah Promo</h3>
+        <div className="flex gap-3 flex-wrap">
+          <Input placeholder="Nama promo (mis. Happy Hour)" value={newPromotion.name} onChange={(e) => setNewPromotion({ ...newPromotion, name: e.target.value })} className="flex-1 min-w-[200px]" />
+          <select value={newPromotion.promo_type} onChange={(e) => setNewPromotion({ ...newPromotion, promo_type: e.target.value as PromotionType })} className="px-3 py-2 rounded-lg bg-secondary border border-border">
+            <option value="percent">Persen (%)</option>
+            <option value="fixed">Potongan (Rp)</option>
+            <option value="buy_x_get_y">Beli X Gratis Y</option>
+          </select>
+          <select value={newPromotion.scope} onChange={(e) => setNewPromotion({ ...newPromotion, scope: e.target.value as PromotionScope, target_id: '' })} className="px-3 py-2 rounded-lg bg-secondary border border-border">
+            <option value="order">Semua pesanan</option>
+            <option value="item">Per menu</option>
+            <option value="category">Per kategori</option>
+          </select>
+          {newPromotion.scope === 'item' && (
+            <select value={newPromotion.target_id} onChange={(e) => setNewPromotion({ ...newPromotion, target_id: e.target.value })} className="px-3 py-2 rounded-lg bg-secondary border border-border">
+              <option value="">Pilih Menu</option>
+              {items.map((i) => <option key={i.id} value={i.id}>{i.name}</option>)}
+            </select>
+          )}
+          {newPromotion.scope === 'category' && (
+            <select value={newPromotion.target_id} onChange={(e) => setNewPromotion({ ...newPromotion, target_id: e.target.value })} className="px-3 py-2 rounded-lg bg-secondary border border-border">
+              <option value="">Pilih Kategori</option>
+              {categories.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          )}
+        </div>
+        <div className="flex gap-3 flex-wrap items-center">
+          {newPromotion.promo_type === 'buy_x_get_y' ? (
+            <>
+              <Input placeholder="Beli" type="number" value={newPromotion.buy_quantity} onChange={(e) => setNewPromotion({ ...newPromotion, buy_quantity: e.target.value })} className="w-24" />
+              <Input placeholder="Gratis" type="number" value={newPromotion.get_quantity} onChange={(e) => setNewPromotion({ ...newPromotion, get_quantity: e.target.value })} className="w-24" />
+            </>
+          ) : (
+            <Input placeholder={newPromotion.promo_type === 'percent' ? 'Diskon %' : 'Potongan Rp'} type="number" value={newPromotion.value} onChange={(e) => setNewPromotion({ ...newPromotion, value: e.target.value })} className="w-32" />
+          )}
+          <Input placeholder="Min. belanja" type="number" value={newPromotion.min_spend} onChange={(e) => setNewPromotion({ ...newPromotion, min_spend: e.target.value })} className="w-36" />
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Tanggal
+            <Input type="date" value={newPromotion.start_date} onChange={(e) => setNewPromotion({ ...newPromotion, start_date: e.target.value })} className="w-40" />
+            -
+            <Input type="date" value={newPromotion.end_date} onChange={(e) => setNewPromotion({ ...newPromotion, end_date: e.target.value })} className="w-40" />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Jam
+            <Input type="time" value={newPromotion.start_time} onChange={(e) => setNewPromotion({ ...newPromotion, start_time: e.target.value })} className="w-28" />
+            -
+            <Input type="time" value={newPromotion.end_time} onChange={(e) => setNewPromotion({ ...newPromotion, end_time: e.target.value })} className="w-28" />
+          </label>
+          <Button onClick={handleAdd}><Plus className="w-4 h-4 mr-2" />Tambah</Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Promo berjalan otomatis di kasir. Jika beberapa promo berlaku, hanya diskon terbesar yang dipakai.
+        </p>
+      </div>
+
+      {/* Promotion List */}
+      <div className="bg-card rounded-xl border border-border divide-y divide-border">
+        {promotions.length === 0 ? (
+          <div className="p-6 text-center text-muted-foreground">Belum ada promo</div>
+        ) : promotions.map((promotion) => (
+          <div key={promotion.id} className="flex items-center gap-3 p-4">
+            <Tag className={cn("w-5 h-5 shrink-0", isPromotionActive(promotion) ? "text-success" : "text-muted-foreground")} />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium">
+                {promotion.name}
+                {getTargetName(promotion) && <span className="ml-2 text-sm text-muted-foreground">({getTargetName(promotion)})</span>}
+              </div>
+              <div className="text-xs text-muted-foreground">{describePromotion(promotion)}</div>
+            </div>
+            <Switch checked={promotion.is_active} onCheckedChange={() => handleToggle(promotion)} />
+            <button onClick={() => handleDelete(promotion.id)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+      </div>
+
+      {/* Manual Discount Approval */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-4">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Persetujuan Diskon Manual</h3>
+        </div>
+        <div className="flex gap-3 flex-wrap items-center">
+          <span className="text-sm text-muted-foreground">Batas diskon kasir tanpa persetujuan (Rp)</span>
+          <Input type="number" value={limit} onChange={(e) => setLimit(e.target.value)} className="w-36" />
+          <Button variant="outline" onClick={handleSaveLimit}><Save className="w-4 h-4 mr-2" />Simpan</Button>
+        </div>
+        <div className="flex gap-3 flex-wrap items-center">
+          <span className="text-sm text-muted-foreground">PIN persetujuan Anda</span>
+          <Input type="password" inputMode="numeric" maxLength={8} placeholder="4-8 angka" value={pin} onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))} className="w-36" />
+          <Button variant="outline" onClick={handleSavePin}><Save className="w-4 h-4 mr-2" />Simpan PIN</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { useInventory } from '@/hooks/useInventory';
+import {
+  usePurchasing,
+  GoodsReceiptLine,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  Supplier,
+  supplierBalance,
+} from '@/hooks/usePurchasing';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, Truck, ClipboardList, PackageCheck, Banknote, XCircle, History } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/utils/receiptPrinter';
+import { GoodsReceiptDialog } from '@/components/pos/GoodsReceiptDialog';
+import { SupplierPaymentDialog } from '@/components/pos/SupplierPaymentDialog';
+
+const emptySupplier = { name: '', phone: '', address: '' };
+const emptyLine = { ingredient_id: '', quantity: '', unit_cost: '' };
+
+const statusLabel: Record<PurchaseOrderStatus, string> = {
+  ordered: 'Dipesan',
+  partial: 'Diterima sebagian',
+  received: 'Diterima',
+  cancelled: 'Dibatalkan',
+};
+
+const statusColor: Record<PurchaseOrderStatus, string> = {
+  ordered: 'bg-blue-500/20 text-blue-500',
+  partial: 'bg-yellow-500/20 text-yellow-500',
+  received: 'bg-success/20 text-success',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+export function PurchasingManager() {
+  const { ingredients, refetch: refetchInventory } = useInventory();
+  const {
+    suppliers,
+    purchaseOrders,
+    receipts,
+    payments,
+    addSupplier,
+    updateSupplier,
+    deleteSupplier,
+    createPurchaseOrder,
+    cancelPurchaseOrder,
+    receivePurchaseOrder,
+    recordPayment,
+  } = usePurchasing();
+  const [newSupplier, setNewSupplier] = useState(emptySupplier);
+  const [orderSupplierId, setOrderSupplierId] = useState('');
+  const [orderLines, setOrderLines] = useState<PurchaseOrderLine[]>([]);
+  const [newLine, setNewLine] = useState(emptyLine);
+  const [orderNotes, setOrderNotes] = useState('');
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [paying, setPaying] = useState<{ supplier: Supplier; purchaseOrderId?: string } | null>(null);
+
+  const ingredientById = (id: string) => ingredients.find(ingredient => ingredient.id === id);
+  const supplierName = (id: string) => suppliers.find(supplier => supplier.id === id)?.name ?? '-';
+  const orderTotal = orderLines.reduce((sum, line) => sum + Math.round(line.quantity * line.unit_cost), 0);
+
+  const handleAddSupplier = async () => {
+    if (!newSupplier.name.trim()) { toast.error('Masukkan nama supplier'); return; }
+    try {
+      await addSupplier({
+        name: newSupplier.name.trim(),
+        phone: newSupplier.phone.trim() || null,
+        address: newSupplier.address.trim() || null,
+        notes: null,
+      });
+      setNewSupplier(emptySupplier);
+      toast.success('Supplier berhasil ditambahkan');
+    } catch { toast.error('Gagal menambahkan supplier'); }
+  };
+
+  const handleToggleSupplier = async (supplier: Supplier) => {
+    try {
+      await updateSupplier(supplier.id, { is_active: !supplier.is_active });
+    } catch { toast.error('Gagal mengubah supplier'); }
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    try {
+      await deleteSupplier(supplier.id);
+      toast.success('Supplier berhasil dihapus');
+    } catch { toast.error('Supplier sudah punya PO, nonaktifkan saja'); }
+  };
+
+  const handleSelectIngredient = (ingredientId: string) => {
+    const ingredient = ingredientById(ingredientId);
+    setNewLine({
+      ...newLine,
+      ingredient_id: ingredientId,
+      unit_cost: ingredient?.last_unit_cost != null ? String(ingredient.last_unit_cost) : newLine.unit_cost,
+    });
+  };
+
+  const handleAddLine = () => {
+    const quantity = parseFloat(newLine.quantity);
+    const unitCost = parseInt(newLine.unit_cost);
+    if (!newLine.ingredient_id) { toast.error('Pilih bahan'); return; }
+    if (!(quantity > 0)) { toast.error('Masukkan jumlah'); return; }
+    if (isNaN(unitCost) || unitCost < 0) { toast.error('Masukkan harga per unit'); return; }
+    setOrderLines(prev => [...prev, { ingredient_id: newLine.ingredient_id, quantity, unit_cost: unitCost }]);
+    setNewLine(emptyLine);
+  };
+
+  const handleCreateOrder = async () => {
+    if (!orderSupplierId) { toast.error('Pilih supplier'); return; }
+    if (orderLines.length === 0) { toast.error('Tambahkan minimal satu bahan'); return; }
+    try {
+      const purchaseOrder = await createPurchaseOrder(orderSupplierId, orderLines, orderNotes);
+      setOrderLines([]);
+      setOrderNotes('');
+      toast.success(`${purchaseOrder.po_number} dibuat`);
+    } catch { toast.error('Gagal membuat PO'); }
+  };
+
+  const handleCancelOrder = async (purchaseOrder: PurchaseOrder) => {
+    if (!confirm(`Batalkan ${purchaseOrder.po_number}?`)) return;
+    try {
+      await cancelPurchaseOrder(purchaseOrder.id);
+      toast.success('PO dibatalkan');
+    } catch { toast.error('Gagal membatalkan PO'); }
+  };
+
+  const handleReceive = async (purchaseOrder: PurchaseOrder, items: GoodsReceiptLine[], notes?: string) => {
+    await receivePurchaseOrder(purchaseOrder.id, items, notes);
+    refetchInventory();
+  };
+
+  const payableOrders = (supplierId: string) =>
+    purchaseOrders.filter(po => po.supplier_id === supplierId && po.status !== 'cancelled' && po.received_amount > po.paid_amount);
+
+  return (
+    <div className="space-y-6">
+      {/* Suppliers */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+        <div className="flex items-center gap-2">
+          <Truck className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Supplier</h3>
+        </div>
+        <div className="flex gap-3 flex-wrap">
+          <Input placeholder="Nama supplier" value={newSupplier.name} onChange={(e) => setNewSupplier({ ...newSupplier, name: e.target.value })} className="flex-1 min-w-[180px]" />
+          <Input placeholder="No. HP" value={newSupplier.phone} onChange={(e) => setNewSupplier({ ...newSupplier, phone: e.target.value })} className="w-40" />
+          <Input placeholder="Alamat" value={newSupplier.address} onChange={(e) => setNewSupplier({ ...newSupplier, address: e.target.value })} className="flex-1 min-w-[180px]" />
+          <Button onClick={handleAddSupplier}><Plus className="w-4 h-4 mr-2" />Tambah</Button>
+        </div>
+        <div className="divide-y divide-border rounded-lg border border-border">
+          {suppliers.length === 0 ? (
+            <div className="p-4 text-center text-sm text-muted-foreground">Belum ada supplier</div>
+          ) : suppliers.map((supplier) => {
+            const balance = supplierBalance(supplier.id, purchaseOrders, payments);
+            return (
+              <div key={supplier.id} className="flex items-center gap-3 p-3 flex-wrap">
+                <div className={cn("flex-1 min-w-[160px]", !supplier.is_active && "opacity-50")}>
+                  <div className="font-medium">{supplier.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {[supplier.phone, supplier.address].filter(Boolean).join(' · ') || '-'}
+                  </div>
+                </div>
+                <div className="text-right text-sm">
+                  <div className="text-xs text-muted-foreground">Hutang</div>
+                  <div className={cn("font-semibold", balance > 0 ? "text-destructive" : "text-muted-foreground")}>{formatPrice(balance)}</div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setPaying({ supplier })}>
+                  <Banknote className="w-4 h-4 mr-1" />Bayar
+                </Button>
+                <Switch checked={supplier.is_active} onCheckedChange={() => handleToggleSupplier(supplier)} />
+                <button onClick={() => handleDeleteSupplier(supplier)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* New Purchase Order */}
+      <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Buat Purchase Order</h3>
+        </div>
+        <select value={orderSupplierId} onChange={(e) => setOrderSupplierId(e.target.value)} className="w-full px-3 py-2 rounded-lg bg-secondary border border-border">
+          <option value="">Pilih supplier</option>
+          {suppliers.filter(supplier => supplier.is_active).map((supplier) => (
+            <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+          ))}
+        </select>
+        {orderLines.length > 0 && (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {orderLines.map((line, index) => {
+              const ingredient = ingredientById(line.ingredient_id);
+              return (
+                <div key={index} className="flex items-center gap-3 p-3 text-sm">
+                  <span className="flex-1 font-medium">{ingredient?.name ?? '-'}</span>
+                  <span className="text-muted-foreground">{line.quantity} {ingredient?.unit} x {formatPrice(line.unit_cost)}</span>
+                  <span className="font-semibold w-28 text-right">{formatPrice(Math.round(line.quantity * line.unit_cost))}</span>
+                  <button onClick={() => setOrderLines(prev => prev.filter((_, i) => i !== index))} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div className="flex gap-3 flex-wrap">
+          <select value={newLine.ingredient_id} onChange={(e) => handleSelectIngredient(e.target.value)} className="flex-1 min-w-[160px] px-3 py-2 rounded-lg bg-secondary border border-border">
+            <option value="">Pilih bahan</option>
+            {ingredients.map((ingredient) => <option key={ingredient.id} value={ingredient.id}>{ingredient.name} ({ingredient.unit})</option>)}
+          </select>
+          <Input placeholder="Jumlah" type="number" value={newLine.quantity} onChange={(e) => setNewLine({ ...newLine, quantity: e.target.value })} className="w-28" />
+          <Input placeholder="Harga / unit" type="number" value={newLine.unit_cost} onChange={(e) => setNewLine({ ...newLine, unit_cost: e.target.value })} className="w-36" />
+          <Button variant="outline" onClick={handleAddLine}><Plus className="w-4 h-4 mr-2" />Bahan</Button>
+        </div>
+        <div className="flex gap-3 flex-wrap items-center">
+          <Input placeholder="Catatan" value={orderNotes} onChange={(e) => setOrderNotes(e.target.value)} className="flex-1 min-w-[200px]" />
+          <span className="font-semibold">{formatPrice(orderTotal)}</span>
+          <Button onClick={handleCreateOrder}>Buat PO</Button>
+        </div>
+      </div>
+
+      {/* Purchase Orders */}
+      <div className="bg-card rounded-xl border border-border divide-y divide-border">
+        {purchaseOrders.length === 0 ? (
+          <div className="p-6 text-center text-muted-foreground">Belum ada purchase order</div>
+        ) : purchaseOrders.map((po) => {
+          const status = po.status as PurchaseOrderStatus;
+          const supplier = suppliers.find(s => s.id === po.supplier_id);
+          return (
+            <div key={po.id} className="p-4 space-y-2">
+              <div className="flex items-center gap-3 flex-wrap">
+                <div className="flex-1 min-w-[180px]">
+                  <div className="font-medium">
+                    {po.po_number}
+                    <span className={cn("ml-2 px-2 py-0.5 rounded-full text-xs font-medium", statusColor[status])}>{statusLabel[status]}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {supplierName(po.supplier_id)} · {new Date(po.order_date).toLocaleDateString('id-ID')}
+                  </div>
+                </div>
+                <div className="text-right text-xs text-muted-foreground">
+                  <div>Pesanan {formatPrice(po.total_amount)}</div>
+                  <div>Diterima {formatPrice(po.received_amount)} · Dibayar {formatPrice(po.paid_amount)}</div>
+                </div>
+                {(status === 'ordered' || status === 'partial') && (
+                  <Button variant="outline" size="sm" onClick={() => setReceivingOrder(po)}>
+                    <PackageCheck className="w-4 h-4 mr-1" />Terima
+                  </Button>
+                )}
+                {supplier && status !== 'cancelled' && po.received_amount > po.paid_amount && (
+                  <Button variant="outline" size="sm" onClick={() => setPaying({ supplier, purchaseOrderId: po.id })}>
+                    <Banknote className="w-4 h-4 mr-1" />Bayar
+                  </Button>
+                )}
+                {status === 'ordered' && po.paid_amount === 0 && (
+                  <button onClick={() => handleCancelOrder(po)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><XCircle className="w-4 h-4" /></button>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {po.purchase_order_items.map(item => {
+                  const ingredient = ingredientById(item.ingredient_id);
+                  return `${ingredient?.name ?? '-'} ${item.received_quantity}/${item.quantity} ${ingredient?.unit ?? ''}`;
+                }).join(' · ')}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Goods Receipts */}
+      <div className="bg-card rounded-xl border border-border">
+        <div className="flex items-center gap-2 p-4 border-b border-border">
+          <History className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Penerimaan Barang</h3>
+        </div>
+        {receipts.length === 0 ? (
+          <div className="p-6 text-center text-muted-foreground">Belum ada penerimaan barang</div>
+        ) : (
+          <div className="divide-y divide-border">
+            {receipts.slice(0, 20).map((receipt) => (
+              <div key={receipt.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">
+                    {purchaseOrders.find(po => po.id === receipt.purchase_order_id)?.po_number ?? '-'} · {supplierName(receipt.supplier_id)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(receipt.received_at).toLocaleString('id-ID', { dateStyle: 'short', timeStyle: 'short' })}
+                    {receipt.notes && ` · ${receipt.notes}`}
+                  </div>
+                </div>
+                <span className="font-semibold">{formatPrice(receipt.total_cost)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {receivingOrder && (
+        <GoodsReceiptDialog
+          purchaseOrder={receivingOrder}
+          ingredients={ingredients}
+          onClose={() => setReceivingOrder(null)}
+          onReceive={(items, notes) => handleReceive(receivingOrder, items, notes)}
+        />
+      )}
+
+      {paying && (
+        <SupplierPaymentDialog
+          supplier={paying.supplier}
+          balance={supplierBalance(paying.supplier.id, purchaseOrders, payments)}
+          purchaseOrders={payableOrders(paying.supplier.id)}
+          initialPurchaseOrderId={paying.purchaseOrderId}
+          onClose={() => setPaying(null)}
+          onPay={recordPayment}
+        />
+      )}
+    </div>
+  );
+}
@@ -62,7 +62,7 @@ export function QrisPaymentDialog({
           grossAmount: total,
           customerName: customerName || 'Customer',
           items: cart.map(item => ({
-            id: item.id,
+            id: item.menuItemId ?? item.id,
             name: item.name,
             price: item.price,
             quantity: item.quantity,
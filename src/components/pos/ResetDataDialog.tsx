@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import {
@@ -27,6 +28,32 @@ export function ResetDataDialog({ onReset }: ResetDataDialogProps) {
   const [resetType, setResetType] = useState<ResetType>('today');
   const [confirmText, setConfirmText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [lockedThrough, setLockedThrough] = useState<string | null>(null);
+  const [postedCount, setPostedCount] = useState(0);
+
+  // Closed periods are locked in the database, so only data after the close can be removed
+  useEffect(() => {
+    if (!isOpen) return;
+    supabase.rpc('locked_through').then(({ data }) => setLockedThrough(data ?? null));
+  }, [isOpen]);
+
+  // Orders that reached the journal carry HPP, stock and shift postings; deleting them would
+  // leave those behind, so they can only be voided or refunded
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let query = supabase
+      .from('journal_entries')
+      .select('id', { count: 'exact', head: true })
+      .eq('source_type', 'order');
+    if (resetType === 'today') {
+      query = query.eq('entry_date', format(new Date(), 'yyyy-MM-dd'));
+    } else if (lockedThrough) {
+      query = query.gt('entry_date', lockedThrough);
+    }
+
+    query.then(({ count }) => setPostedCount(count ?? 0));
+  }, [isOpen, resetType, lockedThrough]);
 
   const CONFIRM_WORD = resetType === 'all' ? 'HAPUS SEMUA' : 'HAPUS HARI INI';
 
@@ -36,20 +63,52 @@ export function ResetDataDialog({ onReset }: ResetDataDialogProps) {
       return;
     }
 
+    if (postedCount > 0) {
+      toast.error('Ada transaksi yang sudah tercatat di jurnal; gunakan void atau refund');
+      return;
+    }
+
     setIsLoading(true);
     try {
       if (resetType === 'all') {
-        // Delete all data
-        const { error: itemsError } = await supabase.from('order_items').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-        if (itemsError) throw itemsError;
+        if (lockedThrough) {
+          // Delete everything after the closed period
+          const openFrom = new Date(`${lockedThrough}T00:00:00+07:00`);
+          openFrom.setDate(openFrom.getDate() + 1);
 
-        const { error: ordersError } = await supabase.from('orders').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-        if (ordersError) throw ordersError;
+          const { data: openOrders, error: openOrdersError } = await supabase
+            .from('orders')
+            .select('id')
+            .gte('created_at', openFrom.toISOString());
+          if (openOrdersError) throw openOrdersError;
 
-        const { error: reportsError } = await supabase.from('daily_reports').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-        if (reportsError) throw reportsError;
+          if (openOrders && openOrders.length > 0) {
+            const orderIds = openOrders.map(o => o.id);
+
+            const { error: itemsError } = await supabase.from('order_items').delete().in('order_id', orderIds);
+            if (itemsError) throw itemsError;
 
-        toast.success('Semua data transaksi berhasil dihapus');
+            const { error: ordersError } = await supabase.from('orders').delete().in('id', orderIds);
+            if (ordersError) throw ordersError;
+          }
+
+          const { error: reportsError } = await supabase.from('daily_reports').delete().gt('report_date', lockedThrough);
+          if (reportsError) throw reportsError;
+
+          toast.success('Data transaksi setelah tutup buku berhasil dihapus');
+        } else {
+          // Delete all data
+          const { error: itemsError } = await supabase.from('order_items').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          if (itemsError) throw itemsError;
+
+          const { error: ordersError } = await supabase.from('orders').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          if (ordersError) throw ordersError;
+
+          const { error: reportsError } = await supabase.from('daily_reports').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+          if (reportsError) throw reportsError;
+
+          toast.success('Semua data transaksi berhasil dihapus');
+        }
       } else {
         // Delete today's data only
         const today = new Date();
@@ -97,7 +156,10 @@ export function ResetDataDialog({ onReset }: ResetDataDialogProps) {
       onReset?.();
     } catch (error) {
       console.error('Error resetting data:', error);
-      toast.error('Gagal menghapus data');
+      const message = error instanceof Error ? error.message : '';
+      toast.error(message.includes('ledger postings')
+        ? 'Ada transaksi yang sudah tercatat di jurnal; gunakan void atau refund'
+        : 'Gagal menghapus data');
     } finally {
       setIsLoading(false);
     }
@@ -156,12 +218,23 @@ export function ResetDataDialog({ onReset }: ResetDataDialogProps) {
                   />
                   <div>
                     <span className="font-medium text-destructive">Semua Transaksi</span>
-                    <p className="text-xs text-muted-foreground">Hapus semua data dari awal</p>
+                    <p className="text-xs text-muted-foreground">
+                      {lockedThrough
+                        ? `Hapus semua data setelah tutup buku ${new Date(lockedThrough).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}`
+                        : 'Hapus semua data dari awal'}
+                    </p>
                   </div>
                 </label>
               </div>
             </div>
 
+            {postedCount > 0 && (
+              <p className="text-sm p-3 rounded-lg bg-destructive/10 text-destructive">
+                {postedCount} transaksi dalam rentang ini sudah tercatat di jurnal, HPP, stok dan shift kas.
+                Batalkan lewat void atau refund agar pembukuannya ikut dibalik.
+              </p>
+            )}
+
             <div className="space-y-2 pt-2">
               <p className="text-sm">
                 Ketik <span className="font-mono font-bold text-destructive">{CONFIRM_WORD}</span> untuk konfirmasi:
@@ -180,7 +253,7 @@ export function ResetDataDialog({ onReset }: ResetDataDialogProps) {
           <Button
             variant="destructive"
             onClick={handleReset}
-            disabled={confirmText !== CONFIRM_WORD || isLoading}
+            disabled={confirmText !== CONFIRM_WORD || postedCount > 0 || isLoading}
           >
             {isLoading ? 'Menghapus...' : 'Hapus Data'}
           </Button>
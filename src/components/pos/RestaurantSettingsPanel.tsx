@@ -3,7 +3,33 @@ import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Store, Save, Loader2 } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Store, Save, Loader2, Receipt, FileText } from 'lucide-react';
+import { calculateBillTotals, getChargeLines, TaxSettings } from '@/utils/billTotals';
+import { formatPrice } from '@/utils/receiptPrinter';
+import {
+  buildReceiptDocument,
+  renderReceiptHTML,
+  renderReceiptText,
+  resolveReceiptTemplate,
+  ReceiptData,
+  ReceiptTemplate,
+  RECEIPT_FIELDS,
+} from '@/utils/receiptDocument';
+import { cn } from '@/lib/utils';
+
+const SAMPLE_ITEMS: ReceiptData['items'] = [
+  {
+    id: 'sample-1',
+    name: 'Nasi Rendang',
+    price: 30000,
+    quantity: 2,
+    modifiers: [{ group_name: 'Level', name: 'Pedas', price_delta: 0 }],
+    notes: 'Kuah dipisah',
+  },
+  { id: 'sample-2', name: 'Es Teh Manis', price: 8000, quantity: 2, modifiers: [] },
+];
 
 export function RestaurantSettingsPanel() {
   const { settings, isLoading, updateSettings, isUpdating } = useRestaurantSettings();
@@ -17,6 +43,19 @@ export function RestaurantSettingsPanel() {
     instagram_handle: '',
     footer_message: '',
   });
+  const [templateForm, setTemplateForm] = useState({
+    logo_url: '',
+    header_lines: '',
+    fields: resolveReceiptTemplate().fields,
+  });
+  const [previewMode, setPreviewMode] = useState<'html' | 'text'>('html');
+  const [taxForm, setTaxForm] = useState({
+    tax_rate: '0',
+    service_charge_rate: '0',
+    prices_include_tax: false,
+    rounding_unit: '0',
+    rounding_mode: 'nearest' as TaxSettings['rounding_mode'],
+  });
 
   useEffect(() => {
     if (settings) {
@@ -29,11 +68,62 @@ export function RestaurantSettingsPanel() {
         instagram_handle: settings.instagram_handle || '',
         footer_message: settings.footer_message || '',
       });
+      const template = resolveReceiptTemplate(settings.receipt_template);
+      setTemplateForm({
+        logo_url: template.logo_url || '',
+        header_lines: template.header_lines.join('\n'),
+        fields: template.fields,
+      });
+      setTaxForm({
+        tax_rate: String(settings.tax_rate ?? 0),
+        service_charge_rate: String(settings.service_charge_rate ?? 0),
+        prices_include_tax: settings.prices_include_tax ?? false,
+        rounding_unit: String(settings.rounding_unit ?? 0),
+        rounding_mode: settings.rounding_mode || 'nearest',
+      });
     }
   }, [settings]);
 
+  const taxSettings: TaxSettings = {
+    tax_rate: Math.min(Math.max(parseFloat(taxForm.tax_rate) || 0, 0), 100),
+    service_charge_rate: Math.min(Math.max(parseFloat(taxForm.service_charge_rate) || 0, 0), 100),
+    prices_include_tax: taxForm.prices_include_tax,
+    rounding_unit: Math.max(parseInt(taxForm.rounding_unit) || 0, 0),
+    rounding_mode: taxForm.rounding_mode,
+  };
+
+  // Worked example so admins can check the configuration before saving
+  const example = calculateBillTotals(100000, 0, taxSettings);
+
+  const receiptTemplate: ReceiptTemplate = {
+    logo_url: templateForm.logo_url.trim() || null,
+    header_lines: templateForm.header_lines.split('\n').map(line => line.trim()).filter(Boolean),
+    fields: templateForm.fields,
+  };
+
+  // Sample order run through the unsaved settings, so the preview follows every keystroke
+  const sampleSubtotal = SAMPLE_ITEMS.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const sampleTotals = calculateBillTotals(sampleSubtotal, 0, taxSettings);
+  const previewDocument = buildReceiptDocument(
+    {
+      orderNumber: 'ORD-0001',
+      cashierName: 'Kasir',
+      tableNumber: 5,
+      items: SAMPLE_ITEMS,
+      subtotal: sampleSubtotal,
+      discount: 0,
+      charges: getChargeLines(sampleTotals, taxSettings),
+      total: sampleTotals.total,
+      paymentMethod: 'cash',
+      amountPaid: 100000,
+      change: 100000 - sampleTotals.total,
+      timestamp: new Date(),
+    },
+    { ...form, receipt_template: receiptTemplate }
+  );
+
   const handleSave = () => {
-    updateSettings(form);
+    updateSettings({ ...form, ...taxSettings, receipt_template: receiptTemplate });
   };
 
   if (isLoading) {
@@ -115,14 +205,182 @@ export function RestaurantSettingsPanel() {
 
         <div className="space-y-2">
           <Label htmlFor="footer_message">Pesan di Bagian Bawah Struk</Label>
-          <Input
+          <Textarea
             id="footer_message"
+            rows={2}
             value={form.footer_message}
             onChange={(e) => setForm({ ...form, footer_message: e.target.value })}
             placeholder="Terima Kasih!"
           />
         </div>
 
+        <div className="border-t border-border pt-4 space-y-4">
+          <h4 className="font-semibold flex items-center gap-2">
+            <FileText className="w-4 h-4 text-primary" />
+            Template Struk
+          </h4>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="logo_url">URL Logo</Label>
+                <Input
+                  id="logo_url"
+                  value={templateForm.logo_url}
+                  onChange={(e) => setTemplateForm({ ...templateForm, logo_url: e.target.value })}
+                  placeholder="https://..."
+                />
+                <p className="text-xs text-muted-foreground">Gambar hitam-putih paling jelas di printer thermal</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="header_lines">Baris Tambahan di Header</Label>
+                <Textarea
+                  id="header_lines"
+                  rows={2}
+                  value={templateForm.header_lines}
+                  onChange={(e) => setTemplateForm({ ...templateForm, header_lines: e.target.value })}
+                  placeholder="Satu baris per baris teks"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Tampilkan di Struk</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {RECEIPT_FIELDS.map(field => (
+                    <label key={field.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-secondary/50 text-sm">
+                      {field.label}
+                      <Switch
+                        checked={templateForm.fields[field.id]}
+                        onCheckedChange={(checked) => setTemplateForm({
+                          ...templateForm,
+                          fields: { ...templateForm.fields, [field.id]: checked },
+                        })}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Pratinjau</Label>
+                <div className="flex gap-1">
+                  {([['html', 'Cetak Browser'], ['text', 'Bluetooth']] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setPreviewMode(mode)}
+                      className={cn(
+                        "px-3 py-1 rounded-lg text-xs font-medium transition-all",
+                        previewMode === mode ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-center p-4 rounded-lg bg-muted">
+                {previewMode === 'html' ? (
+                  // Printed at 58mm the type is tiny; scale it up for reading on screen
+                  <div className="h-[480px] overflow-hidden">
+                    <iframe
+                      title="Pratinjau struk"
+                      srcDoc={renderReceiptHTML(previewDocument, { printButton: false })}
+                      className="w-[58mm] h-[320px] bg-white shadow origin-top scale-150"
+                    />
+                  </div>
+                ) : (
+                  <pre className="p-3 bg-white text-black text-xs font-mono leading-tight shadow">
+                    {renderReceiptText(previewDocument)}
+                  </pre>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="border-t border-border pt-4 space-y-4">
+          <h4 className="font-semibold flex items-center gap-2">
+            <Receipt className="w-4 h-4 text-primary" />
+            Pajak (PB1) & Service Charge
+          </h4>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax_rate">PB1 (%)</Label>
+              <Input
+                id="tax_rate"
+                type="number"
+                step="0.01"
+                value={taxForm.tax_rate}
+                onChange={(e) => setTaxForm({ ...taxForm, tax_rate: e.target.value })}
+                placeholder="10"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="service_charge_rate">Service Charge (%)</Label>
+              <Input
+                id="service_charge_rate"
+                type="number"
+                step="0.01"
+                value={taxForm.service_charge_rate}
+                onChange={(e) => setTaxForm({ ...taxForm, service_charge_rate: e.target.value })}
+                placeholder="0"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="prices_include_tax">Harga menu sudah termasuk pajak & service</Label>
+              <p className="text-xs text-muted-foreground">Jika aktif, pajak dihitung dari dalam harga dan total tidak bertambah</p>
+            </div>
+            <Switch
+              id="prices_include_tax"
+              checked={taxForm.prices_include_tax}
+              onCheckedChange={(checked) => setTaxForm({ ...taxForm, prices_include_tax: checked })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rounding_unit">Pembulatan Total</Label>
+              <select
+                id="rounding_unit"
+                value={taxForm.rounding_unit}
+                onChange={(e) => setTaxForm({ ...taxForm, rounding_unit: e.target.value })}
+                className="w-full px-3 py-2 rounded-lg bg-secondary border border-border"
+              >
+                <option value="0">Tanpa pembulatan</option>
+                <option value="100">Rp 100</option>
+                <option value="500">Rp 500</option>
+                <option value="1000">Rp 1.000</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rounding_mode">Arah Pembulatan</Label>
+              <select
+                id="rounding_mode"
+                value={taxForm.rounding_mode}
+                onChange={(e) => setTaxForm({ ...taxForm, rounding_mode: e.target.value as TaxSettings['rounding_mode'] })}
+                disabled={taxSettings.rounding_unit === 0}
+                className="w-full px-3 py-2 rounded-lg bg-secondary border border-border"
+              >
+                <option value="nearest">Terdekat</option>
+                <option value="up">Ke atas</option>
+                <option value="down">Ke bawah</option>
+              </select>
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Contoh pesanan {formatPrice(100000)}: service {formatPrice(example.serviceCharge)}, PB1 {formatPrice(example.tax)}
+            {example.rounding !== 0 && `, pembulatan ${formatPrice(example.rounding)}`}, total {formatPrice(example.total)}
+          </p>
+        </div>
+
         <Button onClick={handleSave} disabled={isUpdating} className="w-full md:w-auto">
           {isUpdating ? (
             <Loader2 className="w-4 h-4 mr-2 animate-spin" />
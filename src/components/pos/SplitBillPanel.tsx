@@ -0,0 +1,308 @@
+import { useState, useMemo } from 'react';
+import { Order, SplitPayment, SplitType } from '@/hooks/useOrders';
+import { Banknote, CreditCard, QrCode, Minus, Plus, Loader2, CheckCircle, ListChecks, Users, PenLine } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/utils/receiptPrinter';
+
+interface SplitBillPanelProps {
+  order: Order;
+  isProcessing: boolean;
+  onPayShare: (share: SplitPayment) => void;
+}
+
+const splitModes = [
+  { id: 'items' as const, label: 'Per Item', icon: ListChecks },
+  { id: 'equal' as const, label: 'Bagi Rata', icon: Users },
+  { id: 'custom' as const, label: 'Nominal', icon: PenLine },
+];
+
+const paymentMethods = [
+  { id: 'cash' as const, label: 'Tunai', icon: Banknote },
+  { id: 'qris' as const, label: 'QRIS', icon: QrCode },
+  { id: 'transfer' as const, label: 'Transfer', icon: CreditCard },
+];
+
+const paymentMethodLabel: Record<string, string> = {
+  cash: 'Tunai',
+  transfer: 'Transfer',
+  qris: 'QRIS',
+};
+
+export function SplitBillPanel({ order, isProcessing, onPayShare }: SplitBillPanelProps) {
+  const [mode, setMode] = useState<SplitType>('items');
+  const [equalCount, setEqualCount] = useState(2);
+  const [customAmount, setCustomAmount] = useState(0);
+  const [picked, setPicked] = useState<Record<string, number>>({});
+  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'transfer' | 'qris'>('cash');
+  const [cashReceived, setCashReceived] = useState(0);
+
+  const splits = order.order_splits || [];
+  const paidTotal = splits.reduce((sum, split) => sum + split.amount, 0);
+  const remaining = order.total - paidTotal;
+
+  // Quantity of each order line not yet paid by an item share
+  const unpaidQuantities = useMemo(() => {
+    const paid: Record<string, number> = {};
+    for (const split of splits) {
+      const items = (split.items as { order_item_id: string; quantity: number }[] | null) || [];
+      for (const item of items) {
+        paid[item.order_item_id] = (paid[item.order_item_id] || 0) + item.quantity;
+      }
+    }
+    const result: Record<string, number> = {};
+    for (const item of order.order_items || []) {
+      result[item.id] = Math.max(0, item.quantity - (paid[item.id] || 0));
+    }
+    return result;
+  }, [order.order_items, splits]);
+
+  const pickedItems = Object.entries(picked)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+  const sharesLeft = Math.max(1, equalCount - splits.length);
+
+  const shareAmount = (() => {
+    switch (mode) {
+      case 'items': {
+        // Picking every unpaid item settles the rest exactly, leaving no rounding remainder
+        const picksAll = Object.entries(unpaidQuantities).every(([id, quantity]) => (picked[id] || 0) >= quantity);
+        if (picksAll && pickedItems.length > 0) return remaining;
+        const itemsValue = pickedItems.reduce((sum, pick) => {
+          const item = order.order_items?.find(i => i.id === pick.order_item_id);
+          return sum + (item ? item.unit_price * pick.quantity : 0);
+        }, 0);
+        // Items carry their share of the discount, service charge and tax
+        const ratio = order.subtotal > 0 ? order.total / order.subtotal : 1;
+        return Math.min(remaining, Math.round(itemsValue * ratio));
+      }
+      case 'equal':
+        return sharesLeft === 1 ? remaining : Math.ceil(remaining / sharesLeft);
+      case 'custom':
+        return Math.min(remaining, customAmount);
+    }
+  })();
+
+  const amountPaid = paymentMethod === 'cash' ? cashReceived : shareAmount;
+  const change = paymentMethod === 'cash' ? cashReceived - shareAmount : 0;
+  const canPay = !isProcessing && shareAmount > 0 && amountPaid >= shareAmount;
+
+  const setPickedQuantity = (orderItemId: string, quantity: number) => {
+    const max = unpaidQuantities[orderItemId] || 0;
+    setPicked(prev => ({ ...prev, [orderItemId]: Math.max(0, Math.min(max, quantity)) }));
+  };
+
+  const handlePay = () => {
+    if (!canPay) return;
+    onPayShare({
+      splitType: mode,
+      amount: shareAmount,
+      paymentMethod,
+      amountPaid,
+      items: mode === 'items' ? pickedItems : undefined,
+    });
+    setPicked({});
+    setCustomAmount(0);
+    setCashReceived(0);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Progress */}
+      <div className="bg-secondary/50 rounded-xl p-4 space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Total Tagihan</span>
+          <span className="font-medium">{formatPrice(order.total)}</span>
+        </div>
+        {splits.map(split => (
+          <div key={split.id} className="flex justify-between text-sm">
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <CheckCircle className="w-3 h-3 text-green-500" />
+              Bagian {split.split_number} ({paymentMethodLabel[split.payment_method]})
+            </span>
+            <span>{formatPrice(split.amount)}</span>
+          </div>
+        ))}
+        <div className="border-t border-border pt-2 flex justify-between font-bold">
+          <span>Sisa</span>
+          <span className="text-primary">{formatPrice(remaining)}</span>
+        </div>
+      </div>
+
+      {/* Split Mode */}
+      <div className="grid grid-cols-3 gap-2">
+        {splitModes.map(option => {
+          const Icon = option.icon;
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setMode(option.id)}
+              className={cn(
+                "flex flex-col items-center gap-1 p-3 rounded-xl text-sm font-medium transition-all",
+                mode === option.id
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-muted-foreground hover:bg-muted/80"
+              )}
+            >
+              <Icon className="h-5 w-5" />
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {mode === 'items' && (
+        <div className="space-y-2">
+          {order.order_items?.map(item => {
+            const unpaid = unpaidQuantities[item.id] || 0;
+            const quantity = picked[item.id] || 0;
+            return (
+              <div
+                key={item.id}
+                className={cn(
+                  "flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50 text-sm",
+                  unpaid === 0 && "opacity-50"
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{item.menu_item_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatPrice(item.unit_price)} · sisa {unpaid} dari {item.quantity}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => setPickedQuantity(item.id, quantity - 1)}
+                    disabled={quantity === 0}
+                    className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-muted/80"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </button>
+                  <span className="w-6 text-center font-bold">{quantity}</span>
+                  <button
+                    type="button"
+                    onClick={() => setPickedQuantity(item.id, quantity + 1)}
+                    disabled={quantity >= unpaid}
+                    className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-muted/80"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {mode === 'equal' && (
+        <div className="flex items-center justify-between p-4 bg-secondary/50 rounded-xl">
+          <span className="text-sm font-medium">Jumlah orang</span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setEqualCount(Math.max(splits.length + 1, equalCount - 1))}
+              className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-muted/80"
+            >
+              <Minus className="w-4 h-4" />
+            </button>
+            <span className="w-8 text-center font-bold">{equalCount}</span>
+            <button
+              type="button"
+              onClick={() => setEqualCount(equalCount + 1)}
+              className="w-8 h-8 flex items-center justify-center rounded-lg bg-muted hover:bg-muted/80"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'custom' && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Nominal Bagian</label>
+          <input
+            type="number"
+            value={customAmount || ''}
+            onChange={(e) => setCustomAmount(parseFloat(e.target.value) || 0)}
+            placeholder="Masukkan nominal..."
+            className="w-full px-4 py-3 rounded-lg bg-background border border-border text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-primary"
+            min={0}
+            max={remaining}
+          />
+        </div>
+      )}
+
+      {/* Share Payment */}
+      <div className="space-y-3 p-4 bg-secondary/50 rounded-xl">
+        <div className="flex justify-between font-bold">
+          <span>Bagian {splits.length + 1}</span>
+          <span className="text-primary">{formatPrice(shareAmount)}</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {paymentMethods.map(method => {
+            const Icon = method.icon;
+            return (
+              <button
+                key={method.id}
+                type="button"
+                onClick={() => setPaymentMethod(method.id)}
+                className={cn(
+                  "flex items-center justify-center gap-2 p-2 rounded-lg text-sm font-medium transition-all",
+                  paymentMethod === method.id
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted text-muted-foreground hover:bg-muted/80"
+                )}
+              >
+                <Icon className="h-4 w-4" />
+                {method.label}
+              </button>
+            );
+          })}
+        </div>
+        {paymentMethod === 'cash' && (
+          <div className="space-y-2">
+            <input
+              type="number"
+              value={cashReceived || ''}
+              onChange={(e) => setCashReceived(parseFloat(e.target.value) || 0)}
+              placeholder="Uang diterima..."
+              className="w-full px-4 py-2 rounded-lg bg-background border border-border font-semibold focus:outline-none focus:ring-2 focus:ring-primary"
+              min={0}
+            />
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => setCashReceived(shareAmount)}
+                className="px-3 py-1 text-xs font-medium bg-muted rounded-lg hover:bg-muted/80 transition-colors"
+              >
+                Uang Pas
+              </button>
+              {cashReceived > 0 && (
+                <span className={cn("font-bold", change >= 0 ? "text-green-500" : "text-destructive")}>
+                  {change >= 0 ? `Kembali ${formatPrice(change)}` : `Kurang ${formatPrice(Math.abs(change))}`}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handlePay}
+        disabled={!canPay}
+        className={cn(
+          "w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all active:scale-95",
+          canPay
+            ? "bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg"
+            : "bg-muted text-muted-foreground cursor-not-allowed"
+        )}
+      >
+        {isProcessing && <Loader2 className="w-5 h-5 animate-spin" />}
+        {paymentMethod === 'qris' ? 'Tampilkan QRIS Bagian' : 'Bayar & Cetak Bagian'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Banknote, XCircle, Loader2, Wallet, CreditCard } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { formatPrice } from '@/utils/receiptPrinter';
+import type { PurchaseOrder, Supplier, SupplierPaymentInput, SupplierPaymentMethod } from '@/hooks/usePurchasing';
+
+interface SupplierPaymentDialogProps {
+  supplier: Supplier;
+  balance: number;
+  purchaseOrders: PurchaseOrder[]; // the supplier's purchase orders that can still be paid
+  initialPurchaseOrderId?: string | null;
+  onClose: () => void;
+  onPay: (payment: SupplierPaymentInput) => Promise<void>;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg bg-secondary border border-border focus:outline-none focus:ring-2 focus:ring-primary';
+
+const outstanding = (po: PurchaseOrder) => Math.max(0, po.received_amount - po.paid_amount);
+
+export function SupplierPaymentDialog({
+  supplier,
+  balance,
+  purchaseOrders,
+  initialPurchaseOrderId,
+  onClose,
+  onPay,
+}: SupplierPaymentDialogProps) {
+  const initialOrder = purchaseOrders.find(po => po.id === initialPurchaseOrderId);
+  const [purchaseOrderId, setPurchaseOrderId] = useState(initialOrder?.id ?? '');
+  const [amount, setAmount] = useState(String(initialOrder ? outstanding(initialOrder) : Math.max(0, balance)));
+  const [paymentMethod, setPaymentMethod] = useState<SupplierPaymentMethod>('cash');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSelectOrder = (id: string) => {
+    setPurchaseOrderId(id);
+    const po = purchaseOrders.find(order => order.id === id);
+    setAmount(String(po ? outstanding(po) : Math.max(0, balance)));
+  };
+
+  const handleSubmit = async () => {
+    const value = parseInt(amount) || 0;
+    if (value <= 0) {
+      toast.error('Masukkan jumlah pembayaran');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onPay({
+        supplierId: supplier.id,
+        amount: value,
+        paymentMethod,
+        purchaseOrderId: purchaseOrderId || null,
+        note,
+      });
+      toast.success(`Pembayaran ${formatPrice(value)} ke ${supplier.name} dicatat`);
+      onClose();
+    } catch (error) {
+      console.error('Error recording supplier payment:', error);
+      const message = error instanceof Error ? error.message : '';
+      toast.error(message.includes('exceeds') ? 'Pembayaran melebihi sisa tagihan PO' : 'Gagal mencatat pembayaran');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-card rounded-2xl border border-border shadow-2xl animate-scale-in">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Banknote className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="text-lg font-bold">Bayar Supplier</h2>
+              <p className="text-xs text-muted-foreground">{supplier.name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-muted transition-colors"
+          >
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Sisa hutang</span>
+            <span className={cn("font-bold", balance > 0 ? "text-destructive" : "text-success")}>{formatPrice(balance)}</span>
+          </div>
+
+          <select value={purchaseOrderId} onChange={(e) => handleSelectOrder(e.target.value)} className={inputClass}>
+            <option value="">Tanpa PO</option>
+            {purchaseOrders.map(po => (
+              <option key={po.id} value={po.id}>
+                {po.po_number} · sisa {formatPrice(outstanding(po))}
+              </option>
+            ))}
+          </select>
+
+          <input
+            type="number"
+            placeholder="Jumlah"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className={inputClass}
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { id: 'cash' as SupplierPaymentMethod, label: 'Tunai', icon: <Wallet className="w-4 h-4" /> },
+              { id: 'transfer' as SupplierPaymentMethod, label: 'Transfer', icon: <CreditCard className="w-4 h-4" /> },
+            ]).map(method => (
+              <button
+                key={method.id}
+                onClick={() => setPaymentMethod(method.id)}
+                className={cn(
+                  "flex items-center justify-center gap-2 py-2 rounded-lg font-medium transition-all",
+                  paymentMethod === method.id ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+                )}
+              >
+                {method.icon}
+                {method.label}
+              </button>
+            ))}
+          </div>
+
+          <input
+            placeholder="Catatan"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className={inputClass}
+          />
+
+          <p className="text-xs text-muted-foreground">Pembayaran dicatat sebagai pengeluaran di Accounting.</p>
+
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-semibold disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Simpan Pembayaran
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 import { RestaurantTable } from '@/hooks/useTables';
+import { Order } from '@/hooks/useOrders';
 import { cn } from '@/lib/utils';
-import { Users, X } from 'lucide-react';
+import { formatPrice } from '@/utils/receiptPrinter';
+import { Users, X, Clock } from 'lucide-react';
 
 interface TableSelectorProps {
   isOpen: boolean;
   onClose: () => void;
   tables: RestaurantTable[];
+  openOrders: Order[];
   selectedTable: string | null;
   onSelectTable: (tableId: string | null) => void;
 }
@@ -14,11 +17,26 @@ export function TableSelector({
   isOpen,
   onClose,
   tables,
+  openOrders,
   selectedTable,
   onSelectTable,
 }: TableSelectorProps) {
   if (!isOpen) return null;
 
+  // Available tables start a new tab, occupied tables continue their open order
+  const getOpenOrder = (table: RestaurantTable) =>
+    openOrders.find(o => o.id === table.current_order_id || o.table_id === table.id);
+
+  const isSelectable = (table: RestaurantTable) =>
+    table.status === 'available' || (table.status === 'occupied' && !!getOpenOrder(table));
+
+  const formatOpenedAt = (dateString: string) => {
+    return new Intl.DateTimeFormat('id-ID', {
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(new Date(dateString));
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available':
@@ -78,34 +96,48 @@ export function TableSelector({
 
           {/* Tables Grid */}
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-            {tables.map((table) => (
-              <button
-                key={table.id}
-                onClick={() => {
-                  if (table.status === 'available') {
-                    onSelectTable(table.id);
-                    onClose();
-                  }
-                }}
-                disabled={table.status !== 'available'}
-                className={cn(
-                  "flex flex-col items-center justify-center p-4 rounded-xl border-2 transition-all",
-                  table.status === 'available'
-                    ? selectedTable === table.id
-                      ? "bg-primary/10 border-primary"
-                      : "bg-secondary border-transparent hover:border-primary/50"
-                    : "opacity-50 cursor-not-allowed border-transparent",
-                  getStatusColor(table.status)
-                )}
-              >
-                <span className="text-2xl font-bold">#{table.table_number}</span>
-                <div className="flex items-center gap-1 mt-2 text-sm">
-                  <Users className="w-4 h-4" />
-                  <span>{table.capacity} orang</span>
-                </div>
-                <span className="text-xs mt-1 opacity-75">{getStatusText(table.status)}</span>
-              </button>
-            ))}
+            {tables.map((table) => {
+              const openOrder = getOpenOrder(table);
+              const selectable = isSelectable(table);
+
+              return (
+                <button
+                  key={table.id}
+                  onClick={() => {
+                    if (selectable) {
+                      onSelectTable(table.id);
+                      onClose();
+                    }
+                  }}
+                  disabled={!selectable}
+                  className={cn(
+                    "flex flex-col items-center justify-center p-4 rounded-xl border-2 transition-all",
+                    selectable
+                      ? selectedTable === table.id
+                        ? "bg-primary/10 border-primary"
+                        : "bg-secondary border-transparent hover:border-primary/50"
+                      : "opacity-50 cursor-not-allowed border-transparent",
+                    getStatusColor(table.status)
+                  )}
+                >
+                  <span className="text-2xl font-bold">#{table.table_number}</span>
+                  <div className="flex items-center gap-1 mt-2 text-sm">
+                    <Users className="w-4 h-4" />
+                    <span>{table.capacity} orang</span>
+                  </div>
+                  <span className="text-xs mt-1 opacity-75">{getStatusText(table.status)}</span>
+                  {openOrder && (
+                    <div className="mt-2 text-center">
+                      <p className="font-bold text-sm">{formatPrice(openOrder.total)}</p>
+                      <p className="flex items-center justify-center gap-1 text-xs opacity-75">
+                        <Clock className="w-3 h-3" />
+                        {formatOpenedAt(openOrder.created_at)} · {openOrder.order_items?.reduce((sum, item) => sum + item.quantity, 0) || 0} item
+                      </p>
+                    </div>
+                  )}
+                </button>
+              );
+            })}
           </div>
         </div>
       </div>
@@ -4,18 +4,39 @@ import { id as idLocale } from 'date-fns/locale';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Calendar, Send, FileText, TrendingUp, CreditCard, Banknote, QrCode, Download, Loader2 } from 'lucide-react';
+import { Calendar, Send, FileText, TrendingUp, CreditCard, Banknote, QrCode, Download, Loader2, Tag, Receipt, Undo2, Wallet, Printer } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatPrice } from '@/utils/receiptPrinter';
 import { toast } from 'sonner';
 import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { DailyReportReminder } from './DailyReportReminder';
+import { getRevenueByTender } from '@/hooks/useOrders';
+import { fetchCashShiftSummary, usePrintShiftReport } from '@/hooks/useCashShift';
 
 type Order = Tables<'orders'> & {
   order_items?: Tables<'order_items'>[];
+  order_payments?: Tables<'order_payments'>[];
 };
 
+const paymentMethodLabel: Record<string, string> = {
+  cash: 'Tunai',
+  transfer: 'Transfer',
+  qris: 'QRIS',
+};
+
+const paymentMethodIcon: Record<string, string> = {
+  cash: '💵',
+  transfer: '💳',
+  qris: '📱',
+};
+
+// Tenders of an order; orders recorded before multi-tender count as a single tender
+const getOrderTenders = (order: Order) =>
+  order.order_payments && order.order_payments.length > 0
+    ? order.order_payments.map(payment => ({ method: payment.payment_method, amount: payment.amount }))
+    : [{ method: order.payment_method || 'cash', amount: order.total }];
+
 type ReportPeriod = 'today' | 'week' | 'month' | 'custom';
 
 interface ReportStats {
@@ -25,6 +46,16 @@ interface ReportStats {
   transferRevenue: number;
   qrisRevenue: number;
   averageOrder: number;
+  promotionDiscount: number;
+  manualDiscount: number;
+  serviceCharge: number;
+  tax: number;
+  promotions: { name: string; count: number; amount: number }[];
+  voidCount: number;
+  voidTotal: number;
+  refundCount: number;
+  refundTotal: number;
+  netRevenue: number;
 }
 
 export function TransactionReport() {
@@ -35,6 +66,12 @@ export function TransactionReport() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(false);
   const [sendingTelegram, setSendingTelegram] = useState(false);
+  const [monthlyTax, setMonthlyTax] = useState<Tables<'monthly_tax_report'>[]>([]);
+  const [voids, setVoids] = useState<Tables<'order_voids'>[]>([]);
+  const [refunds, setRefunds] = useState<Tables<'order_refunds'>[]>([]);
+  const [shifts, setShifts] = useState<Tables<'cash_shifts'>[]>([]);
+  const [printingShiftId, setPrintingShiftId] = useState<string | null>(null);
+  const printShiftReport = usePrintShiftReport();
   
   const isAdmin = role === 'admin';
 
@@ -61,21 +98,53 @@ export function TransactionReport() {
       const { start, end } = getDateRange();
       let query = supabase
         .from('orders')
-        .select(`*, order_items (*)`)
+        .select(`*, order_items (*), order_payments (*)`)
         .gte('created_at', start.toISOString())
         .lte('created_at', end.toISOString())
-        .eq('status', 'completed')
+        .in('status', ['completed', 'refunded'])
         .order('created_at', { ascending: false });
 
+      // Voids and refunds count in the period they happened, not when the order was placed
+      let voidQuery = supabase
+        .from('order_voids')
+        .select('*')
+        .gte('created_at', start.toISOString())
+        .lte('created_at', end.toISOString());
+      let refundQuery = supabase
+        .from('order_refunds')
+        .select('*')
+        .gte('created_at', start.toISOString())
+        .lte('created_at', end.toISOString());
+      let shiftQuery = supabase
+        .from('cash_shifts')
+        .select('*')
+        .gte('opened_at', start.toISOString())
+        .lte('opened_at', end.toISOString())
+        .order('opened_at', { ascending: false });
+
       // Filter by cashier_id if not admin
       if (!isAdmin && user?.id) {
         query = query.eq('cashier_id', user.id);
+        voidQuery = voidQuery.eq('voided_by', user.id);
+        refundQuery = refundQuery.eq('refunded_by', user.id);
+        shiftQuery = shiftQuery.eq('cashier_id', user.id);
       }
 
-      const { data, error } = await query;
+      const [ordersResult, voidsResult, refundsResult, shiftsResult] = await Promise.all([
+        query,
+        voidQuery,
+        refundQuery,
+        shiftQuery,
+      ]);
 
-      if (error) throw error;
-      setOrders(data || []);
+      if (ordersResult.error) throw ordersResult.error;
+      if (voidsResult.error) throw voidsResult.error;
+      if (refundsResult.error) throw refundsResult.error;
+      if (shiftsResult.error) throw shiftsResult.error;
+      setOrders(ordersResult.data || []);
+      setVoids(voidsResult.data || []);
+      setRefunds(refundsResult.data || []);
+      setShifts(shiftsResult.data || []);
     } catch (error) {
       console.error('Error fetching orders:', error);
       toast.error('Gagal mengambil data transaksi');
@@ -88,17 +157,57 @@ export function TransactionReport() {
     fetchOrders();
   }, [period, customStartDate, customEndDate, isAdmin, user?.id]);
 
+  // PB1 per month for the tax return, last 12 months
+  useEffect(() => {
+    if (!isAdmin) return;
+    supabase
+      .from('monthly_tax_report')
+      .select('*')
+      .order('month', { ascending: false })
+      .limit(12)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching monthly tax report:', error);
+          return;
+        }
+        setMonthlyTax(data || []);
+      });
+  }, [isAdmin]);
+
   const calculateStats = (): ReportStats => {
-    const completedOrders = orders.filter(o => o.status === 'completed');
+    const completedOrders = orders.filter(o => o.status === 'completed' || o.status === 'refunded');
     const totalRevenue = completedOrders.reduce((sum, o) => sum + o.total, 0);
+    const revenueByTender = getRevenueByTender(completedOrders);
+    const refundTotal = refunds.reduce((sum, r) => sum + r.amount, 0);
+
+    // Discount given per promotion, largest first
+    const promotionMap = new Map<string, { name: string; count: number; amount: number }>();
+    completedOrders.forEach(order => {
+      if (!order.promotion_discount) return;
+      const name = order.promotion_name || 'Promo';
+      const entry = promotionMap.get(name) || { name, count: 0, amount: 0 };
+      entry.count += 1;
+      entry.amount += order.promotion_discount;
+      promotionMap.set(name, entry);
+    });
     
     return {
       totalOrders: completedOrders.length,
       totalRevenue,
-      cashRevenue: completedOrders.filter(o => o.payment_method === 'cash').reduce((sum, o) => sum + o.total, 0),
-      transferRevenue: completedOrders.filter(o => o.payment_method === 'transfer').reduce((sum, o) => sum + o.total, 0),
-      qrisRevenue: completedOrders.filter(o => o.payment_method === 'qris').reduce((sum, o) => sum + o.total, 0),
+      cashRevenue: revenueByTender.cash,
+      transferRevenue: revenueByTender.transfer,
+      qrisRevenue: revenueByTender.qris,
       averageOrder: completedOrders.length > 0 ? Math.round(totalRevenue / completedOrders.length) : 0,
+      promotionDiscount: completedOrders.reduce((sum, o) => sum + (o.promotion_discount || 0), 0),
+      manualDiscount: completedOrders.reduce((sum, o) => sum + (o.manual_discount || 0), 0),
+      serviceCharge: completedOrders.reduce((sum, o) => sum + (o.service_charge || 0), 0),
+      tax: completedOrders.reduce((sum, o) => sum + (o.tax || 0), 0),
+      promotions: [...promotionMap.values()].sort((a, b) => b.amount - a.amount),
+      voidCount: voids.length,
+      voidTotal: voids.reduce((sum, v) => sum + v.amount, 0),
+      refundCount: refunds.length,
+      refundTotal,
+      netRevenue: totalRevenue - refundTotal,
     };
   };
 
@@ -125,22 +234,63 @@ export function TransactionReport() {
     text += `📈 *RINGKASAN*\n`;
     text += `• Total Transaksi: ${stats.totalOrders}\n`;
     text += `• Total Pendapatan: ${formatPrice(stats.totalRevenue)}\n`;
-    text += `• Rata-rata/Transaksi: ${formatPrice(stats.averageOrder)}\n\n`;
+    text += `• Rata-rata/Transaksi: ${formatPrice(stats.averageOrder)}\n`;
+    if (stats.serviceCharge > 0) {
+      text += `• Service Charge: ${formatPrice(stats.serviceCharge)}\n`;
+    }
+    if (stats.tax > 0) {
+      text += `• PB1: ${formatPrice(stats.tax)}\n`;
+    }
+    if (stats.refundTotal > 0) {
+      text += `• Refund (${stats.refundCount}x): -${formatPrice(stats.refundTotal)}\n`;
+      text += `• Pendapatan Bersih: ${formatPrice(stats.netRevenue)}\n`;
+    }
+    if (stats.voidTotal > 0) {
+      text += `• Void (${stats.voidCount}x): ${formatPrice(stats.voidTotal)}\n`;
+    }
+    text += `\n`;
     
     text += `💰 *DETAIL PEMBAYARAN*\n`;
     text += `• Tunai: ${formatPrice(stats.cashRevenue)}\n`;
     text += `• Transfer: ${formatPrice(stats.transferRevenue)}\n`;
     text += `• QRIS: ${formatPrice(stats.qrisRevenue)}\n\n`;
 
+    if (stats.promotionDiscount + stats.manualDiscount > 0) {
+      text += `🏷️ *DISKON*\n`;
+      stats.promotions.forEach(promo => {
+        text += `• ${promo.name} (${promo.count}x): ${formatPrice(promo.amount)}\n`;
+      });
+      if (stats.manualDiscount > 0) {
+        text += `• Diskon manual: ${formatPrice(stats.manualDiscount)}\n`;
+      }
+      text += `\n`;
+    }
+
+    const closedShifts = shifts.filter(shift => shift.status === 'closed');
+    if (closedShifts.length > 0) {
+      text += `👛 *SHIFT KAS*\n`;
+      closedShifts.forEach(shift => {
+        const variance = shift.variance || 0;
+        const varianceText = variance === 0 ? 'pas' : `selisih ${variance > 0 ? '+' : '-'}${formatPrice(Math.abs(variance))}`;
+        text += `• ${shift.cashier_name} (${format(new Date(shift.opened_at), 'HH:mm')}): ${formatPrice(shift.counted_cash || 0)}, ${varianceText}\n`;
+      });
+      text += `\n`;
+    }
+
     if (orders.length > 0) {
       text += `📋 *DAFTAR TRANSAKSI*\n`;
       text += `━━━━━━━━━━━━━━━━━━━━\n`;
       
       orders.slice(0, 20).forEach((order, index) => {
         const time = format(new Date(order.created_at), 'HH:mm', { locale: idLocale });
-        const paymentIcon = order.payment_method === 'cash' ? '💵' : order.payment_method === 'qris' ? '📱' : '💳';
+        const tenders = getOrderTenders(order);
         text += `${index + 1}. ${order.order_number}\n`;
-        text += `   ${time} | ${paymentIcon} ${formatPrice(order.total)}\n`;
+        if (tenders.length === 1) {
+          text += `   ${time} | ${paymentMethodIcon[tenders[0].method]} ${formatPrice(order.total)}\n`;
+        } else {
+          const tenderText = tenders.map(t => `${paymentMethodIcon[t.method]} ${formatPrice(t.amount)}`).join(' + ');
+          text += `   ${time} | ${formatPrice(order.total)} (${tenderText})\n`;
+        }
       });
       
       if (orders.length > 20) {
@@ -176,6 +326,18 @@ export function TransactionReport() {
     }
   };
 
+  const handlePrintShift = async (shiftId: string) => {
+    setPrintingShiftId(shiftId);
+    try {
+      await printShiftReport(await fetchCashShiftSummary(shiftId));
+    } catch (error) {
+      console.error('Error printing shift report:', error);
+      toast.error('Gagal mencetak laporan shift');
+    } finally {
+      setPrintingShiftId(null);
+    }
+  };
+
   const copyToClipboard = () => {
     const reportText = generateReportText();
     navigator.clipboard.writeText(reportText);
@@ -280,6 +442,170 @@ export function TransactionReport() {
         </div>
       </div>
 
+      {/* Tax & Service */}
+      {(stats.tax > 0 || stats.serviceCharge > 0 || monthlyTax.length > 0) && (
+        <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Receipt className="w-5 h-5 text-primary" />
+            Pajak (PB1) & Service
+          </h3>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">PB1 periode ini</span>
+              <span className="font-semibold">{formatPrice(stats.tax)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Service charge</span>
+              <span className="font-semibold">{formatPrice(stats.serviceCharge)}</span>
+            </div>
+          </div>
+          {monthlyTax.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="py-1 font-medium">Bulan</th>
+                    <th className="py-1 font-medium text-right">Transaksi</th>
+                    <th className="py-1 font-medium text-right">DPP</th>
+                    <th className="py-1 font-medium text-right">PB1 Refund</th>
+                    <th className="py-1 font-medium text-right">PB1</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {monthlyTax.map(row => (
+                    <tr key={row.month} className="border-t border-border/50">
+                      <td className="py-1">{row.month ? format(new Date(row.month), 'MMMM yyyy', { locale: idLocale }) : '-'}</td>
+                      <td className="py-1 text-right">{row.order_count}</td>
+                      <td className="py-1 text-right">{formatPrice(row.taxable_amount || 0)}</td>
+                      <td className="py-1 text-right text-muted-foreground">
+                        {row.refunded_tax ? `-${formatPrice(row.refunded_tax)}` : '-'}
+                      </td>
+                      <td className="py-1 text-right font-semibold">{formatPrice(row.tax || 0)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Voids & Refunds */}
+      {stats.voidCount + stats.refundCount > 0 && (
+        <div className="bg-card p-4 rounded-xl border border-border space-y-2">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Undo2 className="w-5 h-5 text-destructive" />
+            Void & Refund
+          </h3>
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Void ({stats.voidCount}x)</span>
+              <span className="font-semibold">{formatPrice(stats.voidTotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Refund ({stats.refundCount}x)</span>
+              <span className="font-semibold text-destructive">-{formatPrice(stats.refundTotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Pendapatan bersih</span>
+              <span className="font-semibold text-primary">{formatPrice(stats.netRevenue)}</span>
+            </div>
+          </div>
+          {[...voids.map(v => ({ ...v, kind: 'Void' })), ...refunds.map(r => ({ ...r, kind: 'Refund' }))]
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+            .map(entry => (
+              <div key={entry.id} className="flex justify-between text-xs text-muted-foreground">
+                <span>{format(new Date(entry.created_at), 'dd/MM HH:mm')} · {entry.kind} · {entry.reason}</span>
+                <span>{formatPrice(entry.amount)}</span>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {/* Cash Shifts */}
+      {shifts.length > 0 && (
+        <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-primary" />
+            Shift Kas
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="py-1 font-medium">Kasir</th>
+                  <th className="py-1 font-medium">Waktu</th>
+                  <th className="py-1 font-medium text-right">Modal</th>
+                  <th className="py-1 font-medium text-right">Seharusnya</th>
+                  <th className="py-1 font-medium text-right">Dihitung</th>
+                  <th className="py-1 font-medium text-right">Selisih</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {shifts.map(shift => (
+                  <tr key={shift.id} className="border-t border-border/50">
+                    <td className="py-1">{shift.cashier_name}</td>
+                    <td className="py-1 text-muted-foreground">
+                      {format(new Date(shift.opened_at), 'dd/MM HH:mm')}
+                      {' - '}
+                      {shift.closed_at ? format(new Date(shift.closed_at), 'HH:mm') : 'buka'}
+                    </td>
+                    <td className="py-1 text-right">{formatPrice(shift.opening_float)}</td>
+                    <td className="py-1 text-right">{shift.expected_cash !== null ? formatPrice(shift.expected_cash) : '-'}</td>
+                    <td className="py-1 text-right">{shift.counted_cash !== null ? formatPrice(shift.counted_cash) : '-'}</td>
+                    <td
+                      className={cn(
+                        "py-1 text-right font-semibold",
+                        (shift.variance || 0) < 0 && "text-destructive",
+                        (shift.variance || 0) > 0 && "text-blue-500"
+                      )}
+                    >
+                      {shift.variance !== null ? formatPrice(shift.variance) : '-'}
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        onClick={() => handlePrintShift(shift.id)}
+                        disabled={printingShiftId === shift.id}
+                        className="p-1 rounded-md text-muted-foreground hover:bg-secondary"
+                        title="Cetak laporan shift"
+                      >
+                        {printingShiftId === shift.id
+                          ? <Loader2 className="w-4 h-4 animate-spin" />
+                          : <Printer className="w-4 h-4" />}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Discounts */}
+      {stats.promotionDiscount + stats.manualDiscount > 0 && (
+        <div className="bg-card p-4 rounded-xl border border-border space-y-2">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Tag className="w-5 h-5 text-primary" />
+            Diskon & Promo
+            <span className="ml-auto text-destructive">-{formatPrice(stats.promotionDiscount + stats.manualDiscount)}</span>
+          </h3>
+          {stats.promotions.map(promo => (
+            <div key={promo.name} className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{promo.name} ({promo.count}x)</span>
+              <span>{formatPrice(promo.amount)}</span>
+            </div>
+          ))}
+          {stats.manualDiscount > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Diskon manual</span>
+              <span>{formatPrice(stats.manualDiscount)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Telegram Share */}
       <div className="bg-card p-4 rounded-xl border border-border space-y-4">
         <h3 className="font-semibold flex items-center gap-2">
@@ -336,13 +662,21 @@ export function TransactionReport() {
                   </div>
                   <div className="text-right">
                     <div className="font-bold text-primary">{formatPrice(order.total)}</div>
-                    <div className={cn(
-                      "text-xs px-2 py-0.5 rounded inline-block",
-                      order.payment_method === 'cash' && "bg-green-500/20 text-green-500",
-                      order.payment_method === 'transfer' && "bg-blue-500/20 text-blue-500",
-                      order.payment_method === 'qris' && "bg-purple-500/20 text-purple-500"
-                    )}>
-                      {order.payment_method === 'cash' ? 'Tunai' : order.payment_method === 'transfer' ? 'Transfer' : 'QRIS'}
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {getOrderTenders(order).map((tender, index, tenders) => (
+                        <div
+                          key={index}
+                          className={cn(
+                            "text-xs px-2 py-0.5 rounded inline-block",
+                            tender.method === 'cash' && "bg-green-500/20 text-green-500",
+                            tender.method === 'transfer' && "bg-blue-500/20 text-blue-500",
+                            tender.method === 'qris' && "bg-purple-500/20 text-purple-500"
+                          )}
+                        >
+                          {paymentMethodLabel[tender.method]}
+                          {tenders.length > 1 && ` ${formatPrice(tender.amount)}`}
+                        </div>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,326 @@
+import { useState, useEffect } from 'react';
+import { Order, PaymentMethod } from '@/hooks/useOrders';
+import { X, Undo2, Loader2, Minus, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPrice } from '@/utils/receiptPrinter';
+import { toast } from 'sonner';
+
+type Action = 'void_order' | 'void_items' | 'refund';
+type RefundMode = 'full' | 'items' | 'amount';
+type ItemPick = { order_item_id: string; quantity: number };
+
+const REASON_PRESETS = ['Salah input', 'Pelanggan batal', 'Makanan bermasalah', 'Pesanan terlalu lama'];
+
+const paymentMethodLabel: Record<PaymentMethod, string> = {
+  cash: 'Tunai',
+  transfer: 'Transfer',
+  qris: 'QRIS',
+};
+
+interface VoidRefundDialogProps {
+  order: Order | null;
+  onClose: () => void;
+  onVoidOrder: (orderId: string, reason: string, approvalPin: string) => Promise<Order>;
+  onVoidItems: (orderId: string, items: ItemPick[], reason: string, approvalPin: string) => Promise<Order>;
+  onRefund: (
+    orderId: string,
+    refund: { amount: number; paymentMethod: PaymentMethod; items?: ItemPick[] },
+    reason: string,
+    approvalPin: string
+  ) => Promise<Order>;
+}
+
+export function VoidRefundDialog({ order, onClose, onVoidOrder, onVoidItems, onRefund }: VoidRefundDialogProps) {
+  const [action, setAction] = useState<Action>('void_order');
+  const [refundMode, setRefundMode] = useState<RefundMode>('full');
+  const [picked, setPicked] = useState<Record<string, number>>({});
+  const [customAmount, setCustomAmount] = useState(0);
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [reason, setReason] = useState('');
+  const [pin, setPin] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const isPaid = !!order && (order.status === 'completed' || !!order.order_payments?.length);
+
+  useEffect(() => {
+    if (!order) return;
+    setAction(order.status === 'completed' ? 'refund' : 'void_order');
+    setRefundMode('full');
+    setPicked({});
+    setCustomAmount(0);
+    setRefundMethod(order.payment_method || 'cash');
+    setReason('');
+    setPin('');
+  }, [order?.id]);
+
+  if (!order) return null;
+
+  const remaining = order.total - order.refunded_amount;
+
+  // Units of each line still open for this action
+  const getAvailable = (itemId: string, quantity: number) => {
+    if (action !== 'refund') return quantity;
+    const refunded = (order.order_refunds || []).reduce((sum, refund) => {
+      const items = (refund.items as ItemPick[] | null) || [];
+      return sum + items.filter(i => i.order_item_id === itemId).reduce((s, i) => s + i.quantity, 0);
+    }, 0);
+    return Math.max(0, quantity - refunded);
+  };
+
+  const pickedItems: ItemPick[] = Object.entries(picked)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+  const pickedValue = pickedItems.reduce((sum, pick) => {
+    const item = order.order_items?.find(i => i.id === pick.order_item_id);
+    return sum + (item ? item.unit_price * pick.quantity : 0);
+  }, 0);
+
+  // Refunded items carry their share of discount, service charge and tax
+  const ratio = order.subtotal > 0 ? order.total / order.subtotal : 1;
+  const refundAmount = refundMode === 'full'
+    ? remaining
+    : refundMode === 'items'
+      ? Math.min(remaining, Math.round(pickedValue * ratio))
+      : Math.min(remaining, customAmount);
+
+  const showItems = action === 'void_items' || (action === 'refund' && refundMode === 'items');
+  const hasTarget = action === 'void_order'
+    || (action === 'void_items' && pickedItems.length > 0)
+    || (action === 'refund' && refundAmount > 0);
+  const canSubmit = !isProcessing && hasTarget && reason.trim().length > 0 && pin.length >= 4;
+
+  const actions: { id: Action; label: string; enabled: boolean }[] = [
+    { id: 'void_order', label: 'Void Pesanan', enabled: order.refunded_amount === 0 },
+    { id: 'void_items', label: 'Void Item', enabled: order.status === 'pending' && !isPaid },
+    { id: 'refund', label: 'Refund', enabled: order.status === 'completed' && remaining > 0 },
+  ];
+
+  const setPick = (itemId: string, quantity: number, max: number) => {
+    setPicked(prev => ({ ...prev, [itemId]: Math.max(0, Math.min(max, quantity)) }));
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsProcessing(true);
+    try {
+      if (action === 'void_order') {
+        await onVoidOrder(order.id, reason.trim(), pin);
+        toast.success(`Pesanan #${order.order_number} di-void`);
+      } else if (action === 'void_items') {
+        await onVoidItems(order.id, pickedItems, reason.trim(), pin);
+        toast.success('Item berhasil di-void');
+      } else {
+        await onRefund(
+          order.id,
+          {
+            amount: refundAmount,
+            paymentMethod: refundMethod,
+            items: refundMode === 'items' ? pickedItems : undefined,
+          },
+          reason.trim(),
+          pin
+        );
+        toast.success(`Refund ${formatPrice(refundAmount)} berhasil`);
+      }
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('Period closed')) {
+        toast.error('Pesanan ini sudah masuk periode tutup buku; catat jurnal penyesuaian');
+      } else if (message.includes('Too many')) {
+        toast.error('Terlalu banyak percobaan PIN, coba lagi nanti');
+      } else {
+        toast.error(message.includes('PIN') ? 'PIN persetujuan salah' : 'Gagal memproses void/refund');
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-card rounded-2xl border border-border shadow-2xl animate-scale-in">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border sticky top-0 bg-card z-10">
+          <div className="flex items-center gap-2">
+            <Undo2 className="w-5 h-5 text-destructive" />
+            <div>
+              <h2 className="text-xl font-bold">Void / Refund</h2>
+              <p className="text-sm text-muted-foreground">#{order.order_number} · {formatPrice(order.total)}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-muted transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Action */}
+          <div className="grid grid-cols-3 gap-2">
+            {actions.map(item => (
+              <button
+                key={item.id}
+                onClick={() => { setAction(item.id); setPicked({}); }}
+                disabled={!item.enabled}
+                className={cn(
+                  "py-2 rounded-lg text-sm font-medium transition-all",
+                  action === item.id
+                    ? "bg-destructive text-destructive-foreground"
+                    : item.enabled
+                      ? "bg-muted hover:bg-muted/80"
+                      : "bg-muted/50 text-muted-foreground cursor-not-allowed"
+                )}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+
+          {action === 'void_order' && (
+            <p className="text-sm text-muted-foreground">
+              Seluruh pesanan dibatalkan{isPaid ? ' dan pembayaran yang sudah diterima dibalik di pembukuan' : ''}.
+            </p>
+          )}
+
+          {action === 'refund' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                {([['full', 'Penuh'], ['items', 'Per Item'], ['amount', 'Nominal']] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setRefundMode(mode)}
+                    className={cn(
+                      "py-2 rounded-lg text-sm font-medium transition-all",
+                      refundMode === mode ? "bg-primary text-primary-foreground" : "bg-muted hover:bg-muted/80"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {refundMode === 'amount' && (
+                <input
+                  type="number"
+                  min={0}
+                  value={customAmount || ''}
+                  onChange={(e) => setCustomAmount(Math.max(0, parseInt(e.target.value) || 0))}
+                  placeholder={`Maks. ${formatPrice(remaining)}`}
+                  className="w-full px-3 py-2 rounded-lg bg-secondary border border-border focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              )}
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Dikembalikan via</span>
+                {(Object.keys(paymentMethodLabel) as PaymentMethod[]).map(method => (
+                  <button
+                    key={method}
+                    onClick={() => setRefundMethod(method)}
+                    className={cn(
+                      "px-3 py-1 rounded-lg text-sm transition-all",
+                      refundMethod === method ? "bg-primary text-primary-foreground" : "bg-muted hover:bg-muted/80"
+                    )}
+                  >
+                    {paymentMethodLabel[method]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {showItems && (
+            <div className="space-y-2">
+              {order.order_items?.map(item => {
+                const available = getAvailable(item.id, item.quantity);
+                const quantity = picked[item.id] || 0;
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-secondary/50">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{item.menu_item_name}</p>
+                      <p className="text-xs text-muted-foreground">{formatPrice(item.unit_price)} · sisa {available}</p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => setPick(item.id, quantity - 1, available)}
+                        className="w-7 h-7 flex items-center justify-center rounded bg-muted"
+                      >
+                        <Minus className="w-3 h-3" />
+                      </button>
+                      <span className="w-6 text-center text-sm font-bold">{quantity}</span>
+                      <button
+                        onClick={() => setPick(item.id, quantity + 1, available)}
+                        className="w-7 h-7 flex items-center justify-center rounded bg-muted"
+                      >
+                        <Plus className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {action === 'refund' && (
+            <div className="flex justify-between font-semibold">
+              <span>Jumlah Refund</span>
+              <span className="text-destructive">{formatPrice(refundAmount)}</span>
+            </div>
+          )}
+
+          {/* Reason */}
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Alasan (wajib)"
+              className="w-full px-3 py-2 rounded-lg bg-secondary border border-border text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <div className="flex flex-wrap gap-1">
+              {REASON_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  type="button"
+                  onClick={() => setReason(preset)}
+                  className={cn(
+                    "px-2 py-1 rounded-full text-xs font-medium transition-colors",
+                    reason === preset ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground hover:bg-muted/80"
+                  )}
+                >
+                  {preset}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Approval */}
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={8}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            placeholder="PIN persetujuan admin"
+            className="w-full px-3 py-2 rounded-lg bg-secondary border border-border text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className={cn(
+              "w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all active:scale-95",
+              canSubmit
+                ? "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                : "bg-muted text-muted-foreground cursor-not-allowed"
+            )}
+          >
+            {isProcessing && <Loader2 className="w-4 h-4 animate-spin" />}
+            {action === 'refund' ? `Refund ${formatPrice(refundAmount)}` : action === 'void_items' ? 'Void Item' : 'Void Pesanan'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { format, parseISO } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatPrice } from '@/utils/receiptPrinter';
+import {
+  getQueuedOrders,
+  isNetworkError,
+  putQueuedOrder,
+  removeQueuedOrder,
+  QueuedOrder,
+} from '@/utils/offlineStore';
+import { toast } from 'sonner';
+
+export type SyncConflict =
+  | { type: 'menu_item_deleted'; item: string }
+  | { type: 'price_changed'; item: string; sold_price: number; current_price: number }
+  | { type: 'table_deleted' }
+  | { type: 'discount_unapproved'; amount: number }
+  | { type: 'promotion_invalid'; amount: number; allowed: number }
+  | { type: 'total_changed'; offline_total: number; current_total: number }
+  | { type: 'period_closed'; sold_at: string; booked_on: string };
+
+export interface SyncConflictReport {
+  id: string;
+  offlineNumber: string;
+  orderNumber: string;
+  conflicts: SyncConflict[];
+}
+
+interface OfflineSyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingOrders: QueuedOrder[];
+  conflictReports: SyncConflictReport[];
+  enqueueOrder: (order: QueuedOrder) => Promise<void>;
+  syncNow: (includeRejected?: boolean) => Promise<void>;
+  discardOrder: (clientId: string) => Promise<void>;
+  dismissConflicts: () => Promise<void>;
+}
+
+// While orders wait, the queue is retried this often in case no online event arrives
+const RETRY_INTERVAL_MS = 30000;
+
+export function describeConflict(conflict: SyncConflict): string {
+  switch (conflict.type) {
+    case 'menu_item_deleted':
+      return `${conflict.item} sudah dihapus dari menu`;
+    case 'price_changed':
+      return `Harga ${conflict.item} berubah: terjual ${formatPrice(conflict.sold_price)}, sekarang ${formatPrice(conflict.current_price)}`;
+    case 'table_deleted':
+      return 'Meja sudah dihapus; pesanan dicatat tanpa meja';
+    case 'discount_unapproved':
+      return `Diskon manual ${formatPrice(conflict.amount)} tidak memiliki persetujuan admin yang valid`;
+    case 'promotion_invalid':
+      return `Diskon promo ${formatPrice(conflict.amount)} melebihi yang diberikan promo; dicatat ${formatPrice(conflict.allowed)}`;
+    case 'total_changed':
+      return `Total offline ${formatPrice(conflict.offline_total)}, dicatat dengan total server ${formatPrice(conflict.current_total)}`;
+    case 'period_closed':
+      return `Terjual ${format(new Date(conflict.sold_at), 'd MMM yyyy HH:mm', { locale: id })} di periode yang sudah tutup buku; dicatat pada ${format(parseISO(conflict.booked_on), 'd MMM yyyy', { locale: id })}`;
+  }
+}
+
+function describeRejection(reason: string): string {
+  return reason.includes('approval')
+    ? 'Diskon manual belum disetujui admin; minta admin masuk di perangkat ini lalu kirim ulang'
+    : reason;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncContextType | undefined>(undefined);
+
+export function OfflineSyncProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingOrders, setPendingOrders] = useState<QueuedOrder[]>([]);
+  const [conflictReports, setConflictReports] = useState<SyncConflictReport[]>([]);
+  const syncingRef = useRef(false);
+
+  // Conflicts are stored with the synced order and listed until an admin marks them checked
+  const fetchConflicts = useCallback(async () => {
+    if (!user) {
+      setConflictReports([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('order_sync_conflicts')
+      .select('id, offline_number, conflicts, orders(order_number)')
+      .is('reviewed_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching sync conflicts:', error);
+      return;
+    }
+
+    setConflictReports((data || []).map(row => ({
+      id: row.id,
+      offlineNumber: row.offline_number ?? '-',
+      orderNumber: row.orders?.order_number ?? '-',
+      conflicts: row.conflicts as unknown as SyncConflict[],
+    })));
+  }, [user]);
+
+  const refreshPending = useCallback(async () => {
+    try {
+      setPendingOrders(await getQueuedOrders());
+    } catch (error) {
+      console.error('Offline queue unavailable:', error);
+    }
+  }, []);
+
+  // Replays the queue oldest first. Losing the connection stops the run; an order the server
+  // rejects is held back with its error so the orders after it still go through. Held orders
+  // are only sent again when asked for.
+  const syncNow = useCallback(async (includeRejected = false) => {
+    if (syncingRef.current || !navigator.onLine || !user) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    let synced = 0;
+    let rejected = 0;
+    let withConflicts = 0;
+
+    try {
+      for (const queued of await getQueuedOrders()) {
+        if (queued.error && !includeRejected) continue;
+
+        const { data, error } = await supabase.rpc('sync_offline_order', {
+          ...queued.payload,
+          _offline_number: queued.orderNumber,
+        });
+
+        if (error) {
+          if (isNetworkError(error)) break;
+          await putQueuedOrder({ ...queued, error: error.message });
+          rejected++;
+          continue;
+        }
+
+        const result = data as unknown as {
+          order: { order_number: string } | null;
+          conflicts: SyncConflict[];
+          rejected?: string;
+        };
+
+        // Refused without an error so the server keeps its record of the failed PIN
+        if (result.rejected) {
+          await putQueuedOrder({ ...queued, error: describeRejection(result.rejected) });
+          rejected++;
+          continue;
+        }
+
+        await removeQueuedOrder(queued.clientId);
+        synced++;
+
+        if (result.conflicts.length > 0) withConflicts++;
+      }
+    } catch (error) {
+      console.error('Offline sync error:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await refreshPending();
+    }
+
+    if (synced > 0) {
+      toast.success(`${synced} pesanan offline berhasil disinkronkan`);
+    }
+    if (rejected > 0) {
+      toast.error(`${rejected} pesanan offline ditolak server`, {
+        description: 'Kirim ulang atau hapus dari status sinkronisasi',
+      });
+    }
+    if (withConflicts > 0) {
+      await fetchConflicts();
+      toast.warning(`${withConflicts} pesanan offline perlu dicek`, {
+        description: 'Lihat detailnya di status sinkronisasi',
+      });
+    }
+  }, [user, refreshPending, fetchConflicts]);
+
+  const enqueueOrder = useCallback(async (order: QueuedOrder) => {
+    await putQueuedOrder(order);
+    await refreshPending();
+  }, [refreshPending]);
+
+  // For a rejected order that was settled another way, e.g. entered again by hand
+  const discardOrder = useCallback(async (clientId: string) => {
+    await removeQueuedOrder(clientId);
+    await refreshPending();
+  }, [refreshPending]);
+
+  // Admins only; cashiers keep seeing the conflicts until an admin has checked them
+  const dismissConflicts = useCallback(async () => {
+    const { error } = await supabase.rpc('review_sync_conflicts', {
+      _ids: conflictReports.map(report => report.id),
+    });
+    if (error) throw error;
+    await fetchConflicts();
+  }, [conflictReports, fetchConflicts]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  // Orders left over from an earlier session go out as soon as someone is signed in
+  useEffect(() => {
+    refreshPending().then(() => syncNow());
+  }, [refreshPending, syncNow]);
+
+  useEffect(() => {
+    fetchConflicts();
+  }, [fetchConflicts]);
+
+  const waitingCount = pendingOrders.filter(order => !order.error).length;
+
+  useEffect(() => {
+    if (waitingCount === 0) return;
+    const timer = setInterval(() => syncNow(), RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [waitingCount, syncNow]);
+
+  return (
+    <OfflineSyncContext.Provider
+      value={{ isOnline, isSyncing, pendingOrders, conflictReports, enqueueOrder, syncNow, discardOrder, dismissConflicts }}
+    >
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+}
+
+export function useOfflineSync() {
+  const context = useContext(OfflineSyncContext);
+  if (context === undefined) {
+    throw new Error('useOfflineSync must be used within an OfflineSyncProvider');
+  }
+  return context;
+}
@@ -1,11 +1,40 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { Capacitor } from '@capacitor/core';
+import type { PrintStation } from '@/hooks/useMenuItems';
+import type { RestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { createEscPosEncoder, PaperWidth, PAPER_DOTS, RasterImage } from '@/utils/escpos';
+import {
+  buildReceiptDocument,
+  renderReceiptEscPos,
+  resolveReceiptTemplate,
+  ReceiptData,
+  ReceiptDocument,
+} from '@/utils/receiptDocument';
 
 export interface BluetoothDevice {
   name: string;
   address: string;
 }
 
+// The cashier prints receipts; the other stations print production tickets
+export type PrinterStation = 'cashier' | PrintStation;
+
+export const PRINTER_STATIONS: { id: PrinterStation; label: string }[] = [
+  { id: 'cashier', label: 'Kasir' },
+  { id: 'kitchen', label: 'Dapur' },
+  { id: 'drinks', label: 'Minuman' },
+];
+
+type StationPrinters = Partial<Record<PrinterStation, BluetoothDevice>>;
+
+interface StationTicketItem {
+  name: string;
+  quantity: number;
+  modifiers?: Array<{ name: string }>;
+  notes?: string;
+  station: PrintStation | null;
+}
+
 interface PrinterStatus {
   isConnected: boolean;
   connectedDevice: BluetoothDevice | null;
@@ -19,16 +48,61 @@ interface PrinterStatus {
 const isNative = Capacitor.isNativePlatform();
 
 const STORAGE_KEY = 'eppos_printer_device';
+const STATIONS_STORAGE_KEY = 'eppos_printer_stations';
+
+const loadStationPrinters = (): StationPrinters => {
+  try {
+    const saved = localStorage.getItem(STATIONS_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+    // A printer paired before stations existed becomes the cashier printer
+    const legacy = localStorage.getItem(STORAGE_KEY);
+    return legacy ? { cashier: JSON.parse(legacy) } : {};
+  } catch {
+    return {};
+  }
+};
 
-// Fixed line width for 58mm thermal paper
-const LINE_WIDTH = 32;
+// The plugin keeps a single Bluetooth connection for the whole app, shared by every hook instance
+let activeAddress: string | null = null;
 
-const sanitizeReceiptText = (text: string) => {
-  // Thermal printers are sensitive to charset/encoding; keep output strictly ASCII-ish
-  // to prevent garbled characters (e.g., Mandarin glyphs) on some devices.
-  return text
-    .normalize('NFKD')
-    .replace(/[^\x09\x0A\x0D\x20-\x7E]/g, '');
+// Paper roll of this device's printers; 58mm unless set in printer settings
+const PAPER_WIDTH_STORAGE_KEY = 'eppos_paper_width';
+
+const loadPaperWidth = (): PaperWidth =>
+  localStorage.getItem(PAPER_WIDTH_STORAGE_KEY) === '80' ? 80 : 58;
+
+const logoRasters = new Map<string, RasterImage | null>();
+
+// Draws the receipt logo onto a canvas at most half the paper wide. Images the browser
+// cannot read back (e.g. hosts without CORS) resolve to null and the receipt prints without one.
+const loadLogoRaster = async (url: string, paperDots: number): Promise<RasterImage | null> => {
+  const key = `${url}@${paperDots}`;
+  if (logoRasters.has(key)) return logoRasters.get(key)!;
+
+  const raster = await new Promise<RasterImage | null>(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      try {
+        const width = Math.min(image.naturalWidth, Math.floor(paperDots / 2));
+        const height = Math.round(image.naturalHeight * (width / image.naturalWidth));
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context || width === 0 || height === 0) return resolve(null);
+        context.drawImage(image, 0, 0, width, height);
+        resolve(context.getImageData(0, 0, width, height));
+      } catch {
+        resolve(null);
+      }
+    };
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+
+  logoRasters.set(key, raster);
+  return raster;
 };
 
 export function useBluetoothPrinter() {
@@ -41,6 +115,8 @@ export function useBluetoothPrinter() {
     error: null,
   });
 
+  const [stationPrinters, setStationPrinters] = useState<StationPrinters>(loadStationPrinters);
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>(loadPaperWidth);
   const [thermalPrinter, setThermalPrinter] = useState<any>(null);
   const listenerRef = useRef<any>(null);
   const finishListenerRef = useRef<any>(null);
@@ -155,6 +231,7 @@ export function useBluetoothPrinter() {
       
       // Connect using thermal printer plugin with device address
       await thermalPrinter.connect({ address: device.address });
+      activeAddress = device.address;
       
       setStatus(prev => ({ 
         ...prev, 
@@ -182,6 +259,7 @@ export function useBluetoothPrinter() {
 
     try {
       await thermalPrinter.disconnect();
+      activeAddress = null;
       setStatus(prev => ({ 
         ...prev, 
         isConnected: false, 
@@ -196,13 +274,68 @@ export function useBluetoothPrinter() {
     }
   }, [thermalPrinter]);
 
+  const assignStationPrinter = useCallback((station: PrinterStation, device: BluetoothDevice | null) => {
+    setStationPrinters(prev => {
+      const next = { ...prev };
+      if (device) {
+        next[station] = device;
+      } else {
+        delete next[station];
+      }
+      localStorage.setItem(STATIONS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const updatePaperWidth = useCallback((width: PaperWidth) => {
+    setPaperWidth(width);
+    localStorage.setItem(PAPER_WIDTH_STORAGE_KEY, String(width));
+  }, []);
+
+  // Switch the Bluetooth connection to the device when needed, then send the bytes
+  const writeToDevice = useCallback(async (device: BluetoothDevice, data: Uint8Array) => {
+    if (activeAddress !== device.address) {
+      await thermalPrinter.connect({ address: device.address });
+      activeAddress = device.address;
+      setStatus(prev => ({ ...prev, isConnected: true, connectedDevice: device }));
+    }
+
+    await thermalPrinter.begin().raw(data).write();
+  }, [thermalPrinter]);
+
+  // Print on the station's printer; when it is offline, fall back to the other printers in turn
+  const printOnStation = useCallback(async (station: PrinterStation, data: Uint8Array) => {
+    const candidates = [
+      stationPrinters[station],
+      ...PRINTER_STATIONS.map(s => stationPrinters[s.id]),
+      status.connectedDevice,
+    ].filter((device, index, list): device is BluetoothDevice =>
+      !!device && list.findIndex(d => d?.address === device.address) === index
+    );
+
+    for (const device of candidates) {
+      try {
+        await writeToDevice(device, data);
+        if (device.address !== stationPrinters[station]?.address) {
+          console.warn(`Printer for ${station} unavailable, printed on ${device.name}`);
+        }
+        return true;
+      } catch (error) {
+        console.error(`Print on ${device.name} failed:`, error);
+        if (activeAddress === device.address) activeAddress = null;
+      }
+    }
+
+    return false;
+  }, [stationPrinters, status.connectedDevice, writeToDevice]);
+
   // Test print function
-  const testPrint = useCallback(async () => {
+  const testPrint = useCallback(async (settings?: RestaurantSettings | null) => {
     if (!isNative || !thermalPrinter) {
       return false;
     }
 
-    if (!status.isConnected) {
+    if (!status.isConnected || !status.connectedDevice) {
       setStatus(prev => ({ ...prev, error: 'Printer belum terhubung' }));
       return false;
     }
@@ -212,28 +345,23 @@ export function useBluetoothPrinter() {
 
       const dateStr = new Date().toLocaleDateString('id-ID');
       const timeStr = new Date().toLocaleTimeString('id-ID');
-      const lineStr = '-'.repeat(LINE_WIDTH);
-
-      // Use plugin's builder API (Android implementation) then write()
-      const printer = thermalPrinter.begin().clearFormatting();
-
-      const receiptTextRaw =
-        `TEST PRINT\n` +
-        `${lineStr}\n` +
-        `Printer Terhubung!\n` +
-        `${dateStr} ${timeStr}\n` +
-        `${lineStr}\n` +
-        `RM.MINANG MAIMBAOE\n\n\n`;
 
-      const receiptText = sanitizeReceiptText(receiptTextRaw);
-
-      await printer
+      const ticket = createEscPosEncoder({ paperWidth })
         .align('center')
         .bold()
-        .text(receiptText)
-        .bold(false)
-        .feedCutPaper()
-        .write();
+        .line('TEST PRINT')
+        .rule()
+        .line('Printer Terhubung!')
+        .line(`${dateStr} ${timeStr}`)
+        .line(`Kertas ${paperWidth}mm`)
+        .rule();
+
+      if (settings?.restaurant_name) {
+        ticket.line(settings.restaurant_name);
+      }
+      ticket.bold(false).feedCut();
+
+      await writeToDevice(status.connectedDevice, ticket.encode());
 
       setStatus(prev => ({ ...prev, isPrinting: false }));
       return true;
@@ -245,180 +373,130 @@ export function useBluetoothPrinter() {
       }));
       return false;
     }
-  }, [status.isConnected, thermalPrinter]);
+  }, [status.isConnected, status.connectedDevice, thermalPrinter, paperWidth, writeToDevice]);
 
   // Print receipt
-  const printReceipt = useCallback(async (receiptData: {
-    orderNumber: string;
-    cashierName: string;
-    tableNumber?: number;
-    items: Array<{ name: string; quantity: number; price: number }>;
-    subtotal: number;
-    discount: number;
-    total: number;
-    paymentMethod: string;
-    amountPaid: number;
-    change: number;
-    timestamp: Date;
-    restaurantSettings?: {
-      restaurant_name: string;
-      address_line1: string | null;
-      address_line2: string | null;
-      address_line3: string | null;
-      whatsapp_number: string | null;
-      instagram_handle: string | null;
-      footer_message: string | null;
-    };
-  }) => {
+  const printReceipt = useCallback(async (receiptData: ReceiptData, settings?: RestaurantSettings | null) => {
     if (!isNative || !thermalPrinter) {
       return false;
     }
 
-    if (!status.isConnected) {
-      setStatus(prev => ({ ...prev, error: 'Printer belum terhubung' }));
-      return false;
-    }
-
     try {
       setStatus(prev => ({ ...prev, isPrinting: true, error: null }));
 
-      const paymentMethodText: Record<string, string> = {
-        cash: 'Tunai',
-        transfer: 'Transfer',
-        qris: 'QRIS',
-      };
-
-      const formatPrice = (price: number) => {
-        return new Intl.NumberFormat('id-ID', {
-          minimumFractionDigits: 0,
-        }).format(price);
-      };
-
-      const dateStr = receiptData.timestamp.toLocaleDateString('id-ID');
-      const timeStr = receiptData.timestamp.toLocaleTimeString('id-ID');
-
-      // Get restaurant settings or use defaults
-      const rs = receiptData.restaurantSettings;
-      const restaurantName = rs?.restaurant_name || 'RM.MINANG MAIMBAOE';
-      const addressLine1 = rs?.address_line1 || '';
-      const addressLine2 = rs?.address_line2 || '';
-      const addressLine3 = rs?.address_line3 || '';
-      const footerMessage = rs?.footer_message || 'Terima Kasih!';
-
-      // Helper functions for text formatting based on LINE_WIDTH
-      const dashedLine = '-'.repeat(LINE_WIDTH);
-      
-      // Create two-column line: left label + right value
-      const twoColumn = (left: string, right: string) => {
-        const rightLen = right.length;
-        const leftMax = LINE_WIDTH - rightLen - 1;
-        const leftTrimmed = left.slice(0, leftMax);
-        const spaces = LINE_WIDTH - leftTrimmed.length - rightLen;
-        return leftTrimmed + ' '.repeat(Math.max(1, spaces)) + right;
-      };
-
-      // Create item line: Item | Qty | Harga (aligned columns)
-      const itemLine = (name: string, qty: number, price: string) => {
-        const qtyStr = String(qty);
-        const qtyWidth = 4;
-        const priceWidth = Math.max(10, price.length + 1);
-        const nameWidth = LINE_WIDTH - qtyWidth - priceWidth;
-        
-        const nameTrimmed = name.length > nameWidth ? name.slice(0, nameWidth - 1) : name;
-        const namePadded = nameTrimmed.padEnd(nameWidth, ' ');
-        const qtyPadded = qtyStr.padStart(qtyWidth - 1, ' ') + ' ';
-        const pricePadded = price.padStart(priceWidth, ' ');
-        
-        return namePadded + qtyPadded + pricePadded;
-      };
-
-      // Header row for items table
-      const itemHeader = () => {
-        const qtyWidth = 4;
-        const priceWidth = Math.max(10, 6);
-        const nameWidth = LINE_WIDTH - qtyWidth - priceWidth;
-        
-        return 'Item'.padEnd(nameWidth, ' ') + 'Qty'.padStart(qtyWidth, ' ') + 'Harga'.padStart(priceWidth, ' ');
-      };
-      
-      // Print using plugin builder API (implemented on Android)
-      const printer = thermalPrinter.begin().clearFormatting();
+      const receipt = buildReceiptDocument(receiptData, settings);
+      const logoUrl = resolveReceiptTemplate(settings?.receipt_template).logo_url;
+      const logo = logoUrl ? await loadLogoRaster(logoUrl, PAPER_DOTS[paperWidth]) : null;
 
-      // Build receipt text
-      let receiptTextRaw = '';
+      const printed = await printOnStation('cashier', renderReceiptEscPos(receipt, { paperWidth, logo }));
 
-      // Header - Restaurant name (bold, centered)
-      receiptTextRaw += `${restaurantName}\n`;
-      
-      // Address lines (centered, smaller)
-      if (addressLine1) receiptTextRaw += `${addressLine1}\n`;
-      if (addressLine2) receiptTextRaw += `${addressLine2}\n`;
-      if (addressLine3) receiptTextRaw += `${addressLine3}\n`;
-      
-      receiptTextRaw += `${dashedLine}\n`;
-
-      // Order info section
-      receiptTextRaw += `${twoColumn('No. Order:', '#' + receiptData.orderNumber)}\n`;
-      receiptTextRaw += `${twoColumn('Tanggal:', `${dateStr} ${timeStr}`)}\n`;
-      receiptTextRaw += `${twoColumn('Pembayaran:', paymentMethodText[receiptData.paymentMethod] || receiptData.paymentMethod)}\n`;
-      receiptTextRaw += `${twoColumn('Kasir:', receiptData.cashierName)}\n`;
-      if (receiptData.tableNumber) {
-        receiptTextRaw += `${twoColumn('Meja:', String(receiptData.tableNumber))}\n`;
-      }
-      
-      receiptTextRaw += `${dashedLine}\n`;
+      setStatus(prev => ({
+        ...prev,
+        isPrinting: false,
+        error: printed ? null : 'Printer belum terhubung',
+      }));
+      return printed;
+    } catch (error: any) {
+      console.error('Print error:', error);
+      setStatus(prev => ({ 
+        ...prev, 
+        isPrinting: false, 
+        error: error.message || 'Gagal mencetak struk' 
+      }));
+      return false;
+    }
+  }, [printOnStation, thermalPrinter, paperWidth]);
 
-      // Items table header
-      receiptTextRaw += `${itemHeader()}\n`;
+  // Reports built on the receipt document model, printed on the cashier's printer
+  const printDocument = useCallback(async (doc: ReceiptDocument) => {
+    if (!isNative || !thermalPrinter) {
+      return false;
+    }
 
-      // Items
-      for (const item of receiptData.items) {
-        const itemTotal = item.price * item.quantity;
-        const priceStr = 'Rp ' + formatPrice(itemTotal);
-        receiptTextRaw += `${itemLine(item.name, item.quantity, priceStr)}\n`;
-      }
+    try {
+      setStatus(prev => ({ ...prev, isPrinting: true, error: null }));
+      const printed = await printOnStation('cashier', renderReceiptEscPos(doc, { paperWidth }));
+      setStatus(prev => ({
+        ...prev,
+        isPrinting: false,
+        error: printed ? null : 'Printer belum terhubung',
+      }));
+      return printed;
+    } catch (error) {
+      console.error('Print error:', error);
+      setStatus(prev => ({
+        ...prev,
+        isPrinting: false,
+        error: error instanceof Error ? error.message : 'Gagal mencetak',
+      }));
+      return false;
+    }
+  }, [printOnStation, thermalPrinter, paperWidth]);
 
-      receiptTextRaw += `${dashedLine}\n`;
+  // Production tickets: one per station with the items routed to it, without prices.
+  // Resolves to the stations whose ticket could not be printed anywhere.
+  const printStationTickets = useCallback(async (ticketData: {
+    orderNumber: string;
+    cashierName: string;
+    tableNumber?: number;
+    items: StationTicketItem[];
+    notes?: string;
+    timestamp: Date;
+  }) => {
+    if (!isNative || !thermalPrinter) {
+      return [];
+    }
 
-      // Totals section
-      if (receiptData.discount > 0) {
-        receiptTextRaw += `${twoColumn('Subtotal:', 'Rp ' + formatPrice(receiptData.subtotal))}\n`;
-        receiptTextRaw += `${twoColumn('Diskon:', '-Rp ' + formatPrice(receiptData.discount))}\n`;
-      }
+    const dateStr = ticketData.timestamp.toLocaleDateString('id-ID');
+    const timeStr = ticketData.timestamp.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+    const failed: PrinterStation[] = [];
 
-      receiptTextRaw += `${twoColumn('TOTAL:', 'Rp ' + formatPrice(receiptData.total))}\n`;
-      
-      // Payment info
-      const payMethod = paymentMethodText[receiptData.paymentMethod] || receiptData.paymentMethod;
-      receiptTextRaw += `${twoColumn(payMethod + ':', 'Rp ' + formatPrice(receiptData.amountPaid))}\n`;
-      if (receiptData.change > 0) {
-        receiptTextRaw += `${twoColumn('Kembali:', 'Rp ' + formatPrice(receiptData.change))}\n`;
-      }
+    // Stations print one after another over the single connection
+    for (const station of PRINTER_STATIONS) {
+      const items = ticketData.items.filter(item => item.station === station.id);
+      if (items.length === 0) continue;
 
-      // Footer
-      receiptTextRaw += `${dashedLine}\n`;
-      receiptTextRaw += `${footerMessage}\n\n\n`;
+      // Large type so the line can read it from a distance
+      const ticket = createEscPosEncoder({ paperWidth })
+        .align('center')
+        .invert()
+        .line(` ${station.label.toUpperCase()} `)
+        .invert(false)
+        .size(2)
+        .bold()
+        .line(ticketData.tableNumber ? `MEJA ${ticketData.tableNumber}` : 'BAWA PULANG')
+        .bold(false)
+        .size(1)
+        .line(`#${ticketData.orderNumber}`)
+        .line(`${dateStr} ${timeStr} - ${ticketData.cashierName}`)
+        .align('left')
+        .rule();
+
+      for (const item of items) {
+        ticket.size(1, 2).bold().wrap(`${item.quantity}x ${item.name}`).bold(false).size(1);
+        for (const modifier of item.modifiers || []) {
+          ticket.wrap(`+ ${modifier.name}`, 3);
+        }
+        if (item.notes) {
+          ticket.wrap(`* ${item.notes}`, 3);
+        }
+      }
 
-      const receiptText = sanitizeReceiptText(receiptTextRaw);
+      ticket.rule();
+      if (ticketData.notes) {
+        ticket.wrap(`Catatan: ${ticketData.notes}`);
+      }
+      ticket.feedCut();
 
-      await printer
-        .align('center')
-        .text(receiptText)
-        .feedCutPaper()
-        .write();
+      const printed = await printOnStation(station.id, ticket.encode());
+      if (!printed) failed.push(station.id);
+    }
 
-      setStatus(prev => ({ ...prev, isPrinting: false }));
-      return true;
-    } catch (error: any) {
-      console.error('Print error:', error);
-      setStatus(prev => ({ 
-        ...prev, 
-        isPrinting: false, 
-        error: error.message || 'Gagal mencetak struk' 
-      }));
-      return false;
+    if (failed.length > 0) {
+      setStatus(prev => ({ ...prev, error: 'Tiket dapur gagal dicetak' }));
     }
-  }, [status.isConnected, thermalPrinter]);
+    return failed;
+  }, [printOnStation, thermalPrinter, paperWidth]);
 
   // Try to reconnect to last printer on mount
   useEffect(() => {
@@ -442,10 +520,16 @@ export function useBluetoothPrinter() {
   return {
     ...status,
     isNative,
+    stationPrinters,
+    assignStationPrinter,
+    paperWidth,
+    setPaperWidth: updatePaperWidth,
     scanDevices,
     connectPrinter,
     disconnectPrinter,
     printReceipt,
+    printDocument,
+    printStationTickets,
     testPrint,
   };
 }
@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Tables } from '@/integrations/supabase/types';
+import type { PaymentMethod } from '@/hooks/useOrders';
+import { useBluetoothPrinter } from '@/hooks/useBluetoothPrinter';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { buildShiftReportDocument, DenominationCounts } from '@/utils/shiftReport';
+import { printDocument } from '@/utils/receiptPrinter';
+
+export type CashShift = Tables<'cash_shifts'>;
+export type CashMovement = Tables<'cash_movements'>;
+export type CashMovementType = 'cash_in' | 'cash_out';
+
+// What cash_shift_summary returns
+export interface CashShiftSummary {
+  shift: CashShift;
+  cash_sales: number;
+  cash_refunds: number;
+  cash_voids: number;
+  cash_in: number;
+  cash_out: number;
+  expected_cash: number;
+  order_count: number;
+  payments_by_method: Partial<Record<PaymentMethod, number>>;
+  movements: CashMovement[];
+}
+
+export const fetchCashShiftSummary = async (shiftId: string) => {
+  const { data, error } = await supabase.rpc('cash_shift_summary', { _shift_id: shiftId });
+  if (error) throw error;
+  return data as unknown as CashShiftSummary;
+};
+
+// Thermal printer when connected, otherwise the browser print dialog
+export function usePrintShiftReport() {
+  const bluetoothPrinter = useBluetoothPrinter();
+  const { settings } = useRestaurantSettings();
+
+  return async (summary: CashShiftSummary) => {
+    const doc = buildShiftReportDocument(summary, settings?.restaurant_name);
+    if (bluetoothPrinter.isNative && bluetoothPrinter.isConnected && await bluetoothPrinter.printDocument(doc)) {
+      return;
+    }
+    await printDocument(doc);
+  };
+}
+
+// The signed-in cashier's open drawer, if any
+export function useCashShift() {
+  const { user } = useAuth();
+  const [summary, setSummary] = useState<CashShiftSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchShift = useCallback(async () => {
+    if (!user) {
+      setSummary(null);
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('cash_shifts')
+      .select('id')
+      .eq('cashier_id', user.id)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const current = data ? await fetchCashShiftSummary(data.id) : null;
+    setSummary(current);
+    return current;
+  }, [user]);
+
+  const openShift = async (openingFloat: number) => {
+    const { error } = await supabase.rpc('open_cash_shift', { _opening_float: openingFloat });
+    if (error) throw error;
+    return fetchShift();
+  };
+
+  const recordMovement = async (movementType: CashMovementType, amount: number, reason: string) => {
+    if (!summary) throw new Error('Shift belum dibuka');
+
+    const { error } = await supabase.rpc('record_cash_movement', {
+      _shift_id: summary.shift.id,
+      _movement_type: movementType,
+      _amount: amount,
+      _reason: reason,
+    });
+
+    if (error) throw error;
+    return fetchShift();
+  };
+
+  // Resolves to the closed shift's final figures for the shift report
+  const closeShift = async (counts: DenominationCounts, notes?: string) => {
+    if (!summary) throw new Error('Shift belum dibuka');
+
+    const { data, error } = await supabase.rpc('close_cash_shift', {
+      _shift_id: summary.shift.id,
+      _counts: counts,
+      _notes: notes || null,
+    });
+
+    if (error) throw error;
+    setSummary(null);
+    return data as unknown as CashShiftSummary;
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchShift()
+      .catch(error => console.error('Error fetching cash shift:', error))
+      .finally(() => setLoading(false));
+  }, [fetchShift]);
+
+  return {
+    shift: summary?.shift ?? null,
+    summary,
+    loading,
+    refetch: fetchShift,
+    openShift,
+    recordMovement,
+    closeShift,
+  };
+}
@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { orderItemToCartItem } from '@/hooks/useOrders';
+import type { RestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { getChargeLines } from '@/utils/billTotals';
+import type { ReceiptData } from '@/utils/receiptDocument';
+
+type DigitalReceiptPayload = {
+  order: Omit<Tables<'orders'>, 'receipt_token' | 'cashier_id' | 'discount_approved_by'>;
+  table_number: number | null;
+  items: Tables<'order_items'>[];
+  payments: { payment_method: string; amount: number }[];
+  settings: Pick<RestaurantSettings,
+    'restaurant_name' | 'address_line1' | 'address_line2' | 'address_line3' |
+    'whatsapp_number' | 'instagram_handle' | 'footer_message' | 'receipt_template'> | null;
+};
+
+// Public receipt behind a digital receipt link; null when the token matches no paid order
+export function useDigitalReceipt(token: string | undefined) {
+  return useQuery({
+    queryKey: ['digital-receipt', token],
+    enabled: !!token,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_digital_receipt', { _token: token! });
+      if (error) throw error;
+      if (!data) return null;
+
+      const { order, table_number, items, payments, settings } = data as unknown as DigitalReceiptPayload;
+      const receipt: ReceiptData = {
+        orderNumber: order.order_number,
+        cashierName: order.cashier_name || 'Kasir',
+        tableNumber: table_number ?? undefined,
+        items: items.map(orderItemToCartItem),
+        subtotal: order.subtotal,
+        discount: order.discount || 0,
+        promotionName: order.promotion_name || undefined,
+        charges: getChargeLines({ serviceCharge: order.service_charge, tax: order.tax, rounding: order.rounding }, order),
+        total: order.total,
+        paymentMethod: order.payment_method || 'cash',
+        amountPaid: order.amount_paid || order.total,
+        change: order.change_amount || 0,
+        payments: payments.map(payment => ({ paymentMethod: payment.payment_method, amount: payment.amount })),
+        timestamp: new Date(order.created_at),
+        notes: order.notes || undefined,
+      };
+
+      return { receipt, settings, status: order.status, refundedAmount: order.refunded_amount };
+    },
+  });
+}
@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ExpenseCategory = Tables<'expense_categories'>;
+export type Expense = Tables<'expenses'>;
+export type RecurringExpense = Tables<'recurring_expenses'>;
+export type ExpensePaymentSource = 'cash_drawer' | 'bank';
+export type RecurringFrequency = 'weekly' | 'monthly';
+export type ExpenseAccount = Pick<Tables<'accounts'>, 'id' | 'code' | 'name'>;
+export type OpenCashShift = Pick<Tables<'cash_shifts'>, 'id' | 'cashier_name' | 'opened_at'>;
+
+export interface ExpenseInput {
+  categoryId: string;
+  amount: number;
+  paymentSource: ExpensePaymentSource;
+  expenseDate: string; // yyyy-MM-dd
+  description: string;
+  shiftId?: string | null; // drawer the cash comes out of
+  receipt?: File | null;
+}
+
+export interface RecurringExpenseInput {
+  categoryId: string;
+  description: string;
+  amount: number;
+  paymentSource: ExpensePaymentSource;
+  frequency: RecurringFrequency;
+  startDate: string; // yyyy-MM-dd
+}
+
+export const EXPENSE_RECEIPTS_BUCKET = 'expense-receipts';
+
+export const PAYMENT_SOURCE_LABELS: Record<ExpensePaymentSource, string> = {
+  cash_drawer: 'Laci Kas',
+  bank: 'Bank',
+};
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: 'Mingguan',
+  monthly: 'Bulanan',
+};
+
+export function useExpenses() {
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [recurring, setRecurring] = useState<RecurringExpense[]>([]);
+  const [expenseAccounts, setExpenseAccounts] = useState<ExpenseAccount[]>([]);
+  const [openShifts, setOpenShifts] = useState<OpenCashShift[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      // Book recurring expenses that fell due so the list is complete
+      const { error: recurringError } = await supabase.rpc('post_due_recurring_expenses');
+      if (recurringError) console.error('Error posting recurring expenses:', recurringError);
+
+      const [categoriesRes, expensesRes, recurringRes, accountsRes, shiftsRes] = await Promise.all([
+        supabase.from('expense_categories').select('*').order('name'),
+        supabase.from('expenses').select('*').order('expense_date', { ascending: false }).order('created_at', { ascending: false }).limit(200),
+        supabase.from('recurring_expenses').select('*').order('next_due_date'),
+        supabase.from('accounts').select('id, code, name').eq('account_type', 'expense').order('code'),
+        supabase.from('cash_shifts').select('id, cashier_name, opened_at').eq('status', 'open').order('opened_at'),
+      ]);
+
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (expensesRes.error) throw expensesRes.error;
+      if (recurringRes.error) throw recurringRes.error;
+      if (accountsRes.error) throw accountsRes.error;
+      if (shiftsRes.error) throw shiftsRes.error;
+
+      setCategories(categoriesRes.data || []);
+      setExpenses(expensesRes.data || []);
+      setRecurring(recurringRes.data || []);
+      setExpenseAccounts(accountsRes.data || []);
+      setOpenShifts(shiftsRes.data || []);
+    } catch (err) {
+      console.error('Error fetching expenses:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addCategory = async (name: string, accountId: string) => {
+    const { data, error } = await supabase
+      .from('expense_categories')
+      .insert({ name, account_id: accountId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setCategories(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data;
+  };
+
+  const updateCategory = async (id: string, updates: Partial<Pick<ExpenseCategory, 'name' | 'account_id' | 'is_active'>>) => {
+    const { data, error } = await supabase
+      .from('expense_categories')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setCategories(prev => prev.map(category => category.id === id ? data : category));
+    return data;
+  };
+
+  // Uploads the receipt photo first; it is removed again if the expense cannot be recorded
+  const recordExpense = async (input: ExpenseInput) => {
+    let receiptPath: string | null = null;
+
+    if (input.receipt) {
+      const extension = input.receipt.name.split('.').pop() || 'jpg';
+      receiptPath = `${input.expenseDate.slice(0, 7)}/${crypto.randomUUID()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from(EXPENSE_RECEIPTS_BUCKET)
+        .upload(receiptPath, input.receipt, { contentType: input.receipt.type });
+
+      if (uploadError) throw uploadError;
+    }
+
+    const { data, error } = await supabase.rpc('record_expense', {
+      _category_id: input.categoryId,
+      _amount: input.amount,
+      _payment_source: input.paymentSource,
+      _expense_date: input.expenseDate,
+      _description: input.description,
+      _receipt_path: receiptPath,
+      _shift_id: input.shiftId || null,
+    });
+
+    if (error) {
+      if (receiptPath) await supabase.storage.from(EXPENSE_RECEIPTS_BUCKET).remove([receiptPath]);
+      throw error;
+    }
+
+    const expense = data as unknown as Expense;
+    setExpenses(prev => [expense, ...prev]);
+    return expense;
+  };
+
+  // The bucket is private; links expire after five minutes
+  const getReceiptUrl = async (path: string) => {
+    const { data, error } = await supabase.storage
+      .from(EXPENSE_RECEIPTS_BUCKET)
+      .createSignedUrl(path, 300);
+
+    if (error) throw error;
+    return data.signedUrl;
+  };
+
+  const addRecurringExpense = async (input: RecurringExpenseInput) => {
+    const { error } = await supabase
+      .from('recurring_expenses')
+      .insert({
+        category_id: input.categoryId,
+        description: input.description,
+        amount: input.amount,
+        payment_source: input.paymentSource,
+        frequency: input.frequency,
+        start_date: input.startDate,
+        next_due_date: input.startDate,
+      });
+
+    if (error) throw error;
+    // A start date of today or earlier is booked straight away
+    await fetchData();
+  };
+
+  const updateRecurringExpense = async (id: string, updates: Partial<Pick<RecurringExpense, 'description' | 'amount' | 'is_active'>>) => {
+    const { data, error } = await supabase
+      .from('recurring_expenses')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setRecurring(prev => prev.map(item => item.id === id ? data : item));
+    return data;
+  };
+
+  const deleteRecurringExpense = async (id: string) => {
+    const { error } = await supabase
+      .from('recurring_expenses')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setRecurring(prev => prev.filter(item => item.id !== id));
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  return {
+    categories,
+    expenses,
+    recurring,
+    expenseAccounts,
+    openShifts,
+    loading,
+    refetch: fetchData,
+    addCategory,
+    updateCategory,
+    recordExpense,
+    getReceiptUrl,
+    addRecurringExpense,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+  };
+}
@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildFinancialStatements,
+  previousPeriod,
+  type FinancialStatement,
+  type LedgerSummary,
+  type StatementPeriod,
+} from '@/utils/financialStatements';
+
+const fetchLedgerSummary = async ({ from, to }: StatementPeriod) => {
+  const { data, error } = await supabase.rpc('ledger_summary', {
+    _from: format(from, 'yyyy-MM-dd'),
+    _to: format(to, 'yyyy-MM-dd'),
+  });
+  if (error) throw error;
+  return data as unknown as LedgerSummary;
+};
+
+// P&L, balance sheet and cash flow for the period, each next to the previous period
+export function useFinancialStatements(period: StatementPeriod) {
+  const [statements, setStatements] = useState<FinancialStatement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const previous = previousPeriod(period);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [current, before] = await Promise.all([
+        fetchLedgerSummary(period),
+        fetchLedgerSummary(previous),
+      ]);
+      setStatements(buildFinancialStatements(current, before));
+    } catch (err) {
+      console.error('Error fetching financial statements:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [period.from.getTime(), period.to.getTime()]);
+
+  return {
+    statements,
+    previous,
+    loading,
+    refetch: fetchData,
+  };
+}
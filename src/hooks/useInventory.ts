@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Ingredient = Tables<'ingredients'>;
+export type RecipeIngredient = Tables<'recipe_ingredients'>;
+export type StockMovement = Tables<'stock_movements'>;
+export type StockAdjustmentType = 'restock' | 'adjustment';
+
+// Every menu item, including the ones taken off the menu, for the recipe editor
+export interface RecipeMenuItem {
+  id: string;
+  name: string;
+  is_available: boolean;
+  auto_unavailable: boolean;
+}
+
+export interface RecipeModifierOption {
+  id: string;
+  name: string;
+  group_name: string;
+  menu_item_id: string;
+}
+
+export const INGREDIENT_UNITS = ['gram', 'kg', 'ml', 'liter', 'pcs'];
+
+export const isLowStock = (ingredient: Ingredient) => ingredient.stock <= ingredient.low_stock_threshold;
+
+export function useInventory() {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipes, setRecipes] = useState<RecipeIngredient[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [menuItems, setMenuItems] = useState<RecipeMenuItem[]>([]);
+  const [modifierOptions, setModifierOptions] = useState<RecipeModifierOption[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const [ingredientsRes, recipesRes, movementsRes, itemsRes, optionsRes] = await Promise.all([
+        supabase.from('ingredients').select('*').order('name'),
+        supabase.from('recipe_ingredients').select('*').order('created_at'),
+        supabase.from('stock_movements').select('*').order('created_at', { ascending: false }).limit(50),
+        supabase.from('menu_items').select('id, name, is_available, auto_unavailable').order('name'),
+        supabase.from('menu_modifier_options').select('id, name, sort_order, menu_modifier_groups (name, menu_item_id)').order('sort_order'),
+      ]);
+
+      if (ingredientsRes.error) throw ingredientsRes.error;
+      if (recipesRes.error) throw recipesRes.error;
+      if (movementsRes.error) throw movementsRes.error;
+      if (itemsRes.error) throw itemsRes.error;
+      if (optionsRes.error) throw optionsRes.error;
+
+      setIngredients(ingredientsRes.data || []);
+      setRecipes(recipesRes.data || []);
+      setMovements(movementsRes.data || []);
+      setMenuItems(itemsRes.data || []);
+      setModifierOptions((optionsRes.data || []).map(option => ({
+        id: option.id,
+        name: option.name,
+        group_name: option.menu_modifier_groups?.name ?? '',
+        menu_item_id: option.menu_modifier_groups?.menu_item_id ?? '',
+      })));
+    } catch (err) {
+      console.error('Error fetching inventory:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Stock and availability change on the server when recipes change, so reload those too
+  const refreshStock = async () => {
+    const [ingredientsRes, movementsRes, itemsRes] = await Promise.all([
+      supabase.from('ingredients').select('*').order('name'),
+      supabase.from('stock_movements').select('*').order('created_at', { ascending: false }).limit(50),
+      supabase.from('menu_items').select('id, name, is_available, auto_unavailable').order('name'),
+    ]);
+
+    if (ingredientsRes.data) setIngredients(ingredientsRes.data);
+    if (movementsRes.data) setMovements(movementsRes.data);
+    if (itemsRes.data) setMenuItems(itemsRes.data);
+  };
+
+  const addIngredient = async (ingredient: { name: string; unit: string; low_stock_threshold: number }, initialStock: number) => {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .insert(ingredient)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setIngredients(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+
+    // The opening stock goes through the ledger like any restock
+    if (initialStock > 0) await adjustStock(data.id, initialStock, 'restock', 'Stok awal');
+    return data;
+  };
+
+  const updateIngredient = async (id: string, updates: Partial<Pick<Ingredient, 'name' | 'unit' | 'low_stock_threshold'>>) => {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setIngredients(prev => prev.map(ingredient => ingredient.id === id ? data : ingredient));
+    return data;
+  };
+
+  const deleteIngredient = async (id: string) => {
+    const { error } = await supabase
+      .from('ingredients')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setIngredients(prev => prev.filter(ingredient => ingredient.id !== id));
+    setRecipes(prev => prev.filter(recipe => recipe.ingredient_id !== id));
+    await refreshStock();
+  };
+
+  // Restock adds to stock; a stock-take adjustment is the signed difference to the count
+  const adjustStock = async (ingredientId: string, quantity: number, movementType: StockAdjustmentType, note?: string) => {
+    const { error } = await supabase.rpc('adjust_ingredient_stock', {
+      _ingredient_id: ingredientId,
+      _quantity: quantity,
+      _movement_type: movementType,
+      _note: note || null,
+    });
+
+    if (error) throw error;
+    await refreshStock();
+  };
+
+  const addRecipeLine = async (line: Pick<RecipeIngredient, 'menu_item_id' | 'modifier_option_id' | 'ingredient_id' | 'quantity' | 'is_required'>) => {
+    const { data, error } = await supabase
+      .from('recipe_ingredients')
+      .insert(line)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setRecipes(prev => [...prev, data]);
+    await refreshStock();
+    return data;
+  };
+
+  const updateRecipeLine = async (id: string, updates: Partial<Pick<RecipeIngredient, 'quantity' | 'is_required'>>) => {
+    const { data, error } = await supabase
+      .from('recipe_ingredients')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setRecipes(prev => prev.map(recipe => recipe.id === id ? data : recipe));
+    await refreshStock();
+    return data;
+  };
+
+  const deleteRecipeLine = async (id: string) => {
+    const { error } = await supabase
+      .from('recipe_ingredients')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setRecipes(prev => prev.filter(recipe => recipe.id !== id));
+    await refreshStock();
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  return {
+    ingredients,
+    recipes,
+    movements,
+    menuItems,
+    modifierOptions,
+    loading,
+    refetch: fetchData,
+    addIngredient,
+    updateIngredient,
+    deleteIngredient,
+    adjustStock,
+    addRecipeLine,
+    updateRecipeLine,
+    deleteRecipeLine,
+  };
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+type KitchenOrder = Pick<Tables<'orders'>, 'id' | 'order_number' | 'table_id' | 'notes' | 'created_at' | 'status'> & {
+  restaurant_tables: Pick<Tables<'restaurant_tables'>, 'table_number'> | null;
+  order_items: Tables<'order_items'>[];
+};
+
+export interface KitchenTicket {
+  orderId: string;
+  orderNumber: string;
+  tableNumber: number | null;
+  notes: string | null;
+  items: Tables<'order_items'>[];
+  // Oldest item on the ticket; drives the timer
+  startedAt: string;
+  bumpedAt: string | null;
+}
+
+const RECALLABLE_TICKETS = 10;
+// Paid orders stay on the screen this long so late items can finish and bumps can be recalled
+const COMPLETED_WINDOW_MS = 12 * 60 * 60 * 1000;
+// A burst of realtime events (a round of items, a bump of a whole ticket) refetches once
+const REFETCH_DEBOUNCE_MS = 300;
+
+const byCreatedAt = (a: { created_at: string }, b: { created_at: string }) =>
+  a.created_at.localeCompare(b.created_at);
+
+// Open items of each order form its live ticket; fully bumped orders can be recalled
+const buildKitchenTickets = (orders: KitchenOrder[]) => {
+  const active: KitchenTicket[] = [];
+  const bumped: KitchenTicket[] = [];
+
+  for (const order of orders) {
+    const items = [...order.order_items].sort(byCreatedAt);
+    if (items.length === 0) continue;
+
+    const ticket = {
+      orderId: order.id,
+      orderNumber: order.order_number,
+      tableNumber: order.restaurant_tables?.table_number ?? null,
+      notes: order.notes,
+    };
+    const open = items.filter(item => !item.kitchen_bumped_at);
+
+    if (open.length > 0) {
+      active.push({ ...ticket, items: open, startedAt: open[0].created_at, bumpedAt: null });
+    } else {
+      const bumpedAt = items.reduce((latest, item) =>
+        item.kitchen_bumped_at! > latest ? item.kitchen_bumped_at! : latest, '');
+      const lastBump = items.filter(item => item.kitchen_bumped_at === bumpedAt);
+      bumped.push({ ...ticket, items: lastBump, startedAt: lastBump[0].created_at, bumpedAt });
+    }
+  }
+
+  active.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  bumped.sort((a, b) => b.bumpedAt!.localeCompare(a.bumpedAt!));
+
+  return { active, bumped: bumped.slice(0, RECALLABLE_TICKETS) };
+};
+
+export function useKitchenOrders() {
+  const [orders, setOrders] = useState<KitchenOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const refetchTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Open tabs are shown however long they have been open, e.g. past midnight
+  const fetchKitchenOrders = async () => {
+    const completedSince = new Date(Date.now() - COMPLETED_WINDOW_MS).toISOString();
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        id, order_number, table_id, notes, created_at, status,
+        restaurant_tables (table_number),
+        order_items (*)
+      `)
+      .or(`status.eq.pending,and(status.eq.completed,completed_at.gte.${completedSince})`);
+
+    if (error) throw error;
+    setOrders((data || []) as KitchenOrder[]);
+    return data;
+  };
+
+  const setItemReady = async (orderItemId: string, ready: boolean) => {
+    const { error } = await supabase.rpc('set_order_item_ready', {
+      _order_item_id: orderItemId,
+      _ready: ready,
+    });
+
+    if (error) throw error;
+    await fetchKitchenOrders();
+  };
+
+  const bumpTicket = async (orderId: string) => {
+    const { error } = await supabase.rpc('bump_kitchen_ticket', { _order_id: orderId });
+    if (error) throw error;
+    await fetchKitchenOrders();
+  };
+
+  const recallTicket = async (orderId: string) => {
+    const { error } = await supabase.rpc('recall_kitchen_ticket', { _order_id: orderId });
+    if (error) throw error;
+    await fetchKitchenOrders();
+  };
+
+  const scheduleRefetch = () => {
+    clearTimeout(refetchTimer.current);
+    refetchTimer.current = setTimeout(() => {
+      fetchKitchenOrders().catch(err => console.error('Error fetching kitchen orders:', err));
+    }, REFETCH_DEBOUNCE_MS);
+  };
+
+  useEffect(() => {
+    fetchKitchenOrders()
+      .catch(err => console.error('Error fetching kitchen orders:', err))
+      .finally(() => setLoading(false));
+
+    // New items come in from every cashier; voids and bumps from other screens
+    const channel = supabase
+      .channel('kitchen-orders')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, scheduleRefetch)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'orders' }, scheduleRefetch)
+      .subscribe();
+
+    return () => {
+      clearTimeout(refetchTimer.current);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const { active, bumped } = buildKitchenTickets(orders);
+
+  return {
+    tickets: active,
+    bumpedTickets: bumped,
+    loading,
+    refetch: fetchKitchenOrders,
+    setItemReady,
+    bumpTicket,
+    recallTicket,
+  };
+}
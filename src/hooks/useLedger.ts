@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Account = Tables<'accounts'>;
+export type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface TrialBalanceRow {
+  account_id: string;
+  code: string;
+  name: string;
+  account_type: AccountType;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerLine {
+  id: string;
+  journal_entry_id: string;
+  entry_date: string;
+  description: string;
+  source_type: string;
+  debit: number;
+  credit: number;
+}
+
+export interface AccountLedger {
+  opening_balance: number; // debit minus credit before the period
+  lines: LedgerLine[];
+}
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  asset: 'Aset',
+  liability: 'Kewajiban',
+  equity: 'Modal',
+  revenue: 'Pendapatan',
+  expense: 'Beban',
+};
+
+// Assets and expenses grow on the debit side, everything else on the credit side
+export const isDebitNormal = (accountType: string) => accountType === 'asset' || accountType === 'expense';
+
+// Dates are business dates (yyyy-MM-dd)
+export function useLedger(accountId: string | null, from: string, to: string) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [trialBalance, setTrialBalance] = useState<TrialBalanceRow[]>([]);
+  const [ledger, setLedger] = useState<AccountLedger | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const [accountsRes, trialBalanceRes, ledgerRes] = await Promise.all([
+        supabase.from('accounts').select('*').order('code'),
+        supabase.rpc('trial_balance', { _as_of: to }),
+        accountId
+          ? supabase.rpc('account_ledger', { _account_id: accountId, _from: from, _to: to })
+          : Promise.resolve({ data: null, error: null }),
+      ]);
+
+      if (accountsRes.error) throw accountsRes.error;
+      if (trialBalanceRes.error) throw trialBalanceRes.error;
+      if (ledgerRes.error) throw ledgerRes.error;
+
+      setAccounts(accountsRes.data || []);
+      setTrialBalance((trialBalanceRes.data as unknown as TrialBalanceRow[]) || []);
+      setLedger((ledgerRes.data as unknown as AccountLedger) || null);
+    } catch (err) {
+      console.error('Error fetching ledger:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [accountId, from, to]);
+
+  return {
+    accounts,
+    trialBalance,
+    ledger,
+    loading,
+    refetch: fetchData,
+  };
+}
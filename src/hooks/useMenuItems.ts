@@ -1,11 +1,15 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { readCache, writeCache } from '@/utils/offlineStore';
+
+export type PrintStation = 'kitchen' | 'drinks';
 
 export interface MenuCategory {
   id: string;
   name: string;
   icon: string | null;
   sort_order: number;
+  print_station: PrintStation | null;
 }
 
 export interface MenuItem {
@@ -17,9 +21,39 @@ export interface MenuItem {
   is_available: boolean;
 }
 
+export interface ModifierOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  sort_order: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  menu_item_id: string;
+  name: string;
+  is_required: boolean;
+  selection_type: 'single' | 'multi';
+  sort_order: number;
+  options: ModifierOption[];
+}
+
+// Requesting every photo once puts it in the service worker's image cache, so items the
+// cashier has not scrolled to yet still show their photo offline
+const precacheMenuImages = (items: MenuItem[]) => {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return;
+  items.forEach(item => {
+    if (!item.image_url) return;
+    const image = new Image();
+    image.src = item.image_url;
+  });
+};
+
 export function useMenuItems() {
   const [categories, setCategories] = useState<MenuCategory[]>([]);
   const [items, setItems] = useState<MenuItem[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -27,18 +61,46 @@ export function useMenuItems() {
     try {
       setLoading(true);
       
-      const [categoriesRes, itemsRes] = await Promise.all([
+      const [categoriesRes, itemsRes, modifiersRes] = await Promise.all([
         supabase.from('menu_categories').select('*').order('sort_order'),
         supabase.from('menu_items').select('*').eq('is_available', true).order('name'),
+        supabase.from('menu_modifier_groups').select('*, menu_modifier_options (*)').order('sort_order'),
       ]);
 
       if (categoriesRes.error) throw categoriesRes.error;
       if (itemsRes.error) throw itemsRes.error;
+      if (modifiersRes.error) throw modifiersRes.error;
+
+      const menu = {
+        categories: (categoriesRes.data || []) as MenuCategory[],
+        items: itemsRes.data || [],
+        modifierGroups: (modifiersRes.data || []).map(({ menu_modifier_options, ...group }) => ({
+          ...group,
+          selection_type: group.selection_type as ModifierGroup['selection_type'],
+          options: [...menu_modifier_options].sort((a, b) => a.sort_order - b.sort_order),
+        })),
+      };
 
-      setCategories(categoriesRes.data || []);
-      setItems(itemsRes.data || []);
+      setCategories(menu.categories);
+      setItems(menu.items);
+      setModifierGroups(menu.modifierGroups);
+      writeCache('menu', menu).catch(() => {});
+      precacheMenuImages(menu.items);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Error fetching menu');
+      // Offline the cashier keeps selling from the last menu this device saw
+      const cached = await readCache<{
+        categories: MenuCategory[];
+        items: MenuItem[];
+        modifierGroups: ModifierGroup[];
+      }>('menu').catch(() => undefined);
+
+      if (cached) {
+        setCategories(cached.categories);
+        setItems(cached.items);
+        setModifierGroups(cached.modifierGroups);
+      } else {
+        setError(err instanceof Error ? err.message : 'Error fetching menu');
+      }
     } finally {
       setLoading(false);
     }
@@ -87,10 +149,79 @@ export function useMenuItems() {
       .single();
     
     if (error) throw error;
-    setCategories(prev => [...prev, data]);
+    setCategories(prev => [...prev, data as MenuCategory]);
     return data;
   };
 
+  const updateCategory = async (id: string, updates: Partial<MenuCategory>) => {
+    const { data, error } = await supabase
+      .from('menu_categories')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setCategories(prev => prev.map(category => category.id === id ? data as MenuCategory : category));
+    return data;
+  };
+
+  const getModifierGroups = (menuItemId: string) =>
+    modifierGroups.filter(group => group.menu_item_id === menuItemId);
+
+  const addModifierGroup = async (group: Omit<ModifierGroup, 'id' | 'options'>) => {
+    const { data, error } = await supabase
+      .from('menu_modifier_groups')
+      .insert(group)
+      .select()
+      .single();
+
+    if (error) throw error;
+    const newGroup: ModifierGroup = {
+      ...data,
+      selection_type: data.selection_type as ModifierGroup['selection_type'],
+      options: [],
+    };
+    setModifierGroups(prev => [...prev, newGroup]);
+    return newGroup;
+  };
+
+  const deleteModifierGroup = async (id: string) => {
+    const { error } = await supabase
+      .from('menu_modifier_groups')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setModifierGroups(prev => prev.filter(group => group.id !== id));
+  };
+
+  const addModifierOption = async (option: Omit<ModifierOption, 'id'>) => {
+    const { data, error } = await supabase
+      .from('menu_modifier_options')
+      .insert(option)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setModifierGroups(prev => prev.map(group =>
+      group.id === option.group_id ? { ...group, options: [...group.options, data] } : group
+    ));
+    return data;
+  };
+
+  const deleteModifierOption = async (groupId: string, id: string) => {
+    const { error } = await supabase
+      .from('menu_modifier_options')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setModifierGroups(prev => prev.map(group =>
+      group.id === groupId ? { ...group, options: group.options.filter(option => option.id !== id) } : group
+    ));
+  };
+
   useEffect(() => {
     fetchData();
   }, []);
@@ -98,6 +229,7 @@ export function useMenuItems() {
   return {
     categories,
     items,
+    modifierGroups,
     loading,
     error,
     refetch: fetchData,
@@ -105,5 +237,11 @@ export function useMenuItems() {
     updateItem,
     deleteItem,
     addCategory,
+    updateCategory,
+    getModifierGroups,
+    addModifierGroup,
+    deleteModifierGroup,
+    addModifierOption,
+    deleteModifierOption,
   };
 }
@@ -1,27 +1,299 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RestaurantSettings } from '@/hooks/useRestaurantSettings';
+import { calculateBillTotals } from '@/utils/billTotals';
+import { isNetworkError, readCache, QueuedOrder } from '@/utils/offlineStore';
 
-type OrderStatus = 'pending' | 'completed' | 'cancelled';
-type PaymentMethod = 'cash' | 'transfer' | 'qris';
+export type PaymentMethod = 'cash' | 'transfer' | 'qris';
 
 export type Order = Tables<'orders'> & {
   order_items?: Tables<'order_items'>[];
+  order_splits?: Tables<'order_splits'>[];
+  order_payments?: Tables<'order_payments'>[];
+  order_refunds?: Tables<'order_refunds'>[];
 };
 
+export type OrderRefund = Tables<'order_refunds'>;
+export type OrderVoid = Tables<'order_voids'>;
+
+export type OrderSplit = Tables<'order_splits'>;
+
+export type SplitType = 'items' | 'equal' | 'custom';
+
+// One share of a split bill, as paid at the cashier
+export interface SplitPayment {
+  splitType: SplitType;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  amountPaid: number;
+  items?: { order_item_id: string; quantity: number }[];
+}
+
+// One tender handed over at checkout; only cash tenders may exceed what they cover
+export interface PaymentTender {
+  paymentMethod: PaymentMethod;
+  amount: number;
+}
+
+// Discount taken off a bill: the automatic promotion plus the cashier's manual discount.
+// Manual discounts above the approval limit carry the approving admin's PIN.
+export interface OrderDiscount {
+  promotionId?: string | null;
+  promotionName?: string | null;
+  promotionDiscount: number;
+  manualDiscount: number;
+  approvalPin?: string;
+}
+
+// A chosen modifier option as stored on order_items.modifiers
+export interface CartModifier {
+  option_id?: string; // deducts the option's recipe from stock
+  group_name: string;
+  name: string;
+  price_delta: number;
+}
+
 export interface CartItem {
-  id: string;
+  id: string; // cart line id; the menu item id unless the line has modifiers
+  menuItemId?: string;
   name: string;
-  price: number;
+  price: number; // includes modifier price deltas
   quantity: number;
+  modifiers?: CartModifier[];
+  notes?: string;
 }
 
+// Cart lines in the shape expected by the order RPCs
+const toOrderItemsPayload = (cart: CartItem[]) =>
+  cart.map(item => ({
+    menu_item_id: item.menuItemId ?? item.id,
+    menu_item_name: item.name,
+    quantity: item.quantity,
+    unit_price: item.price,
+    modifiers: (item.modifiers ?? []).map(modifier => ({
+      option_id: modifier.option_id,
+      group_name: modifier.group_name,
+      name: modifier.name,
+      price_delta: modifier.price_delta,
+    })),
+    notes: item.notes?.trim() || null,
+  }));
+
+// Persisted order line as a cart line, e.g. for receipts and running tabs
+export const orderItemToCartItem = (item: Tables<'order_items'>): CartItem => ({
+  id: item.id,
+  menuItemId: item.menu_item_id ?? undefined,
+  name: item.menu_item_name,
+  price: item.unit_price,
+  quantity: item.quantity,
+  modifiers: (item.modifiers as unknown as CartModifier[] | null) ?? [],
+  notes: item.notes ?? undefined,
+});
+
+const toDiscountPayload = (discount?: OrderDiscount) =>
+  discount
+    ? {
+        promotion_id: discount.promotionId ?? null,
+        promotion_name: discount.promotionName ?? null,
+        promotion_discount: discount.promotionDiscount,
+        manual_discount: discount.manualDiscount,
+        approval_pin: discount.approvalPin ?? null,
+      }
+    : null;
+
+const toPaymentsPayload = (payments: PaymentTender[]) =>
+  payments.map(payment => ({
+    payment_method: payment.paymentMethod,
+    amount: payment.amount,
+  }));
+
+// Revenue per tender; orders without tender rows count fully towards their single method
+export const getRevenueByTender = (orders: Order[]) => {
+  const revenue: Record<PaymentMethod, number> = { cash: 0, transfer: 0, qris: 0 };
+
+  for (const order of orders) {
+    if (order.order_payments && order.order_payments.length > 0) {
+      for (const payment of order.order_payments) {
+        revenue[payment.payment_method] += payment.amount;
+      }
+    } else if (order.payment_method) {
+      revenue[order.payment_method] += order.total;
+    }
+  }
+
+  return revenue;
+};
+
+// Send WhatsApp notification to admin (fire and forget)
+const notifyTransaction = (order: Order, cashierName: string | undefined, paymentMethod: PaymentMethod) => {
+  try {
+    supabase.functions.invoke('send-whatsapp-notification', {
+      body: {
+        orderNumber: order.order_number,
+        total: order.total,
+        cashierName: cashierName || 'Unknown',
+        paymentMethod: paymentMethod
+      }
+    }).then(response => {
+      console.log('WhatsApp notification response:', response);
+    }).catch(err => {
+      console.error('WhatsApp notification error:', err);
+    });
+  } catch (notifError) {
+    console.error('Failed to send WhatsApp notification:', notifError);
+  }
+};
+
+// Completing an order deducts ingredient stock; the edge function alerts admins about
+// ingredients that fell to their threshold (fire and forget)
+const notifyLowStock = () => {
+  supabase.functions.invoke('send-whatsapp-notification', {
+    body: { type: 'low_stock' }
+  }).catch(err => {
+    console.error('Low stock notification error:', err);
+  });
+};
+
+// A paid order taken without a connection, shaped like the server's so receipts and tickets
+// print as usual. Totals and tenders follow recalculate_order_totals and record_order_payments
+// with the last known settings; the order is booked later by sync_offline_order.
+const buildOfflineOrder = async (
+  cart: CartItem[],
+  tableId: string | null,
+  payments: PaymentTender[],
+  discount: OrderDiscount | undefined,
+  notes: string | undefined,
+  cashierName: string | undefined,
+  cashierId: string | null
+): Promise<{ order: Order; queued: QueuedOrder }> => {
+  const settings = await readCache<RestaurantSettings>('restaurant_settings').catch(() => undefined);
+  const clientId = crypto.randomUUID();
+  const receiptToken = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+
+  const subtotal = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const promotionDiscount = discount?.promotionDiscount || 0;
+  const manualDiscount = discount?.manualDiscount || 0;
+  const totals = calculateBillTotals(subtotal, promotionDiscount + manualDiscount, settings);
+
+  const nonCash = payments.filter(p => p.paymentMethod !== 'cash').reduce((sum, p) => sum + p.amount, 0);
+  const cash = payments.filter(p => p.paymentMethod === 'cash').reduce((sum, p) => sum + p.amount, 0);
+  if (nonCash + cash < totals.total) {
+    throw new Error('Payments do not cover the order total');
+  }
+
+  const orderPayments: Tables<'order_payments'>[] = [
+    ...payments.filter(p => p.paymentMethod !== 'cash').map(p => ({
+      id: crypto.randomUUID(),
+      order_id: clientId,
+      split_id: null,
+      shift_id: null,
+      payment_method: p.paymentMethod,
+      amount: p.amount,
+      amount_tendered: p.amount,
+      change_amount: 0,
+      created_at: createdAt,
+    })),
+    ...(cash > 0 ? [{
+      id: crypto.randomUUID(),
+      order_id: clientId,
+      split_id: null,
+      shift_id: null,
+      payment_method: 'cash' as const,
+      amount: totals.total - nonCash,
+      amount_tendered: cash,
+      change_amount: cash - (totals.total - nonCash),
+      created_at: createdAt,
+    }] : []),
+  ];
+  const mainPayment = [...orderPayments].sort((a, b) => b.amount - a.amount)[0];
+
+  const orderNumber = `OFFLINE-${clientId.slice(0, 8).toUpperCase()}`;
+  const order: Order = {
+    id: clientId,
+    client_id: clientId,
+    receipt_token: receiptToken,
+    order_number: orderNumber,
+    table_id: tableId,
+    cashier_id: cashierId,
+    cashier_name: cashierName ?? null,
+    status: 'completed',
+    notes: notes ?? null,
+    created_at: createdAt,
+    completed_at: createdAt,
+    voided_at: null,
+    stock_deducted_at: null,
+    promotion_id: promotionDiscount > 0 ? discount?.promotionId ?? null : null,
+    promotion_name: promotionDiscount > 0 ? discount?.promotionName ?? null : null,
+    promotion_discount: promotionDiscount,
+    manual_discount: manualDiscount,
+    discount: totals.discount,
+    discount_approved_by: null,
+    subtotal,
+    service_charge: totals.serviceCharge,
+    tax: totals.tax,
+    rounding: totals.rounding,
+    total: totals.total,
+    tax_rate: Number(settings?.tax_rate || 0),
+    service_charge_rate: Number(settings?.service_charge_rate || 0),
+    prices_include_tax: settings?.prices_include_tax ?? false,
+    payment_method: mainPayment.payment_method,
+    amount_paid: nonCash + cash,
+    change_amount: cash - (totals.total - nonCash),
+    refunded_amount: 0,
+    order_items: toOrderItemsPayload(cart).map(item => ({
+      ...item,
+      id: crypto.randomUUID(),
+      order_id: clientId,
+      total_price: item.unit_price * item.quantity,
+      round_number: 1,
+      kitchen_ready_at: null,
+      kitchen_bumped_at: null,
+      created_at: createdAt,
+    })),
+    order_payments: orderPayments,
+  };
+
+  const queued: QueuedOrder = {
+    clientId,
+    queuedAt: Date.now(),
+    orderNumber,
+    total: totals.total,
+    payload: {
+      _client_id: clientId,
+      _created_at: createdAt,
+      _items: toOrderItemsPayload(cart),
+      _payments: toPaymentsPayload(payments),
+      _totals: {
+        service_charge: totals.serviceCharge,
+        tax: totals.tax,
+        rounding: totals.rounding,
+        total: totals.total,
+        tax_rate: order.tax_rate,
+        service_charge_rate: order.service_charge_rate,
+        prices_include_tax: order.prices_include_tax,
+      },
+      _table_id: tableId ?? undefined,
+      _discount: toDiscountPayload(discount),
+      _notes: notes,
+      _cashier_name: cashierName,
+      _receipt_token: receiptToken,
+    },
+  };
+
+  return { order, queued };
+};
+
 export function useOrders() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [todayOrders, setTodayOrders] = useState<Order[]>([]);
+  const [openOrders, setOpenOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { enqueueOrder } = useOfflineSync();
 
   const fetchTodayOrders = async (filterByCashier: boolean = false, role?: string | null) => {
     const today = new Date();
@@ -31,7 +303,9 @@ export function useOrders() {
       .from('orders')
       .select(`
         *,
-        order_items (*)
+        order_items (*),
+        order_payments (*),
+        order_refunds (*)
       `)
       .gte('created_at', today.toISOString())
       .order('created_at', { ascending: false });
@@ -53,7 +327,8 @@ export function useOrders() {
       .from('orders')
       .select(`
         *,
-        order_items (*)
+        order_items (*),
+        order_payments (*)
       `)
       .order('created_at', { ascending: false });
 
@@ -73,122 +348,287 @@ export function useOrders() {
   const createOrder = async (
     cart: CartItem[],
     tableId: string | null,
-    paymentMethod: PaymentMethod,
-    amountPaid: number,
-    discount: number = 0,
+    payments: PaymentTender[],
+    discount?: OrderDiscount,
     notes?: string,
     cashierName?: string
   ) => {
-    const subtotal = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    const total = subtotal - discount;
-    const changeAmount = amountPaid - total;
+    // Without a connection the sale is kept on the device and synced later
+    const queueOffline = async () => {
+      const { order, queued } = await buildOfflineOrder(
+        cart, tableId, payments, discount, notes, cashierName, user?.id ?? null
+      );
+      await enqueueOrder(queued);
+      return order;
+    };
 
-    // Generate order number client-side since trigger requires it
-    const orderNumber = `ORD-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
+    if (!navigator.onLine) return queueOffline();
 
-    // Create order
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        order_number: orderNumber,
-        table_id: tableId,
-        cashier_id: user?.id,
-        cashier_name: cashierName,
-        status: 'completed' as OrderStatus,
-        subtotal,
-        discount,
-        total,
-        payment_method: paymentMethod,
-        amount_paid: amountPaid,
-        change_amount: changeAmount,
-        notes,
-        completed_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (orderError) throw orderError;
-
-    // Create order items
-    const orderItems: TablesInsert<'order_items'>[] = cart.map(item => ({
-      order_id: order.id,
-      menu_item_id: item.id,
-      menu_item_name: item.name,
-      quantity: item.quantity,
-      unit_price: item.price,
-      total_price: item.price * item.quantity,
-    }));
-
-    const { error: itemsError } = await supabase
-      .from('order_items')
-      .insert(orderItems);
-
-    if (itemsError) throw itemsError;
-
-    // Update table status if applicable
-    if (tableId) {
-      await supabase
-        .from('restaurant_tables')
-        .update({ status: 'available' as const, current_order_id: null })
-        .eq('id', tableId);
-    }
+    // Order, items, tenders and table status are written in one transaction by the create_order RPC
+    const { data, error } = await supabase.rpc('create_order', {
+      _items: toOrderItemsPayload(cart),
+      _payments: toPaymentsPayload(payments),
+      _table_id: tableId,
+      _discount: toDiscountPayload(discount),
+      _notes: notes,
+      _cashier_name: cashierName,
+    });
 
-    // Send WhatsApp notification to admin (fire and forget)
-    try {
-      supabase.functions.invoke('send-whatsapp-notification', {
-        body: {
-          orderNumber: order.order_number,
-          total: order.total,
-          cashierName: cashierName || 'Unknown',
-          paymentMethod: paymentMethod
-        }
-      }).then(response => {
-        console.log('WhatsApp notification response:', response);
-      }).catch(err => {
-        console.error('WhatsApp notification error:', err);
-      });
-    } catch (notifError) {
-      console.error('Failed to send WhatsApp notification:', notifError);
+    if (error) {
+      if (isNetworkError(error)) return queueOffline();
+      throw error;
     }
+    const order = data as unknown as Order;
+
+    notifyTransaction(order, cashierName, order.payment_method || payments[0].paymentMethod);
+    notifyLowStock();
+
+    await fetchTodayOrders();
+    return order;
+  };
+
+  // Pending dine-in orders (open tabs), regardless of the day they were opened
+  const fetchOpenOrders = async () => {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (*),
+        order_payments (*)
+      `)
+      .eq('status', 'pending')
+      .not('table_id', 'is', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    setOpenOrders(data || []);
+    return data;
+  };
+
+  const openTableOrder = async (cart: CartItem[], tableId: string, notes?: string, cashierName?: string) => {
+    const { data, error } = await supabase.rpc('open_table_order', {
+      _table_id: tableId,
+      _items: toOrderItemsPayload(cart),
+      _notes: notes,
+      _cashier_name: cashierName,
+    });
+
+    if (error) throw error;
+    await fetchOpenOrders();
+    return data as unknown as Order;
+  };
+
+  const addOrderItems = async (orderId: string, cart: CartItem[]) => {
+    const { data, error } = await supabase.rpc('add_order_items', {
+      _order_id: orderId,
+      _items: toOrderItemsPayload(cart),
+    });
+
+    if (error) throw error;
+    await fetchOpenOrders();
+    return data as unknown as Order;
+  };
+
+  const settleOrder = async (
+    orderId: string,
+    payments: PaymentTender[],
+    discount?: OrderDiscount,
+    cashierName?: string
+  ) => {
+    const { data, error } = await supabase.rpc('settle_order', {
+      _order_id: orderId,
+      _payments: toPaymentsPayload(payments),
+      _discount: toDiscountPayload(discount),
+    });
+
+    if (error) throw error;
+    const order = data as unknown as Order;
+
+    notifyTransaction(order, cashierName, order.payment_method || payments[0].paymentMethod);
+    notifyLowStock();
+
+    await Promise.all([fetchTodayOrders(), fetchOpenOrders()]);
+    return order;
+  };
 
+  // Discount for a bill that is paid later, e.g. share by share
+  const applyOrderDiscount = async (orderId: string, discount: OrderDiscount) => {
+    const { data, error } = await supabase.rpc('apply_order_discount', {
+      _order_id: orderId,
+      _discount: toDiscountPayload(discount),
+    });
+
+    if (error) throw error;
+    await fetchOpenOrders();
+    return data as unknown as Order;
+  };
+
+  // Order-level note (e.g. "bungkus semua") edited after the order was saved
+  const updateOrderNotes = async (orderId: string, notes: string | null) => {
+    const { error } = await supabase
+      .from('orders')
+      .update({ notes })
+      .eq('id', orderId);
+
+    if (error) throw error;
+    setOpenOrders(prev => prev.map(o => (o.id === orderId ? { ...o, notes } : o)));
+  };
+
+  // Keep a take-away order pending so it can be paid in shares
+  const holdOrder = async (cart: CartItem[], notes?: string, cashierName?: string) => {
+    const { data, error } = await supabase.rpc('hold_order', {
+      _items: toOrderItemsPayload(cart),
+      _notes: notes,
+      _cashier_name: cashierName,
+    });
+
+    if (error) throw error;
+    return data as unknown as Order;
+  };
+
+  // Cancel a held order that was never paid (e.g. split bill abandoned before the first share)
+  const cancelHeldOrder = async (orderId: string) => {
+    const { error } = await supabase
+      .from('orders')
+      .update({ status: 'cancelled' })
+      .eq('id', orderId)
+      .eq('status', 'pending')
+      .is('table_id', null);
+
+    if (error) throw error;
+  };
+
+  // Void and refund only accept a PIN that was verified first, so wrong PINs are counted
+  const verifyApproval = async (approvalPin: string) => {
+    const { data, error } = await supabase.rpc('verify_approval_pin', { _pin: approvalPin });
+    if (error) throw error;
+    if (!data) throw new Error('Invalid approval PIN');
+  };
+
+  // Void a whole order; paid tenders are reversed in accounting
+  const voidOrder = async (orderId: string, reason: string, approvalPin: string) => {
+    await verifyApproval(approvalPin);
+    const { data, error } = await supabase.rpc('void_order', {
+      _order_id: orderId,
+      _reason: reason,
+      _approval_pin: approvalPin,
+    });
+
+    if (error) throw error;
+    await Promise.all([fetchTodayOrders(), fetchOpenOrders()]);
+    return data as unknown as Order;
+  };
+
+  // Void lines of an unpaid open order
+  const voidOrderItems = async (
+    orderId: string,
+    items: { order_item_id: string; quantity: number }[],
+    reason: string,
+    approvalPin: string
+  ) => {
+    await verifyApproval(approvalPin);
+    const { data, error } = await supabase.rpc('void_order_items', {
+      _order_id: orderId,
+      _items: items,
+      _reason: reason,
+      _approval_pin: approvalPin,
+    });
+
+    if (error) throw error;
+    await Promise.all([fetchTodayOrders(), fetchOpenOrders()]);
+    return data as unknown as Order;
+  };
+
+  const refundOrder = async (
+    orderId: string,
+    refund: {
+      amount: number;
+      paymentMethod: PaymentMethod;
+      items?: { order_item_id: string; quantity: number }[];
+    },
+    reason: string,
+    approvalPin: string
+  ) => {
+    await verifyApproval(approvalPin);
+    const { data, error } = await supabase.rpc('refund_order', {
+      _order_id: orderId,
+      _amount: refund.amount,
+      _payment_method: refund.paymentMethod,
+      _reason: reason,
+      _approval_pin: approvalPin,
+      _items: refund.items?.length ? refund.items : null,
+    });
+
+    if (error) throw error;
     await fetchTodayOrders();
+    return data as unknown as Order;
+  };
+
+  const payOrderSplit = async (orderId: string, split: SplitPayment, cashierName?: string) => {
+    const { data, error } = await supabase.rpc('pay_order_split', {
+      _order_id: orderId,
+      _amount: split.amount,
+      _payment_method: split.paymentMethod,
+      _amount_paid: split.amountPaid,
+      _split_type: split.splitType,
+      _items: split.items ?? null,
+    });
+
+    if (error) throw error;
+    const order = data as unknown as Order;
+
+    if (order.status === 'completed') {
+      notifyTransaction(order, cashierName, order.payment_method || split.paymentMethod);
+      notifyLowStock();
+      await Promise.all([fetchTodayOrders(), fetchOpenOrders()]);
+    }
     return order;
   };
 
   const getTodayStats = () => {
-    const completedOrders = todayOrders.filter(o => o.status === 'completed');
-    const totalRevenue = completedOrders.reduce((sum, o) => sum + o.total, 0);
-    const cashRevenue = completedOrders
-      .filter(o => o.payment_method === 'cash')
-      .reduce((sum, o) => sum + o.total, 0);
-    const transferRevenue = completedOrders
-      .filter(o => o.payment_method === 'transfer')
-      .reduce((sum, o) => sum + o.total, 0);
-    const qrisRevenue = completedOrders
-      .filter(o => o.payment_method === 'qris')
-      .reduce((sum, o) => sum + o.total, 0);
+    const completedOrders = todayOrders.filter(o => o.status === 'completed' || o.status === 'refunded');
+    const totalRevenue = completedOrders.reduce((sum, o) => sum + o.total - o.refunded_amount, 0);
+    const revenueByTender = getRevenueByTender(completedOrders);
+
+    // Refunds come off the tender they were paid back through, so the tenders add up to the total
+    for (const refund of completedOrders.flatMap(o => o.order_refunds ?? [])) {
+      revenueByTender[refund.payment_method] -= refund.amount;
+    }
 
     return {
       totalOrders: completedOrders.length,
       totalRevenue,
-      cashRevenue,
-      transferRevenue,
-      qrisRevenue,
+      cashRevenue: revenueByTender.cash,
+      transferRevenue: revenueByTender.transfer,
+      qrisRevenue: revenueByTender.qris,
     };
   };
 
   useEffect(() => {
     setLoading(true);
-    fetchTodayOrders().finally(() => setLoading(false));
+    Promise.all([fetchTodayOrders(), fetchOpenOrders()]).finally(() => setLoading(false));
   }, []);
 
   return {
     orders,
     todayOrders,
+    openOrders,
     loading,
     fetchOrders,
     fetchTodayOrders,
+    fetchOpenOrders,
     createOrder,
+    openTableOrder,
+    addOrderItems,
+    settleOrder,
+    applyOrderDiscount,
+    updateOrderNotes,
+    holdOrder,
+    cancelHeldOrder,
+    voidOrder,
+    voidOrderItems,
+    refundOrder,
+    payOrderSplit,
     getTodayStats,
   };
 }
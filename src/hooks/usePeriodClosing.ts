@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type PeriodClosing = Tables<'period_closings'>;
+export type PeriodSnapshot = Tables<'period_snapshots'>;
+
+export interface AdjustingLine {
+  account: string; // account code
+  debit: number;
+  credit: number;
+}
+
+export function usePeriodClosing() {
+  const [closings, setClosings] = useState<PeriodClosing[]>([]);
+  const [snapshots, setSnapshots] = useState<PeriodSnapshot[]>([]);
+  const [lockedThrough, setLockedThrough] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const [closingsRes, snapshotsRes] = await Promise.all([
+        supabase.from('period_closings').select('*').order('closed_through', { ascending: false }),
+        supabase.from('period_snapshots').select('*').eq('period_type', 'month').order('period_start', { ascending: false }),
+      ]);
+
+      if (closingsRes.error) throw closingsRes.error;
+      if (snapshotsRes.error) throw snapshotsRes.error;
+
+      setClosings(closingsRes.data || []);
+      setSnapshots(snapshotsRes.data || []);
+      setLockedThrough(closingsRes.data?.[0]?.closed_through ?? null);
+    } catch (err) {
+      console.error('Error fetching period closings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // through is a business date (yyyy-MM-dd); it and everything before it become read-only
+  const closePeriod = async (through: string, notes?: string) => {
+    const { error } = await supabase.rpc('close_period', {
+      _through: through,
+      _notes: notes || null,
+    });
+
+    if (error) throw error;
+    await fetchData();
+  };
+
+  const postAdjustingEntry = async (entryDate: string, description: string, lines: AdjustingLine[]) => {
+    const { data, error } = await supabase.rpc('post_adjusting_entry', {
+      _entry_date: entryDate,
+      _description: description,
+      _lines: lines.map(line => ({ account: line.account, debit: line.debit, credit: line.credit })),
+    });
+
+    if (error) throw error;
+    return data;
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  return {
+    closings,
+    snapshots,
+    lockedThrough,
+    loading,
+    refetch: fetchData,
+    closePeriod,
+    postAdjustingEntry,
+  };
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type PromotionType = 'percent' | 'fixed' | 'buy_x_get_y';
+export type PromotionScope = 'order' | 'item' | 'category';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  promo_type: PromotionType;
+  scope: PromotionScope;
+  menu_item_id: string | null;
+  category_id: string | null;
+  value: number;
+  min_spend: number;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  start_date: string | null;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  is_active: boolean;
+}
+
+const APPROVAL_LIMIT_KEY = 'manual_discount_approval_limit';
+
+export function usePromotions() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [approvalLimit, setApprovalLimit] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const [promotionsRes, limitRes] = await Promise.all([
+        supabase.from('promotions').select('*').order('created_at'),
+        supabase.from('app_settings').select('value').eq('key', APPROVAL_LIMIT_KEY).maybeSingle(),
+      ]);
+
+      if (promotionsRes.error) throw promotionsRes.error;
+      if (limitRes.error) throw limitRes.error;
+
+      setPromotions((promotionsRes.data || []) as Promotion[]);
+      setApprovalLimit(parseInt(limitRes.data?.value || '0') || 0);
+    } catch (err) {
+      console.error('Error fetching promotions:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addPromotion = async (promotion: Omit<Promotion, 'id'>) => {
+    const { data, error } = await supabase
+      .from('promotions')
+      .insert(promotion)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setPromotions(prev => [...prev, data as Promotion]);
+    return data as Promotion;
+  };
+
+  const updatePromotion = async (id: string, updates: Partial<Promotion>) => {
+    const { data, error } = await supabase
+      .from('promotions')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setPromotions(prev => prev.map(promotion => promotion.id === id ? data as Promotion : promotion));
+    return data as Promotion;
+  };
+
+  const deletePromotion = async (id: string) => {
+    const { error } = await supabase
+      .from('promotions')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setPromotions(prev => prev.filter(promotion => promotion.id !== id));
+  };
+
+  const updateApprovalLimit = async (limit: number) => {
+    const { error } = await supabase
+      .from('app_settings')
+      .upsert({
+        key: APPROVAL_LIMIT_KEY,
+        value: String(limit),
+        description: 'Manual discount (Rp) a cashier may give without admin approval',
+      }, { onConflict: 'key' });
+
+    if (error) throw error;
+    setApprovalLimit(limit);
+  };
+
+  // Sets the approval PIN of the signed-in admin
+  const setApprovalPin = async (pin: string) => {
+    const { error } = await supabase.rpc('set_approval_pin', { _pin: pin });
+    if (error) throw error;
+  };
+
+  // Returns the name of the admin the PIN belongs to; throws for a wrong PIN or when the
+  // cashier is locked out after too many wrong ones
+  const verifyApprovalPin = async (pin: string) => {
+    const { data, error } = await supabase.rpc('verify_approval_pin', { _pin: pin });
+    if (error) throw error;
+    if (!data) throw new Error('Invalid approval PIN');
+    return data as string;
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  return {
+    promotions,
+    approvalLimit,
+    loading,
+    refetch: fetchData,
+    addPromotion,
+    updatePromotion,
+    deletePromotion,
+    updateApprovalLimit,
+    setApprovalPin,
+    verifyApprovalPin,
+  };
+}
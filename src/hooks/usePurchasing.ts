@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Supplier = Tables<'suppliers'>;
+export type PurchaseOrderItem = Tables<'purchase_order_items'>;
+export type PurchaseOrderStatus = 'ordered' | 'partial' | 'received' | 'cancelled';
+export type PurchaseOrder = Tables<'purchase_orders'> & { purchase_order_items: PurchaseOrderItem[] };
+export type GoodsReceipt = Tables<'goods_receipts'> & { goods_receipt_items: Tables<'goods_receipt_items'>[] };
+export type SupplierPayment = Tables<'supplier_payments'>;
+export type SupplierPaymentMethod = 'cash' | 'transfer';
+
+export interface PurchaseOrderLine {
+  ingredient_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface GoodsReceiptLine {
+  purchase_order_item_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface SupplierPaymentInput {
+  supplierId: string;
+  amount: number;
+  paymentMethod: SupplierPaymentMethod;
+  purchaseOrderId?: string | null;
+  note?: string;
+}
+
+// What is still owed: goods received minus payments made
+export const supplierBalance = (supplierId: string, purchaseOrders: PurchaseOrder[], payments: SupplierPayment[]) =>
+  purchaseOrders.filter(po => po.supplier_id === supplierId).reduce((sum, po) => sum + po.received_amount, 0)
+  - payments.filter(payment => payment.supplier_id === supplierId).reduce((sum, payment) => sum + payment.amount, 0);
+
+export function usePurchasing() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [payments, setPayments] = useState<SupplierPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const [suppliersRes, ordersRes, receiptsRes, paymentsRes] = await Promise.all([
+        supabase.from('suppliers').select('*').order('name'),
+        supabase.from('purchase_orders').select('*, purchase_order_items (*)').order('created_at', { ascending: false }),
+        supabase.from('goods_receipts').select('*, goods_receipt_items (*)').order('received_at', { ascending: false }),
+        supabase.from('supplier_payments').select('*').order('paid_at', { ascending: false }),
+      ]);
+
+      if (suppliersRes.error) throw suppliersRes.error;
+      if (ordersRes.error) throw ordersRes.error;
+      if (receiptsRes.error) throw receiptsRes.error;
+      if (paymentsRes.error) throw paymentsRes.error;
+
+      setSuppliers(suppliersRes.data || []);
+      setPurchaseOrders(ordersRes.data || []);
+      setReceipts(receiptsRes.data || []);
+      setPayments(paymentsRes.data || []);
+    } catch (err) {
+      console.error('Error fetching purchasing data:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addSupplier = async (supplier: Pick<Supplier, 'name' | 'phone' | 'address' | 'notes'>) => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .insert(supplier)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setSuppliers(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data;
+  };
+
+  const updateSupplier = async (id: string, updates: Partial<Pick<Supplier, 'name' | 'phone' | 'address' | 'notes' | 'is_active'>>) => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setSuppliers(prev => prev.map(supplier => supplier.id === id ? data : supplier));
+    return data;
+  };
+
+  // Fails once the supplier has purchase orders; deactivate those instead
+  const deleteSupplier = async (id: string) => {
+    const { error } = await supabase
+      .from('suppliers')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setSuppliers(prev => prev.filter(supplier => supplier.id !== id));
+  };
+
+  const createPurchaseOrder = async (supplierId: string, items: PurchaseOrderLine[], notes?: string) => {
+    const { data, error } = await supabase.rpc('create_purchase_order', {
+      _supplier_id: supplierId,
+      _items: items.map(item => ({
+        ingredient_id: item.ingredient_id,
+        quantity: item.quantity,
+        unit_cost: item.unit_cost,
+      })),
+      _notes: notes || null,
+    });
+
+    if (error) throw error;
+    const purchaseOrder = data as unknown as PurchaseOrder;
+    setPurchaseOrders(prev => [purchaseOrder, ...prev]);
+    return purchaseOrder;
+  };
+
+  const cancelPurchaseOrder = async (id: string) => {
+    const { data, error } = await supabase.rpc('cancel_purchase_order', { _purchase_order_id: id });
+
+    if (error) throw error;
+    const purchaseOrder = data as unknown as PurchaseOrder;
+    setPurchaseOrders(prev => prev.map(po => po.id === id ? purchaseOrder : po));
+    return purchaseOrder;
+  };
+
+  // Adds the received quantities to ingredient stock
+  const receivePurchaseOrder = async (id: string, items: GoodsReceiptLine[], notes?: string) => {
+    const { error } = await supabase.rpc('receive_purchase_order', {
+      _purchase_order_id: id,
+      _items: items.map(item => ({
+        purchase_order_item_id: item.purchase_order_item_id,
+        quantity: item.quantity,
+        unit_cost: item.unit_cost,
+      })),
+      _notes: notes || null,
+    });
+
+    if (error) throw error;
+    await fetchData();
+  };
+
+  // Also books the payment as an expense in the accounting journal
+  const recordPayment = async (payment: SupplierPaymentInput) => {
+    const { error } = await supabase.rpc('record_supplier_payment', {
+      _supplier_id: payment.supplierId,
+      _amount: payment.amount,
+      _payment_method: payment.paymentMethod,
+      _purchase_order_id: payment.purchaseOrderId || null,
+      _note: payment.note || null,
+    });
+
+    if (error) throw error;
+    await fetchData();
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  return {
+    suppliers,
+    purchaseOrders,
+    receipts,
+    payments,
+    loading,
+    refetch: fetchData,
+    addSupplier,
+    updateSupplier,
+    deleteSupplier,
+    createPurchaseOrder,
+    cancelPurchaseOrder,
+    receivePurchaseOrder,
+    recordPayment,
+  };
+}
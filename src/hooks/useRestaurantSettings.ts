@@ -1,8 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { TaxSettings } from '@/utils/billTotals';
+import type { ReceiptTemplate } from '@/utils/receiptDocument';
+import { isNetworkError, readCache, writeCache } from '@/utils/offlineStore';
 
-export interface RestaurantSettings {
+export interface RestaurantSettings extends TaxSettings {
   id: string;
   restaurant_name: string;
   address_line1: string | null;
@@ -11,6 +14,8 @@ export interface RestaurantSettings {
   whatsapp_number: string | null;
   instagram_handle: string | null;
   footer_message: string | null;
+  // Partial as stored; read through resolveReceiptTemplate
+  receipt_template: Partial<ReceiptTemplate> | null;
 }
 
 export function useRestaurantSettings() {
@@ -25,7 +30,15 @@ export function useRestaurantSettings() {
         .limit(1)
         .maybeSingle();
 
-      if (error) throw error;
+      if (error) {
+        // Offline, receipts and bill totals use the settings last seen on this device
+        const cached = isNetworkError(error)
+          ? await readCache<RestaurantSettings>('restaurant_settings').catch(() => undefined)
+          : undefined;
+        if (cached) return cached;
+        throw error;
+      }
+      writeCache('restaurant_settings', data).catch(() => {});
       return data as RestaurantSettings | null;
     },
   });
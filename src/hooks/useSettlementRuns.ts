@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type SettlementTrigger = 'manual' | 'schedule' | 'backfill';
+export type SettlementRun = Tables<'settlement_runs'> & {
+  profiles: Pick<Tables<'profiles'>, 'full_name'> | null;
+};
+
+export interface SettlementStats {
+  total_orders: number;
+  total_revenue: number;
+  cash_revenue: number;
+  transfer_revenue: number;
+  qris_revenue: number;
+}
+
+export const SETTLEMENT_TRIGGER_LABELS: Record<SettlementTrigger, string> = {
+  manual: 'Manual',
+  schedule: 'Terjadwal',
+  backfill: 'Susulan',
+};
+
+export function useSettlementRuns() {
+  const [runs, setRuns] = useState<SettlementRun[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('settlement_runs')
+        .select('*, profiles (full_name)')
+        .order('started_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      setRuns(data || []);
+    } catch (err) {
+      console.error('Error fetching settlement runs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Settles today and any earlier day with sales that was never settled
+  const runSettlement = async () => {
+    const { data, error } = await supabase.functions.invoke('send-daily-summary', {
+      body: { backfill: true },
+    });
+
+    if (error) throw error;
+    await fetchData();
+    return data as { backfilled?: unknown[] } | null;
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  return {
+    runs,
+    loading,
+    refetch: fetchData,
+    runSettlement,
+  };
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { readCache, writeCache } from '@/utils/offlineStore';
 
 type TableStatus = 'available' | 'occupied' | 'reserved';
 
@@ -26,8 +27,14 @@ export function useTables() {
 
       if (error) throw error;
       setTables(data || []);
+      writeCache('tables', data || []).catch(() => {});
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Error fetching tables');
+      const cached = await readCache<RestaurantTable[]>('tables').catch(() => undefined);
+      if (cached) {
+        setTables(cached);
+      } else {
+        setError(err instanceof Error ? err.message : 'Error fetching tables');
+      }
     } finally {
       setLoading(false);
     }
@@ -75,6 +82,26 @@ export function useTables() {
 
   useEffect(() => {
     fetchTables();
+
+    // Keep table status in sync when other cashiers open or settle tabs
+    const channel = supabase
+      .channel('restaurant-tables')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'restaurant_tables',
+        },
+        () => {
+          fetchTables();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, []);
 
   return {
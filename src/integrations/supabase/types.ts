@@ -59,6 +59,33 @@ export type Database = {
         }
         Relationships: []
       }
+      accounts: {
+        Row: {
+          account_type: string
+          code: string
+          created_at: string
+          id: string
+          is_system: boolean
+          name: string
+        }
+        Insert: {
+          account_type: string
+          code: string
+          created_at?: string
+          id?: string
+          is_system?: boolean
+          name: string
+        }
+        Update: {
+          account_type?: string
+          code?: string
+          created_at?: string
+          id?: string
+          is_system?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
       app_settings: {
         Row: {
           created_at: string
@@ -86,6 +113,123 @@ export type Database = {
         }
         Relationships: []
       }
+      approval_pin_attempts: {
+        Row: {
+          approver_id: string | null
+          caller_id: string
+          created_at: string
+          id: string
+          succeeded: boolean
+        }
+        Insert: {
+          approver_id?: string | null
+          caller_id: string
+          created_at?: string
+          id?: string
+          succeeded: boolean
+        }
+        Update: {
+          approver_id?: string | null
+          caller_id?: string
+          created_at?: string
+          id?: string
+          succeeded?: boolean
+        }
+        Relationships: []
+      }
+      cash_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          expense_id: string | null
+          id: string
+          movement_type: string
+          reason: string
+          shift_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          expense_id?: string | null
+          id?: string
+          movement_type: string
+          reason: string
+          shift_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          expense_id?: string | null
+          id?: string
+          movement_type?: string
+          reason?: string
+          shift_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_movements_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_movements_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_shifts: {
+        Row: {
+          cashier_id: string | null
+          cashier_name: string
+          closed_at: string | null
+          closing_counts: Json | null
+          closing_notes: string | null
+          counted_cash: number | null
+          expected_cash: number | null
+          id: string
+          opened_at: string
+          opening_float: number
+          status: string
+          variance: number | null
+        }
+        Insert: {
+          cashier_id?: string | null
+          cashier_name: string
+          closed_at?: string | null
+          closing_counts?: Json | null
+          closing_notes?: string | null
+          counted_cash?: number | null
+          expected_cash?: number | null
+          id?: string
+          opened_at?: string
+          opening_float?: number
+          status?: string
+          variance?: number | null
+        }
+        Update: {
+          cashier_id?: string | null
+          cashier_name?: string
+          closed_at?: string | null
+          closing_counts?: Json | null
+          closing_notes?: string | null
+          counted_cash?: number | null
+          expected_cash?: number | null
+          id?: string
+          opened_at?: string
+          opening_float?: number
+          status?: string
+          variance?: number | null
+        }
+        Relationships: []
+      }
       daily_reports: {
         Row: {
           cash_revenue: number | null
@@ -122,383 +266,2198 @@ export type Database = {
         }
         Relationships: []
       }
-      menu_categories: {
+      expense_categories: {
         Row: {
+          account_id: string
           created_at: string
-          icon: string | null
           id: string
+          is_active: boolean
           name: string
-          sort_order: number | null
         }
         Insert: {
+          account_id: string
           created_at?: string
-          icon?: string | null
           id?: string
+          is_active?: boolean
           name: string
-          sort_order?: number | null
         }
         Update: {
+          account_id?: string
           created_at?: string
-          icon?: string | null
           id?: string
+          is_active?: boolean
           name?: string
-          sort_order?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "expense_categories_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      menu_items: {
+      expenses: {
         Row: {
-          category_id: string | null
+          amount: number
+          category_id: string
           created_at: string
+          created_by: string | null
+          description: string
+          expense_date: string
           id: string
-          image_url: string | null
-          is_available: boolean | null
-          name: string
-          price: number
-          updated_at: string
+          payment_source: string
+          receipt_path: string | null
+          recurring_expense_id: string | null
+          recurring_occurrence: number | null
+          shift_id: string | null
         }
         Insert: {
-          category_id?: string | null
+          amount: number
+          category_id: string
           created_at?: string
+          created_by?: string | null
+          description: string
+          expense_date: string
           id?: string
-          image_url?: string | null
-          is_available?: boolean | null
-          name: string
-          price: number
-          updated_at?: string
+          payment_source: string
+          receipt_path?: string | null
+          recurring_expense_id?: string | null
+          recurring_occurrence?: number | null
+          shift_id?: string | null
         }
         Update: {
-          category_id?: string | null
+          amount?: number
+          category_id?: string
           created_at?: string
+          created_by?: string | null
+          description?: string
+          expense_date?: string
           id?: string
-          image_url?: string | null
-          is_available?: boolean | null
-          name?: string
-          price?: number
-          updated_at?: string
+          payment_source?: string
+          receipt_path?: string | null
+          recurring_expense_id?: string | null
+          recurring_occurrence?: number | null
+          shift_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "menu_items_category_id_fkey"
+            foreignKeyName: "expenses_category_id_fkey"
             columns: ["category_id"]
             isOneToOne: false
-            referencedRelation: "menu_categories"
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_recurring_expense_id_fkey"
+            columns: ["recurring_expense_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
             referencedColumns: ["id"]
           },
         ]
       }
-      notification_settings: {
+      goods_receipt_items: {
         Row: {
-          created_at: string | null
+          goods_receipt_id: string
           id: string
-          notify_on_transaction: boolean | null
-          telegram_chat_id: string | null
-          updated_at: string | null
-          user_id: string
-          whatsapp_number: string | null
+          ingredient_id: string
+          purchase_order_item_id: string
+          quantity: number
+          total_cost: number
+          unit_cost: number
         }
         Insert: {
-          created_at?: string | null
+          goods_receipt_id: string
           id?: string
-          notify_on_transaction?: boolean | null
-          telegram_chat_id?: string | null
-          updated_at?: string | null
-          user_id: string
-          whatsapp_number?: string | null
+          ingredient_id: string
+          purchase_order_item_id: string
+          quantity: number
+          total_cost: number
+          unit_cost: number
         }
         Update: {
-          created_at?: string | null
+          goods_receipt_id?: string
           id?: string
-          notify_on_transaction?: boolean | null
-          telegram_chat_id?: string | null
-          updated_at?: string | null
-          user_id?: string
-          whatsapp_number?: string | null
+          ingredient_id?: string
+          purchase_order_item_id?: string
+          quantity?: number
+          total_cost?: number
+          unit_cost?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipt_items_goods_receipt_id_fkey"
+            columns: ["goods_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "goods_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_items_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_items_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      order_items: {
+      goods_receipts: {
         Row: {
-          created_at: string
           id: string
-          menu_item_id: string | null
-          menu_item_name: string
           notes: string | null
-          order_id: string
-          quantity: number
-          total_price: number
-          unit_price: number
+          purchase_order_id: string
+          received_at: string
+          received_by: string | null
+          supplier_id: string
+          total_cost: number
         }
         Insert: {
-          created_at?: string
           id?: string
-          menu_item_id?: string | null
-          menu_item_name: string
           notes?: string | null
-          order_id: string
-          quantity?: number
-          total_price: number
-          unit_price: number
+          purchase_order_id: string
+          received_at?: string
+          received_by?: string | null
+          supplier_id: string
+          total_cost?: number
         }
         Update: {
-          created_at?: string
           id?: string
-          menu_item_id?: string | null
-          menu_item_name?: string
           notes?: string | null
-          order_id?: string
-          quantity?: number
-          total_price?: number
-          unit_price?: number
+          purchase_order_id?: string
+          received_at?: string
+          received_by?: string | null
+          supplier_id?: string
+          total_cost?: number
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_menu_item_id_fkey"
-            columns: ["menu_item_id"]
+            foreignKeyName: "goods_receipts_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
             isOneToOne: false
-            referencedRelation: "menu_items"
+            referencedRelation: "purchase_orders"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "goods_receipts_supplier_id_fkey"
+            columns: ["supplier_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "suppliers"
             referencedColumns: ["id"]
           },
         ]
       }
-      orders: {
+      ingredients: {
         Row: {
-          amount_paid: number | null
-          cashier_id: string | null
-          cashier_name: string | null
-          change_amount: number | null
-          completed_at: string | null
           created_at: string
-          discount: number | null
           id: string
-          notes: string | null
-          order_number: string
-          payment_method: Database["public"]["Enums"]["payment_method"] | null
-          status: Database["public"]["Enums"]["order_status"] | null
-          subtotal: number
-          table_id: string | null
-          total: number
+          last_unit_cost: number | null
+          low_stock_alerted_at: string | null
+          low_stock_threshold: number
+          name: string
+          stock: number
+          unit: string
+          updated_at: string
         }
         Insert: {
-          amount_paid?: number | null
-          cashier_id?: string | null
-          cashier_name?: string | null
-          change_amount?: number | null
-          completed_at?: string | null
           created_at?: string
-          discount?: number | null
           id?: string
-          notes?: string | null
-          order_number: string
-          payment_method?: Database["public"]["Enums"]["payment_method"] | null
-          status?: Database["public"]["Enums"]["order_status"] | null
-          subtotal?: number
-          table_id?: string | null
-          total?: number
+          last_unit_cost?: number | null
+          low_stock_alerted_at?: string | null
+          low_stock_threshold?: number
+          name: string
+          stock?: number
+          unit: string
+          updated_at?: string
         }
         Update: {
-          amount_paid?: number | null
-          cashier_id?: string | null
-          cashier_name?: string | null
-          change_amount?: number | null
-          completed_at?: string | null
           created_at?: string
-          discount?: number | null
           id?: string
-          notes?: string | null
-          order_number?: string
-          payment_method?: Database["public"]["Enums"]["payment_method"] | null
-          status?: Database["public"]["Enums"]["order_status"] | null
-          subtotal?: number
-          table_id?: string | null
-          total?: number
+          last_unit_cost?: number | null
+          low_stock_alerted_at?: string | null
+          low_stock_threshold?: number
+          name?: string
+          stock?: number
+          unit?: string
+          updated_at?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "orders_table_id_fkey"
-            columns: ["table_id"]
-            isOneToOne: false
-            referencedRelation: "restaurant_tables"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
-      payment_notifications: {
+      journal_entries: {
         Row: {
           created_at: string
-          currency: string | null
-          gross_amount: number
+          created_by: string | null
+          description: string
+          entry_date: string
           id: string
-          is_read: boolean | null
-          order_id: string
-          payment_type: string
-          raw_payload: Json | null
-          transaction_id: string | null
-          transaction_status: string
-          transaction_time: string | null
+          source_id: string
+          source_type: string
         }
         Insert: {
           created_at?: string
-          currency?: string | null
-          gross_amount: number
+          created_by?: string | null
+          description: string
+          entry_date: string
           id?: string
-          is_read?: boolean | null
-          order_id: string
-          payment_type: string
-          raw_payload?: Json | null
-          transaction_id?: string | null
-          transaction_status: string
-          transaction_time?: string | null
+          source_id: string
+          source_type: string
         }
         Update: {
           created_at?: string
-          currency?: string | null
-          gross_amount?: number
+          created_by?: string | null
+          description?: string
+          entry_date?: string
           id?: string
-          is_read?: boolean | null
-          order_id?: string
-          payment_type?: string
-          raw_payload?: Json | null
-          transaction_id?: string | null
-          transaction_status?: string
-          transaction_time?: string | null
+          source_id?: string
+          source_type?: string
         }
         Relationships: []
       }
-      profiles: {
+      journal_lines: {
+        Row: {
+          account_id: string
+          credit: number
+          debit: number
+          id: string
+          journal_entry_id: string
+        }
+        Insert: {
+          account_id: string
+          credit?: number
+          debit?: number
+          id?: string
+          journal_entry_id: string
+        }
+        Update: {
+          account_id?: string
+          credit?: number
+          debit?: number
+          id?: string
+          journal_entry_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_categories: {
         Row: {
-          avatar_url: string | null
           created_at: string
-          full_name: string
+          icon: string | null
           id: string
-          updated_at: string
+          name: string
+          print_station: string | null
+          sort_order: number | null
         }
         Insert: {
-          avatar_url?: string | null
           created_at?: string
-          full_name: string
-          id: string
-          updated_at?: string
+          icon?: string | null
+          id?: string
+          name: string
+          print_station?: string | null
+          sort_order?: number | null
         }
         Update: {
-          avatar_url?: string | null
           created_at?: string
-          full_name?: string
+          icon?: string | null
           id?: string
-          updated_at?: string
+          name?: string
+          print_station?: string | null
+          sort_order?: number | null
         }
         Relationships: []
       }
-      restaurant_settings: {
+      menu_items: {
         Row: {
-          address_line1: string | null
-          address_line2: string | null
-          address_line3: string | null
+          auto_unavailable: boolean
+          category_id: string | null
           created_at: string
-          footer_message: string | null
           id: string
-          instagram_handle: string | null
-          restaurant_name: string
+          image_url: string | null
+          is_available: boolean | null
+          name: string
+          price: number
           updated_at: string
-          whatsapp_number: string | null
         }
         Insert: {
-          address_line1?: string | null
-          address_line2?: string | null
-          address_line3?: string | null
+          auto_unavailable?: boolean
+          category_id?: string | null
           created_at?: string
-          footer_message?: string | null
           id?: string
-          instagram_handle?: string | null
-          restaurant_name?: string
+          image_url?: string | null
+          is_available?: boolean | null
+          name: string
+          price: number
           updated_at?: string
-          whatsapp_number?: string | null
         }
         Update: {
-          address_line1?: string | null
-          address_line2?: string | null
-          address_line3?: string | null
+          auto_unavailable?: boolean
+          category_id?: string | null
           created_at?: string
-          footer_message?: string | null
           id?: string
-          instagram_handle?: string | null
-          restaurant_name?: string
+          image_url?: string | null
+          is_available?: boolean | null
+          name?: string
+          price?: number
           updated_at?: string
-          whatsapp_number?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "menu_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      restaurant_tables: {
+      menu_modifier_groups: {
         Row: {
-          capacity: number | null
           created_at: string
-          current_order_id: string | null
           id: string
-          status: Database["public"]["Enums"]["table_status"] | null
-          table_number: number
+          is_required: boolean
+          menu_item_id: string
+          name: string
+          selection_type: string
+          sort_order: number
         }
         Insert: {
-          capacity?: number | null
           created_at?: string
-          current_order_id?: string | null
           id?: string
-          status?: Database["public"]["Enums"]["table_status"] | null
-          table_number: number
+          is_required?: boolean
+          menu_item_id: string
+          name: string
+          selection_type?: string
+          sort_order?: number
         }
         Update: {
-          capacity?: number | null
           created_at?: string
-          current_order_id?: string | null
           id?: string
-          status?: Database["public"]["Enums"]["table_status"] | null
-          table_number?: number
+          is_required?: boolean
+          menu_item_id?: string
+          name?: string
+          selection_type?: string
+          sort_order?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "menu_modifier_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      user_roles: {
+      menu_modifier_options: {
         Row: {
           created_at: string
+          group_id: string
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          name: string
+          price_delta: number
+          sort_order: number
         }
         Insert: {
           created_at?: string
+          group_id: string
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          name: string
+          price_delta?: number
+          sort_order?: number
         }
         Update: {
           created_at?: string
+          group_id?: string
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          name?: string
+          price_delta?: number
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "menu_modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_settings: {
+        Row: {
+          created_at: string | null
+          id: string
+          notify_on_transaction: boolean | null
+          telegram_chat_id: string | null
+          updated_at: string | null
+          user_id: string
+          whatsapp_number: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          notify_on_transaction?: boolean | null
+          telegram_chat_id?: string | null
+          updated_at?: string | null
+          user_id: string
+          whatsapp_number?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          notify_on_transaction?: boolean | null
+          telegram_chat_id?: string | null
+          updated_at?: string | null
           user_id?: string
+          whatsapp_number?: string | null
         }
         Relationships: []
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      has_role: {
-        Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+      order_items: {
+        Row: {
+          created_at: string
+          id: string
+          kitchen_bumped_at: string | null
+          kitchen_ready_at: string | null
+          menu_item_id: string | null
+          menu_item_name: string
+          modifiers: Json
+          notes: string | null
+          order_id: string
+          quantity: number
+          round_number: number
+          total_price: number
+          unit_price: number
         }
-        Returns: boolean
+        Insert: {
+          created_at?: string
+          id?: string
+          kitchen_bumped_at?: string | null
+          kitchen_ready_at?: string | null
+          menu_item_id?: string | null
+          menu_item_name: string
+          modifiers?: Json
+          notes?: string | null
+          order_id: string
+          quantity?: number
+          round_number?: number
+          total_price: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kitchen_bumped_at?: string | null
+          kitchen_ready_at?: string | null
+          menu_item_id?: string | null
+          menu_item_name?: string
+          modifiers?: Json
+          notes?: string | null
+          order_id?: string
+          quantity?: number
+          round_number?: number
+          total_price?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_number_counters: {
+        Row: {
+          last_number: number
+          order_date: string
+          updated_at: string
+        }
+        Insert: {
+          last_number?: number
+          order_date: string
+          updated_at?: string
+        }
+        Update: {
+          last_number?: number
+          order_date?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      order_payments: {
+        Row: {
+          amount: number
+          amount_tendered: number
+          change_amount: number
+          created_at: string
+          id: string
+          order_id: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          shift_id: string | null
+          split_id: string | null
+        }
+        Insert: {
+          amount: number
+          amount_tendered?: number
+          change_amount?: number
+          created_at?: string
+          id?: string
+          order_id: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          shift_id?: string | null
+          split_id?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_tendered?: number
+          change_amount?: number
+          created_at?: string
+          id?: string
+          order_id?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          shift_id?: string | null
+          split_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_payments_split_id_fkey"
+            columns: ["split_id"]
+            isOneToOne: false
+            referencedRelation: "order_splits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_payments_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_refunds: {
+        Row: {
+          amount: number
+          approved_by: string | null
+          created_at: string
+          id: string
+          items: Json | null
+          order_id: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          reason: string
+          refund_type: string
+          refunded_by: string | null
+          shift_id: string | null
+        }
+        Insert: {
+          amount: number
+          approved_by?: string | null
+          created_at?: string
+          id?: string
+          items?: Json | null
+          order_id: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          reason: string
+          refund_type?: string
+          refunded_by?: string | null
+          shift_id?: string | null
+        }
+        Update: {
+          amount?: number
+          approved_by?: string | null
+          created_at?: string
+          id?: string
+          items?: Json | null
+          order_id?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          reason?: string
+          refund_type?: string
+          refunded_by?: string | null
+          shift_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_splits: {
+        Row: {
+          amount: number
+          amount_paid: number
+          cashier_id: string | null
+          change_amount: number
+          created_at: string
+          id: string
+          items: Json | null
+          order_id: string
+          paid_at: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          split_number: number
+          split_type: string
+        }
+        Insert: {
+          amount: number
+          amount_paid?: number
+          cashier_id?: string | null
+          change_amount?: number
+          created_at?: string
+          id?: string
+          items?: Json | null
+          order_id: string
+          paid_at?: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          split_number: number
+          split_type: string
+        }
+        Update: {
+          amount?: number
+          amount_paid?: number
+          cashier_id?: string | null
+          change_amount?: number
+          created_at?: string
+          id?: string
+          items?: Json | null
+          order_id?: string
+          paid_at?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          split_number?: number
+          split_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_splits_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_sync_conflicts: {
+        Row: {
+          conflicts: Json
+          created_at: string
+          id: string
+          offline_number: string | null
+          order_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          synced_by: string | null
+        }
+        Insert: {
+          conflicts: Json
+          created_at?: string
+          id?: string
+          offline_number?: string | null
+          order_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          synced_by?: string | null
+        }
+        Update: {
+          conflicts?: Json
+          created_at?: string
+          id?: string
+          offline_number?: string | null
+          order_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          synced_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_sync_conflicts_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_voids: {
+        Row: {
+          amount: number
+          approved_by: string | null
+          created_at: string
+          id: string
+          menu_item_name: string | null
+          order_id: string
+          order_item_id: string | null
+          quantity: number | null
+          reason: string
+          shift_id: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          amount?: number
+          approved_by?: string | null
+          created_at?: string
+          id?: string
+          menu_item_name?: string | null
+          order_id: string
+          order_item_id?: string | null
+          quantity?: number | null
+          reason: string
+          shift_id?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          amount?: number
+          approved_by?: string | null
+          created_at?: string
+          id?: string
+          menu_item_name?: string | null
+          order_id?: string
+          order_item_id?: string | null
+          quantity?: number | null
+          reason?: string
+          shift_id?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_voids_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_voids_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_voids_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          amount_paid: number | null
+          cashier_id: string | null
+          cashier_name: string | null
+          change_amount: number | null
+          client_id: string | null
+          completed_at: string | null
+          created_at: string
+          discount: number | null
+          discount_approved_by: string | null
+          id: string
+          manual_discount: number
+          notes: string | null
+          order_number: string
+          payment_method: Database["public"]["Enums"]["payment_method"] | null
+          prices_include_tax: boolean
+          promotion_discount: number
+          promotion_id: string | null
+          promotion_name: string | null
+          receipt_token: string
+          refunded_amount: number
+          rounding: number
+          service_charge: number
+          service_charge_rate: number
+          status: Database["public"]["Enums"]["order_status"] | null
+          stock_deducted_at: string | null
+          subtotal: number
+          table_id: string | null
+          tax: number
+          tax_rate: number
+          total: number
+          voided_at: string | null
+        }
+        Insert: {
+          amount_paid?: number | null
+          cashier_id?: string | null
+          cashier_name?: string | null
+          change_amount?: number | null
+          client_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          discount?: number | null
+          discount_approved_by?: string | null
+          id?: string
+          manual_discount?: number
+          notes?: string | null
+          order_number: string
+          payment_method?: Database["public"]["Enums"]["payment_method"] | null
+          prices_include_tax?: boolean
+          promotion_discount?: number
+          promotion_id?: string | null
+          promotion_name?: string | null
+          receipt_token?: string
+          refunded_amount?: number
+          rounding?: number
+          service_charge?: number
+          service_charge_rate?: number
+          status?: Database["public"]["Enums"]["order_status"] | null
+          stock_deducted_at?: string | null
+          subtotal?: number
+          table_id?: string | null
+          tax?: number
+          tax_rate?: number
+          total?: number
+          voided_at?: string | null
+        }
+        Update: {
+          amount_paid?: number | null
+          cashier_id?: string | null
+          cashier_name?: string | null
+          change_amount?: number | null
+          client_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          discount?: number | null
+          discount_approved_by?: string | null
+          id?: string
+          manual_discount?: number
+          notes?: string | null
+          order_number?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"] | null
+          prices_include_tax?: boolean
+          promotion_discount?: number
+          promotion_id?: string | null
+          promotion_name?: string | null
+          receipt_token?: string
+          refunded_amount?: number
+          rounding?: number
+          service_charge?: number
+          service_charge_rate?: number
+          status?: Database["public"]["Enums"]["order_status"] | null
+          stock_deducted_at?: string | null
+          subtotal?: number
+          table_id?: string | null
+          tax?: number
+          tax_rate?: number
+          total?: number
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_notifications: {
+        Row: {
+          created_at: string
+          currency: string | null
+          gross_amount: number
+          id: string
+          is_read: boolean | null
+          order_id: string
+          payment_type: string
+          raw_payload: Json | null
+          transaction_id: string | null
+          transaction_status: string
+          transaction_time: string | null
+        }
+        Insert: {
+          created_at?: string
+          currency?: string | null
+          gross_amount: number
+          id?: string
+          is_read?: boolean | null
+          order_id: string
+          payment_type: string
+          raw_payload?: Json | null
+          transaction_id?: string | null
+          transaction_status: string
+          transaction_time?: string | null
+        }
+        Update: {
+          created_at?: string
+          currency?: string | null
+          gross_amount?: number
+          id?: string
+          is_read?: boolean | null
+          order_id?: string
+          payment_type?: string
+          raw_payload?: Json | null
+          transaction_id?: string | null
+          transaction_status?: string
+          transaction_time?: string | null
+        }
+        Relationships: []
+      }
+      period_closings: {
+        Row: {
+          closed_at: string
+          closed_by: string | null
+          closed_through: string
+          id: string
+          notes: string | null
+        }
+        Insert: {
+          closed_at?: string
+          closed_by?: string | null
+          closed_through: string
+          id?: string
+          notes?: string | null
+        }
+        Update: {
+          closed_at?: string
+          closed_by?: string | null
+          closed_through?: string
+          id?: string
+          notes?: string | null
+        }
+        Relationships: []
+      }
+      period_snapshots: {
+        Row: {
+          cogs: number
+          created_at: string
+          expenses: number
+          id: string
+          net_profit: number
+          order_count: number
+          period_closing_id: string
+          period_end: string
+          period_start: string
+          period_type: string
+          refund_total: number
+          revenue: number
+          sales_total: number
+          tax_total: number
+        }
+        Insert: {
+          cogs?: number
+          created_at?: string
+          expenses?: number
+          id?: string
+          net_profit?: number
+          order_count?: number
+          period_closing_id: string
+          period_end: string
+          period_start: string
+          period_type: string
+          refund_total?: number
+          revenue?: number
+          sales_total?: number
+          tax_total?: number
+        }
+        Update: {
+          cogs?: number
+          created_at?: string
+          expenses?: number
+          id?: string
+          net_profit?: number
+          order_count?: number
+          period_closing_id?: string
+          period_end?: string
+          period_start?: string
+          period_type?: string
+          refund_total?: number
+          revenue?: number
+          sales_total?: number
+          tax_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "period_snapshots_period_closing_id_fkey"
+            columns: ["period_closing_id"]
+            isOneToOne: false
+            referencedRelation: "period_closings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          full_name: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          full_name: string
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          full_name?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promotions: {
+        Row: {
+          buy_quantity: number | null
+          category_id: string | null
+          created_at: string
+          end_date: string | null
+          end_time: string | null
+          get_quantity: number | null
+          id: string
+          is_active: boolean
+          menu_item_id: string | null
+          min_spend: number
+          name: string
+          promo_type: string
+          scope: string
+          start_date: string | null
+          start_time: string | null
+          value: number
+        }
+        Insert: {
+          buy_quantity?: number | null
+          category_id?: string | null
+          created_at?: string
+          end_date?: string | null
+          end_time?: string | null
+          get_quantity?: number | null
+          id?: string
+          is_active?: boolean
+          menu_item_id?: string | null
+          min_spend?: number
+          name: string
+          promo_type?: string
+          scope?: string
+          start_date?: string | null
+          start_time?: string | null
+          value?: number
+        }
+        Update: {
+          buy_quantity?: number | null
+          category_id?: string | null
+          created_at?: string
+          end_date?: string | null
+          end_time?: string | null
+          get_quantity?: number | null
+          id?: string
+          is_active?: boolean
+          menu_item_id?: string | null
+          min_spend?: number
+          name?: string
+          promo_type?: string
+          scope?: string
+          start_date?: string | null
+          start_time?: string | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          id: string
+          ingredient_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          id?: string
+          ingredient_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity?: number
+          unit_cost: number
+        }
+        Update: {
+          id?: string
+          ingredient_id?: string
+          purchase_order_id?: string
+          quantity?: number
+          received_quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          paid_amount: number
+          po_number: string
+          received_amount: number
+          status: string
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          paid_amount?: number
+          po_number: string
+          received_amount?: number
+          status?: string
+          supplier_id: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          paid_amount?: number
+          po_number?: string
+          received_amount?: number
+          status?: string
+          supplier_id?: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_ingredients: {
+        Row: {
+          created_at: string
+          id: string
+          ingredient_id: string
+          is_required: boolean
+          menu_item_id: string | null
+          modifier_option_id: string | null
+          quantity: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ingredient_id: string
+          is_required?: boolean
+          menu_item_id?: string | null
+          modifier_option_id?: string | null
+          quantity: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ingredient_id?: string
+          is_required?: boolean
+          menu_item_id?: string | null
+          modifier_option_id?: string | null
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_ingredients_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_ingredients_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_ingredients_modifier_option_id_fkey"
+            columns: ["modifier_option_id"]
+            isOneToOne: false
+            referencedRelation: "menu_modifier_options"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_expenses: {
+        Row: {
+          amount: number
+          category_id: string
+          created_at: string
+          created_by: string | null
+          description: string
+          frequency: string
+          id: string
+          is_active: boolean
+          next_due_date: string
+          payment_source: string
+          posted_count: number
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          category_id: string
+          created_at?: string
+          created_by?: string | null
+          description: string
+          frequency: string
+          id?: string
+          is_active?: boolean
+          next_due_date: string
+          payment_source: string
+          posted_count?: number
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          next_due_date?: string
+          payment_source?: string
+          posted_count?: number
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_expenses_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurant_settings: {
+        Row: {
+          address_line1: string | null
+          address_line2: string | null
+          address_line3: string | null
+          created_at: string
+          footer_message: string | null
+          id: string
+          instagram_handle: string | null
+          prices_include_tax: boolean
+          receipt_template: Json
+          restaurant_name: string
+          rounding_mode: string
+          rounding_unit: number
+          service_charge_rate: number
+          tax_rate: number
+          updated_at: string
+          whatsapp_number: string | null
+        }
+        Insert: {
+          address_line1?: string | null
+          address_line2?: string | null
+          address_line3?: string | null
+          created_at?: string
+          footer_message?: string | null
+          id?: string
+          instagram_handle?: string | null
+          prices_include_tax?: boolean
+          receipt_template?: Json
+          restaurant_name?: string
+          rounding_mode?: string
+          rounding_unit?: number
+          service_charge_rate?: number
+          tax_rate?: number
+          updated_at?: string
+          whatsapp_number?: string | null
+        }
+        Update: {
+          address_line1?: string | null
+          address_line2?: string | null
+          address_line3?: string | null
+          created_at?: string
+          footer_message?: string | null
+          id?: string
+          instagram_handle?: string | null
+          prices_include_tax?: boolean
+          receipt_template?: Json
+          restaurant_name?: string
+          rounding_mode?: string
+          rounding_unit?: number
+          service_charge_rate?: number
+          tax_rate?: number
+          updated_at?: string
+          whatsapp_number?: string | null
+        }
+        Relationships: []
+      }
+      restaurant_tables: {
+        Row: {
+          capacity: number | null
+          created_at: string
+          current_order_id: string | null
+          id: string
+          status: Database["public"]["Enums"]["table_status"] | null
+          table_number: number
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string
+          current_order_id?: string | null
+          id?: string
+          status?: Database["public"]["Enums"]["table_status"] | null
+          table_number: number
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string
+          current_order_id?: string | null
+          id?: string
+          status?: Database["public"]["Enums"]["table_status"] | null
+          table_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_tables_current_order_id_fkey"
+            columns: ["current_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      settlement_runs: {
+        Row: {
+          business_date: string
+          daily_report_id: string | null
+          error: string | null
+          finished_at: string | null
+          id: string
+          started_at: string
+          stats: Json | null
+          status: string
+          trigger: string
+          triggered_by: string | null
+        }
+        Insert: {
+          business_date: string
+          daily_report_id?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          stats?: Json | null
+          status?: string
+          trigger: string
+          triggered_by?: string | null
+        }
+        Update: {
+          business_date?: string
+          daily_report_id?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          stats?: Json | null
+          status?: string
+          trigger?: string
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "settlement_runs_daily_report_id_fkey"
+            columns: ["daily_report_id"]
+            isOneToOne: false
+            referencedRelation: "daily_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "settlement_runs_triggered_by_fkey"
+            columns: ["triggered_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          goods_receipt_id: string | null
+          id: string
+          ingredient_id: string
+          movement_type: string
+          note: string | null
+          order_id: string | null
+          quantity: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          goods_receipt_id?: string | null
+          id?: string
+          ingredient_id: string
+          movement_type: string
+          note?: string | null
+          order_id?: string | null
+          quantity: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          goods_receipt_id?: string | null
+          id?: string
+          ingredient_id?: string
+          movement_type?: string
+          note?: string | null
+          order_id?: string | null
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_goods_receipt_id_fkey"
+            columns: ["goods_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "goods_receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_payments: {
+        Row: {
+          amount: number
+          id: string
+          note: string | null
+          paid_at: string
+          paid_by: string | null
+          payment_method: string
+          purchase_order_id: string | null
+          supplier_id: string
+        }
+        Insert: {
+          amount: number
+          id?: string
+          note?: string | null
+          paid_at?: string
+          paid_by?: string | null
+          payment_method: string
+          purchase_order_id?: string | null
+          supplier_id: string
+        }
+        Update: {
+          amount?: number
+          id?: string
+          note?: string | null
+          paid_at?: string
+          paid_by?: string | null
+          payment_method?: string
+          purchase_order_id?: string | null
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_payments_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      monthly_tax_report: {
+        Row: {
+          discount: number | null
+          month: string | null
+          order_count: number | null
+          refund_amount: number | null
+          refunded_tax: number | null
+          service_charge: number | null
+          subtotal: number | null
+          tax: number | null
+          taxable_amount: number | null
+          total: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      account_ledger: {
+        Args: {
+          _account_id: string
+          _from: string
+          _to: string
+        }
+        Returns: Json
+      }
+      add_order_items: {
+        Args: {
+          _items: Json
+          _order_id: string
+        }
+        Returns: Json
+      }
+      adjust_ingredient_stock: {
+        Args: {
+          _ingredient_id: string
+          _movement_type: string
+          _note?: string
+          _quantity: number
+        }
+        Returns: Json
+      }
+      apply_order_discount: {
+        Args: {
+          _discount: Json
+          _order_id: string
+        }
+        Returns: Json
+      }
+      approval_pin_locked_until: {
+        Args: {
+          _caller: string
+        }
+        Returns: string
+      }
+      approval_pin_user: {
+        Args: {
+          _pin: string
+        }
+        Returns: string
+      }
+      backfill_daily_settlements: {
+        Args: {
+          _before: string
+          _triggered_by?: string
+        }
+        Returns: Json
+      }
+      bump_kitchen_ticket: {
+        Args: {
+          _order_id: string
+        }
+        Returns: undefined
+      }
+      business_date: {
+        Args: {
+          _at: string
+        }
+        Returns: string
+      }
+      business_day_totals: {
+        Args: {
+          _business_date: string
+        }
+        Returns: {
+          cash_revenue: number
+          qris_revenue: number
+          total_orders: number
+          transfer_revenue: number
+        }[]
+      }
+      cancel_purchase_order: {
+        Args: {
+          _purchase_order_id: string
+        }
+        Returns: Json
+      }
+      cash_position: {
+        Args: {
+          _as_of: string
+        }
+        Returns: number
+      }
+      cash_shift_summary: {
+        Args: {
+          _shift_id: string
+        }
+        Returns: Json
+      }
+      check_approval_pin: {
+        Args: {
+          _pin: string
+        }
+        Returns: string
+      }
+      claim_low_stock_alerts: {
+        Args: never
+        Returns: Json
+      }
+      close_cash_shift: {
+        Args: {
+          _counts: Json
+          _notes?: string
+          _shift_id: string
+        }
+        Returns: Json
+      }
+      close_period: {
+        Args: {
+          _notes?: string
+          _through: string
+        }
+        Returns: Json
+      }
+      create_expense: {
+        Args: {
+          _amount: number
+          _category_id: string
+          _description: string
+          _expense_date: string
+          _payment_source: string
+          _receipt_path?: string
+          _recurring_expense_id?: string
+          _recurring_occurrence?: number
+          _shift_id?: string
+        }
+        Returns: Json
+      }
+      create_order: {
+        Args: {
+          _cashier_name?: string
+          _discount?: Json
+          _items: Json
+          _notes?: string
+          _payments: Json
+          _table_id?: string
+        }
+        Returns: Json
+      }
+      create_purchase_order: {
+        Args: {
+          _items: Json
+          _notes?: string
+          _supplier_id: string
+        }
+        Returns: Json
+      }
+      get_digital_receipt: {
+        Args: {
+          _token: string
+        }
+        Returns: Json
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      hold_order: {
+        Args: {
+          _cashier_name?: string
+          _items: Json
+          _notes?: string
+        }
+        Returns: Json
+      }
+      insert_order_items: {
+        Args: {
+          _items: Json
+          _order_id: string
+          _round_number?: number
+        }
+        Returns: undefined
+      }
+      insert_period_snapshot: {
+        Args: {
+          _from: string
+          _period_closing_id: string
+          _period_type: string
+          _to: string
+        }
+        Returns: undefined
+      }
+      ledger_summary: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: Json
+      }
+      lock_open_cash_shift: {
+        Args: {
+          _shift_id: string
+        }
+        Returns: Json
+      }
+      locked_through: {
+        Args: never
+        Returns: string
+      }
+      open_cash_shift: {
+        Args: {
+          _opening_float: number
+        }
+        Returns: Json
+      }
+      open_table_order: {
+        Args: {
+          _cashier_name?: string
+          _items: Json
+          _notes?: string
+          _table_id: string
+        }
+        Returns: Json
+      }
+      order_with_items: {
+        Args: {
+          _order_id: string
+        }
+        Returns: Json
+      }
+      pay_order_split: {
+        Args: {
+          _amount: number
+          _amount_paid: number
+          _items?: Json
+          _order_id: string
+          _payment_method: Database["public"]["Enums"]["payment_method"]
+          _split_type?: string
+        }
+        Returns: Json
+      }
+      post_adjusting_entry: {
+        Args: {
+          _description: string
+          _entry_date: string
+          _lines: Json
+        }
+        Returns: string
+      }
+      post_cash_movement: {
+        Args: {
+          _movement_id: string
+        }
+        Returns: undefined
+      }
+      post_daily_settlement: {
+        Args: {
+          _daily_report_id: string
+        }
+        Returns: string
+      }
+      post_due_recurring_expenses: {
+        Args: never
+        Returns: number
+      }
+      post_expense: {
+        Args: {
+          _expense_id: string
+        }
+        Returns: undefined
+      }
+      post_goods_receipt: {
+        Args: {
+          _receipt_id: string
+        }
+        Returns: undefined
+      }
+      post_journal_entry: {
+        Args: {
+          _description: string
+          _entry_date: string
+          _lines: Json
+          _source_id: string
+          _source_type: string
+        }
+        Returns: string
+      }
+      post_order_refund: {
+        Args: {
+          _refund_id: string
+        }
+        Returns: undefined
+      }
+      post_order_sale: {
+        Args: {
+          _order_id: string
+        }
+        Returns: undefined
+      }
+      post_order_void: {
+        Args: {
+          _void_id: string
+        }
+        Returns: undefined
+      }
+      post_supplier_payment: {
+        Args: {
+          _payment_id: string
+        }
+        Returns: undefined
+      }
+      profit_summary: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: Json
+      }
+      promotion_discount: {
+        Args: {
+          _at?: string
+          _order_id: string
+          _promotion_id: string
+        }
+        Returns: number
+      }
+      purchase_order_with_items: {
+        Args: {
+          _purchase_order_id: string
+        }
+        Returns: Json
+      }
+      recalculate_order_totals: {
+        Args: {
+          _order_id: string
+        }
+        Returns: undefined
+      }
+      recall_kitchen_ticket: {
+        Args: {
+          _order_id: string
+        }
+        Returns: undefined
+      }
+      receive_purchase_order: {
+        Args: {
+          _items: Json
+          _notes?: string
+          _purchase_order_id: string
+        }
+        Returns: Json
+      }
+      record_cash_movement: {
+        Args: {
+          _amount: number
+          _movement_type: string
+          _reason: string
+          _shift_id: string
+        }
+        Returns: Json
+      }
+      record_expense: {
+        Args: {
+          _amount: number
+          _category_id: string
+          _description: string
+          _expense_date: string
+          _payment_source: string
+          _receipt_path?: string
+          _shift_id?: string
+        }
+        Returns: Json
+      }
+      record_order_payments: {
+        Args: {
+          _order_id: string
+          _payments: Json
+        }
+        Returns: undefined
+      }
+      record_supplier_payment: {
+        Args: {
+          _amount: number
+          _note?: string
+          _payment_method: string
+          _purchase_order_id?: string
+          _supplier_id: string
+        }
+        Returns: Json
+      }
+      refund_order: {
+        Args: {
+          _amount: number
+          _approval_pin: string
+          _items?: Json
+          _order_id: string
+          _payment_method: Database["public"]["Enums"]["payment_method"]
+          _reason: string
+        }
+        Returns: Json
+      }
+      require_staff: {
+        Args: never
+        Returns: undefined
+      }
+      require_void_approval: {
+        Args: {
+          _approval_pin: string
+          _reason: string
+        }
+        Returns: string
+      }
+      review_sync_conflicts: {
+        Args: {
+          _ids: string[]
+        }
+        Returns: undefined
+      }
+      set_approval_pin: {
+        Args: {
+          _pin: string
+        }
+        Returns: undefined
+      }
+      set_order_item_ready: {
+        Args: {
+          _order_item_id: string
+          _ready: boolean
+        }
+        Returns: Json
+      }
+      settle_business_day: {
+        Args: {
+          _business_date: string
+          _trigger: string
+          _triggered_by?: string
+        }
+        Returns: Json
+      }
+      settle_order: {
+        Args: {
+          _discount?: Json
+          _order_id: string
+          _payments: Json
+        }
+        Returns: Json
+      }
+      sync_offline_order: {
+        Args: {
+          _cashier_name?: string
+          _client_id: string
+          _created_at: string
+          _discount?: Json
+          _items: Json
+          _notes?: string
+          _offline_number?: string
+          _payments: Json
+          _receipt_token?: string
+          _table_id?: string
+          _totals: Json
+        }
+        Returns: Json
+      }
+      tender_account: {
+        Args: {
+          _payment_method: string
+        }
+        Returns: string
+      }
+      trial_balance: {
+        Args: {
+          _as_of: string
+        }
+        Returns: Json
+      }
+      verify_approval_pin: {
+        Args: {
+          _pin: string
+        }
+        Returns: string
+      }
+      void_order: {
+        Args: {
+          _approval_pin: string
+          _order_id: string
+          _reason: string
+        }
+        Returns: Json
+      }
+      void_order_items: {
+        Args: {
+          _approval_pin: string
+          _items: Json
+          _order_id: string
+          _reason: string
+        }
+        Returns: Json
       }
     }
     Enums: {
-      app_role: "admin" | "kasir"
-      order_status: "pending" | "completed" | "cancelled"
+      app_role: "admin" | "kasir" | "kitchen"
+      order_status: "pending" | "completed" | "cancelled" | "refunded"
       payment_method: "cash" | "transfer" | "qris"
       table_status: "available" | "occupied" | "reserved"
     }
@@ -628,8 +2587,8 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "kasir"],
-      order_status: ["pending", "completed", "cancelled"],
+      app_role: ["admin", "kasir", "kitchen"],
+      order_status: ["pending", "completed", "cancelled", "refunded"],
       payment_method: ["cash", "transfer", "qris"],
       table_status: ["available", "occupied", "reserved"],
     },
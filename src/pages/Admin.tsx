@@ -1,12 +1,12 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useMenuItems } from '@/hooks/useMenuItems';
+import { useMenuItems, PrintStation } from '@/hooks/useMenuItems';
 import { useTables } from '@/hooks/useTables';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
-import { ArrowLeft, Plus, Trash2, Edit, Save, X, BarChart3, UtensilsCrossed, Users, Settings, Wrench, Calculator } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Edit, Save, X, BarChart3, UtensilsCrossed, Users, Settings, Wrench, Calculator, SlidersHorizontal, Tag, Package, Truck, Receipt } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatPrice } from '@/utils/receiptPrinter';
 import { TransactionReport } from '@/components/pos/TransactionReport';
@@ -16,8 +16,13 @@ import { TelegramNotificationSettings } from '@/components/pos/TelegramNotificat
 import { AccountingView } from '@/components/pos/AccountingView';
 import { RestaurantSettingsPanel } from '@/components/pos/RestaurantSettingsPanel';
 import { MidtransSettings } from '@/components/pos/MidtransSettings';
+import { MenuModifierManager } from '@/components/pos/MenuModifierManager';
+import { PromotionManager } from '@/components/pos/PromotionManager';
+import { InventoryManager } from '@/components/pos/InventoryManager';
+import { PurchasingManager } from '@/components/pos/PurchasingManager';
+import { ExpenseManager } from '@/components/pos/ExpenseManager';
 
-type AdminTab = 'menu' | 'tables' | 'reports' | 'accounting' | 'settings';
+type AdminTab = 'menu' | 'tables' | 'inventory' | 'purchasing' | 'expenses' | 'promotions' | 'reports' | 'accounting' | 'settings';
 
 export default function Admin() {
   const navigate = useNavigate();
@@ -49,6 +54,10 @@ export default function Admin() {
         {[
           { id: 'menu' as AdminTab, label: 'Kelola Menu', icon: <UtensilsCrossed className="w-4 h-4" /> },
           { id: 'tables' as AdminTab, label: 'Kelola Meja', icon: <Users className="w-4 h-4" /> },
+          { id: 'inventory' as AdminTab, label: 'Stok', icon: <Package className="w-4 h-4" /> },
+          { id: 'purchasing' as AdminTab, label: 'Pembelian', icon: <Truck className="w-4 h-4" /> },
+          { id: 'expenses' as AdminTab, label: 'Biaya', icon: <Receipt className="w-4 h-4" /> },
+          { id: 'promotions' as AdminTab, label: 'Promo', icon: <Tag className="w-4 h-4" /> },
           { id: 'reports' as AdminTab, label: 'Laporan', icon: <BarChart3 className="w-4 h-4" /> },
           { id: 'accounting' as AdminTab, label: 'Accounting', icon: <Calculator className="w-4 h-4" /> },
           { id: 'settings' as AdminTab, label: 'Pengaturan', icon: <Wrench className="w-4 h-4" /> },
@@ -71,6 +80,10 @@ export default function Admin() {
       <div className="p-4">
         {activeTab === 'menu' && <MenuManager />}
         {activeTab === 'tables' && <TableManager />}
+        {activeTab === 'inventory' && <InventoryManager />}
+        {activeTab === 'purchasing' && <PurchasingManager />}
+        {activeTab === 'expenses' && <ExpenseManager />}
+        {activeTab === 'promotions' && <PromotionManager />}
         {activeTab === 'reports' && <ReportsView />}
         {activeTab === 'accounting' && <AccountingView />}
         {activeTab === 'settings' && <SettingsView />}
@@ -80,8 +93,22 @@ export default function Admin() {
 }
 
 function MenuManager() {
-  const { categories, items, addItem, updateItem, deleteItem, refetch } = useMenuItems();
+  const {
+    categories,
+    items,
+    addItem,
+    updateItem,
+    deleteItem,
+    updateCategory,
+    refetch,
+    getModifierGroups,
+    addModifierGroup,
+    deleteModifierGroup,
+    addModifierOption,
+    deleteModifierOption,
+  } = useMenuItems();
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [modifierItemId, setModifierItemId] = useState<string | null>(null);
   const [newItem, setNewItem] = useState({ name: '', price: '', category_id: '' });
 
   const handleAdd = async () => {
@@ -103,6 +130,12 @@ function MenuManager() {
     } catch { toast.error('Gagal menghapus menu'); }
   };
 
+  const handleStationChange = async (categoryId: string, station: string) => {
+    try {
+      await updateCategory(categoryId, { print_station: (station || null) as PrintStation | null });
+    } catch { toast.error('Gagal mengubah stasiun printer'); }
+  };
+
   return (
     <div className="space-y-6">
       {/* Add New Item */}
@@ -119,6 +152,24 @@ function MenuManager() {
         </div>
       </div>
 
+      {/* Printer Routing */}
+      <div className="bg-card p-4 rounded-xl border border-border">
+        <h3 className="font-semibold mb-1">Stasiun Printer per Kategori</h3>
+        <p className="text-sm text-muted-foreground mb-4">Tiket pesanan tiap kategori dicetak di printer stasiun ini, tanpa harga.</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {categories.map((c) => (
+            <div key={c.id} className="flex items-center justify-between gap-3 p-2 rounded-lg bg-secondary/50">
+              <span className="font-medium">{c.name}</span>
+              <select value={c.print_station || ''} onChange={(e) => handleStationChange(c.id, e.target.value)} className="px-3 py-1.5 rounded-lg bg-secondary border border-border text-sm">
+                <option value="kitchen">Dapur</option>
+                <option value="drinks">Minuman</option>
+                <option value="">Tidak dicetak</option>
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Menu List */}
       <div className="bg-card rounded-xl border border-border overflow-hidden">
         <div className="grid grid-cols-12 gap-4 p-4 bg-secondary font-semibold text-sm">
@@ -128,13 +179,39 @@ function MenuManager() {
           <div className="col-span-2">Aksi</div>
         </div>
         {items.map((item) => (
-          <div key={item.id} className="grid grid-cols-12 gap-4 p-4 border-t border-border items-center">
-            <div className="col-span-5 font-medium">{item.name}</div>
-            <div className="col-span-3 text-muted-foreground">{categories.find(c => c.id === item.category_id)?.name}</div>
-            <div className="col-span-2 text-primary font-semibold">{formatPrice(item.price)}</div>
-            <div className="col-span-2 flex gap-2">
-              <button onClick={() => handleDelete(item.id)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+          <div key={item.id} className="border-t border-border">
+            <div className="grid grid-cols-12 gap-4 p-4 items-center">
+              <div className="col-span-5 font-medium">
+                {item.name}
+                {getModifierGroups(item.id).length > 0 && (
+                  <span className="ml-2 text-xs text-muted-foreground">{getModifierGroups(item.id).length} grup pilihan</span>
+                )}
+              </div>
+              <div className="col-span-3 text-muted-foreground">{categories.find(c => c.id === item.category_id)?.name}</div>
+              <div className="col-span-2 text-primary font-semibold">{formatPrice(item.price)}</div>
+              <div className="col-span-2 flex gap-2">
+                <button
+                  onClick={() => setModifierItemId(modifierItemId === item.id ? null : item.id)}
+                  className={cn("p-2 rounded-lg hover:bg-secondary", modifierItemId === item.id && "bg-secondary text-primary")}
+                  title="Pilihan / Modifier"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(item.id)} className="p-2 text-destructive hover:bg-destructive/10 rounded-lg"><Trash2 className="w-4 h-4" /></button>
+              </div>
             </div>
+            {modifierItemId === item.id && (
+              <div className="px-4 pb-4">
+                <MenuModifierManager
+                  menuItemId={item.id}
+                  groups={getModifierGroups(item.id)}
+                  onAddGroup={addModifierGroup}
+                  onDeleteGroup={deleteModifierGroup}
+                  onAddOption={addModifierOption}
+                  onDeleteOption={deleteModifierOption}
+                />
+              </div>
+            )}
           </div>
         ))}
       </div>
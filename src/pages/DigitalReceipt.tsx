@@ -0,0 +1,82 @@
+import { useParams } from 'react-router-dom';
+import { useDigitalReceipt } from '@/hooks/useDigitalReceipt';
+import { buildReceiptDocument, ReceiptBlock } from '@/utils/receiptDocument';
+import { formatPrice } from '@/utils/receiptPrinter';
+import { Printer, ReceiptText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// The receipt document drawn as a page; the QR block is skipped since the reader is already here
+function ReceiptBlockView({ block }: { block: ReceiptBlock }) {
+  switch (block.type) {
+    case 'logo':
+      return <img src={block.url} alt="" className="mx-auto max-h-20 max-w-[60%] mb-2" />;
+    case 'heading':
+      return <h1 className="text-lg font-bold text-center">{block.text}</h1>;
+    case 'center':
+      return <p className="text-center text-sm text-muted-foreground">{block.text}</p>;
+    case 'rule':
+      return <div className="border-t border-dashed border-border my-3" />;
+    case 'pair':
+    case 'item':
+      return (
+        <div className={cn("flex justify-between gap-4 text-sm", block.type === 'pair' && block.bold && "text-base font-bold")}>
+          <span>{block.label}</span>
+          <span className="whitespace-nowrap">{block.value}</span>
+        </div>
+      );
+    case 'detail':
+      return <p className={cn("pl-4 text-xs text-muted-foreground", block.italic && "italic")}>{block.text}</p>;
+    case 'text':
+      return <p className="text-sm">{block.text}</p>;
+    case 'qr':
+      return null;
+  }
+}
+
+export default function DigitalReceipt() {
+  const { token } = useParams<{ token: string }>();
+  const { data, isLoading, isError } = useDigitalReceipt(token);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-3 p-4 text-muted-foreground">
+        <ReceiptText className="w-16 h-16 opacity-30" />
+        <p>Struk tidak ditemukan</p>
+      </div>
+    );
+  }
+
+  const receiptDocument = buildReceiptDocument(data.receipt, data.settings);
+
+  return (
+    <div className="min-h-screen bg-muted py-8 px-4">
+      <div className="max-w-sm mx-auto space-y-4">
+        <div className="bg-card rounded-2xl border border-border shadow-lg p-6">
+          {data.refundedAmount > 0 && (
+            <div className="mb-4 p-3 rounded-lg bg-destructive/10 text-destructive text-sm text-center">
+              {data.status === 'refunded' ? 'Pesanan ini telah di-refund' : `Refund ${formatPrice(data.refundedAmount)}`}
+            </div>
+          )}
+          {receiptDocument.blocks.map((block, index) => (
+            <ReceiptBlockView key={index} block={block} />
+          ))}
+        </div>
+        <button
+          onClick={() => window.print()}
+          className="w-full py-3 rounded-xl font-medium flex items-center justify-center gap-2 bg-secondary hover:bg-secondary/80 transition-colors print:hidden"
+        >
+          <Printer className="w-4 h-4" />
+          Cetak / Simpan PDF
+        </button>
+      </div>
+    </div>
+  );
+}
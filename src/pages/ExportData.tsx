@@ -16,6 +16,8 @@ const TABLES_TO_EXPORT = [
   { name: 'restaurant_settings', label: 'Pengaturan Restoran' },
   { name: 'orders', label: 'Pesanan' },
   { name: 'order_items', label: 'Item Pesanan' },
+  { name: 'order_splits', label: 'Split Bill' },
+  { name: 'order_payments', label: 'Pembayaran Pesanan' },
   { name: 'daily_reports', label: 'Laporan Harian' },
   { name: 'accounting_entries', label: 'Entri Akuntansi' },
   { name: 'profiles', label: 'Profil Pengguna' },
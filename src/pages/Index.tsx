@@ -1,26 +1,50 @@
 import { useState, useMemo } from 'react';
 import { useMenuItems, MenuItem } from '@/hooks/useMenuItems';
 import { useTables } from '@/hooks/useTables';
-import { useOrders, CartItem } from '@/hooks/useOrders';
+import { useOrders, CartItem, CartModifier, Order, OrderDiscount, PaymentTender, SplitPayment, orderItemToCartItem } from '@/hooks/useOrders';
+import { usePromotions } from '@/hooks/usePromotions';
+import { useRestaurantSettings } from '@/hooks/useRestaurantSettings';
 import { useBluetoothPrinter } from '@/hooks/useBluetoothPrinter';
+import { calculateBillTotals, getChargeLines } from '@/utils/billTotals';
+import { findBestPromotion, getManualDiscountAmount, ManualDiscount } from '@/utils/promotions';
 import { Header } from '@/components/pos/Header';
 import { CategoryTabs } from '@/components/pos/CategoryTabs';
 import { MenuGrid } from '@/components/pos/MenuGrid';
 import { CartPanel } from '@/components/pos/CartPanel';
 import { CheckoutDialog } from '@/components/pos/CheckoutDialog';
 import { OrderHistory } from '@/components/pos/OrderHistory';
+import { TableSelector } from '@/components/pos/TableSelector';
+import { DiscountApprovalDialog } from '@/components/pos/DiscountApprovalDialog';
 import { BluetoothPrinterSettings } from '@/components/pos/BluetoothPrinterSettings';
-import { printReceipt as webPrintReceipt } from '@/utils/receiptPrinter';
+import { CashShiftDialog } from '@/components/pos/CashShiftDialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { useEffect } from 'react';
 
 const Index = () => {
-  const { categories, items, loading: menuLoading } = useMenuItems();
-  const { tables } = useTables();
-  const { todayOrders, createOrder, fetchTodayOrders } = useOrders();
+  const { categories, items, loading: menuLoading, getModifierGroups } = useMenuItems();
+  const { tables, refetch: refetchTables } = useTables();
+  const {
+    todayOrders,
+    openOrders,
+    createOrder,
+    openTableOrder,
+    addOrderItems,
+    settleOrder,
+    holdOrder,
+    cancelHeldOrder,
+    payOrderSplit,
+    fetchTodayOrders,
+    updateOrderNotes,
+    applyOrderDiscount,
+    voidOrder,
+    voidOrderItems,
+    refundOrder,
+  } = useOrders();
+  const { promotions, approvalLimit, verifyApprovalPin } = usePromotions();
+  const { settings: restaurantSettings } = useRestaurantSettings();
   const { fullName, role, user } = useAuth();
-  const bluetoothPrinter = useBluetoothPrinter();
+  const { printStationTickets } = useBluetoothPrinter();
 
   // Fetch orders filtered by role
   useEffect(() => {
@@ -32,7 +56,13 @@ const Index = () => {
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isPrinterSettingsOpen, setIsPrinterSettingsOpen] = useState(false);
+  const [isCashShiftOpen, setIsCashShiftOpen] = useState(false);
+  const [isTableSelectorOpen, setIsTableSelectorOpen] = useState(false);
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
+  const [orderNotes, setOrderNotes] = useState('');
+  const [manualDiscount, setManualDiscount] = useState<ManualDiscount>({ mode: 'amount', value: 0 });
+  const [approval, setApproval] = useState<{ pin: string; approverName: string; amount: number } | null>(null);
+  const [isApprovalOpen, setIsApprovalOpen] = useState(false);
 
   // Set default category when loaded
   useMemo(() => {
@@ -51,15 +81,82 @@ const Index = () => {
     [cart]
   );
 
-  const handleAddItem = (item: MenuItem) => {
+  const selectedTableNumber = selectedTable ? tables.find(t => t.id === selectedTable)?.table_number : null;
+
+  // Open tab of the selected table, if any
+  const activeOrder = useMemo(
+    () => (selectedTable ? openOrders.find(o => o.table_id === selectedTable) ?? null : null),
+    [openOrders, selectedTable]
+  );
+
+  // Items already on the tab plus the new round in the cart
+  const billItems = useMemo<CartItem[]>(() => {
+    const tabItems = activeOrder?.order_items?.map(orderItemToCartItem) || [];
+    return [...tabItems, ...cart];
+  }, [activeOrder, cart]);
+
+  const billSubtotal = (activeOrder?.subtotal || 0) + cartTotal;
+
+  // Best running promotion for the whole bill, recomputed as the cart changes
+  const appliedPromotion = useMemo(() => {
+    const categoryOf = (menuItemId: string) => items.find(item => item.id === menuItemId)?.category_id;
+    return findBestPromotion(promotions, billItems, categoryOf);
+  }, [promotions, billItems, items]);
+
+  const promotionDiscount = appliedPromotion?.amount || 0;
+  const manualDiscountAmount = getManualDiscountAmount(manualDiscount, billSubtotal - promotionDiscount);
+  const billTotals = calculateBillTotals(billSubtotal, promotionDiscount + manualDiscountAmount, restaurantSettings);
+  const billCharges = getChargeLines(billTotals, restaurantSettings);
+  const billTotal = billTotals.total;
+
+  // Admins approve their own discounts; an approval covers any amount up to the approved one
+  const needsApproval = role !== 'admin'
+    && manualDiscountAmount > approvalLimit
+    && !(approval && approval.amount >= manualDiscountAmount);
+
+  const orderDiscount: OrderDiscount = {
+    promotionId: appliedPromotion?.promotion.id,
+    promotionName: appliedPromotion?.promotion.name,
+    promotionDiscount,
+    manualDiscount: manualDiscountAmount,
+    approvalPin: approval?.pin,
+  };
+
+  const resetDiscount = () => {
+    setManualDiscount({ mode: 'amount', value: 0 });
+    setApproval(null);
+  };
+
+  // An open tab brings its own order note; switching tables starts from that note
+  useEffect(() => {
+    setOrderNotes(activeOrder?.notes || '');
+    resetDiscount();
+  }, [activeOrder?.id]);
+
+  const noteForOrder = orderNotes.trim() || undefined;
+
+  // Saves an order note edited after the tab was opened
+  const syncOrderNotes = async (order: Order) => {
+    if ((order.notes || undefined) === noteForOrder) return order;
+    await updateOrderNotes(order.id, noteForOrder ?? null);
+    return { ...order, notes: noteForOrder ?? null };
+  };
+
+  const handleAddItem = (item: MenuItem, modifiers: CartModifier[] = []) => {
+    // The same item with different modifiers gets its own cart line
+    const lineId = modifiers.length > 0
+      ? `${item.id}|${modifiers.map(m => `${m.group_name}:${m.name}`).join('|')}`
+      : item.id;
+    const price = item.price + modifiers.reduce((sum, m) => sum + m.price_delta, 0);
+
     setCart((prev) => {
-      const existingItem = prev.find((i) => i.id === item.id);
+      const existingItem = prev.find((i) => i.id === lineId);
       if (existingItem) {
         return prev.map((i) =>
-          i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i
+          i.id === lineId ? { ...i, quantity: i.quantity + 1 } : i
         );
       }
-      return [...prev, { id: item.id, name: item.name, price: item.price, quantity: 1 }];
+      return [...prev, { id: lineId, menuItemId: item.id, name: item.name, price, quantity: 1, modifiers }];
     });
     toast.success(`${item.name} ditambahkan`, { duration: 1500, position: 'bottom-center' });
   };
@@ -76,62 +173,178 @@ const Index = () => {
     setCart((prev) => prev.filter((item) => item.id !== id));
   };
 
+  const handleUpdateNotes = (id: string, notes: string) => {
+    setCart((prev) => prev.map((item) => (item.id === id ? { ...item, notes: notes || undefined } : item)));
+  };
+
   const handleClearCart = () => {
     setCart([]);
+    if (!activeOrder) {
+      setOrderNotes('');
+      resetDiscount();
+    }
     toast.info('Pesanan dihapus', { position: 'bottom-center' });
   };
 
   const handleCheckout = () => {
-    if (cart.length === 0) return;
+    if (cart.length === 0 && !activeOrder) return;
+    if (needsApproval) {
+      setIsApprovalOpen(true);
+      return;
+    }
     setIsCheckoutOpen(true);
   };
 
-  const handleCompleteOrder = async (paymentMethod: 'cash' | 'transfer' | 'qris', amountPaid: number) => {
+  // Kitchen and bar tickets for lines just sent; printing never holds up the cashier
+  const printTickets = (order: Order, lines: CartItem[]) => {
+    if (lines.length === 0) return;
+    const stationOf = (line: CartItem) => {
+      const categoryId = items.find(i => i.id === line.menuItemId)?.category_id;
+      return categories.find(c => c.id === categoryId)?.print_station ?? null;
+    };
+
+    printStationTickets({
+      orderNumber: order.order_number,
+      cashierName: fullName || 'Kasir',
+      tableNumber: selectedTableNumber ?? undefined,
+      items: lines.map(line => ({
+        name: line.name,
+        quantity: line.quantity,
+        modifiers: line.modifiers,
+        notes: line.notes,
+        station: stationOf(line),
+      })),
+      notes: noteForOrder,
+      timestamp: new Date(),
+    }).then(failed => {
+      if (failed.length > 0) toast.error('Tiket dapur gagal dicetak, cek printer', { position: 'bottom-center' });
+    });
+  };
+
+  // Open a tab on the selected table, or add the cart as a new round to its open tab
+  const handleSendToTable = async () => {
+    if (!selectedTable || cart.length === 0) return;
     try {
       const cashierName = fullName || 'Kasir';
-      const order = await createOrder(cart, selectedTable, paymentMethod, amountPaid, 0, undefined, cashierName);
-
-      const tableNum = selectedTable ? tables.find(t => t.id === selectedTable)?.table_number : undefined;
-
-      const receiptData = {
-        orderNumber: order.order_number,
-        cashierName: fullName || 'Kasir',
-        tableNumber: tableNum,
-        items: cart,
-        subtotal: cartTotal,
-        discount: 0,
-        total: cartTotal,
-        paymentMethod,
-        amountPaid,
-        change: paymentMethod === 'cash' ? amountPaid - cartTotal : 0,
-        timestamp: new Date(),
-      };
-
-      // Try Bluetooth print first, fallback to web print
-      if (bluetoothPrinter.isNative && bluetoothPrinter.isConnected) {
-        const btSuccess = await bluetoothPrinter.printReceipt(receiptData);
-        if (!btSuccess) {
-          // Fallback to web print if Bluetooth fails
-          webPrintReceipt(receiptData);
-        }
+      if (activeOrder) {
+        const order = await addOrderItems(activeOrder.id, cart);
+        // The round is on the tab now; a retry after a later failure must not send it twice
+        setCart([]);
+        printTickets(order, cart);
+        await syncOrderNotes(activeOrder);
       } else {
-        webPrintReceipt(receiptData);
+        const order = await openTableOrder(cart, selectedTable, noteForOrder, cashierName);
+        setCart([]);
+        printTickets(order, cart);
+        refetchTables();
       }
+      toast.success(`Pesanan dikirim ke Meja ${selectedTableNumber}`, { position: 'bottom-center' });
+    } catch (error) {
+      toast.error('Gagal menyimpan pesanan meja');
+    }
+  };
 
-      setCart([]);
-      setSelectedTable(null);
-      setIsCheckoutOpen(false);
-      toast.success('Transaksi berhasil!', { position: 'bottom-center' });
+  // Persists the order; the dialog prints the receipt with the stored order number
+  const handleCompleteOrder = async (payments: PaymentTender[]) => {
+    try {
+      const cashierName = fullName || 'Kasir';
+      if (activeOrder) {
+        // Settling a tab: the last round still in the cart is added before payment
+        if (cart.length > 0) {
+          const order = await addOrderItems(activeOrder.id, cart);
+          // Already on the tab, which now carries the round in the bill total
+          setCart([]);
+          printTickets(order, cart);
+        }
+        await syncOrderNotes(activeOrder);
+        return await settleOrder(activeOrder.id, payments, orderDiscount, cashierName);
+      }
+      const order = await createOrder(cart, selectedTable, payments, orderDiscount, noteForOrder, cashierName);
+      if (order.client_id) {
+        toast.info('Sedang offline: pesanan disimpan di perangkat dan dikirim saat koneksi kembali');
+      }
+      printTickets(order, cart);
+      return order;
     } catch (error) {
       toast.error('Gagal menyimpan transaksi');
+      throw error;
+    }
+  };
+
+  // Split bills are paid share by share against a pending order, so the bill is saved first
+  const handlePrepareSplit = async () => {
+    let heldOrder: Order | null = null;
+    try {
+      const cashierName = fullName || 'Kasir';
+      let order: Order;
+      if (activeOrder) {
+        if (cart.length > 0) {
+          order = await addOrderItems(activeOrder.id, cart);
+          // On the tab now; retrying after a later failure goes through the tab without the round
+          setCart([]);
+        } else {
+          order = activeOrder;
+        }
+        order = await syncOrderNotes(order);
+      } else if (selectedTable) {
+        order = await openTableOrder(cart, selectedTable, noteForOrder, cashierName);
+        setCart([]);
+        refetchTables();
+      } else {
+        order = heldOrder = await holdOrder(cart, noteForOrder, cashierName);
+      }
+      // Tab rounds are stored for good, so the kitchen gets them even if the discount fails
+      if (!heldOrder) printTickets(order, cart);
+      // Shares are split from the discounted total, so the discount is fixed before the first share
+      if (!order.order_payments?.length) {
+        order = await applyOrderDiscount(order.id, orderDiscount);
+      }
+      if (heldOrder) printTickets(order, cart);
+      setCart([]);
+      return order;
+    } catch (error) {
+      // A take-away bill lives only in the cart until it is ready to split, so a retry holds it again
+      if (heldOrder) await cancelHeldOrder(heldOrder.id).catch(() => undefined);
+      toast.error('Gagal menyiapkan split bill');
+      throw error;
     }
   };
 
+  const handlePaySplit = async (orderId: string, split: SplitPayment) => {
+    try {
+      return await payOrderSplit(orderId, split, fullName || 'Kasir');
+    } catch (error) {
+      toast.error('Gagal menyimpan pembayaran bagian');
+      throw error;
+    }
+  };
+
+  // A take-away bill abandoned before its first share is cancelled; table tabs simply stay open
+  const handleCancelSplit = async (order: Order) => {
+    if (order.table_id) return;
+    try {
+      await cancelHeldOrder(order.id);
+    } catch (error) {
+      toast.error('Gagal membatalkan split bill');
+    }
+  };
+
+  const handleOrderFinished = () => {
+    setCart([]);
+    setOrderNotes('');
+    resetDiscount();
+    setSelectedTable(null);
+    setIsCheckoutOpen(false);
+    refetchTables();
+    toast.success('Transaksi berhasil!', { position: 'bottom-center' });
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Header 
         onOpenHistory={() => setIsHistoryOpen(true)} 
         onOpenPrinterSettings={() => setIsPrinterSettingsOpen(true)}
+        onOpenCashShift={() => setIsCashShiftOpen(true)}
         orderCount={todayOrders.length} 
       />
 
@@ -143,38 +356,102 @@ const Index = () => {
             onCategoryChange={setActiveCategory}
           />
           <div className="flex-1 overflow-y-auto no-scrollbar pb-4">
-            <MenuGrid items={filteredItems} onAddItem={handleAddItem} loading={menuLoading} />
+            <MenuGrid
+              items={filteredItems}
+              getModifierGroups={getModifierGroups}
+              onAddItem={handleAddItem}
+              loading={menuLoading}
+            />
           </div>
         </div>
 
         <div className="lg:w-96 h-[45vh] lg:h-auto">
           <CartPanel
             items={cart}
+            billTotal={billTotal}
+            charges={billCharges}
+            promotion={appliedPromotion}
+            manualDiscount={manualDiscount}
+            manualDiscountAmount={manualDiscountAmount}
+            approverName={role === 'admin' ? null : approval?.approverName}
+            needsApproval={needsApproval}
+            onManualDiscountChange={setManualDiscount}
+            onRequestApproval={() => setIsApprovalOpen(true)}
+            tableNumber={selectedTableNumber}
+            openOrder={activeOrder}
+            onOpenTables={() => setIsTableSelectorOpen(true)}
+            onSendToTable={handleSendToTable}
             onUpdateQuantity={handleUpdateQuantity}
             onRemoveItem={handleRemoveItem}
+            onUpdateNotes={handleUpdateNotes}
+            orderNotes={orderNotes}
+            onOrderNotesChange={setOrderNotes}
             onCheckout={handleCheckout}
             onClear={handleClearCart}
           />
         </div>
       </div>
 
+      <DiscountApprovalDialog
+        isOpen={isApprovalOpen}
+        amount={manualDiscountAmount}
+        onClose={() => setIsApprovalOpen(false)}
+        onVerify={verifyApprovalPin}
+        onApproved={(pin, approverName) => {
+          setApproval({ pin, approverName, amount: manualDiscountAmount });
+          setIsApprovalOpen(false);
+          toast.success(`Diskon disetujui oleh ${approverName}`, { position: 'bottom-center' });
+        }}
+      />
+
       <CheckoutDialog
         isOpen={isCheckoutOpen}
         onClose={() => setIsCheckoutOpen(false)}
-        items={cart}
-        total={cartTotal}
+        items={billItems}
+        total={billTotal}
+        discounts={[
+          ...(appliedPromotion ? [{ label: appliedPromotion.promotion.name, amount: promotionDiscount }] : []),
+          ...(manualDiscountAmount > 0 ? [{ label: 'Diskon', amount: manualDiscountAmount }] : []),
+        ]}
+        charges={billCharges}
         tables={tables}
         selectedTable={selectedTable}
         onSelectTable={setSelectedTable}
+        lockTable={!!activeOrder}
         onComplete={handleCompleteOrder}
+        onFinish={handleOrderFinished}
+        onPrepareSplit={handlePrepareSplit}
+        onPaySplit={handlePaySplit}
+        onCancelSplit={handleCancelSplit}
       />
 
-      <OrderHistory isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} orders={todayOrders} />
+      <TableSelector
+        isOpen={isTableSelectorOpen}
+        onClose={() => setIsTableSelectorOpen(false)}
+        tables={tables}
+        openOrders={openOrders}
+        selectedTable={selectedTable}
+        onSelectTable={setSelectedTable}
+      />
+
+      <OrderHistory
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        orders={todayOrders}
+        onVoidOrder={voidOrder}
+        onVoidItems={voidOrderItems}
+        onRefund={refundOrder}
+      />
       
       <BluetoothPrinterSettings 
         isOpen={isPrinterSettingsOpen} 
         onClose={() => setIsPrinterSettingsOpen(false)} 
       />
+
+      <CashShiftDialog
+        isOpen={isCashShiftOpen}
+        onClose={() => setIsCashShiftOpen(false)}
+      />
     </div>
   );
 };
@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useKitchenOrders, KitchenTicket } from '@/hooks/useKitchenOrders';
+import { orderItemToCartItem } from '@/hooks/useOrders';
+import { formatModifiers } from '@/utils/receiptPrinter';
+import { ArrowLeft, ChefHat, Check, LogOut, RotateCcw, Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Minutes a ticket may wait before it turns amber, then red
+const WARN_AFTER_MINUTES = 10;
+const LATE_AFTER_MINUTES = 20;
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const formatTime = (dateString: string) =>
+  new Intl.DateTimeFormat('id-ID', { hour: '2-digit', minute: '2-digit' }).format(new Date(dateString));
+
+export default function Kitchen() {
+  const navigate = useNavigate();
+  const { role, signOut } = useAuth();
+  const { tickets, bumpedTickets, loading, setItemReady, bumpTicket, recallTicket } = useKitchenOrders();
+  const [now, setNow] = useState(Date.now());
+  const [showRecall, setShowRecall] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleToggleItem = async (itemId: string, ready: boolean) => {
+    try {
+      await setItemReady(itemId, ready);
+    } catch { toast.error('Gagal mengubah status item'); }
+  };
+
+  const handleBump = async (ticket: KitchenTicket) => {
+    try {
+      await bumpTicket(ticket.orderId);
+    } catch { toast.error('Gagal menyelesaikan tiket'); }
+  };
+
+  const handleRecall = async (ticket: KitchenTicket) => {
+    try {
+      await recallTicket(ticket.orderId);
+      toast.success(`Tiket #${ticket.orderNumber} dipanggil kembali`);
+    } catch { toast.error('Gagal memanggil kembali tiket'); }
+  };
+
+  const handleLogout = async () => {
+    await signOut();
+    navigate('/auth');
+  };
+
+  const getUrgency = (ticket: KitchenTicket) => {
+    const minutes = (now - new Date(ticket.startedAt).getTime()) / 60000;
+    if (minutes >= LATE_AFTER_MINUTES) return 'late';
+    if (minutes >= WARN_AFTER_MINUTES) return 'warn';
+    return 'normal';
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="flex items-center justify-between p-4 bg-card border-b border-border">
+        <div className="flex items-center gap-4">
+          {role !== 'kitchen' && (
+            <button onClick={() => navigate('/')} className="p-2 hover:bg-secondary rounded-lg transition-colors">
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+          )}
+          <div className="flex items-center gap-3">
+            <ChefHat className="w-6 h-6 text-primary" />
+            <h1 className="text-xl font-bold">Dapur</h1>
+            <span className="px-2 py-0.5 bg-primary text-primary-foreground text-xs font-bold rounded-full">
+              {tickets.length}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowRecall(!showRecall)}
+            className={cn(
+              "flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all",
+              showRecall ? "bg-primary text-primary-foreground" : "bg-secondary hover:bg-secondary/80"
+            )}
+          >
+            <RotateCcw className="w-4 h-4" />
+            Recall
+          </button>
+          {role === 'kitchen' && (
+            <button
+              onClick={handleLogout}
+              className="p-2 text-destructive hover:bg-destructive/10 rounded-lg transition-colors"
+              title="Logout"
+            >
+              <LogOut className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </header>
+
+      {/* Recently bumped */}
+      {showRecall && (
+        <div className="flex gap-2 p-4 bg-card border-b border-border overflow-x-auto">
+          {bumpedTickets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Belum ada tiket selesai</p>
+          ) : bumpedTickets.map(ticket => (
+            <button
+              key={ticket.orderId}
+              onClick={() => handleRecall(ticket)}
+              className="shrink-0 px-4 py-2 rounded-lg bg-secondary hover:bg-secondary/80 text-left"
+            >
+              <div className="font-semibold text-sm">
+                #{ticket.orderNumber} · {ticket.tableNumber ? `Meja ${ticket.tableNumber}` : 'Bawa Pulang'}
+              </div>
+              <div className="text-xs text-muted-foreground">Selesai {formatTime(ticket.bumpedAt!)}</div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Tickets */}
+      <div className="flex-1 p-4">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : tickets.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-24 text-muted-foreground">
+            <ChefHat className="w-16 h-16 mb-3 opacity-30" />
+            <p>Tidak ada pesanan</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 items-start">
+            {tickets.map(ticket => {
+              const urgency = getUrgency(ticket);
+              const allReady = ticket.items.every(item => item.kitchen_ready_at);
+
+              return (
+                <div
+                  key={ticket.orderId}
+                  className={cn(
+                    "bg-card rounded-xl border-2 overflow-hidden animate-scale-in",
+                    urgency === 'late' ? "border-destructive" : urgency === 'warn' ? "border-amber-500" : "border-border"
+                  )}
+                >
+                  <div
+                    className={cn(
+                      "flex items-center justify-between px-4 py-3",
+                      urgency === 'late'
+                        ? "bg-destructive text-destructive-foreground"
+                        : urgency === 'warn'
+                        ? "bg-amber-500 text-black"
+                        : "bg-secondary"
+                    )}
+                  >
+                    <div>
+                      <div className="font-bold text-lg">
+                        {ticket.tableNumber ? `Meja ${ticket.tableNumber}` : 'Bawa Pulang'}
+                      </div>
+                      <div className="text-xs font-mono opacity-80">#{ticket.orderNumber}</div>
+                    </div>
+                    <div className="flex items-center gap-1 font-mono font-bold text-lg">
+                      <Clock className="w-4 h-4" />
+                      {formatElapsed(now - new Date(ticket.startedAt).getTime())}
+                    </div>
+                  </div>
+
+                  <div className="divide-y divide-border">
+                    {ticket.items.map(item => {
+                      const modifiers = formatModifiers(orderItemToCartItem(item).modifiers);
+                      const isReady = !!item.kitchen_ready_at;
+                      return (
+                        <button
+                          key={item.id}
+                          onClick={() => handleToggleItem(item.id, !isReady)}
+                          className={cn(
+                            "w-full flex items-start gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/50",
+                            isReady && "opacity-50"
+                          )}
+                        >
+                          <span
+                            className={cn(
+                              "mt-0.5 w-5 h-5 shrink-0 flex items-center justify-center rounded border-2",
+                              isReady ? "bg-success border-success text-success-foreground" : "border-muted-foreground"
+                            )}
+                          >
+                            {isReady && <Check className="w-3 h-3" />}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <div className={cn("font-semibold", isReady && "line-through")}>
+                              {item.quantity}x {item.menu_item_name}
+                              {item.round_number > 1 && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded bg-primary/20 text-primary text-xs">
+                                  Tambahan {item.round_number - 1}
+                                </span>
+                              )}
+                            </div>
+                            {modifiers && <div className="text-sm text-muted-foreground">{modifiers}</div>}
+                            {item.notes && <div className="text-sm italic text-accent">"{item.notes}"</div>}
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  {ticket.notes && (
+                    <p className="px-4 py-2 text-sm italic text-muted-foreground border-t border-border">
+                      Catatan: {ticket.notes}
+                    </p>
+                  )}
+
+                  <button
+                    onClick={() => handleBump(ticket)}
+                    className={cn(
+                      "w-full py-3 font-bold transition-all active:scale-95",
+                      allReady
+                        ? "bg-success text-success-foreground hover:bg-success/90"
+                        : "bg-primary text-primary-foreground hover:bg-primary/90"
+                    )}
+                  >
+                    Selesai
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+export interface TaxSettings {
+  tax_rate: number;
+  service_charge_rate: number;
+  prices_include_tax: boolean;
+  rounding_unit: number;
+  rounding_mode: 'nearest' | 'up' | 'down';
+}
+
+export interface BillTotals {
+  subtotal: number;
+  discount: number;
+  serviceCharge: number;
+  tax: number;
+  rounding: number;
+  total: number;
+}
+
+const roundTotal = (total: number, settings?: TaxSettings | null) => {
+  const unit = settings?.rounding_unit || 0;
+  if (unit <= 0) return total;
+  if (settings?.rounding_mode === 'up') return Math.ceil(total / unit) * unit;
+  if (settings?.rounding_mode === 'down') return Math.floor(total / unit) * unit;
+  return Math.round(total / unit) * unit;
+};
+
+// Service charge, PB1 and rounding for a bill. Mirrors recalculate_order_totals in the
+// database so the cart shows exactly what the order will be saved with.
+export function calculateBillTotals(subtotal: number, discount: number, settings?: TaxSettings | null): BillTotals {
+  const net = Math.max(subtotal - discount, 0);
+  const taxRate = Number(settings?.tax_rate || 0);
+  const serviceRate = Number(settings?.service_charge_rate || 0);
+
+  let serviceCharge: number;
+  let tax: number;
+  let total: number;
+
+  if (settings?.prices_include_tax) {
+    // Menu prices already contain tax and service; split them out for the receipt
+    tax = net - Math.round(net / (1 + taxRate / 100));
+    serviceCharge = (net - tax) - Math.round((net - tax) / (1 + serviceRate / 100));
+    total = net;
+  } else {
+    serviceCharge = Math.round(net * serviceRate / 100);
+    tax = Math.round((net + serviceCharge) * taxRate / 100);
+    total = net + serviceCharge + tax;
+  }
+
+  const rounded = roundTotal(total, settings);
+
+  return {
+    subtotal,
+    discount,
+    serviceCharge,
+    tax,
+    rounding: rounded - total,
+    total: rounded,
+  };
+}
+
+// Charge lines for summaries and receipts, e.g. "PB1 (10%)"; inclusive amounts are marked as such
+export function getChargeLines(
+  totals: Pick<BillTotals, 'serviceCharge' | 'tax' | 'rounding'>,
+  settings?: Pick<TaxSettings, 'tax_rate' | 'service_charge_rate' | 'prices_include_tax'> | null
+): { label: string; amount: number }[] {
+  const included = settings?.prices_include_tax ? ' (termasuk)' : '';
+  const lines: { label: string; amount: number }[] = [];
+  if (totals.serviceCharge) {
+    lines.push({ label: `Service ${Number(settings?.service_charge_rate || 0)}%${included}`, amount: totals.serviceCharge });
+  }
+  if (totals.tax) {
+    lines.push({ label: `PB1 ${Number(settings?.tax_rate || 0)}%${included}`, amount: totals.tax });
+  }
+  if (totals.rounding) {
+    lines.push({ label: 'Pembulatan', amount: totals.rounding });
+  }
+  return lines;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { createEscPosEncoder, encodeText, type RasterImage } from './escpos';
+
+// Snapshots hold the bytes as hex, one command sequence per test
+const hex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(' ');
+
+// Everything after the ESC @ / ESC t sequence every encoder starts with
+const body = (bytes: Uint8Array) => hex(bytes.slice(5));
+
+describe('createEscPosEncoder', () => {
+  it('starts with ESC @ and the code page', () => {
+    expect(hex(createEscPosEncoder().encode())).toBe('1b 40 1b 74 00');
+    expect(hex(createEscPosEncoder({ codePage: 'cp858' }).encode())).toBe('1b 40 1b 74 13');
+  });
+
+  it('encodes alignment', () => {
+    const bytes = createEscPosEncoder().align('left').align('center').align('right').encode();
+    expect(body(bytes)).toMatchSnapshot();
+  });
+
+  it('encodes bold, underline, invert and font', () => {
+    const bytes = createEscPosEncoder()
+      .bold().text('B').bold(false)
+      .underline().underline(2).underline(false)
+      .invert().invert(false)
+      .font('B').font('A')
+      .encode();
+    expect(body(bytes)).toMatchSnapshot();
+  });
+
+  it('encodes character size and narrows the line', () => {
+    const encoder = createEscPosEncoder({ paperWidth: 80 }).size(2).size(3, 1);
+    expect(encoder.lineWidth).toBe(16);
+    expect(body(encoder.size(9, 0).encode())).toMatchSnapshot();
+  });
+
+  it('lays out rules, pairs and wrapped text on 58 mm paper', () => {
+    const bytes = createEscPosEncoder()
+      .rule()
+      .pair('Total', 'Rp 25.000')
+      .wrap('Nasi rendang dengan sambal hijau dan perkedel kentang', 2)
+      .encode();
+    expect(body(bytes)).toMatchSnapshot();
+  });
+
+  it('encodes cuts, feeds and the cash drawer pulse', () => {
+    const bytes = createEscPosEncoder()
+      .feed(2)
+      .cut()
+      .cut(true)
+      .feedCut()
+      .feedCut(5, true)
+      .pulse()
+      .encode();
+    expect(body(bytes)).toMatchSnapshot();
+  });
+
+  it('switches the code page for text that follows', () => {
+    const bytes = createEscPosEncoder().text('café').codePage('cp1252').text('café €5').encode();
+    expect(body(bytes)).toMatchSnapshot();
+  });
+
+  it('encodes a QR code with its length in the store command', () => {
+    const bytes = createEscPosEncoder().qr('https://example.com/r/abc', { size: 5, errorLevel: 'Q' }).encode();
+    expect(body(bytes)).toMatchSnapshot();
+  });
+
+  it('encodes a CODE128 barcode in code set B', () => {
+    const bytes = createEscPosEncoder().barcode('CODE128', 'INV-0042', { height: 60, text: 'none' }).encode();
+    expect(body(bytes)).toMatchSnapshot();
+  });
+
+  it('rasterises dark, opaque pixels and pads rows to whole bytes', () => {
+    // 10 x 2: a black column at x = 0 and x = 9, a transparent black pixel at x = 1
+    const width = 10;
+    const height = 2;
+    const data = new Array(width * height * 4).fill(255);
+    for (let y = 0; y < height; y++) {
+      for (const x of [0, 1, 9]) {
+        const offset = (y * width + x) * 4;
+        data[offset] = data[offset + 1] = data[offset + 2] = 0;
+        if (x === 1) data[offset + 3] = 0;
+      }
+    }
+    const image: RasterImage = { width, height, data };
+
+    const bytes = createEscPosEncoder().image(image).encode();
+    expect(body(bytes)).toMatchSnapshot();
+  });
+
+  it('crops raster images wider than the paper', () => {
+    const image: RasterImage = { width: 400, height: 1, data: new Array(400 * 4).fill(0).map((_, i) => (i % 4 === 3 ? 255 : 0)) };
+    const bytes = createEscPosEncoder({ paperWidth: 58 }).image(image).encode();
+    expect(bytes.length).toBe(5 + 8 + 48);
+    expect(hex(bytes.slice(5, 13))).toBe('1d 76 30 00 30 00 01 00');
+  });
+});
+
+describe('encodeText', () => {
+  it('maps characters to the code page and falls back to ASCII or ?', () => {
+    expect(encodeText('Rp 10.000')).toEqual(Array.from('Rp 10.000', c => c.charCodeAt(0)));
+    expect(encodeText('é', 'cp437')).toEqual([0x82]);
+    expect(encodeText('€', 'cp858')).toEqual([0xd5]);
+    expect(encodeText('€', 'cp437')).toEqual([0x3f]);
+    expect(encodeText('ő', 'cp437')).toEqual([0x6f]);
+  });
+});
@@ -0,0 +1,345 @@
+// ESC/POS command encoder for thermal receipt printers. Pure TypeScript with no DOM or
+// plugin dependencies: every call appends bytes and encode() returns what goes over the wire.
+
+export type PaperWidth = 58 | 80;
+export type CodePage = 'cp437' | 'cp850' | 'cp858' | 'cp1252';
+export type TextAlign = 'left' | 'center' | 'right';
+export type BarcodeType = 'UPC_A' | 'UPC_E' | 'EAN13' | 'EAN8' | 'CODE39' | 'ITF' | 'CODABAR' | 'CODE93' | 'CODE128';
+export type QrErrorLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface Column {
+  text: string;
+  // Characters; columns without a width share what is left of the line
+  width?: number;
+  align?: TextAlign;
+}
+
+// ImageData-compatible RGBA bitmap, e.g. from a canvas
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+// Characters per line in font A
+export const PAPER_COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+// Printable dots per line, for sizing raster images
+export const PAPER_DOTS: Record<PaperWidth, number> = { 58: 384, 80: 576 };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Characters 0x80-0xFF of each code page
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+const CP850_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0';
+// cp858 is cp850 with the euro sign in place of the dotless i
+const CP858_HIGH = CP850_HIGH.slice(0, 0x55) + '€' + CP850_HIGH.slice(0x56);
+// cp1252 matches Latin-1 above 0xA0; 0x80-0x9F holds typographic extras
+const CP1252_HIGH =
+  '€\ufffd‚ƒ„…†‡ˆ‰Š‹Œ\ufffdŽ\ufffd\ufffd‘’“”•–—˜™š›œ\ufffdžŸ' +
+  Array.from({ length: 0x60 }, (_, i) => String.fromCharCode(0xa0 + i)).join('');
+
+// Table number for ESC t as used by Epson-compatible printers
+const CODE_PAGES: Record<CodePage, { table: number; high: string }> = {
+  cp437: { table: 0, high: CP437_HIGH },
+  cp850: { table: 2, high: CP850_HIGH },
+  cp858: { table: 19, high: CP858_HIGH },
+  cp1252: { table: 16, high: CP1252_HIGH },
+};
+
+const BARCODE_TYPES: Record<BarcodeType, number> = {
+  UPC_A: 65,
+  UPC_E: 66,
+  EAN13: 67,
+  EAN8: 68,
+  CODE39: 69,
+  ITF: 70,
+  CODABAR: 71,
+  CODE93: 72,
+  CODE128: 73,
+};
+
+const QR_ERROR_LEVELS: Record<QrErrorLevel, number> = { L: 48, M: 49, Q: 50, H: 51 };
+
+const ALIGN: Record<TextAlign, number> = { left: 0, center: 1, right: 2 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+// Characters missing from the code page fall back to their unaccented form, then '?'
+export function encodeText(text: string, codePage: CodePage = 'cp437'): number[] {
+  const high = CODE_PAGES[codePage].high;
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '\n' || char === '\t' || (code >= 0x20 && code < 0x7f)) {
+      bytes.push(code);
+      continue;
+    }
+    const index = high.indexOf(char);
+    if (index >= 0) {
+      bytes.push(0x80 + index);
+      continue;
+    }
+    const base = char.normalize('NFKD').replace(/[^\x20-\x7e]/g, '');
+    if (base) {
+      bytes.push(...Array.from(base, c => c.charCodeAt(0)));
+    } else if (code >= 0x20) {
+      bytes.push(0x3f);
+    }
+  }
+
+  return bytes;
+}
+
+// Pads or cuts text to exactly `width` characters
+export function fitText(text: string, width: number, align: TextAlign = 'left'): string {
+  if (width <= 0) return '';
+  const chars = Array.from(text);
+  if (chars.length >= width) return chars.slice(0, width).join('');
+  const space = width - chars.length;
+  if (align === 'right') return ' '.repeat(space) + text;
+  if (align === 'center') return ' '.repeat(Math.floor(space / 2)) + text + ' '.repeat(Math.ceil(space / 2));
+  return text + ' '.repeat(space);
+}
+
+// Lays cells out on one line; the first flexible column absorbs rounding
+export function layoutColumns(columns: Column[], lineWidth: number): string {
+  const fixed = columns.reduce((sum, column) => sum + (column.width || 0), 0);
+  const flexible = columns.filter(column => !column.width).length;
+  const share = flexible > 0 ? Math.max(0, lineWidth - fixed) / flexible : 0;
+  let extra = flexible > 0 ? Math.max(0, lineWidth - fixed) - Math.floor(share) * flexible : 0;
+
+  return columns.map(column => {
+    let width = column.width || Math.floor(share);
+    if (!column.width && extra > 0) {
+      width += extra;
+      extra = 0;
+    }
+    return fitText(column.text, width, column.align);
+  }).join('');
+}
+
+// Splits text into lines of at most `width` characters, breaking on spaces where possible
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      let rest = word;
+      while (Array.from(rest).length > width) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(Array.from(rest).slice(0, width).join(''));
+        rest = Array.from(rest).slice(width).join('');
+      }
+      if (!line) {
+        line = rest;
+      } else if (Array.from(line).length + 1 + Array.from(rest).length <= width) {
+        line += ' ' + rest;
+      } else {
+        lines.push(line);
+        line = rest;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export function createEscPosEncoder(options: { paperWidth?: PaperWidth; codePage?: CodePage } = {}) {
+  const paperWidth = options.paperWidth ?? 58;
+  const columns = PAPER_COLUMNS[paperWidth];
+  const bytes: number[] = [];
+  let codePage: CodePage = options.codePage ?? 'cp437';
+  let widthScale = 1;
+
+  const push = (...data: number[]) => {
+    for (const byte of data) bytes.push(byte & 0xff);
+  };
+
+  const encoder = {
+    paperWidth,
+
+    // Characters that fit on a line with the current character size
+    get lineWidth() {
+      return Math.floor(columns / widthScale);
+    },
+
+    // ESC @ resets formatting, then the code page is selected again
+    initialize() {
+      push(ESC, 0x40);
+      widthScale = 1;
+      return encoder.codePage(codePage);
+    },
+
+    codePage(page: CodePage) {
+      codePage = page;
+      push(ESC, 0x74, CODE_PAGES[page].table);
+      return encoder;
+    },
+
+    align(align: TextAlign) {
+      push(ESC, 0x61, ALIGN[align]);
+      return encoder;
+    },
+
+    bold(enabled = true) {
+      push(ESC, 0x45, enabled ? 1 : 0);
+      return encoder;
+    },
+
+    underline(enabled: boolean | 2 = true) {
+      push(ESC, 0x2d, enabled === 2 ? 2 : enabled ? 1 : 0);
+      return encoder;
+    },
+
+    invert(enabled = true) {
+      push(GS, 0x42, enabled ? 1 : 0);
+      return encoder;
+    },
+
+    // Font A is the default 12x24 font; font B is the condensed 9x17 one
+    font(font: 'A' | 'B') {
+      push(ESC, 0x4d, font === 'B' ? 1 : 0);
+      return encoder;
+    },
+
+    // Character magnification, 1-8 in each direction
+    size(width = 1, height = width) {
+      const w = clamp(width, 1, 8);
+      const h = clamp(height, 1, 8);
+      widthScale = w;
+      push(GS, 0x21, ((w - 1) << 4) | (h - 1));
+      return encoder;
+    },
+
+    text(value: string) {
+      push(...encodeText(value, codePage));
+      return encoder;
+    },
+
+    line(value = '') {
+      return encoder.text(value).newline();
+    },
+
+    newline(count = 1) {
+      for (let i = 0; i < count; i++) push(LF);
+      return encoder;
+    },
+
+    // Long text broken over several lines at word boundaries
+    wrap(value: string, indent = 0) {
+      const pad = ' '.repeat(indent);
+      for (const line of wrapText(value, encoder.lineWidth - indent)) {
+        encoder.line(pad + line);
+      }
+      return encoder;
+    },
+
+    rule(char = '-') {
+      return encoder.line(char.repeat(encoder.lineWidth));
+    },
+
+    columns(cells: Column[]) {
+      return encoder.line(layoutColumns(cells, encoder.lineWidth));
+    },
+
+    // Label on the left, value flush right
+    pair(left: string, right: string) {
+      const rightWidth = Math.min(Array.from(right).length, encoder.lineWidth);
+      return encoder.columns([
+        { text: left },
+        { text: right, width: rightWidth, align: 'right' },
+      ]);
+    },
+
+    qr(data: string, options: { size?: number; errorLevel?: QrErrorLevel } = {}) {
+      const payload = encodeText(data, codePage);
+      const length = payload.length + 3;
+      // Model 2, module size, error correction, store, print
+      push(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, clamp(options.size ?? 6, 1, 16));
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, QR_ERROR_LEVELS[options.errorLevel ?? 'M']);
+      push(GS, 0x28, 0x6b, length & 0xff, (length >> 8) & 0xff, 0x31, 0x50, 0x30, ...payload);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30);
+      return encoder;
+    },
+
+    barcode(type: BarcodeType, data: string, options: { height?: number; width?: number; text?: 'none' | 'above' | 'below' | 'both' } = {}) {
+      // CODE128 needs a code set; code B covers printable ASCII
+      const payload = encodeText(type === 'CODE128' && !data.startsWith('{') ? `{B${data}` : data, codePage);
+      const hri = { none: 0, above: 1, below: 2, both: 3 }[options.text ?? 'below'];
+      push(GS, 0x68, clamp(options.height ?? 80, 1, 255));
+      push(GS, 0x77, clamp(options.width ?? 2, 2, 6));
+      push(GS, 0x48, hri);
+      push(GS, 0x6b, BARCODE_TYPES[type], payload.length, ...payload);
+      return encoder;
+    },
+
+    // GS v 0 raster; dark, opaque pixels print black. Wider images are cropped to the paper.
+    image(image: RasterImage, threshold = 128) {
+      const width = Math.min(image.width, PAPER_DOTS[paperWidth]);
+      const bytesPerRow = Math.ceil(width / 8);
+      push(GS, 0x76, 0x30, 0x00, bytesPerRow & 0xff, (bytesPerRow >> 8) & 0xff, image.height & 0xff, (image.height >> 8) & 0xff);
+
+      for (let y = 0; y < image.height; y++) {
+        for (let byteIndex = 0; byteIndex < bytesPerRow; byteIndex++) {
+          let byte = 0;
+          for (let bit = 0; bit < 8; bit++) {
+            const x = byteIndex * 8 + bit;
+            if (x >= width) continue;
+            const offset = (y * image.width + x) * 4;
+            const luminance = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+            if (image.data[offset + 3] > 127 && luminance < threshold) {
+              byte |= 0x80 >> bit;
+            }
+          }
+          push(byte);
+        }
+      }
+      return encoder;
+    },
+
+    feed(lines = 1) {
+      push(ESC, 0x64, clamp(lines, 0, 255));
+      return encoder;
+    },
+
+    cut(partial = false) {
+      push(GS, 0x56, partial ? 1 : 0);
+      return encoder;
+    },
+
+    // Feeds the paper past the cutter before cutting
+    feedCut(lines = 3, partial = false) {
+      push(GS, 0x56, partial ? 66 : 65, clamp(lines, 0, 255));
+      return encoder;
+    },
+
+    // Kick pulse for a cash drawer on connector pin 2
+    pulse(on = 25, off = 250) {
+      push(ESC, 0x70, 0x00, clamp(on, 0, 255), clamp(off, 0, 255));
+      return encoder;
+    },
+
+    raw(data: ArrayLike<number>) {
+      push(...Array.from(data));
+      return encoder;
+    },
+
+    encode() {
+      return Uint8Array.from(bytes);
+    },
+  };
+
+  return encoder.initialize();
+}
+
+export type EscPosEncoder = ReturnType<typeof createEscPosEncoder>;
@@ -0,0 +1,252 @@
+import { differenceInCalendarDays, endOfMonth, isSameDay, startOfMonth, subDays, subMonths } from 'date-fns';
+import type { AccountType } from '@/hooks/useLedger';
+
+// Shape returned by the ledger_summary RPC
+export interface LedgerSummaryAccount {
+  account_id: string;
+  code: string;
+  name: string;
+  account_type: AccountType;
+  opening: number; // debit minus credit before the period
+  debit: number;
+  credit: number;
+}
+
+export interface CashFlowSource {
+  source_type: string;
+  cash_in: number;
+  cash_out: number;
+}
+
+export interface LedgerSummary {
+  accounts: LedgerSummaryAccount[];
+  cash_flows: CashFlowSource[];
+}
+
+export interface StatementPeriod {
+  from: Date;
+  to: Date;
+}
+
+export type StatementLineKind = 'heading' | 'item' | 'subtotal' | 'total';
+
+export interface StatementLine {
+  label: string;
+  kind: StatementLineKind;
+  current: number;
+  previous: number;
+}
+
+export interface FinancialStatement {
+  id: 'profit-loss' | 'balance-sheet' | 'cash-flow';
+  title: string;
+  lines: StatementLine[];
+}
+
+export const CASH_ACCOUNT_CODES = ['1101', '1102', '1103'];
+
+// A whole month compares with the month before; any other range with the same number of
+// days just before it
+export function previousPeriod({ from, to }: StatementPeriod): StatementPeriod {
+  if (isSameDay(from, startOfMonth(from)) && isSameDay(to, endOfMonth(from))) {
+    const previousMonth = subMonths(from, 1);
+    return { from: startOfMonth(previousMonth), to: endOfMonth(previousMonth) };
+  }
+  const days = differenceInCalendarDays(to, from) + 1;
+  return { from: subDays(from, days), to: subDays(from, 1) };
+}
+
+const closing = (account: LedgerSummaryAccount) => account.opening + account.debit - account.credit;
+const movement = (account: LedgerSummaryAccount) => account.debit - account.credit;
+
+// Builds lines for accounts present in either period, skipping those with nothing to show
+function accountLines(
+  current: LedgerSummaryAccount[],
+  previous: LedgerSummaryAccount[],
+  value: (account: LedgerSummaryAccount) => number,
+): StatementLine[] {
+  return current
+    .map(account => {
+      const before = previous.find(p => p.account_id === account.account_id);
+      return {
+        label: `${account.code} ${account.name}`,
+        kind: 'item' as const,
+        current: value(account),
+        previous: before ? value(before) : 0,
+      };
+    })
+    .filter(line => line.current !== 0 || line.previous !== 0);
+}
+
+const sumLines = (label: string, kind: StatementLineKind, lines: StatementLine[]): StatementLine => ({
+  label,
+  kind,
+  current: lines.reduce((sum, line) => sum + line.current, 0),
+  previous: lines.reduce((sum, line) => sum + line.previous, 0),
+});
+
+const heading = (label: string): StatementLine => ({ label, kind: 'heading', current: 0, previous: 0 });
+
+const byType = (summary: LedgerSummary, type: AccountType, codePrefix?: string) =>
+  summary.accounts.filter(a => a.account_type === type && (!codePrefix || a.code.startsWith(codePrefix)));
+
+function buildProfitAndLoss(current: LedgerSummary, previous: LedgerSummary): FinancialStatement {
+  const revenue = accountLines(byType(current, 'revenue'), byType(previous, 'revenue'), a => -movement(a));
+  const cogs = accountLines(byType(current, 'expense', '5'), byType(previous, 'expense', '5'), movement);
+  const expenses = accountLines(
+    current.accounts.filter(a => a.account_type === 'expense' && !a.code.startsWith('5')),
+    previous.accounts.filter(a => a.account_type === 'expense' && !a.code.startsWith('5')),
+    movement,
+  );
+
+  const totalRevenue = sumLines('Total Pendapatan', 'subtotal', revenue);
+  const totalCogs = sumLines('Total HPP', 'subtotal', cogs);
+  const totalExpenses = sumLines('Total Beban', 'subtotal', expenses);
+  const grossProfit: StatementLine = {
+    label: 'Laba Kotor',
+    kind: 'subtotal',
+    current: totalRevenue.current - totalCogs.current,
+    previous: totalRevenue.previous - totalCogs.previous,
+  };
+
+  return {
+    id: 'profit-loss',
+    title: 'Laba Rugi',
+    lines: [
+      heading('Pendapatan'),
+      ...revenue,
+      totalRevenue,
+      heading('Harga Pokok Penjualan'),
+      ...cogs,
+      totalCogs,
+      grossProfit,
+      heading('Beban Operasional'),
+      ...expenses,
+      totalExpenses,
+      {
+        label: 'Laba Bersih',
+        kind: 'total',
+        current: grossProfit.current - totalExpenses.current,
+        previous: grossProfit.previous - totalExpenses.previous,
+      },
+    ],
+  };
+}
+
+// Positions at the end of each period. Revenue and expenses not yet closed into equity show
+// up as retained earnings so that both sides agree.
+function buildBalanceSheet(current: LedgerSummary, previous: LedgerSummary): FinancialStatement {
+  const assets = accountLines(byType(current, 'asset'), byType(previous, 'asset'), closing);
+  const liabilities = accountLines(byType(current, 'liability'), byType(previous, 'liability'), a => -closing(a));
+  const equity = accountLines(byType(current, 'equity'), byType(previous, 'equity'), a => -closing(a));
+
+  const retained = (summary: LedgerSummary) => -summary.accounts
+    .filter(a => a.account_type === 'revenue' || a.account_type === 'expense')
+    .reduce((sum, a) => sum + closing(a), 0);
+  const retainedEarnings: StatementLine = {
+    label: 'Laba Ditahan',
+    kind: 'item',
+    current: retained(current),
+    previous: retained(previous),
+  };
+
+  const totalLiabilities = sumLines('Total Kewajiban', 'subtotal', liabilities);
+  const totalEquity = sumLines('Total Ekuitas', 'subtotal', [...equity, retainedEarnings]);
+
+  return {
+    id: 'balance-sheet',
+    title: 'Neraca',
+    lines: [
+      heading('Aset'),
+      ...assets,
+      sumLines('Total Aset', 'total', assets),
+      heading('Kewajiban'),
+      ...liabilities,
+      totalLiabilities,
+      heading('Ekuitas'),
+      ...equity,
+      retainedEarnings,
+      totalEquity,
+      sumLines('Total Kewajiban dan Ekuitas', 'total', [totalLiabilities, totalEquity]),
+    ],
+  };
+}
+
+// Cash put into the drawer is the owner's money; every other flow comes from running the warung
+const OPERATING_FLOWS: { label: string; source_type: string; amount: (flow: CashFlowSource) => number }[] = [
+  { label: 'Penerimaan penjualan', source_type: 'order', amount: f => f.cash_in - f.cash_out },
+  { label: 'Void penjualan', source_type: 'order_void', amount: f => f.cash_in - f.cash_out },
+  { label: 'Refund', source_type: 'order_refund', amount: f => f.cash_in - f.cash_out },
+  { label: 'Pembayaran supplier', source_type: 'supplier_payment', amount: f => f.cash_in - f.cash_out },
+  { label: 'Biaya operasional', source_type: 'expense', amount: f => f.cash_in - f.cash_out },
+  { label: 'Kas keluar laci', source_type: 'cash_movement', amount: f => -f.cash_out },
+  { label: 'Jurnal penyesuaian', source_type: 'adjustment', amount: f => f.cash_in - f.cash_out },
+];
+
+function buildCashFlow(current: LedgerSummary, previous: LedgerSummary): FinancialStatement {
+  const openingCash = (summary: LedgerSummary) => summary.accounts
+    .filter(a => CASH_ACCOUNT_CODES.includes(a.code))
+    .reduce((sum, a) => sum + a.opening, 0);
+  const flowOf = (summary: LedgerSummary, sourceType: string) =>
+    summary.cash_flows.find(f => f.source_type === sourceType) ?? { source_type: sourceType, cash_in: 0, cash_out: 0 };
+
+  const known = OPERATING_FLOWS.map(f => f.source_type);
+  const otherSources = [...new Set([...current.cash_flows, ...previous.cash_flows].map(f => f.source_type))]
+    .filter(sourceType => !known.includes(sourceType));
+
+  const operating = [
+    ...OPERATING_FLOWS.map(flow => ({
+      label: flow.label,
+      kind: 'item' as const,
+      current: flow.amount(flowOf(current, flow.source_type)),
+      previous: flow.amount(flowOf(previous, flow.source_type)),
+    })),
+    ...otherSources.map(sourceType => ({
+      label: `Lainnya (${sourceType})`,
+      kind: 'item' as const,
+      current: flowOf(current, sourceType).cash_in - flowOf(current, sourceType).cash_out,
+      previous: flowOf(previous, sourceType).cash_in - flowOf(previous, sourceType).cash_out,
+    })),
+  ].filter(line => line.current !== 0 || line.previous !== 0);
+
+  const financing = [{
+    label: 'Setoran modal (kas masuk laci)',
+    kind: 'item' as const,
+    current: flowOf(current, 'cash_movement').cash_in,
+    previous: flowOf(previous, 'cash_movement').cash_in,
+  }].filter(line => line.current !== 0 || line.previous !== 0);
+
+  const netOperating = sumLines('Kas Bersih dari Operasional', 'subtotal', operating);
+  const netFinancing = sumLines('Kas Bersih dari Pendanaan', 'subtotal', financing);
+  const netChange = sumLines('Kenaikan (Penurunan) Kas', 'total', [netOperating, netFinancing]);
+  const opening: StatementLine = {
+    label: 'Saldo Kas Awal',
+    kind: 'item',
+    current: openingCash(current),
+    previous: openingCash(previous),
+  };
+
+  return {
+    id: 'cash-flow',
+    title: 'Arus Kas',
+    lines: [
+      heading('Arus Kas Operasional'),
+      ...operating,
+      netOperating,
+      heading('Arus Kas Pendanaan'),
+      ...financing,
+      netFinancing,
+      netChange,
+      opening,
+      sumLines('Saldo Kas Akhir', 'total', [opening, netChange]),
+    ],
+  };
+}
+
+export function buildFinancialStatements(current: LedgerSummary, previous: LedgerSummary): FinancialStatement[] {
+  return [
+    buildProfitAndLoss(current, previous),
+    buildBalanceSheet(current, previous),
+    buildCashFlow(current, previous),
+  ];
+}
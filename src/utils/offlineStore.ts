@@ -0,0 +1,76 @@
+import type { Database } from '@/integrations/supabase/types';
+
+// IndexedDB storage for working without a connection: the last known menu, tables and
+// settings, plus orders taken offline that still have to reach the server.
+
+const DB_NAME = 'eppos-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'order_queue';
+
+export type CacheKey = 'menu' | 'tables' | 'restaurant_settings';
+
+export interface QueuedOrder {
+  clientId: string;
+  // Order of capture; the queue is replayed in this order
+  queuedAt: number;
+  payload: Database['public']['Functions']['sync_offline_order']['Args'];
+  orderNumber: string;
+  total: number;
+  // Last rejection from the server; the order is held back until it is sent again or discarded
+  error?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'clientId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readCache = <T>(key: CacheKey) =>
+  run<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+
+export const writeCache = (key: CacheKey, value: unknown) =>
+  run<IDBValidKey>(CACHE_STORE, 'readwrite', store => store.put(value, key));
+
+export const getQueuedOrders = async () => {
+  const orders = await run<QueuedOrder[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+  return orders.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const putQueuedOrder = (order: QueuedOrder) =>
+  run<IDBValidKey>(QUEUE_STORE, 'readwrite', store => store.put(order));
+
+export const removeQueuedOrder = (clientId: string) =>
+  run<undefined>(QUEUE_STORE, 'readwrite', store => store.delete(clientId));
+
+// supabase-js reports an unreachable server as a failed fetch rather than throwing
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string } | null)?.message || '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
@@ -0,0 +1,126 @@
+import { CartItem } from '@/hooks/useOrders';
+import { Promotion } from '@/hooks/usePromotions';
+import { formatPrice } from '@/utils/receiptPrinter';
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  amount: number;
+}
+
+export interface ManualDiscount {
+  mode: 'amount' | 'percent';
+  value: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Date range and happy-hour window, both in local time. A window ending before
+// it starts (e.g. 22:00 - 02:00) runs past midnight.
+export function isPromotionActive(promotion: Promotion, now: Date = new Date()): boolean {
+  if (!promotion.is_active) return false;
+
+  const today = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  if (promotion.start_date && today < promotion.start_date) return false;
+  if (promotion.end_date && today > promotion.end_date) return false;
+
+  if (promotion.start_time && promotion.end_time) {
+    const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    const start = promotion.start_time.slice(0, 5);
+    const end = promotion.end_time.slice(0, 5);
+    const inWindow = start <= end
+      ? time >= start && time < end
+      : time >= start || time < end;
+    if (!inWindow) return false;
+  }
+
+  return true;
+}
+
+// Discount a promotion gives on the bill, 0 when it does not apply.
+// Fixed amounts are per unit for item/category promotions and once per order otherwise;
+// buy X get Y makes the cheapest Y of every X + Y eligible units free.
+export function getPromotionDiscount(
+  promotion: Promotion,
+  lines: CartItem[],
+  getCategoryId: (menuItemId: string) => string | null | undefined
+): number {
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  if (subtotal < promotion.min_spend) return 0;
+
+  const eligible = lines.filter(line => {
+    const menuItemId = line.menuItemId ?? line.id;
+    if (promotion.scope === 'item') return menuItemId === promotion.menu_item_id;
+    if (promotion.scope === 'category') return getCategoryId(menuItemId) === promotion.category_id;
+    return true;
+  });
+
+  const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const eligibleUnits = eligible.reduce((sum, line) => sum + line.quantity, 0);
+  if (eligibleSubtotal <= 0) return 0;
+
+  let discount = 0;
+  if (promotion.promo_type === 'percent') {
+    discount = Math.floor(eligibleSubtotal * promotion.value / 100);
+  } else if (promotion.promo_type === 'fixed') {
+    discount = promotion.scope === 'order' ? promotion.value : promotion.value * eligibleUnits;
+  } else {
+    const buy = promotion.buy_quantity || 0;
+    const get = promotion.get_quantity || 0;
+    if (buy <= 0 || get <= 0) return 0;
+
+    const freeUnits = Math.floor(eligibleUnits / (buy + get)) * get;
+    const unitPrices = eligible
+      .flatMap(line => Array<number>(line.quantity).fill(line.price))
+      .sort((a, b) => a - b);
+    discount = unitPrices.slice(0, freeUnits).reduce((sum, price) => sum + price, 0);
+  }
+
+  return Math.min(discount, eligibleSubtotal);
+}
+
+// Promotions do not stack: the one giving the largest discount wins
+export function findBestPromotion(
+  promotions: Promotion[],
+  lines: CartItem[],
+  getCategoryId: (menuItemId: string) => string | null | undefined,
+  now: Date = new Date()
+): AppliedPromotion | null {
+  let best: AppliedPromotion | null = null;
+
+  for (const promotion of promotions) {
+    if (!isPromotionActive(promotion, now)) continue;
+    const amount = getPromotionDiscount(promotion, lines, getCategoryId);
+    if (amount > 0 && (!best || amount > best.amount)) {
+      best = { promotion, amount };
+    }
+  }
+
+  return best;
+}
+
+// Cashier discount in rupiah, never more than what is left after the promotion
+export function getManualDiscountAmount(discount: ManualDiscount, remaining: number): number {
+  const amount = discount.mode === 'percent'
+    ? Math.floor(remaining * Math.min(discount.value, 100) / 100)
+    : discount.value;
+  return Math.max(0, Math.min(amount, remaining));
+}
+
+// Short description for admin lists, e.g. "10% · Kategori · min. Rp 50.000"
+export function describePromotion(promotion: Promotion): string {
+  const value = promotion.promo_type === 'percent'
+    ? `${promotion.value}%`
+    : promotion.promo_type === 'fixed'
+      ? formatPrice(promotion.value)
+      : `Beli ${promotion.buy_quantity} gratis ${promotion.get_quantity}`;
+  const scope = { order: 'Semua pesanan', item: 'Per item', category: 'Per kategori' }[promotion.scope];
+  const parts = [value, scope];
+  if (promotion.min_spend > 0) parts.push(`min. ${formatPrice(promotion.min_spend)}`);
+  if (promotion.start_time && promotion.end_time) {
+    parts.push(`${promotion.start_time.slice(0, 5)}-${promotion.end_time.slice(0, 5)}`);
+  }
+  if (promotion.start_date || promotion.end_date) {
+    parts.push(`${promotion.start_date || '...'} s/d ${promotion.end_date || '...'}`);
+  }
+  return parts.join(' · ');
+}
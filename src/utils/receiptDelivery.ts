@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ReceiptChannel = 'whatsapp' | 'email';
+
+export interface DigitalReceipt {
+  orderId: string;
+  orderNumber: string;
+  restaurantName: string;
+  url: string;
+}
+
+export interface ReceiptDeliveryProvider {
+  id: 'link' | 'server' | 'stub';
+  send: (receipt: DigitalReceipt, channel: ReceiptChannel, to: string) => Promise<void>;
+}
+
+// Links must open on the customer's phone, so native builds set the deployed web origin
+export function getDigitalReceiptUrl(receiptToken: string): string {
+  const origin = import.meta.env.VITE_PUBLIC_APP_URL || window.location.origin;
+  return `${origin.replace(/\/$/, '')}/receipt/${receiptToken}`;
+}
+
+// 0812-3456-789 and +62 812 3456 789 both become 628123456789
+export function normalizePhoneNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('0')) return `62${digits.slice(1)}`;
+  if (digits.startsWith('8')) return `62${digits}`;
+  return digits;
+}
+
+export function isValidRecipient(channel: ReceiptChannel, to: string): boolean {
+  return channel === 'email'
+    ? /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to.trim())
+    : /^62\d{8,13}$/.test(normalizePhoneNumber(to));
+}
+
+export const formatReceiptMessage = (receipt: DigitalReceipt) =>
+  `Terima kasih telah berkunjung ke ${receipt.restaurantName}. Struk pesanan #${receipt.orderNumber}: ${receipt.url}`;
+
+// Opens WhatsApp or the mail app on this device with the message filled in; the cashier taps send
+const linkProvider: ReceiptDeliveryProvider = {
+  id: 'link',
+  send: async (receipt, channel, to) => {
+    const message = encodeURIComponent(formatReceiptMessage(receipt));
+    const url = channel === 'whatsapp'
+      ? `https://wa.me/${normalizePhoneNumber(to)}?text=${message}`
+      : `mailto:${to.trim()}?subject=${encodeURIComponent(`Struk #${receipt.orderNumber}`)}&body=${message}`;
+    window.open(url, '_blank');
+  },
+};
+
+// Sent directly by the send-digital-receipt edge function through its configured gateways
+const serverProvider: ReceiptDeliveryProvider = {
+  id: 'server',
+  send: async (receipt, channel, to) => {
+    const { data, error } = await supabase.functions.invoke('send-digital-receipt', {
+      body: {
+        orderId: receipt.orderId,
+        channel,
+        to: channel === 'whatsapp' ? normalizePhoneNumber(to) : to.trim(),
+        url: receipt.url,
+      },
+    });
+
+    if (error) throw error;
+    if (data?.status !== 'sent') throw new Error(data?.message || 'Pengiriman gagal');
+  },
+};
+
+// Records what would have been sent; for development and testing without network access
+export const stubDeliveries: { receipt: DigitalReceipt; channel: ReceiptChannel; to: string; message: string }[] = [];
+
+const stubProvider: ReceiptDeliveryProvider = {
+  id: 'stub',
+  send: async (receipt, channel, to) => {
+    const message = formatReceiptMessage(receipt);
+    stubDeliveries.push({ receipt, channel, to, message });
+    console.info(`[receipt stub] ${channel} to ${to}: ${message}`);
+  },
+};
+
+const providers: Record<ReceiptDeliveryProvider['id'], ReceiptDeliveryProvider> = {
+  link: linkProvider,
+  server: serverProvider,
+  stub: stubProvider,
+};
+
+// Chosen at build time with VITE_RECEIPT_PROVIDER; the link provider needs no setup
+export function getReceiptDeliveryProvider(): ReceiptDeliveryProvider {
+  const id = import.meta.env.VITE_RECEIPT_PROVIDER as ReceiptDeliveryProvider['id'] | undefined;
+  return providers[id || 'link'] || linkProvider;
+}
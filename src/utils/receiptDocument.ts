@@ -0,0 +1,430 @@
+import qrcode from 'qrcode-generator';
+import type { CartItem } from '@/hooks/useOrders';
+import type { RestaurantSettings } from '@/hooks/useRestaurantSettings';
+import {
+  createEscPosEncoder,
+  fitText,
+  wrapText,
+  PaperWidth,
+  PAPER_COLUMNS,
+  RasterImage,
+} from '@/utils/escpos';
+
+// One receipt, described once and rendered to HTML, ESC/POS bytes or plain text
+
+export interface ReceiptData {
+  orderNumber: string;
+  cashierName: string;
+  tableNumber?: number;
+  items: CartItem[];
+  subtotal: number;
+  discount: number;
+  promotionName?: string;
+  charges?: { label: string; amount: number }[];
+  total: number;
+  paymentMethod: string;
+  amountPaid: number;
+  change: number;
+  payments?: { paymentMethod: string; amount: number }[];
+  timestamp: Date;
+  splitLabel?: string;
+  notes?: string;
+  // Public page of this receipt, printed as a QR code
+  receiptUrl?: string;
+}
+
+export type ReceiptField =
+  | 'address'
+  | 'contact'
+  | 'order_number'
+  | 'date'
+  | 'cashier'
+  | 'table'
+  | 'notes'
+  | 'modifiers'
+  | 'item_notes'
+  | 'qr';
+
+export interface ReceiptTemplate {
+  logo_url: string | null;
+  // Printed centered under the restaurant name and address
+  header_lines: string[];
+  fields: Record<ReceiptField, boolean>;
+}
+
+export const RECEIPT_FIELDS: { id: ReceiptField; label: string }[] = [
+  { id: 'address', label: 'Alamat' },
+  { id: 'contact', label: 'WhatsApp & Instagram' },
+  { id: 'order_number', label: 'No. Order' },
+  { id: 'date', label: 'Tanggal & Waktu' },
+  { id: 'cashier', label: 'Nama Kasir' },
+  { id: 'table', label: 'Nomor Meja' },
+  { id: 'notes', label: 'Catatan Pesanan' },
+  { id: 'modifiers', label: 'Pilihan Menu' },
+  { id: 'item_notes', label: 'Catatan Item' },
+  { id: 'qr', label: 'QR Struk Digital' },
+];
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  logo_url: null,
+  header_lines: [],
+  fields: {
+    address: true,
+    contact: false,
+    order_number: true,
+    date: true,
+    cashier: true,
+    table: true,
+    notes: true,
+    modifiers: true,
+    item_notes: true,
+    qr: true,
+  },
+};
+
+const DEFAULT_RESTAURANT_NAME = 'RM.MINANG MAIMBAOE';
+const DEFAULT_FOOTER = 'Terima Kasih!';
+
+// The stored template may predate newer fields; anything missing takes the default
+export function resolveReceiptTemplate(stored?: Partial<ReceiptTemplate> | null): ReceiptTemplate {
+  return {
+    logo_url: stored?.logo_url || null,
+    header_lines: (stored?.header_lines || []).filter(line => line.trim()),
+    fields: { ...DEFAULT_RECEIPT_TEMPLATE.fields, ...(stored?.fields || {}) },
+  };
+}
+
+export type ReceiptBlock =
+  | { type: 'logo'; url: string }
+  | { type: 'heading'; text: string }
+  | { type: 'center'; text: string }
+  | { type: 'rule' }
+  | { type: 'pair'; label: string; value: string; bold?: boolean }
+  | { type: 'item'; label: string; value: string }
+  | { type: 'detail'; text: string; italic?: boolean }
+  | { type: 'text'; text: string }
+  | { type: 'qr'; data: string; caption: string };
+
+export interface ReceiptDocument {
+  title: string;
+  blocks: ReceiptBlock[];
+}
+
+export const paymentMethodText: Record<string, string> = {
+  cash: 'Tunai',
+  transfer: 'Transfer',
+  qris: 'QRIS',
+};
+
+// Plain digits so the amount survives every code page
+export const formatAmount = (amount: number) =>
+  `${amount < 0 ? '-' : ''}Rp ${new Intl.NumberFormat('id-ID').format(Math.abs(amount))}`;
+
+export function buildReceiptDocument(
+  data: ReceiptData,
+  settings?: Pick<RestaurantSettings,
+    'restaurant_name' | 'address_line1' | 'address_line2' | 'address_line3' |
+    'whatsapp_number' | 'instagram_handle' | 'footer_message' | 'receipt_template'> | null
+): ReceiptDocument {
+  const template = resolveReceiptTemplate(settings?.receipt_template);
+  const { fields } = template;
+  const blocks: ReceiptBlock[] = [];
+
+  // Header
+  if (template.logo_url) {
+    blocks.push({ type: 'logo', url: template.logo_url });
+  }
+  blocks.push({ type: 'heading', text: settings?.restaurant_name || DEFAULT_RESTAURANT_NAME });
+  if (fields.address) {
+    for (const line of [settings?.address_line1, settings?.address_line2, settings?.address_line3]) {
+      if (line) blocks.push({ type: 'center', text: line });
+    }
+  }
+  if (fields.contact) {
+    if (settings?.whatsapp_number) blocks.push({ type: 'center', text: `WA: ${settings.whatsapp_number}` });
+    if (settings?.instagram_handle) {
+      blocks.push({ type: 'center', text: `IG: @${settings.instagram_handle.replace(/^@/, '')}` });
+    }
+  }
+  for (const line of template.header_lines) {
+    blocks.push({ type: 'center', text: line });
+  }
+  blocks.push({ type: 'rule' });
+
+  // Order info
+  if (fields.order_number) blocks.push({ type: 'pair', label: 'No. Order', value: `#${data.orderNumber}` });
+  if (fields.date) {
+    blocks.push({
+      type: 'pair',
+      label: 'Tanggal',
+      value: `${data.timestamp.toLocaleDateString('id-ID')} ${data.timestamp.toLocaleTimeString('id-ID')}`,
+    });
+  }
+  if (fields.cashier) blocks.push({ type: 'pair', label: 'Kasir', value: data.cashierName });
+  if (fields.table && data.tableNumber) blocks.push({ type: 'pair', label: 'Meja', value: String(data.tableNumber) });
+  if (data.splitLabel) blocks.push({ type: 'pair', label: 'Split Bill', value: data.splitLabel });
+  if (fields.notes && data.notes) blocks.push({ type: 'text', text: `Catatan: ${data.notes}` });
+  blocks.push({ type: 'rule' });
+
+  // Items
+  for (const item of data.items) {
+    blocks.push({ type: 'item', label: `${item.quantity}x ${item.name}`, value: formatAmount(item.price * item.quantity) });
+    if (fields.modifiers) {
+      for (const modifier of item.modifiers || []) {
+        const delta = modifier.price_delta
+          ? ` (${modifier.price_delta > 0 ? '+' : '-'}${formatAmount(Math.abs(modifier.price_delta))})`
+          : '';
+        blocks.push({ type: 'detail', text: `+ ${modifier.name}${delta}` });
+      }
+    }
+    if (fields.item_notes && item.notes) {
+      blocks.push({ type: 'detail', text: `* ${item.notes}`, italic: true });
+    }
+  }
+  blocks.push({ type: 'rule' });
+
+  // Totals
+  blocks.push({ type: 'pair', label: 'Subtotal', value: formatAmount(data.subtotal) });
+  if (data.discount > 0) {
+    const label = data.promotionName ? `Diskon (${data.promotionName})` : 'Diskon';
+    blocks.push({ type: 'pair', label, value: formatAmount(-data.discount) });
+  }
+  for (const charge of data.charges || []) {
+    blocks.push({ type: 'pair', label: charge.label, value: formatAmount(charge.amount) });
+  }
+  blocks.push({ type: 'pair', label: 'TOTAL', value: formatAmount(data.total), bold: true });
+  blocks.push({ type: 'rule' });
+
+  // Payment, one line per tender when paid with several
+  const tenders = data.payments && data.payments.length > 1
+    ? data.payments
+    : [{ paymentMethod: data.paymentMethod, amount: data.amountPaid }];
+  for (const tender of tenders) {
+    const method = paymentMethodText[tender.paymentMethod] || tender.paymentMethod;
+    blocks.push({ type: 'pair', label: `Bayar (${method})`, value: formatAmount(tender.amount) });
+  }
+  if (data.change > 0) {
+    blocks.push({ type: 'pair', label: 'Kembali', value: formatAmount(data.change) });
+  }
+  blocks.push({ type: 'rule' });
+
+  if (fields.qr && data.receiptUrl) {
+    blocks.push({ type: 'qr', data: data.receiptUrl, caption: 'Scan untuk struk digital' });
+  }
+
+  // Footer
+  for (const line of (settings?.footer_message || DEFAULT_FOOTER).split('\n')) {
+    if (line.trim()) blocks.push({ type: 'center', text: line.trim() });
+  }
+
+  return { title: `Struk #${data.orderNumber}`, blocks };
+}
+
+// Label left, value right; a long label wraps under itself so the value stays on the first line
+const layoutPair = (label: string, value: string, width: number) => {
+  const valueWidth = Math.min(Array.from(value).length, width);
+  const [first, ...rest] = wrapText(label, Math.max(1, width - valueWidth - 1));
+  return [fitText(first, width - valueWidth) + value, ...rest];
+};
+
+// Monospace lines of a block, unpadded for centered blocks
+const layoutBlock = (block: ReceiptBlock, width: number): string[] => {
+  switch (block.type) {
+    case 'logo':
+      return [];
+    case 'heading':
+    case 'center':
+    case 'text':
+      return wrapText(block.text, width);
+    case 'rule':
+      return ['-'.repeat(width)];
+    case 'pair':
+    case 'item':
+      return layoutPair(block.type === 'pair' ? `${block.label}:` : block.label, block.value, width);
+    case 'detail':
+      return wrapText(block.text, width - 2).map(line => `  ${line}`);
+    case 'qr':
+      // Text output cannot draw the code, so the link itself stands in for it
+      return [...wrapText(block.caption, width), ...wrapText(block.data, width)];
+  }
+};
+
+const isCentered = (block: ReceiptBlock) =>
+  block.type === 'heading' || block.type === 'center' || block.type === 'qr';
+
+export function renderReceiptText(doc: ReceiptDocument, width: number = PAPER_COLUMNS[58]): string {
+  return doc.blocks
+    .flatMap(block => {
+      const lines = layoutBlock(block, width);
+      return isCentered(block) ? lines.map(line => fitText(line, width, 'center').trimEnd()) : lines;
+    })
+    .join('\n');
+}
+
+// The logo is drawn only when the caller has already rasterized it
+export function renderReceiptEscPos(
+  doc: ReceiptDocument,
+  options: { paperWidth?: PaperWidth; logo?: RasterImage | null } = {}
+): Uint8Array {
+  const encoder = createEscPosEncoder({ paperWidth: options.paperWidth });
+
+  for (const block of doc.blocks) {
+    if (block.type === 'logo') {
+      if (options.logo) encoder.align('center').image(options.logo);
+      continue;
+    }
+    if (block.type === 'qr') {
+      encoder.align('center').line(block.caption).qr(block.data, { size: 5 }).newline();
+      continue;
+    }
+
+    const bold = block.type === 'heading' || (block.type === 'pair' && !!block.bold);
+    encoder.align(isCentered(block) ? 'center' : 'left').bold(bold);
+    for (const line of layoutBlock(block, encoder.lineWidth)) {
+      encoder.line(line);
+    }
+    if (bold) encoder.bold(false);
+  }
+
+  return encoder.align('left').feedCut().encode();
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Same payload and error correction as the ESC/POS QR, drawn as a scalable SVG
+const qrSvg = (data: string) => {
+  const code = qrcode(0, 'M');
+  code.addData(data);
+  code.make();
+  return code.createSvgTag({ cellSize: 2, margin: 0, scalable: true });
+};
+
+const renderBlockHTML = (block: ReceiptBlock) => {
+  switch (block.type) {
+    case 'logo':
+      return `<img class="logo" src="${escapeHtml(block.url)}" alt="">`;
+    case 'heading':
+      return `<h1>${escapeHtml(block.text)}</h1>`;
+    case 'center':
+      return `<p class="center">${escapeHtml(block.text)}</p>`;
+    case 'rule':
+      return '<div class="divider"></div>';
+    case 'pair':
+    case 'item':
+      return `<p class="row${block.type === 'pair' && block.bold ? ' total' : ''}"><span>${escapeHtml(block.label)}</span><span>${escapeHtml(block.value)}</span></p>`;
+    case 'detail':
+      return `<p class="detail${block.italic ? ' italic' : ''}">${escapeHtml(block.text)}</p>`;
+    case 'text':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'qr':
+      return `<p class="center">${escapeHtml(block.caption)}</p><div class="qr">${qrSvg(block.data)}</div>`;
+  }
+};
+
+export function renderReceiptHTML(doc: ReceiptDocument, options: { printButton?: boolean } = {}): string {
+  const { printButton = true } = options;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${escapeHtml(doc.title)}</title>
+      <style>
+        @page {
+          margin: 0;
+          size: 58mm auto;
+        }
+        * {
+          margin: 0;
+          padding: 0;
+          box-sizing: border-box;
+        }
+        body {
+          font-family: 'Courier New', monospace;
+          font-size: 6px;
+          width: 58mm;
+          padding: 2mm;
+          color: #000;
+          background: #fff;
+          line-height: 1.2;
+        }
+        p {
+          margin: 1px 0;
+        }
+        h1 {
+          font-size: 9px;
+          font-weight: bold;
+          text-align: center;
+          margin-bottom: 2px;
+        }
+        .logo {
+          display: block;
+          max-width: 60%;
+          max-height: 20mm;
+          margin: 0 auto 2px;
+        }
+        .center {
+          text-align: center;
+        }
+        .row {
+          display: flex;
+          justify-content: space-between;
+          gap: 4px;
+        }
+        .row span:last-child {
+          white-space: nowrap;
+        }
+        .row.total {
+          font-weight: bold;
+          font-size: 8px;
+          margin-top: 2px;
+        }
+        .detail {
+          padding-left: 8px;
+          font-size: 5px;
+        }
+        .italic {
+          font-style: italic;
+        }
+        .qr svg {
+          display: block;
+          width: 24mm;
+          height: 24mm;
+          margin: 2px auto;
+        }
+        .divider {
+          border-top: 1px dashed #000;
+          margin: 4px 0;
+        }
+        .print-btn {
+          display: block;
+          width: 100%;
+          padding: 10px;
+          margin-top: 15px;
+          background: #4CAF50;
+          color: white;
+          border: none;
+          font-size: 14px;
+          font-weight: bold;
+          cursor: pointer;
+          border-radius: 8px;
+        }
+        @media print {
+          body {
+            width: 58mm;
+          }
+          .print-btn {
+            display: none;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      ${doc.blocks.map(renderBlockHTML).join('\n      ')}
+      ${printButton ? '<button class="print-btn" onclick="window.print()">🖨️ Cetak Struk</button>' : ''}
+    </body>
+    </html>
+  `;
+}
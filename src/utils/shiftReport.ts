@@ -0,0 +1,87 @@
+import type { CashShiftSummary } from '@/hooks/useCashShift';
+import { formatAmount, paymentMethodText, ReceiptBlock, ReceiptDocument } from '@/utils/receiptDocument';
+
+// Rupiah notes and coins in circulation, largest first
+export const CASH_DENOMINATIONS = [100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100];
+
+export type DenominationCounts = Record<string, number>;
+
+export const countCash = (counts: DenominationCounts) =>
+  Object.entries(counts).reduce((sum, [denomination, count]) => sum + Number(denomination) * (count || 0), 0);
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return `${date.toLocaleDateString('id-ID')} ${date.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const formatVariance = (variance: number) =>
+  variance === 0 ? 'PAS' : `${variance > 0 ? '+' : ''}${formatAmount(variance)}`;
+
+// Shift report slip; while the shift is still open it shows the running figures without a count
+export function buildShiftReportDocument(summary: CashShiftSummary, restaurantName?: string | null): ReceiptDocument {
+  const { shift } = summary;
+  const blocks: ReceiptBlock[] = [
+    { type: 'heading', text: 'LAPORAN SHIFT' },
+    { type: 'center', text: restaurantName || 'RM.MINANG MAIMBAOE' },
+    { type: 'rule' },
+    { type: 'pair', label: 'Kasir', value: shift.cashier_name },
+    { type: 'pair', label: 'Buka', value: formatDateTime(shift.opened_at) },
+    { type: 'pair', label: 'Tutup', value: shift.closed_at ? formatDateTime(shift.closed_at) : 'Masih buka' },
+    { type: 'pair', label: 'Transaksi', value: String(summary.order_count) },
+    { type: 'rule' },
+  ];
+
+  for (const [method, amount] of Object.entries(summary.payments_by_method)) {
+    blocks.push({ type: 'pair', label: paymentMethodText[method] || method, value: formatAmount(amount || 0) });
+  }
+  if (Object.keys(summary.payments_by_method).length > 0) blocks.push({ type: 'rule' });
+
+  blocks.push(
+    { type: 'pair', label: 'Modal awal', value: formatAmount(shift.opening_float) },
+    { type: 'pair', label: 'Penjualan tunai', value: formatAmount(summary.cash_sales) },
+  );
+  if (summary.cash_refunds > 0) {
+    blocks.push({ type: 'pair', label: 'Refund tunai', value: formatAmount(-summary.cash_refunds) });
+  }
+  if (summary.cash_voids > 0) {
+    blocks.push({ type: 'pair', label: 'Void tunai', value: formatAmount(-summary.cash_voids) });
+  }
+  blocks.push(
+    { type: 'pair', label: 'Kas masuk', value: formatAmount(summary.cash_in) },
+    { type: 'pair', label: 'Kas keluar', value: formatAmount(-summary.cash_out) },
+    { type: 'pair', label: 'Kas seharusnya', value: formatAmount(summary.expected_cash), bold: true },
+    { type: 'rule' },
+  );
+
+  if (summary.movements.length > 0) {
+    for (const movement of summary.movements) {
+      const amount = movement.movement_type === 'cash_in' ? movement.amount : -movement.amount;
+      blocks.push({ type: 'item', label: movement.reason, value: formatAmount(amount) });
+      blocks.push({ type: 'detail', text: formatDateTime(movement.created_at) });
+    }
+    blocks.push({ type: 'rule' });
+  }
+
+  if (shift.status === 'closed' && shift.closing_counts) {
+    const counts = shift.closing_counts as DenominationCounts;
+    for (const denomination of CASH_DENOMINATIONS) {
+      const count = counts[denomination] || 0;
+      if (count === 0) continue;
+      blocks.push({
+        type: 'item',
+        label: `${new Intl.NumberFormat('id-ID').format(denomination)} x ${count}`,
+        value: formatAmount(denomination * count),
+      });
+    }
+    blocks.push(
+      { type: 'pair', label: 'Kas dihitung', value: formatAmount(shift.counted_cash ?? countCash(counts)), bold: true },
+      { type: 'pair', label: 'Selisih', value: formatVariance(shift.variance ?? 0), bold: true },
+    );
+    if (shift.closing_notes) blocks.push({ type: 'text', text: `Catatan: ${shift.closing_notes}` });
+    blocks.push({ type: 'rule' });
+  }
+
+  blocks.push({ type: 'center', text: `Dicetak ${formatDateTime(new Date().toISOString())}` });
+
+  return { title: `Laporan Shift ${shift.cashier_name}`, blocks };
+}
@@ -0,0 +1,97 @@
+import { format } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { saveAs } from 'file-saver';
+import type { FinancialStatement, StatementLine, StatementPeriod } from '@/utils/financialStatements';
+
+// Both exporters are loaded on demand; the cashier screens never need them
+
+export const formatPeriod = ({ from, to }: StatementPeriod) =>
+  `${format(from, 'dd MMM yyyy', { locale: id })} - ${format(to, 'dd MMM yyyy', { locale: id })}`;
+
+const fileName = (period: StatementPeriod, extension: string) =>
+  `laporan-keuangan-${format(period.from, 'yyyyMMdd')}-${format(period.to, 'yyyyMMdd')}.${extension}`;
+
+const formatNumber = (amount: number) =>
+  `${amount < 0 ? '(' : ''}${new Intl.NumberFormat('id-ID').format(Math.abs(amount))}${amount < 0 ? ')' : ''}`;
+
+const lineLabel = (line: StatementLine) => (line.kind === 'item' ? `    ${line.label}` : line.label);
+
+interface StatementExportOptions {
+  statements: FinancialStatement[];
+  period: StatementPeriod;
+  previous: StatementPeriod;
+  restaurantName?: string | null;
+}
+
+export async function exportStatementsPdf({ statements, period, previous, restaurantName }: StatementExportOptions) {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+
+  statements.forEach((statement, index) => {
+    if (index > 0) doc.addPage();
+
+    doc.setFontSize(14);
+    doc.text(restaurantName || 'RM.MINANG MAIMBAOE', 40, 50);
+    doc.setFontSize(12);
+    doc.text(statement.title, 40, 70);
+    doc.setFontSize(9);
+    doc.text(`Periode ${formatPeriod(period)}`, 40, 86);
+
+    autoTable(doc, {
+      startY: 100,
+      head: [['Keterangan', formatPeriod(period), formatPeriod(previous)]],
+      body: statement.lines.map(line => [
+        lineLabel(line),
+        line.kind === 'heading' ? '' : formatNumber(line.current),
+        line.kind === 'heading' ? '' : formatNumber(line.previous),
+      ]),
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [15, 20, 25] },
+      columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+      didParseCell: (data) => {
+        const line = statement.lines[data.row.index];
+        if (data.section === 'body' && line && line.kind !== 'item') {
+          data.cell.styles.fontStyle = 'bold';
+        }
+      },
+    });
+  });
+
+  doc.save(fileName(period, 'pdf'));
+}
+
+export async function exportStatementsXlsx({ statements, period, previous, restaurantName }: StatementExportOptions) {
+  const ExcelJS = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+
+  for (const statement of statements) {
+    const sheet = workbook.addWorksheet(statement.title);
+    sheet.columns = [{ width: 44 }, { width: 22 }, { width: 22 }];
+
+    sheet.addRow([restaurantName || 'RM.MINANG MAIMBAOE']).font = { bold: true, size: 14 };
+    sheet.addRow([statement.title]).font = { bold: true };
+    sheet.addRow([`Periode ${formatPeriod(period)}`]);
+    sheet.addRow([]);
+    sheet.addRow(['Keterangan', formatPeriod(period), formatPeriod(previous)]).font = { bold: true };
+
+    for (const line of statement.lines) {
+      const row = line.kind === 'heading'
+        ? sheet.addRow([line.label])
+        : sheet.addRow([line.label, line.current, line.previous]);
+      if (line.kind === 'item') {
+        row.getCell(1).alignment = { indent: 1 };
+      } else {
+        row.font = { bold: true };
+      }
+    }
+
+    sheet.getColumn(2).numFmt = '#,##0;(#,##0)';
+    sheet.getColumn(3).numFmt = '#,##0;(#,##0)';
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  saveAs(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    fileName(period, 'xlsx'),
+  );
+}
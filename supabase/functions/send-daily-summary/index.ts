@@ -14,61 +14,130 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const telegramToken = Deno.env.get('TELEGRAM_BOT_TOKEN');
+    const cronSecret = Deno.env.get('CRON_SECRET');
 
-    if (!telegramToken) {
-      console.error('TELEGRAM_BOT_TOKEN not configured');
-      return new Response(JSON.stringify({ error: 'Telegram not configured' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Settling runs with the service role, so only the scheduler (holding CRON_SECRET) and
+    // signed-in admins may start it
+    let trigger: 'schedule' | 'manual' = 'schedule';
+    let triggeredBy: string | null = null;
+
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+      const { data: userData } = token
+        ? await supabase.auth.getUser(token)
+        : { data: { user: null } };
+
+      if (!userData.user) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: roleData } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', userData.user.id)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      if (!roleData) {
+        return new Response(JSON.stringify({ error: 'Forbidden' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      trigger = 'manual';
+      triggeredBy = userData.user.id;
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    // Body (all optional): { date: 'yyyy-MM-dd', backfill: true }
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
 
-    // Get all notification settings with telegram configured
-    const { data: settings, error: settingsError } = await supabase
-      .from('notification_settings')
-      .select('telegram_chat_id')
-      .not('telegram_chat_id', 'is', null)
-      .eq('notify_on_transaction', true);
+    // The business day is the restaurant's, not the UTC day the function runs in
+    const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Jakarta' }).format(new Date());
+    const reportDate: string = typeof body.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(body.date) ? body.date : today;
 
-    if (settingsError) {
-      console.error('Error fetching notification settings:', settingsError);
-      throw settingsError;
+    // Recurring expenses due today have to be booked before they can be reported
+    const { error: recurringError } = await supabase.rpc('post_due_recurring_expenses');
+
+    if (recurringError) {
+      console.error('Error posting recurring expenses:', recurringError);
     }
 
-    if (!settings || settings.length === 0) {
-      console.log('No Telegram notifications configured');
-      return new Response(JSON.stringify({ message: 'No notifications configured' }), {
+    let backfilled: unknown[] = [];
+    if (body.backfill) {
+      const { data: backfillRuns, error: backfillError } = await supabase.rpc('backfill_daily_settlements', {
+        _before: reportDate,
+        _triggered_by: triggeredBy,
+      });
+
+      if (backfillError) {
+        console.error('Error backfilling daily settlements:', backfillError);
+      }
+      backfilled = backfillRuns || [];
+    }
+
+    // Upserts the daily report, replaces its accounting rows and posts the QRIS sweep in one
+    // transaction, so repeated or overlapping runs give the same result
+    const { data: run, error: runError } = await supabase.rpc('settle_business_day', {
+      _business_date: reportDate,
+      _trigger: trigger,
+      _triggered_by: triggeredBy,
+    });
+
+    if (runError) {
+      console.error('Error settling business day:', runError);
+      throw runError;
+    }
+
+    if (run.status !== 'succeeded') {
+      console.error('Daily settlement failed:', run.error);
+      return new Response(JSON.stringify({ error: run.error, run, backfilled }), {
+        status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Get today's date range
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    // Fetch today's completed orders
-    const { data: orders, error: ordersError } = await supabase
-      .from('orders')
-      .select('*')
-      .gte('created_at', today.toISOString())
-      .lt('created_at', tomorrow.toISOString())
-      .eq('status', 'completed');
-
-    if (ordersError) {
-      console.error('Error fetching orders:', ordersError);
-      throw ordersError;
+    // Voids, refunds, supplier payments and operating expenses booked today
+    const { data: reversals, error: reversalsError } = await supabase
+      .from('accounting_entries')
+      .select('entry_type, reference_type, credit')
+      .eq('entry_date', reportDate)
+      .in('reference_type', ['order_void', 'order_refund', 'supplier_payment', 'expense']);
+
+    if (reversalsError) {
+      console.error('Error fetching voids and refunds:', reversalsError);
+      throw reversalsError;
+    }
+
+    const voidTotal = reversals?.filter(r => r.entry_type === 'void').reduce((sum, r) => sum + (r.credit || 0), 0) || 0;
+    const refundTotal = reversals?.filter(r => r.entry_type === 'refund').reduce((sum, r) => sum + (r.credit || 0), 0) || 0;
+    const supplierPaymentTotal = reversals?.filter(r => r.reference_type === 'supplier_payment').reduce((sum, r) => sum + (r.credit || 0), 0) || 0;
+    const operatingExpenseTotal = reversals?.filter(r => r.reference_type === 'expense').reduce((sum, r) => sum + (r.credit || 0), 0) || 0;
+    const expenseTotal = supplierPaymentTotal + operatingExpenseTotal;
+
+    // Net profit comes from the ledger: revenue less cost of goods sold and expenses
+    const { data: profit, error: profitError } = await supabase.rpc('profit_summary', {
+      _from: reportDate,
+      _to: reportDate,
+    });
+
+    if (profitError) {
+      console.error('Error reading profit summary:', profitError);
     }
 
-    // Calculate statistics
-    const totalOrders = orders?.length || 0;
-    const totalRevenue = orders?.reduce((sum, o) => sum + (o.total || 0), 0) || 0;
-    const cashRevenue = orders?.filter(o => o.payment_method === 'cash').reduce((sum, o) => sum + (o.total || 0), 0) || 0;
-    const transferRevenue = orders?.filter(o => o.payment_method === 'transfer').reduce((sum, o) => sum + (o.total || 0), 0) || 0;
-    const qrisRevenue = orders?.filter(o => o.payment_method === 'qris').reduce((sum, o) => sum + (o.total || 0), 0) || 0;
+    const netProfit: number = profit?.net_profit ?? 0;
+
+    const totalOrders: number = run.stats.total_orders;
+    const cashRevenue: number = run.stats.cash_revenue;
+    const transferRevenue: number = run.stats.transfer_revenue;
+    const qrisRevenue: number = run.stats.qris_revenue;
+    const totalRevenue: number = run.stats.total_revenue;
+    const netRevenue = totalRevenue - voidTotal - refundTotal;
 
     // Format currency
     const formatCurrency = (amount: number) => {
@@ -80,7 +149,8 @@ Deno.serve(async (req) => {
     };
 
     // Format date
-    const dateStr = today.toLocaleDateString('id-ID', {
+    const dateStr = new Date(`${reportDate}T00:00:00+07:00`).toLocaleDateString('id-ID', {
+      timeZone: 'Asia/Jakarta',
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -94,6 +164,12 @@ Deno.serve(async (req) => {
 ━━━━━━━━━━━━━━━━━━
 📦 Total Pesanan: *${totalOrders}*
 💰 Total Pendapatan: *${formatCurrency(totalRevenue)}*
+${voidTotal + refundTotal > 0 ? `🚫 Void: ${formatCurrency(voidTotal)}
+↩️ Refund: ${formatCurrency(refundTotal)}
+✅ Pendapatan Bersih: *${formatCurrency(netRevenue)}*
+` : ''}${supplierPaymentTotal > 0 ? `🧾 Pembayaran Supplier: ${formatCurrency(supplierPaymentTotal)}
+` : ''}${operatingExpenseTotal > 0 ? `💸 Biaya Operasional: ${formatCurrency(operatingExpenseTotal)}
+` : ''}📈 Laba Bersih: *${formatCurrency(netProfit)}*
 ━━━━━━━━━━━━━━━━━━
 
 💵 Tunai: ${formatCurrency(cashRevenue)}
@@ -103,6 +179,24 @@ Deno.serve(async (req) => {
 ━━━━━━━━━━━━━━━━━━
 _Laporan otomatis dari sistem POS_`;
 
+    // Get all notification settings with telegram configured
+    const { data: settings, error: settingsError } = await supabase
+      .from('notification_settings')
+      .select('telegram_chat_id')
+      .not('telegram_chat_id', 'is', null)
+      .eq('notify_on_transaction', true);
+
+    if (settingsError) {
+      console.error('Error fetching notification settings:', settingsError);
+    }
+
+    if (!telegramToken || !settings || settings.length === 0) {
+      console.log('No Telegram notifications configured');
+      return new Response(JSON.stringify({ message: 'No notifications configured', run, backfilled }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Send to all configured chat IDs
     const results = [];
     for (const setting of settings) {
@@ -129,122 +223,13 @@ _Laporan otomatis dari sistem POS_`;
       }
     }
 
-    // Save daily report to database
-    const { data: reportData, error: reportError } = await supabase
-      .from('daily_reports')
-      .upsert({
-        report_date: today.toISOString().split('T')[0],
-        total_orders: totalOrders,
-        total_revenue: totalRevenue,
-        cash_revenue: cashRevenue,
-        transfer_revenue: transferRevenue,
-        qris_revenue: qrisRevenue,
-      }, {
-        onConflict: 'report_date'
-      })
-      .select()
-      .single();
-
-    if (reportError) {
-      console.error('Error saving daily report:', reportError);
-    }
-
-    // Create accounting entries for daily settlement
-    if (reportData && totalRevenue > 0) {
-      const reportDate = today.toISOString().split('T')[0];
-      
-      // Get previous balance
-      const { data: lastEntry } = await supabase
-        .from('accounting_entries')
-        .select('balance')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
-      
-      const previousBalance = lastEntry?.balance || 0;
-      const newBalance = previousBalance + totalRevenue;
-      
-      // Create accounting entries for each payment method
-      const accountingEntries = [];
-      
-      if (cashRevenue > 0) {
-        accountingEntries.push({
-          entry_date: reportDate,
-          entry_type: 'income',
-          description: `Pendapatan Tunai - ${dateStr}`,
-          debit: cashRevenue,
-          credit: 0,
-          balance: 0, // Will update after
-          reference_id: reportData.id,
-          reference_type: 'daily_report',
-          payment_method: 'cash',
-        });
-      }
-      
-      if (transferRevenue > 0) {
-        accountingEntries.push({
-          entry_date: reportDate,
-          entry_type: 'income',
-          description: `Pendapatan Transfer - ${dateStr}`,
-          debit: transferRevenue,
-          credit: 0,
-          balance: 0,
-          reference_id: reportData.id,
-          reference_type: 'daily_report',
-          payment_method: 'transfer',
-        });
-      }
-      
-      if (qrisRevenue > 0) {
-        accountingEntries.push({
-          entry_date: reportDate,
-          entry_type: 'income',
-          description: `Pendapatan QRIS - ${dateStr}`,
-          debit: qrisRevenue,
-          credit: 0,
-          balance: 0,
-          reference_id: reportData.id,
-          reference_type: 'daily_report',
-          payment_method: 'qris',
-        });
-      }
-      
-      // Add summary entry
-      accountingEntries.push({
-        entry_date: reportDate,
-        entry_type: 'daily_summary',
-        description: `Total Settlement - ${dateStr} (${totalOrders} pesanan)`,
-        debit: totalRevenue,
-        credit: 0,
-        balance: newBalance,
-        reference_id: reportData.id,
-        reference_type: 'daily_report',
-        payment_method: null,
-      });
-
-      // Delete existing entries for today to avoid duplicates
-      await supabase
-        .from('accounting_entries')
-        .delete()
-        .eq('entry_date', reportDate);
-
-      // Insert new accounting entries
-      const { error: accountingError } = await supabase
-        .from('accounting_entries')
-        .insert(accountingEntries);
-
-      if (accountingError) {
-        console.error('Error creating accounting entries:', accountingError);
-      } else {
-        console.log('Accounting entries created successfully');
-      }
-    }
-
     return new Response(JSON.stringify({ 
       success: true, 
       message: 'Daily summary sent',
+      run,
+      backfilled,
       results,
-      stats: { totalOrders, totalRevenue, cashRevenue, transferRevenue, qrisRevenue }
+      stats: { totalOrders, totalRevenue, cashRevenue, transferRevenue, qrisRevenue, voidTotal, refundTotal, supplierPaymentTotal, operatingExpenseTotal, expenseTotal, netRevenue, netProfit }
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -0,0 +1,119 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// WhatsApp through the Fonnte gateway
+async function sendWhatsApp(to: string, message: string) {
+  const token = Deno.env.get('FONNTE_TOKEN')
+  if (!token) throw new Error('FONNTE_TOKEN not configured')
+
+  const form = new FormData()
+  form.append('target', to)
+  form.append('message', message)
+
+  const response = await fetch('https://api.fonnte.com/send', {
+    method: 'POST',
+    headers: { Authorization: token },
+    body: form,
+  })
+  const result = await response.json()
+  if (!response.ok || result.status === false) {
+    throw new Error(result.reason || 'WhatsApp gateway rejected the message')
+  }
+}
+
+// Email through Resend
+async function sendEmail(to: string, subject: string, message: string) {
+  const apiKey = Deno.env.get('RESEND_API_KEY')
+  const from = Deno.env.get('RECEIPT_EMAIL_FROM')
+  if (!apiKey || !from) throw new Error('RESEND_API_KEY or RECEIPT_EMAIL_FROM not configured')
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from, to, subject, text: message }),
+  })
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}))
+    throw new Error(result.message || 'Email provider rejected the message')
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const publicAppUrl = Deno.env.get('PUBLIC_APP_URL')
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { orderId, channel, to, url } = await req.json()
+
+    if (!orderId || !to || (channel !== 'whatsapp' && channel !== 'email')) {
+      return jsonResponse({ status: 'error', message: 'orderId, channel and to are required' }, 400)
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('order_number, receipt_token, status')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (orderError) throw orderError
+    if (!order || (order.status !== 'completed' && order.status !== 'refunded')) {
+      return jsonResponse({ status: 'error', message: 'Order not found or not paid' }, 404)
+    }
+
+    // The link always carries this order's own token, whatever origin the app runs on
+    const receiptUrl = publicAppUrl
+      ? `${publicAppUrl.replace(/\/$/, '')}/receipt/${order.receipt_token}`
+      : url
+    if (!receiptUrl || !receiptUrl.endsWith(`/receipt/${order.receipt_token}`)) {
+      return jsonResponse({ status: 'error', message: 'Receipt link does not match the order' }, 400)
+    }
+
+    const { data: settings } = await supabase
+      .from('restaurant_settings')
+      .select('restaurant_name')
+      .limit(1)
+      .maybeSingle()
+
+    const restaurantName = settings?.restaurant_name || 'RM.MINANG MAIMBAOE'
+    const message = `Terima kasih telah berkunjung ke ${restaurantName}. Struk pesanan #${order.order_number}: ${receiptUrl}`
+
+    console.log(`Sending digital receipt ${order.order_number} via ${channel}`)
+
+    if (channel === 'whatsapp') {
+      await sendWhatsApp(to, message)
+    } else {
+      await sendEmail(to, `Struk #${order.order_number} - ${restaurantName}`, message)
+    }
+
+    return jsonResponse({ status: 'sent' })
+  } catch (error: unknown) {
+    console.error('Digital receipt error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return jsonResponse({ status: 'error', message: errorMessage }, 500)
+  }
+})
@@ -1,10 +1,155 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status
+    }
+  )
+
+// Telegram chat ids of admins; transaction alerts only go to admins who opted in
+async function getAdminChatIds(supabase: SupabaseClient, transactionsOnly: boolean) {
+  let query = supabase
+    .from('notification_settings')
+    .select('telegram_chat_id, notify_on_transaction, user_id')
+    .not('telegram_chat_id', 'is', null)
+
+  if (transactionsOnly) {
+    query = query.eq('notify_on_transaction', true)
+  }
+
+  const { data: settings, error: settingsError } = await query
+
+  if (settingsError) {
+    console.error('Error fetching notification settings:', settingsError)
+    throw settingsError
+  }
+
+  // Check if user is admin
+  const chatIds: string[] = []
+  for (const setting of settings || []) {
+    const { data: roleData } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', setting.user_id)
+      .eq('role', 'admin')
+      .single()
+
+    if (roleData) {
+      chatIds.push(setting.telegram_chat_id)
+    }
+  }
+
+  return chatIds
+}
+
+async function sendTelegramMessages(telegramBotToken: string, chatIds: string[], message: string) {
+  const results = []
+  for (const chatId of chatIds) {
+    try {
+      const telegramResponse = await fetch(
+        `https://api.telegram.org/bot${telegramBotToken}/sendMessage`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            chat_id: chatId,
+            text: message,
+            parse_mode: 'Markdown',
+          }),
+        }
+      )
+
+      const telegramResult = await telegramResponse.json()
+
+      if (telegramResult.ok) {
+        console.log(`Telegram notification sent to chat: ${chatId}`)
+        results.push({
+          chatId: chatId,
+          status: 'sent',
+        })
+      } else {
+        console.error(`Failed to send Telegram notification:`, telegramResult)
+        results.push({
+          chatId: chatId,
+          status: 'failed',
+          error: telegramResult.description,
+        })
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Error sending Telegram notification to ${chatId}:`, error)
+      results.push({
+        chatId: chatId,
+        status: 'error',
+        error: errorMessage,
+      })
+    }
+  }
+  return results
+}
+
+const formatStock = (value: number) => Number(value).toLocaleString('id-ID', { maximumFractionDigits: 3 })
+
+// Ingredients that dropped to their threshold since the last alert, and the menu items the
+// POS took off the menu because of them. The ingredients are claimed here; release them
+// again if the message does not go out.
+async function buildLowStockMessage(supabase: SupabaseClient) {
+  const { data: ingredients, error } = await supabase.rpc('claim_low_stock_alerts')
+  if (error) throw error
+  if (!ingredients || ingredients.length === 0) return null
+
+  const ingredientIds = ingredients.map((ingredient: { id: string }) => ingredient.id)
+
+  const { data: unavailableItems } = await supabase
+    .from('menu_items')
+    .select('name')
+    .eq('auto_unavailable', true)
+    .order('name')
+
+  const ingredientLines = ingredients.map((ingredient: { name: string; stock: number; unit: string }) =>
+    ingredient.stock <= 0
+      ? `• ${ingredient.name}: *HABIS*`
+      : `• ${ingredient.name}: ${formatStock(ingredient.stock)} ${ingredient.unit}`
+  )
+
+  let message = `⚠️ *Stok Menipis*
+
+${ingredientLines.join('\n')}`
+
+  if (unavailableItems && unavailableItems.length > 0) {
+    message += `
+
+🚫 Menu tidak tersedia:
+${unavailableItems.map((item: { name: string }) => `• ${item.name}`).join('\n')}`
+  }
+
+  return {
+    ingredientIds,
+    message: `${message}
+⏰ Waktu: ${new Date().toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' })}`,
+  }
+}
+
+// So the next low stock check alerts about them again
+async function releaseLowStockAlerts(supabase: SupabaseClient, ingredientIds: string[]) {
+  const { error } = await supabase
+    .from('ingredients')
+    .update({ low_stock_alerted_at: null })
+    .in('id', ingredientIds)
+
+  if (error) console.error('Error releasing low stock alerts:', error)
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -15,77 +160,63 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const telegramBotToken = Deno.env.get('TELEGRAM_BOT_TOKEN')
-    
+
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
     if (req.method === 'POST') {
-      const { orderNumber, total, cashierName, paymentMethod } = await req.json()
-      
-      console.log('Sending Telegram notification for order:', orderNumber)
+      const body = await req.json()
 
       if (!telegramBotToken) {
         console.error('TELEGRAM_BOT_TOKEN not configured')
-        return new Response(
-          JSON.stringify({ status: 'error', message: 'Telegram bot token not configured' }),
-          { 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: 500 
-          }
-        )
+        return jsonResponse({ status: 'error', message: 'Telegram bot token not configured' }, 500)
       }
 
-      // Get admin notification settings
-      const { data: settings, error: settingsError } = await supabase
-        .from('notification_settings')
-        .select('telegram_chat_id, notify_on_transaction, user_id')
-        .eq('notify_on_transaction', true)
-        .not('telegram_chat_id', 'is', null)
+      if (body.type === 'low_stock') {
+        const chatIds = await getAdminChatIds(supabase, false)
 
-      if (settingsError) {
-        console.error('Error fetching notification settings:', settingsError)
-        throw settingsError
-      }
+        // Leave the alerts unclaimed until someone can receive them
+        if (chatIds.length === 0) {
+          console.log('No admin notification settings found')
+          return jsonResponse({ status: 'skipped', message: 'No admin notification settings' })
+        }
 
-      if (!settings || settings.length === 0) {
-        console.log('No notification settings found')
-        return new Response(
-          JSON.stringify({ status: 'skipped', message: 'No notification settings configured' }),
-          { 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: 200 
-          }
-        )
-      }
+        const alert = await buildLowStockMessage(supabase)
+        if (!alert) {
+          return jsonResponse({ status: 'skipped', message: 'No new low stock ingredients' })
+        }
+
+        const results = await sendTelegramMessages(telegramBotToken, chatIds, alert.message)
 
-      // Check if user is admin
-      const adminSettings = []
-      for (const setting of settings) {
-        const { data: roleData } = await supabase
-          .from('user_roles')
-          .select('role')
-          .eq('user_id', setting.user_id)
-          .eq('role', 'admin')
-          .single()
-
-        if (roleData) {
-          adminSettings.push(setting)
+        if (!results.some(result => result.status === 'sent')) {
+          await releaseLowStockAlerts(supabase, alert.ingredientIds)
+          return jsonResponse({
+            status: 'error',
+            message: 'Low stock alert was not delivered',
+            notifications: results
+          }, 502)
         }
+
+        return jsonResponse({
+          status: 'ok',
+          message: 'Notifications sent',
+          notifications: results
+        })
       }
 
-      if (adminSettings.length === 0) {
+      const { orderNumber, total, cashierName, paymentMethod } = body
+
+      console.log('Sending Telegram notification for order:', orderNumber)
+
+      const chatIds = await getAdminChatIds(supabase, true)
+
+      if (chatIds.length === 0) {
         console.log('No admin notification settings found')
-        return new Response(
-          JSON.stringify({ status: 'skipped', message: 'No admin notification settings' }),
-          { 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: 200 
-          }
-        )
+        return jsonResponse({ status: 'skipped', message: 'No admin notification settings' })
       }
 
       // Format the message
-      const paymentMethodLabel = paymentMethod === 'cash' ? 'Tunai' : 
-                                 paymentMethod === 'qris' ? 'QRIS' : 
+      const paymentMethodLabel = paymentMethod === 'cash' ? 'Tunai' :
+                                 paymentMethod === 'qris' ? 'QRIS' :
                                  paymentMethod === 'transfer' ? 'Transfer' : paymentMethod
 
       const message = `🔔 *Transaksi Baru*
@@ -97,82 +228,19 @@ Deno.serve(async (req) => {
 ⏰ Waktu: ${new Date().toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' })}`
 
       // Send Telegram notifications to all admins
-      const results = []
-      for (const adminSetting of adminSettings) {
-        const chatId = adminSetting.telegram_chat_id
-
-        try {
-          const telegramResponse = await fetch(
-            `https://api.telegram.org/bot${telegramBotToken}/sendMessage`,
-            {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                chat_id: chatId,
-                text: message,
-                parse_mode: 'Markdown',
-              }),
-            }
-          )
-
-          const telegramResult = await telegramResponse.json()
-          
-          if (telegramResult.ok) {
-            console.log(`Telegram notification sent to chat: ${chatId}`)
-            results.push({
-              chatId: chatId,
-              status: 'sent',
-            })
-          } else {
-            console.error(`Failed to send Telegram notification:`, telegramResult)
-            results.push({
-              chatId: chatId,
-              status: 'failed',
-              error: telegramResult.description,
-            })
-          }
-        } catch (error: unknown) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-          console.error(`Error sending Telegram notification to ${chatId}:`, error)
-          results.push({
-            chatId: chatId,
-            status: 'error',
-            error: errorMessage,
-          })
-        }
-      }
+      const results = await sendTelegramMessages(telegramBotToken, chatIds, message)
 
-      return new Response(
-        JSON.stringify({ 
-          status: 'ok', 
-          message: 'Notifications sent',
-          notifications: results 
-        }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200 
-        }
-      )
+      return jsonResponse({
+        status: 'ok',
+        message: 'Notifications sent',
+        notifications: results
+      })
     }
 
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 405 
-      }
-    )
+    return jsonResponse({ error: 'Method not allowed' }, 405)
   } catch (error: unknown) {
     console.error('Telegram notification error:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
-      }
-    )
+    return jsonResponse({ error: errorMessage }, 500)
   }
 })
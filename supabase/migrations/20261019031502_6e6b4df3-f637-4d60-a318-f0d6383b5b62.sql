@@ -0,0 +1,91 @@
+-- Create an order, its items and the table status update in a single transaction.
+-- Called from the POS through supabase.rpc('create_order') so a failure in any step
+-- rolls back the whole order instead of leaving an order without items.
+CREATE OR REPLACE FUNCTION public.create_order(
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _payment_method payment_method DEFAULT 'cash',
+  _amount_paid INTEGER DEFAULT 0,
+  _discount INTEGER DEFAULT 0,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _subtotal INTEGER;
+  _total INTEGER;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  SELECT COALESCE(SUM((item ->> 'unit_price')::INTEGER * (item ->> 'quantity')::INTEGER), 0)
+  INTO _subtotal
+  FROM jsonb_array_elements(_items) AS item;
+
+  _total := _subtotal - COALESCE(_discount, 0);
+
+  INSERT INTO public.orders (
+    order_number,
+    table_id,
+    cashier_id,
+    cashier_name,
+    status,
+    subtotal,
+    discount,
+    total,
+    payment_method,
+    amount_paid,
+    change_amount,
+    notes,
+    completed_at
+  ) VALUES (
+    '', -- filled in by the set_order_number trigger
+    _table_id,
+    auth.uid(),
+    _cashier_name,
+    'completed',
+    _subtotal,
+    COALESCE(_discount, 0),
+    _total,
+    _payment_method,
+    _amount_paid,
+    _amount_paid - _total,
+    _notes,
+    now()
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, menu_item_name, quantity, unit_price, total_price, notes)
+  SELECT
+    _order.id,
+    NULLIF(item ->> 'menu_item_id', '')::UUID,
+    item ->> 'menu_item_name',
+    (item ->> 'quantity')::INTEGER,
+    (item ->> 'unit_price')::INTEGER,
+    (item ->> 'unit_price')::INTEGER * (item ->> 'quantity')::INTEGER,
+    item ->> 'notes'
+  FROM jsonb_array_elements(_items) AS item;
+
+  IF _table_id IS NOT NULL THEN
+    UPDATE public.restaurant_tables
+    SET status = 'available', current_order_id = NULL
+    WHERE id = _table_id;
+  END IF;
+
+  RETURN to_jsonb(_order) || jsonb_build_object(
+    'order_items',
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::jsonb)
+      FROM public.order_items oi
+      WHERE oi.order_id = _order.id
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order(JSONB, UUID, payment_method, INTEGER, INTEGER, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,54 @@
+-- Per-day counters for sequential order numbers (ORD-YYYYMMDD-0001)
+CREATE TABLE public.order_number_counters (
+  order_date DATE PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the order number trigger touches the counters
+ALTER TABLE public.order_number_counters ENABLE ROW LEVEL SECURITY;
+
+-- Continue after the highest number already used on each day so existing orders never collide
+INSERT INTO public.order_number_counters (order_date, last_number)
+SELECT
+  TO_DATE(SUBSTRING(order_number FROM 5 FOR 8), 'YYYYMMDD'),
+  MAX(SUBSTRING(order_number FROM 14)::INTEGER)
+FROM public.orders
+WHERE order_number ~ '^ORD-[0-9]{8}-[0-9]+$'
+GROUP BY 1
+ON CONFLICT (order_date) DO NOTHING;
+
+-- Replace the random suffix with the next number of the business day (Asia/Jakarta).
+-- The upsert takes a row lock on the day's counter, so concurrent inserts are serialized.
+CREATE OR REPLACE FUNCTION public.generate_order_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_date DATE := (now() AT TIME ZONE 'Asia/Jakarta')::DATE;
+  _next_number INTEGER;
+BEGIN
+  INSERT INTO public.order_number_counters (order_date, last_number)
+  VALUES (_order_date, 1)
+  ON CONFLICT (order_date) DO UPDATE
+    SET last_number = public.order_number_counters.last_number + 1,
+        updated_at = now()
+  RETURNING last_number INTO _next_number;
+
+  NEW.order_number := 'ORD-' || TO_CHAR(_order_date, 'YYYYMMDD') || '-' || LPAD(_next_number::TEXT, 4, '0');
+  RETURN NEW;
+END;
+$$;
+
+-- Enforce uniqueness when historical random numbers allow it
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.orders GROUP BY order_number HAVING COUNT(*) > 1
+  ) THEN
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_order_number ON public.orders(order_number);
+  END IF;
+END;
+$$;
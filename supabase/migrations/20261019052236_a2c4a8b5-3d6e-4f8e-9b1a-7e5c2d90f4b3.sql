@@ -0,0 +1,240 @@
+-- Open tabs: dine-in orders stay pending on a table while rounds of items are added,
+-- and are settled (paid) later, which releases the table.
+
+-- Track which round of ordering an item belongs to
+ALTER TABLE public.order_items ADD COLUMN round_number INTEGER NOT NULL DEFAULT 1;
+
+-- Link tables to their open order
+UPDATE public.restaurant_tables
+SET current_order_id = NULL
+WHERE current_order_id IS NOT NULL
+  AND current_order_id NOT IN (SELECT id FROM public.orders);
+
+ALTER TABLE public.restaurant_tables
+  ADD CONSTRAINT restaurant_tables_current_order_id_fkey
+  FOREIGN KEY (current_order_id) REFERENCES public.orders(id) ON DELETE SET NULL;
+
+-- Insert cart lines ({ menu_item_id, menu_item_name, quantity, unit_price, notes }) for an order
+CREATE OR REPLACE FUNCTION public.insert_order_items(_order_id UUID, _items JSONB, _round_number INTEGER DEFAULT 1)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, menu_item_name, quantity, unit_price, total_price, notes, round_number)
+  SELECT
+    _order_id,
+    NULLIF(item ->> 'menu_item_id', '')::UUID,
+    item ->> 'menu_item_name',
+    (item ->> 'quantity')::INTEGER,
+    (item ->> 'unit_price')::INTEGER,
+    (item ->> 'unit_price')::INTEGER * (item ->> 'quantity')::INTEGER,
+    item ->> 'notes',
+    _round_number
+  FROM jsonb_array_elements(_items) AS item;
+END;
+$$;
+
+-- Recompute subtotal and total of an order from its items
+CREATE OR REPLACE FUNCTION public.recalculate_order_totals(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.orders o
+  SET subtotal = totals.subtotal,
+      total = totals.subtotal - COALESCE(o.discount, 0)
+  FROM (
+    SELECT COALESCE(SUM(total_price), 0)::INTEGER AS subtotal
+    FROM public.order_items
+    WHERE order_id = _order_id
+  ) AS totals
+  WHERE o.id = _order_id;
+END;
+$$;
+
+-- Order row with its items, as returned to the POS
+CREATE OR REPLACE FUNCTION public.order_with_items(_order_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'order_items',
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.round_number, oi.created_at), '[]'::jsonb)
+      FROM public.order_items oi
+      WHERE oi.order_id = o.id
+    )
+  )
+  FROM public.orders o
+  WHERE o.id = _order_id
+$$;
+
+-- Pay-now orders (take away or direct payment) now share the helpers above
+CREATE OR REPLACE FUNCTION public.create_order(
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _payment_method payment_method DEFAULT 'cash',
+  _amount_paid INTEGER DEFAULT 0,
+  _discount INTEGER DEFAULT 0,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  INSERT INTO public.orders (order_number, table_id, cashier_id, cashier_name, status, discount, payment_method, amount_paid, notes, completed_at)
+  VALUES ('', _table_id, auth.uid(), _cashier_name, 'completed', COALESCE(_discount, 0), _payment_method, _amount_paid, _notes, now())
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _items);
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  UPDATE public.orders
+  SET change_amount = amount_paid - total
+  WHERE id = _order_id;
+
+  IF _table_id IS NOT NULL THEN
+    UPDATE public.restaurant_tables
+    SET status = 'available', current_order_id = NULL
+    WHERE id = _table_id;
+  END IF;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Open a pending order on an available table with the first round of items
+CREATE OR REPLACE FUNCTION public.open_table_order(
+  _table_id UUID,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _table public.restaurant_tables;
+  _order_id UUID;
+BEGIN
+  SELECT * INTO _table FROM public.restaurant_tables WHERE id = _table_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table not found';
+  END IF;
+
+  IF _table.status <> 'available' OR _table.current_order_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Table % already has an open order', _table.table_number;
+  END IF;
+
+  INSERT INTO public.orders (order_number, table_id, cashier_id, cashier_name, status, notes)
+  VALUES ('', _table_id, auth.uid(), _cashier_name, 'pending', _notes)
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _items, 1);
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  UPDATE public.restaurant_tables
+  SET status = 'occupied', current_order_id = _order_id
+  WHERE id = _table_id;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Add another round of items to an open order
+CREATE OR REPLACE FUNCTION public.add_order_items(_order_id UUID, _items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _next_round INTEGER;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order % is not open', _order.order_number;
+  END IF;
+
+  SELECT COALESCE(MAX(round_number), 0) + 1 INTO _next_round
+  FROM public.order_items
+  WHERE order_id = _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _items, _next_round);
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Pay an open order and release its table
+CREATE OR REPLACE FUNCTION public.settle_order(
+  _order_id UUID,
+  _payment_method payment_method,
+  _amount_paid INTEGER,
+  _discount INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order % is not open', _order.order_number;
+  END IF;
+
+  UPDATE public.orders
+  SET discount = COALESCE(_discount, 0)
+  WHERE id = _order_id;
+
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  UPDATE public.orders
+  SET status = 'completed',
+      payment_method = _payment_method,
+      amount_paid = _amount_paid,
+      change_amount = _amount_paid - total,
+      completed_at = now()
+  WHERE id = _order_id;
+
+  UPDATE public.restaurant_tables
+  SET status = 'available', current_order_id = NULL
+  WHERE current_order_id = _order_id;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_table_order(UUID, JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_order_items(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_order(UUID, payment_method, INTEGER, INTEGER) TO authenticated;
+
+-- Let every cashier see tables open and close in realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.restaurant_tables;
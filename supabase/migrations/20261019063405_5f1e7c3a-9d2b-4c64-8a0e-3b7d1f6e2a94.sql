@@ -0,0 +1,163 @@
+-- Split bills: one order paid as several shares, each with its own payment method and receipt
+CREATE TABLE public.order_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  split_number INTEGER NOT NULL,
+  split_type TEXT NOT NULL, -- 'items', 'equal', 'custom'
+  amount INTEGER NOT NULL,
+  payment_method payment_method NOT NULL,
+  amount_paid INTEGER NOT NULL DEFAULT 0,
+  change_amount INTEGER NOT NULL DEFAULT 0,
+  items JSONB, -- [{ order_item_id, quantity }] when split by items
+  cashier_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (order_id, split_number),
+  CHECK (split_type IN ('items', 'equal', 'custom')),
+  CHECK (amount > 0)
+);
+
+ALTER TABLE public.order_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view order splits"
+  ON public.order_splits FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create order splits"
+  ON public.order_splits FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Admins can delete order splits"
+  ON public.order_splits FOR DELETE
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_order_splits_order_id ON public.order_splits(order_id);
+
+-- Returned orders now carry their paid shares as well
+CREATE OR REPLACE FUNCTION public.order_with_items(_order_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'order_items',
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.round_number, oi.created_at), '[]'::jsonb)
+      FROM public.order_items oi
+      WHERE oi.order_id = o.id
+    ),
+    'order_splits',
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(os) ORDER BY os.split_number), '[]'::jsonb)
+      FROM public.order_splits os
+      WHERE os.order_id = o.id
+    )
+  )
+  FROM public.orders o
+  WHERE o.id = _order_id
+$$;
+
+-- Keep a take-away order pending (without a table) so it can be paid in shares
+CREATE OR REPLACE FUNCTION public.hold_order(
+  _items JSONB,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  INSERT INTO public.orders (order_number, cashier_id, cashier_name, status, notes)
+  VALUES ('', auth.uid(), _cashier_name, 'pending', _notes)
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _items, 1);
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Pay one share of a pending order. The order is completed (and its table released)
+-- only once the paid shares add up to the order total.
+CREATE OR REPLACE FUNCTION public.pay_order_split(
+  _order_id UUID,
+  _amount INTEGER,
+  _payment_method payment_method,
+  _amount_paid INTEGER,
+  _split_type TEXT DEFAULT 'custom',
+  _items JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _already_paid INTEGER;
+  _split_count INTEGER;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order % is not open', _order.order_number;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0)::INTEGER, COUNT(*)::INTEGER
+  INTO _already_paid, _split_count
+  FROM public.order_splits
+  WHERE order_id = _order_id;
+
+  IF _amount <= 0 OR _amount > _order.total - _already_paid THEN
+    RAISE EXCEPTION 'Split amount % exceeds the remaining balance %', _amount, _order.total - _already_paid;
+  END IF;
+
+  IF _amount_paid < _amount THEN
+    RAISE EXCEPTION 'Amount paid is less than the split amount';
+  END IF;
+
+  INSERT INTO public.order_splits (order_id, split_number, split_type, amount, payment_method, amount_paid, change_amount, items, cashier_id)
+  VALUES (_order_id, _split_count + 1, _split_type, _amount, _payment_method, _amount_paid, _amount_paid - _amount, _items, auth.uid());
+
+  IF _already_paid + _amount = _order.total THEN
+    UPDATE public.orders o
+    SET status = 'completed',
+        payment_method = (
+          SELECT os.payment_method
+          FROM public.order_splits os
+          WHERE os.order_id = _order_id
+          GROUP BY os.payment_method
+          ORDER BY SUM(os.amount) DESC
+          LIMIT 1
+        ),
+        amount_paid = totals.amount_paid,
+        change_amount = totals.change_amount,
+        completed_at = now()
+    FROM (
+      SELECT SUM(amount_paid)::INTEGER AS amount_paid, SUM(change_amount)::INTEGER AS change_amount
+      FROM public.order_splits
+      WHERE order_id = _order_id
+    ) AS totals
+    WHERE o.id = _order_id;
+
+    UPDATE public.restaurant_tables
+    SET status = 'available', current_order_id = NULL
+    WHERE current_order_id = _order_id;
+  END IF;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.hold_order(JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.pay_order_split(UUID, INTEGER, payment_method, INTEGER, TEXT, JSONB) TO authenticated;
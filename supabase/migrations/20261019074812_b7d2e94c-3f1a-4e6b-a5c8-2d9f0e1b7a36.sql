@@ -0,0 +1,309 @@
+-- Multi-tender payments: one row per tender (e.g. part cash, part QRIS) for every order.
+-- orders.payment_method keeps the main tender so existing screens keep working.
+CREATE TABLE public.order_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  split_id UUID REFERENCES public.order_splits(id) ON DELETE CASCADE,
+  payment_method payment_method NOT NULL,
+  amount INTEGER NOT NULL, -- part of the order total covered by this tender
+  amount_tendered INTEGER NOT NULL DEFAULT 0,
+  change_amount INTEGER NOT NULL DEFAULT 0, -- only cash tenders return change
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (amount > 0)
+);
+
+ALTER TABLE public.order_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view order payments"
+  ON public.order_payments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create order payments"
+  ON public.order_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Admins can delete order payments"
+  ON public.order_payments FOR DELETE
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_order_payments_order_id ON public.order_payments(order_id);
+
+-- Existing payments: one row per split share, or one row per single-method order
+INSERT INTO public.order_payments (order_id, split_id, payment_method, amount, amount_tendered, change_amount, created_at)
+SELECT order_id, id, payment_method, amount, amount_paid, change_amount, paid_at
+FROM public.order_splits;
+
+INSERT INTO public.order_payments (order_id, payment_method, amount, amount_tendered, change_amount, created_at)
+SELECT o.id, o.payment_method, o.total, COALESCE(o.amount_paid, o.total), COALESCE(o.change_amount, 0), COALESCE(o.completed_at, o.created_at)
+FROM public.orders o
+WHERE o.status = 'completed'
+  AND o.payment_method IS NOT NULL
+  AND o.total > 0
+  AND NOT EXISTS (SELECT 1 FROM public.order_payments op WHERE op.order_id = o.id);
+
+-- Record the tenders ([{ payment_method, amount }], amount as handed over) for an order.
+-- Non-cash tenders are applied in full; cash covers the rest and returns the change.
+CREATE OR REPLACE FUNCTION public.record_order_payments(_order_id UUID, _payments JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _total INTEGER;
+  _non_cash INTEGER;
+  _cash INTEGER;
+BEGIN
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'Order must have at least one payment';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_payments) AS payment
+    WHERE COALESCE((payment ->> 'amount')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Payment amounts must be positive';
+  END IF;
+
+  SELECT total INTO _total FROM public.orders WHERE id = _order_id;
+
+  SELECT
+    COALESCE(SUM((payment ->> 'amount')::INTEGER) FILTER (WHERE payment ->> 'payment_method' <> 'cash'), 0),
+    COALESCE(SUM((payment ->> 'amount')::INTEGER) FILTER (WHERE payment ->> 'payment_method' = 'cash'), 0)
+  INTO _non_cash, _cash
+  FROM jsonb_array_elements(_payments) AS payment;
+
+  IF _non_cash > _total THEN
+    RAISE EXCEPTION 'Non-cash payments exceed the order total';
+  END IF;
+
+  IF _non_cash + _cash < _total THEN
+    RAISE EXCEPTION 'Payments do not cover the order total';
+  END IF;
+
+  IF _cash > 0 AND _non_cash = _total THEN
+    RAISE EXCEPTION 'Cash is not needed once non-cash payments cover the total';
+  END IF;
+
+  INSERT INTO public.order_payments (order_id, payment_method, amount, amount_tendered)
+  SELECT _order_id, (payment ->> 'payment_method')::payment_method, (payment ->> 'amount')::INTEGER, (payment ->> 'amount')::INTEGER
+  FROM jsonb_array_elements(_payments) AS payment
+  WHERE payment ->> 'payment_method' <> 'cash';
+
+  IF _cash > 0 THEN
+    INSERT INTO public.order_payments (order_id, payment_method, amount, amount_tendered, change_amount)
+    VALUES (_order_id, 'cash', _total - _non_cash, _cash, _cash - (_total - _non_cash));
+  END IF;
+
+  UPDATE public.orders
+  SET payment_method = (
+        SELECT op.payment_method
+        FROM public.order_payments op
+        WHERE op.order_id = _order_id
+        GROUP BY op.payment_method
+        ORDER BY SUM(op.amount) DESC
+        LIMIT 1
+      ),
+      amount_paid = _non_cash + _cash,
+      change_amount = _cash - (_total - _non_cash)
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Pay-now orders take a list of tenders instead of a single method and amount
+DROP FUNCTION IF EXISTS public.create_order(JSONB, UUID, payment_method, INTEGER, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  _items JSONB,
+  _payments JSONB,
+  _table_id UUID DEFAULT NULL,
+  _discount INTEGER DEFAULT 0,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  INSERT INTO public.orders (order_number, table_id, cashier_id, cashier_name, status, discount, notes, completed_at)
+  VALUES ('', _table_id, auth.uid(), _cashier_name, 'completed', COALESCE(_discount, 0), _notes, now())
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _items);
+  PERFORM public.recalculate_order_totals(_order_id);
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  IF _table_id IS NOT NULL THEN
+    UPDATE public.restaurant_tables
+    SET status = 'available', current_order_id = NULL
+    WHERE id = _table_id;
+  END IF;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.settle_order(UUID, payment_method, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.settle_order(
+  _order_id UUID,
+  _payments JSONB,
+  _discount INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order % is not open', _order.order_number;
+  END IF;
+
+  UPDATE public.orders
+  SET discount = COALESCE(_discount, 0)
+  WHERE id = _order_id;
+
+  PERFORM public.recalculate_order_totals(_order_id);
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  UPDATE public.orders
+  SET status = 'completed',
+      completed_at = now()
+  WHERE id = _order_id;
+
+  UPDATE public.restaurant_tables
+  SET status = 'available', current_order_id = NULL
+  WHERE current_order_id = _order_id;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Split shares are tenders too
+CREATE OR REPLACE FUNCTION public.pay_order_split(
+  _order_id UUID,
+  _amount INTEGER,
+  _payment_method payment_method,
+  _amount_paid INTEGER,
+  _split_type TEXT DEFAULT 'custom',
+  _items JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _already_paid INTEGER;
+  _split_count INTEGER;
+  _split_id UUID;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order % is not open', _order.order_number;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0)::INTEGER, COUNT(*)::INTEGER
+  INTO _already_paid, _split_count
+  FROM public.order_splits
+  WHERE order_id = _order_id;
+
+  IF _amount <= 0 OR _amount > _order.total - _already_paid THEN
+    RAISE EXCEPTION 'Split amount % exceeds the remaining balance %', _amount, _order.total - _already_paid;
+  END IF;
+
+  IF _amount_paid < _amount THEN
+    RAISE EXCEPTION 'Amount paid is less than the split amount';
+  END IF;
+
+  IF _payment_method <> 'cash' AND _amount_paid <> _amount THEN
+    RAISE EXCEPTION 'Only cash payments can return change';
+  END IF;
+
+  INSERT INTO public.order_splits (order_id, split_number, split_type, amount, payment_method, amount_paid, change_amount, items, cashier_id)
+  VALUES (_order_id, _split_count + 1, _split_type, _amount, _payment_method, _amount_paid, _amount_paid - _amount, _items, auth.uid())
+  RETURNING id INTO _split_id;
+
+  INSERT INTO public.order_payments (order_id, split_id, payment_method, amount, amount_tendered, change_amount)
+  VALUES (_order_id, _split_id, _payment_method, _amount, _amount_paid, _amount_paid - _amount);
+
+  IF _already_paid + _amount = _order.total THEN
+    UPDATE public.orders o
+    SET status = 'completed',
+        payment_method = (
+          SELECT os.payment_method
+          FROM public.order_splits os
+          WHERE os.order_id = _order_id
+          GROUP BY os.payment_method
+          ORDER BY SUM(os.amount) DESC
+          LIMIT 1
+        ),
+        amount_paid = totals.amount_paid,
+        change_amount = totals.change_amount,
+        completed_at = now()
+    FROM (
+      SELECT SUM(amount_paid)::INTEGER AS amount_paid, SUM(change_amount)::INTEGER AS change_amount
+      FROM public.order_splits
+      WHERE order_id = _order_id
+    ) AS totals
+    WHERE o.id = _order_id;
+
+    UPDATE public.restaurant_tables
+    SET status = 'available', current_order_id = NULL
+    WHERE current_order_id = _order_id;
+  END IF;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Returned orders carry their tenders
+CREATE OR REPLACE FUNCTION public.order_with_items(_order_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'order_items',
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.round_number, oi.created_at), '[]'::jsonb)
+      FROM public.order_items oi
+      WHERE oi.order_id = o.id
+    ),
+    'order_splits',
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(os) ORDER BY os.split_number), '[]'::jsonb)
+      FROM public.order_splits os
+      WHERE os.order_id = o.id
+    ),
+    'order_payments',
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(op) ORDER BY op.created_at), '[]'::jsonb)
+      FROM public.order_payments op
+      WHERE op.order_id = o.id
+    )
+  )
+  FROM public.orders o
+  WHERE o.id = _order_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order(JSONB, JSONB, UUID, INTEGER, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_order(UUID, JSONB, INTEGER) TO authenticated;
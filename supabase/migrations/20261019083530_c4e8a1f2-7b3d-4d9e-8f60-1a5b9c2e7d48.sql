@@ -0,0 +1,76 @@
+-- Item modifiers: option groups per menu item (e.g. "Level Pedas", "Extra"),
+-- required or optional, single or multi select, each option with a price delta.
+CREATE TABLE public.menu_modifier_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  is_required BOOLEAN NOT NULL DEFAULT false,
+  selection_type TEXT NOT NULL DEFAULT 'single', -- 'single', 'multi'
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (selection_type IN ('single', 'multi'))
+);
+
+CREATE TABLE public.menu_modifier_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID REFERENCES public.menu_modifier_groups(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  price_delta INTEGER NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.menu_modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_modifier_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view modifier groups"
+  ON public.menu_modifier_groups FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage modifier groups"
+  ON public.menu_modifier_groups FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view modifier options"
+  ON public.menu_modifier_options FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage modifier options"
+  ON public.menu_modifier_options FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_menu_modifier_groups_menu_item_id ON public.menu_modifier_groups(menu_item_id);
+CREATE INDEX idx_menu_modifier_options_group_id ON public.menu_modifier_options(group_id);
+
+-- Chosen modifiers of an order line: [{ group_name, name, price_delta }].
+-- unit_price already includes the price deltas.
+ALTER TABLE public.order_items ADD COLUMN modifiers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.insert_order_items(_order_id UUID, _items JSONB, _round_number INTEGER DEFAULT 1)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, menu_item_name, quantity, unit_price, total_price, notes, modifiers, round_number)
+  SELECT
+    _order_id,
+    NULLIF(item ->> 'menu_item_id', '')::UUID,
+    item ->> 'menu_item_name',
+    (item ->> 'quantity')::INTEGER,
+    (item ->> 'unit_price')::INTEGER,
+    (item ->> 'unit_price')::INTEGER * (item ->> 'quantity')::INTEGER,
+    item ->> 'notes',
+    COALESCE(item -> 'modifiers', '[]'::jsonb),
+    _round_number
+  FROM jsonb_array_elements(_items) AS item;
+END;
+$$;
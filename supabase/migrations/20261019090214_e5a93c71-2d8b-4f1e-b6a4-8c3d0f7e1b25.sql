@@ -0,0 +1,270 @@
+-- Promotions defined by admins and applied automatically by the POS.
+-- value is a percentage for 'percent' and rupiah for 'fixed'; buy_x_get_y uses buy/get quantities.
+CREATE TABLE public.promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  promo_type TEXT NOT NULL DEFAULT 'percent', -- 'percent', 'fixed', 'buy_x_get_y'
+  scope TEXT NOT NULL DEFAULT 'order', -- 'order', 'item', 'category'
+  menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.menu_categories(id) ON DELETE CASCADE,
+  value INTEGER NOT NULL DEFAULT 0,
+  min_spend INTEGER NOT NULL DEFAULT 0,
+  buy_quantity INTEGER,
+  get_quantity INTEGER,
+  start_date DATE,
+  end_date DATE,
+  start_time TIME, -- happy hour window, may wrap past midnight
+  end_time TIME,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (promo_type IN ('percent', 'fixed', 'buy_x_get_y')),
+  CHECK (scope IN ('order', 'item', 'category')),
+  CHECK (scope <> 'item' OR menu_item_id IS NOT NULL),
+  CHECK (scope <> 'category' OR category_id IS NOT NULL),
+  CHECK (promo_type <> 'percent' OR value BETWEEN 0 AND 100),
+  CHECK (promo_type <> 'buy_x_get_y' OR (buy_quantity > 0 AND get_quantity > 0)),
+  CHECK (value >= 0 AND min_spend >= 0)
+);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view promotions"
+  ON public.promotions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage promotions"
+  ON public.promotions FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Discount breakdown on the order; discount stays the total taken off the subtotal
+ALTER TABLE public.orders
+  ADD COLUMN promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL,
+  ADD COLUMN promotion_name TEXT,
+  ADD COLUMN promotion_discount INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN manual_discount INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN discount_approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_orders_promotion_id ON public.orders(promotion_id);
+
+-- Manual discounts above this amount need an admin PIN
+INSERT INTO public.app_settings (key, value, description) VALUES
+  ('manual_discount_approval_limit', '20000', 'Manual discount (Rp) a cashier may give without admin approval')
+ON CONFLICT (key) DO NOTHING;
+
+-- Admin approval PINs, only reachable through the functions below
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.approval_pins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.approval_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.set_approval_pin(_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can set an approval PIN';
+  END IF;
+
+  IF _pin IS NULL OR _pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'Approval PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO public.approval_pins (user_id, pin_hash)
+  VALUES (auth.uid(), extensions.crypt(_pin, extensions.gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+END;
+$$;
+
+-- Admin whose PIN matches, or NULL
+CREATE OR REPLACE FUNCTION public.approval_pin_user(_pin TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ap.user_id
+  FROM public.approval_pins ap
+  WHERE _pin IS NOT NULL
+    AND ap.pin_hash = extensions.crypt(_pin, ap.pin_hash)
+    AND public.has_role(ap.user_id, 'admin')
+  LIMIT 1
+$$;
+
+-- Name of the approving admin, so the POS can show who approved
+CREATE OR REPLACE FUNCTION public.verify_approval_pin(_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _approver UUID;
+  _name TEXT;
+BEGIN
+  _approver := public.approval_pin_user(_pin);
+
+  IF _approver IS NULL THEN
+    RAISE EXCEPTION 'Invalid approval PIN';
+  END IF;
+
+  SELECT full_name INTO _name FROM public.profiles WHERE id = _approver;
+  RETURN COALESCE(_name, 'Admin');
+END;
+$$;
+
+-- Apply the discount breakdown ({ promotion_id, promotion_name, promotion_discount,
+-- manual_discount, approval_pin }) to an unpaid order and recalculate its total.
+CREATE OR REPLACE FUNCTION public.apply_order_discount(_order_id UUID, _discount JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _promotion_discount INTEGER := COALESCE((_discount ->> 'promotion_discount')::INTEGER, 0);
+  _manual_discount INTEGER := COALESCE((_discount ->> 'manual_discount')::INTEGER, 0);
+  _limit INTEGER;
+  _approver UUID;
+BEGIN
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'Order % is already paid', _order.order_number;
+  END IF;
+
+  IF _promotion_discount < 0 OR _manual_discount < 0 THEN
+    RAISE EXCEPTION 'Discounts cannot be negative';
+  END IF;
+
+  IF _promotion_discount + _manual_discount > _order.subtotal THEN
+    RAISE EXCEPTION 'Discount exceeds the order subtotal';
+  END IF;
+
+  SELECT COALESCE(NULLIF(value, '')::INTEGER, 0) INTO _limit
+  FROM public.app_settings
+  WHERE key = 'manual_discount_approval_limit';
+
+  IF _manual_discount > 0 AND public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSIF _manual_discount > COALESCE(_limit, 0) THEN
+    _approver := public.approval_pin_user(_discount ->> 'approval_pin');
+
+    IF _approver IS NULL THEN
+      RAISE EXCEPTION 'Manual discount above % needs admin approval', COALESCE(_limit, 0);
+    END IF;
+  END IF;
+
+  UPDATE public.orders
+  SET promotion_id = CASE WHEN _promotion_discount > 0 THEN NULLIF(_discount ->> 'promotion_id', '')::UUID END,
+      promotion_name = CASE WHEN _promotion_discount > 0 THEN _discount ->> 'promotion_name' END,
+      promotion_discount = _promotion_discount,
+      manual_discount = _manual_discount,
+      discount_approved_by = _approver,
+      discount = _promotion_discount + _manual_discount
+  WHERE id = _order_id;
+
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Pay-now and settlement take the discount breakdown instead of a bare amount
+DROP FUNCTION IF EXISTS public.create_order(JSONB, JSONB, UUID, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  _items JSONB,
+  _payments JSONB,
+  _table_id UUID DEFAULT NULL,
+  _discount JSONB DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  INSERT INTO public.orders (order_number, table_id, cashier_id, cashier_name, status, notes, completed_at)
+  VALUES ('', _table_id, auth.uid(), _cashier_name, 'completed', _notes, now())
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _items);
+  PERFORM public.apply_order_discount(_order_id, _discount);
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  IF _table_id IS NOT NULL THEN
+    UPDATE public.restaurant_tables
+    SET status = 'available', current_order_id = NULL
+    WHERE id = _table_id;
+  END IF;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.settle_order(UUID, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.settle_order(
+  _order_id UUID,
+  _payments JSONB,
+  _discount JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order % is not open', _order.order_number;
+  END IF;
+
+  PERFORM public.apply_order_discount(_order_id, _discount);
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  UPDATE public.orders
+  SET status = 'completed',
+      completed_at = now()
+  WHERE id = _order_id;
+
+  UPDATE public.restaurant_tables
+  SET status = 'available', current_order_id = NULL
+  WHERE current_order_id = _order_id;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_approval_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_approval_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_order_discount(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order(JSONB, JSONB, UUID, JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_order(UUID, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,104 @@
+-- PB1 restaurant tax and service charge, configured per restaurant
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0, -- PB1 percentage, usually 10
+  ADD COLUMN service_charge_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN prices_include_tax BOOLEAN NOT NULL DEFAULT false, -- menu prices already include tax and service
+  ADD COLUMN rounding_unit INTEGER NOT NULL DEFAULT 0, -- 0 (none), 100, 500, 1000
+  ADD COLUMN rounding_mode TEXT NOT NULL DEFAULT 'nearest', -- 'nearest', 'up', 'down'
+  ADD CONSTRAINT restaurant_settings_tax_rate_check CHECK (tax_rate BETWEEN 0 AND 100),
+  ADD CONSTRAINT restaurant_settings_service_charge_rate_check CHECK (service_charge_rate BETWEEN 0 AND 100),
+  ADD CONSTRAINT restaurant_settings_rounding_unit_check CHECK (rounding_unit >= 0),
+  ADD CONSTRAINT restaurant_settings_rounding_mode_check CHECK (rounding_mode IN ('nearest', 'up', 'down'));
+
+-- Charges stored on the order for the monthly PB1 report, with the rates they were computed at.
+-- total = subtotal - discount + service_charge + tax + rounding (tax and service are inside
+-- the subtotal when prices include tax).
+ALTER TABLE public.orders
+  ADD COLUMN service_charge INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN tax INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN rounding INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN service_charge_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN prices_include_tax BOOLEAN NOT NULL DEFAULT false;
+
+-- Same arithmetic as calculateBillTotals in src/utils/billTotals.ts
+CREATE OR REPLACE FUNCTION public.recalculate_order_totals(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.restaurant_settings;
+  _subtotal INTEGER;
+  _net INTEGER;
+  _service INTEGER;
+  _tax INTEGER;
+  _total INTEGER;
+  _rounded INTEGER;
+  _tax_rate NUMERIC := 0;
+  _service_rate NUMERIC := 0;
+  _inclusive BOOLEAN := false;
+BEGIN
+  SELECT * INTO _settings FROM public.restaurant_settings ORDER BY created_at LIMIT 1;
+
+  IF FOUND THEN
+    _tax_rate := _settings.tax_rate;
+    _service_rate := _settings.service_charge_rate;
+    _inclusive := _settings.prices_include_tax;
+  END IF;
+
+  SELECT COALESCE(SUM(total_price), 0)::INTEGER INTO _subtotal
+  FROM public.order_items
+  WHERE order_id = _order_id;
+
+  SELECT GREATEST(_subtotal - COALESCE(discount, 0), 0) INTO _net
+  FROM public.orders
+  WHERE id = _order_id;
+
+  IF _inclusive THEN
+    _tax := _net - ROUND(_net / (1 + _tax_rate / 100));
+    _service := (_net - _tax) - ROUND((_net - _tax) / (1 + _service_rate / 100));
+    _total := _net;
+  ELSE
+    _service := ROUND(_net * _service_rate / 100);
+    _tax := ROUND((_net + _service) * _tax_rate / 100);
+    _total := _net + _service + _tax;
+  END IF;
+
+  _rounded := CASE
+    WHEN COALESCE(_settings.rounding_unit, 0) <= 0 THEN _total
+    WHEN _settings.rounding_mode = 'up' THEN CEIL(_total::NUMERIC / _settings.rounding_unit) * _settings.rounding_unit
+    WHEN _settings.rounding_mode = 'down' THEN FLOOR(_total::NUMERIC / _settings.rounding_unit) * _settings.rounding_unit
+    ELSE ROUND(_total::NUMERIC / _settings.rounding_unit) * _settings.rounding_unit
+  END;
+
+  UPDATE public.orders
+  SET subtotal = _subtotal,
+      service_charge = _service,
+      tax = _tax,
+      rounding = _rounded - _total,
+      total = _rounded,
+      tax_rate = _tax_rate,
+      service_charge_rate = _service_rate,
+      prices_include_tax = _inclusive
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Monthly PB1 figures of completed orders, in Asia/Jakarta months
+CREATE OR REPLACE VIEW public.monthly_tax_report
+WITH (security_invoker = true)
+AS
+SELECT
+  date_trunc('month', completed_at AT TIME ZONE 'Asia/Jakarta')::DATE AS month,
+  COUNT(*)::INTEGER AS order_count,
+  SUM(subtotal)::INTEGER AS subtotal,
+  SUM(discount)::INTEGER AS discount,
+  SUM(service_charge)::INTEGER AS service_charge,
+  SUM(total - tax - rounding)::INTEGER AS taxable_amount,
+  SUM(tax)::INTEGER AS tax,
+  SUM(total)::INTEGER AS total
+FROM public.orders
+WHERE status = 'completed'
+  AND completed_at IS NOT NULL
+GROUP BY 1;
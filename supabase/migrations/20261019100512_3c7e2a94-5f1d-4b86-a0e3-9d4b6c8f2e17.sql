@@ -0,0 +1,2 @@
+-- Fully refunded orders keep their row with their own status
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'refunded';
@@ -0,0 +1,322 @@
+-- Voids and refunds. Orders are never deleted: a voided order becomes 'cancelled', a fully
+-- refunded one 'refunded', and money already taken is reversed in accounting_entries.
+CREATE TABLE public.order_voids (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  order_item_id UUID REFERENCES public.order_items(id) ON DELETE SET NULL, -- NULL when the whole order is voided
+  menu_item_name TEXT,
+  quantity INTEGER,
+  amount INTEGER NOT NULL DEFAULT 0,
+  reason TEXT NOT NULL,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  voided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.order_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  refund_type TEXT NOT NULL DEFAULT 'partial', -- 'full', 'partial'
+  amount INTEGER NOT NULL,
+  payment_method payment_method NOT NULL,
+  items JSONB, -- [{ order_item_id, quantity }] for item refunds
+  reason TEXT NOT NULL,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  refunded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (amount > 0),
+  CHECK (refund_type IN ('full', 'partial'))
+);
+
+ALTER TABLE public.order_voids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the approval-checked functions below only
+CREATE POLICY "Authenticated users can view order voids"
+  ON public.order_voids FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view order refunds"
+  ON public.order_refunds FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX idx_order_voids_order_id ON public.order_voids(order_id);
+CREATE INDEX idx_order_voids_created_at ON public.order_voids(created_at);
+CREATE INDEX idx_order_refunds_order_id ON public.order_refunds(order_id);
+CREATE INDEX idx_order_refunds_created_at ON public.order_refunds(created_at);
+
+ALTER TABLE public.orders
+  ADD COLUMN refunded_amount INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN voided_at TIMESTAMP WITH TIME ZONE;
+
+-- Admin whose PIN approves the action; every void and refund needs a reason and a PIN
+CREATE OR REPLACE FUNCTION public.require_void_approval(_reason TEXT, _approval_pin TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _approver UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  _approver := public.approval_pin_user(_approval_pin);
+
+  IF _approver IS NULL THEN
+    RAISE EXCEPTION 'Invalid approval PIN';
+  END IF;
+
+  RETURN _approver;
+END;
+$$;
+
+-- Void a whole order, paid or not. Tenders already taken are reversed.
+CREATE OR REPLACE FUNCTION public.void_order(_order_id UUID, _reason TEXT, _approval_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _approver UUID;
+  _void_id UUID;
+BEGIN
+  _approver := public.require_void_approval(_reason, _approval_pin);
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % is already void', _order.order_number;
+  END IF;
+
+  IF _order.status = 'refunded' OR _order.refunded_amount > 0 THEN
+    RAISE EXCEPTION 'Order % has refunds and cannot be voided', _order.order_number;
+  END IF;
+
+  INSERT INTO public.order_voids (order_id, amount, reason, approved_by, voided_by)
+  VALUES (_order_id, _order.total, btrim(_reason), _approver, auth.uid())
+  RETURNING id INTO _void_id;
+
+  INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, reference_id, reference_type, payment_method)
+  SELECT
+    (now() AT TIME ZONE 'Asia/Jakarta')::DATE,
+    'void',
+    'Void #' || _order.order_number || ' - ' || btrim(_reason),
+    0,
+    SUM(op.amount)::INTEGER,
+    _void_id,
+    'order_void',
+    op.payment_method::TEXT
+  FROM public.order_payments op
+  WHERE op.order_id = _order_id
+  GROUP BY op.payment_method;
+
+  UPDATE public.orders
+  SET status = 'cancelled',
+      voided_at = now()
+  WHERE id = _order_id;
+
+  UPDATE public.restaurant_tables
+  SET status = 'available', current_order_id = NULL
+  WHERE current_order_id = _order_id;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Void lines ([{ order_item_id, quantity }]) of an open, unpaid order, e.g. a dish sent by mistake.
+-- Paid orders are refunded instead.
+CREATE OR REPLACE FUNCTION public.void_order_items(_order_id UUID, _items JSONB, _reason TEXT, _approval_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _approver UUID;
+  _pick JSONB;
+  _line public.order_items;
+  _quantity INTEGER;
+BEGIN
+  _approver := public.require_void_approval(_reason, _approval_pin);
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to void';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'pending' OR EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'Only unpaid open orders can have items voided';
+  END IF;
+
+  FOR _pick IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    _quantity := (_pick ->> 'quantity')::INTEGER;
+
+    SELECT * INTO _line
+    FROM public.order_items
+    WHERE id = (_pick ->> 'order_item_id')::UUID AND order_id = _order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of order %', _order.order_number;
+    END IF;
+
+    IF _quantity IS NULL OR _quantity <= 0 OR _quantity > _line.quantity THEN
+      RAISE EXCEPTION 'Cannot void % of % %', _quantity, _line.quantity, _line.menu_item_name;
+    END IF;
+
+    INSERT INTO public.order_voids (order_id, order_item_id, menu_item_name, quantity, amount, reason, approved_by, voided_by)
+    VALUES (_order_id, _line.id, _line.menu_item_name, _quantity, _line.unit_price * _quantity, btrim(_reason), _approver, auth.uid());
+
+    IF _quantity = _line.quantity THEN
+      DELETE FROM public.order_items WHERE id = _line.id;
+    ELSE
+      UPDATE public.order_items
+      SET quantity = quantity - _quantity,
+          total_price = unit_price * (quantity - _quantity)
+      WHERE id = _line.id;
+    END IF;
+  END LOOP;
+
+  -- Nothing left: the order itself is void
+  IF NOT EXISTS (SELECT 1 FROM public.order_items WHERE order_id = _order_id) THEN
+    UPDATE public.orders
+    SET status = 'cancelled', voided_at = now(), discount = 0, promotion_discount = 0, manual_discount = 0
+    WHERE id = _order_id;
+
+    UPDATE public.restaurant_tables
+    SET status = 'available', current_order_id = NULL
+    WHERE current_order_id = _order_id;
+  ELSE
+    -- A discount larger than what is left is capped at the new subtotal
+    UPDATE public.orders o
+    SET discount = LEAST(o.discount, totals.subtotal)
+    FROM (
+      SELECT COALESCE(SUM(total_price), 0)::INTEGER AS subtotal
+      FROM public.order_items
+      WHERE order_id = _order_id
+    ) AS totals
+    WHERE o.id = _order_id;
+  END IF;
+
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+-- Refund money on a completed order, in full or in part. Item refunds pass the refunded
+-- lines for the record; the amount is what goes back to the customer.
+CREATE OR REPLACE FUNCTION public.refund_order(
+  _order_id UUID,
+  _amount INTEGER,
+  _payment_method payment_method,
+  _reason TEXT,
+  _approval_pin TEXT,
+  _items JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _approver UUID;
+  _remaining INTEGER;
+  _refund_id UUID;
+BEGIN
+  _approver := public.require_void_approval(_reason, _approval_pin);
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed orders can be refunded';
+  END IF;
+
+  _remaining := _order.total - _order.refunded_amount;
+
+  IF _amount IS NULL OR _amount <= 0 OR _amount > _remaining THEN
+    RAISE EXCEPTION 'Refund amount % exceeds the refundable balance %', _amount, _remaining;
+  END IF;
+
+  -- Each refunded line must still have that many units not refunded before
+  IF _items IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_items) AS pick
+    LEFT JOIN public.order_items oi
+      ON oi.id = (pick ->> 'order_item_id')::UUID AND oi.order_id = _order_id
+    WHERE oi.id IS NULL
+       OR (pick ->> 'quantity')::INTEGER <= 0
+       OR (pick ->> 'quantity')::INTEGER + COALESCE((
+            SELECT SUM((earlier ->> 'quantity')::INTEGER)
+            FROM public.order_refunds r, jsonb_array_elements(r.items) AS earlier
+            WHERE r.order_id = _order_id
+              AND r.items IS NOT NULL
+              AND earlier ->> 'order_item_id' = pick ->> 'order_item_id'
+          ), 0) > oi.quantity
+  ) THEN
+    RAISE EXCEPTION 'Refunded items exceed what was sold';
+  END IF;
+
+  INSERT INTO public.order_refunds (order_id, refund_type, amount, payment_method, items, reason, approved_by, refunded_by)
+  VALUES (
+    _order_id,
+    CASE WHEN _amount = _order.total THEN 'full' ELSE 'partial' END,
+    _amount,
+    _payment_method,
+    _items,
+    btrim(_reason),
+    _approver,
+    auth.uid()
+  )
+  RETURNING id INTO _refund_id;
+
+  INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, reference_id, reference_type, payment_method)
+  VALUES (
+    (now() AT TIME ZONE 'Asia/Jakarta')::DATE,
+    'refund',
+    'Refund #' || _order.order_number || ' - ' || btrim(_reason),
+    0,
+    _amount,
+    _refund_id,
+    'order_refund',
+    _payment_method::TEXT
+  );
+
+  UPDATE public.orders
+  SET refunded_amount = refunded_amount + _amount,
+      status = CASE WHEN refunded_amount + _amount = total THEN 'refunded'::order_status ELSE status END
+  WHERE id = _order_id;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_order(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.void_order_items(UUID, JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_order(UUID, INTEGER, payment_method, TEXT, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,2 @@
+-- Kitchen staff only see the kitchen display
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'kitchen';
@@ -0,0 +1,90 @@
+-- Kitchen display state per order item. A ticket is the order's items not yet bumped, so
+-- items added to an open tab later come back to the kitchen as a new ticket.
+ALTER TABLE public.order_items
+  ADD COLUMN kitchen_ready_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN kitchen_bumped_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_order_items_kitchen_open ON public.order_items(created_at) WHERE kitchen_bumped_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.require_staff()
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_order_item_ready(_order_item_id UUID, _ready BOOLEAN)
+RETURNS public.order_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.order_items;
+BEGIN
+  PERFORM public.require_staff();
+
+  UPDATE public.order_items
+  SET kitchen_ready_at = CASE WHEN _ready THEN COALESCE(kitchen_ready_at, now()) ELSE NULL END
+  WHERE id = _order_item_id
+  RETURNING * INTO _item;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  RETURN _item;
+END;
+$$;
+
+-- Bump clears the ticket off the screen; every item on it counts as ready
+CREATE OR REPLACE FUNCTION public.bump_kitchen_ticket(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_staff();
+
+  UPDATE public.order_items
+  SET kitchen_bumped_at = now(),
+      kitchen_ready_at = COALESCE(kitchen_ready_at, now())
+  WHERE order_id = _order_id
+    AND kitchen_bumped_at IS NULL;
+END;
+$$;
+
+-- Recall brings back the items of the order's most recent bump
+CREATE OR REPLACE FUNCTION public.recall_kitchen_ticket(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_staff();
+
+  UPDATE public.order_items
+  SET kitchen_bumped_at = NULL
+  WHERE order_id = _order_id
+    AND kitchen_bumped_at = (
+      SELECT MAX(kitchen_bumped_at) FROM public.order_items WHERE order_id = _order_id
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_order_item_ready(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.bump_kitchen_ticket(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recall_kitchen_ticket(UUID) TO authenticated;
+
+-- Kitchen screens follow new items, bumps and voids as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_items;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
@@ -0,0 +1,9 @@
+-- Station whose printer gets the production ticket for a category's items; NULL prints none.
+-- Which Bluetooth printer serves each station is configured per device in the app.
+ALTER TABLE public.menu_categories
+  ADD COLUMN print_station TEXT DEFAULT 'kitchen',
+  ADD CONSTRAINT menu_categories_print_station_check CHECK (print_station IN ('kitchen', 'drinks'));
+
+UPDATE public.menu_categories
+SET print_station = 'drinks'
+WHERE name ILIKE '%minum%' OR name ILIKE '%drink%';
@@ -0,0 +1,4 @@
+-- Receipt layout edited by admins: logo URL, extra header lines and which fields are printed.
+-- Keys left out fall back to the app's defaults, so the empty object is the default layout.
+ALTER TABLE public.restaurant_settings
+  ADD COLUMN receipt_template JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,57 @@
+-- Unguessable per-order token that signs the public digital receipt link. Holding the token
+-- grants read access to that one receipt and nothing else.
+ALTER TABLE public.orders
+  ADD COLUMN receipt_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX idx_orders_receipt_token ON public.orders (receipt_token);
+
+-- Receipt of a paid order for the public /receipt page; NULL for unknown tokens and unpaid orders.
+-- Staff identifiers are left out; the cashier appears by name only.
+CREATE OR REPLACE FUNCTION public.get_digital_receipt(_token UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE receipt_token = _token;
+
+  IF NOT FOUND OR _order.status NOT IN ('completed', 'refunded') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(_order) - 'receipt_token' - 'cashier_id' - 'discount_approved_by',
+    'table_number', (SELECT table_number FROM public.restaurant_tables WHERE id = _order.table_id),
+    'items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(i) ORDER BY i.created_at)
+      FROM public.order_items i
+      WHERE i.order_id = _order.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('payment_method', p.payment_method, 'amount', p.amount_tendered) ORDER BY p.created_at)
+      FROM public.order_payments p
+      WHERE p.order_id = _order.id
+    ), '[]'::jsonb),
+    'settings', (
+      SELECT jsonb_build_object(
+        'restaurant_name', s.restaurant_name,
+        'address_line1', s.address_line1,
+        'address_line2', s.address_line2,
+        'address_line3', s.address_line3,
+        'whatsapp_number', s.whatsapp_number,
+        'instagram_handle', s.instagram_handle,
+        'footer_message', s.footer_message,
+        'receipt_template', s.receipt_template
+      )
+      FROM public.restaurant_settings s
+      LIMIT 1
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_digital_receipt(UUID) TO anon, authenticated;
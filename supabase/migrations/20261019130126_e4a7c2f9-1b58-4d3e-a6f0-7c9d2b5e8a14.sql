@@ -0,0 +1,176 @@
+-- Orders captured while the device was offline are created with a client-generated UUID,
+-- so replaying the sync queue never books the same sale twice.
+ALTER TABLE public.orders
+  ADD COLUMN client_id UUID;
+
+CREATE UNIQUE INDEX idx_orders_client_id ON public.orders (client_id) WHERE client_id IS NOT NULL;
+
+-- Number orders on the business day they were taken; synced offline orders keep their own day
+CREATE OR REPLACE FUNCTION public.generate_order_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_date DATE := (COALESCE(NEW.created_at, now()) AT TIME ZONE 'Asia/Jakarta')::DATE;
+  _next_number INTEGER;
+BEGIN
+  INSERT INTO public.order_number_counters (order_date, last_number)
+  VALUES (_order_date, 1)
+  ON CONFLICT (order_date) DO UPDATE
+    SET last_number = public.order_number_counters.last_number + 1,
+        updated_at = now()
+  RETURNING last_number INTO _next_number;
+
+  NEW.order_number := 'ORD-' || TO_CHAR(_order_date, 'YYYYMMDD') || '-' || LPAD(_next_number::TEXT, 4, '0');
+  RETURN NEW;
+END;
+$$;
+
+-- Books a paid order taken offline. The sale already happened, so it is recorded as charged:
+-- prices and totals from the device are kept, and anything that no longer matches the
+-- server (deleted menu items or tables, changed prices or tax settings, an unapproved
+-- discount) is returned as a conflict for the cashier instead of failing the sync.
+-- Calling it again with the same client id returns the booked order unchanged.
+CREATE OR REPLACE FUNCTION public.sync_offline_order(
+  _client_id UUID,
+  _created_at TIMESTAMPTZ,
+  _items JSONB,
+  _payments JSONB,
+  _totals JSONB,
+  _table_id UUID DEFAULT NULL,
+  _discount JSONB DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL,
+  _receipt_token UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _clean_items JSONB := '[]'::jsonb;
+  _item JSONB;
+  _menu_item public.menu_items;
+  _base_price INTEGER;
+  _table UUID := _table_id;
+  _promotion_id UUID := NULLIF(_discount ->> 'promotion_id', '')::UUID;
+  _promotion_discount INTEGER := COALESCE((_discount ->> 'promotion_discount')::INTEGER, 0);
+  _manual_discount INTEGER := COALESCE((_discount ->> 'manual_discount')::INTEGER, 0);
+  _limit INTEGER;
+  _approver UUID;
+  _server_total INTEGER;
+BEGIN
+  PERFORM public.require_staff();
+
+  SELECT id INTO _order_id FROM public.orders WHERE client_id = _client_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'order', public.order_with_items(_order_id),
+      'conflicts', '[]'::jsonb,
+      'duplicate', true
+    );
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = NULLIF(_item ->> 'menu_item_id', '')::UUID;
+
+    IF NOT FOUND THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'menu_item_deleted',
+        'item', _item ->> 'menu_item_name'
+      );
+      _item := jsonb_set(_item, '{menu_item_id}', 'null'::jsonb);
+    ELSE
+      _base_price := (_item ->> 'unit_price')::INTEGER - COALESCE((
+        SELECT SUM((modifier ->> 'price_delta')::INTEGER)
+        FROM jsonb_array_elements(COALESCE(_item -> 'modifiers', '[]'::jsonb)) AS modifier
+      ), 0);
+
+      IF _base_price <> _menu_item.price THEN
+        _conflicts := _conflicts || jsonb_build_object(
+          'type', 'price_changed',
+          'item', _menu_item.name,
+          'sold_price', _base_price,
+          'current_price', _menu_item.price
+        );
+      END IF;
+    END IF;
+
+    _clean_items := _clean_items || jsonb_build_array(_item);
+  END LOOP;
+
+  IF _table IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.restaurant_tables WHERE id = _table) THEN
+    _conflicts := _conflicts || jsonb_build_object('type', 'table_deleted');
+    _table := NULL;
+  END IF;
+
+  IF _promotion_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.promotions WHERE id = _promotion_id) THEN
+    _promotion_id := NULL;
+  END IF;
+
+  SELECT COALESCE(NULLIF(value, '')::INTEGER, 0) INTO _limit
+  FROM public.app_settings
+  WHERE key = 'manual_discount_approval_limit';
+
+  IF _manual_discount > 0 AND public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSIF _manual_discount > COALESCE(_limit, 0) THEN
+    _approver := public.approval_pin_user(_discount ->> 'approval_pin');
+
+    IF _approver IS NULL THEN
+      _conflicts := _conflicts || jsonb_build_object('type', 'discount_unapproved', 'amount', _manual_discount);
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    order_number, client_id, receipt_token, table_id, cashier_id, cashier_name, status, notes, created_at, completed_at,
+    promotion_id, promotion_name, promotion_discount, manual_discount, discount, discount_approved_by
+  )
+  VALUES (
+    '', _client_id, COALESCE(_receipt_token, gen_random_uuid()), _table, auth.uid(), _cashier_name, 'completed', _notes,
+    _created_at, _created_at,
+    _promotion_id, CASE WHEN _promotion_discount > 0 THEN _discount ->> 'promotion_name' END,
+    _promotion_discount, _manual_discount, _promotion_discount + _manual_discount, _approver
+  )
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _clean_items);
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  SELECT total INTO _server_total FROM public.orders WHERE id = _order_id;
+
+  IF _server_total <> (_totals ->> 'total')::INTEGER THEN
+    _conflicts := _conflicts || jsonb_build_object(
+      'type', 'total_changed',
+      'offline_total', (_totals ->> 'total')::INTEGER,
+      'current_total', _server_total
+    );
+  END IF;
+
+  -- Keep what the customer was charged
+  UPDATE public.orders
+  SET service_charge = (_totals ->> 'service_charge')::INTEGER,
+      tax = (_totals ->> 'tax')::INTEGER,
+      rounding = (_totals ->> 'rounding')::INTEGER,
+      total = (_totals ->> 'total')::INTEGER,
+      tax_rate = (_totals ->> 'tax_rate')::NUMERIC,
+      service_charge_rate = (_totals ->> 'service_charge_rate')::NUMERIC,
+      prices_include_tax = (_totals ->> 'prices_include_tax')::BOOLEAN
+  WHERE id = _order_id;
+
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  RETURN jsonb_build_object(
+    'order', public.order_with_items(_order_id),
+    'conflicts', _conflicts,
+    'duplicate', false
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sync_offline_order(UUID, TIMESTAMPTZ, JSONB, JSONB, JSONB, UUID, JSONB, TEXT, TEXT, UUID) TO authenticated;
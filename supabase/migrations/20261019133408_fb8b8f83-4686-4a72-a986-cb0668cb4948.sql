@@ -0,0 +1,291 @@
+-- Cash drawer shifts. A cashier opens a shift with a float, records cash taken in or paid
+-- out, and closes it with a count by denomination. Cash payments and cash refunds belong to
+-- the shift their cashier had open when they were recorded.
+CREATE TABLE public.cash_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cashier_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cashier_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open', -- 'open', 'closed'
+  opening_float INTEGER NOT NULL DEFAULT 0,
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closing_counts JSONB, -- { "<denomination>": count }
+  counted_cash INTEGER,
+  expected_cash INTEGER, -- frozen at close
+  variance INTEGER, -- counted minus expected; negative when cash is missing
+  closing_notes TEXT,
+  CHECK (status IN ('open', 'closed')),
+  CHECK (opening_float >= 0)
+);
+
+CREATE TABLE public.cash_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE CASCADE NOT NULL,
+  movement_type TEXT NOT NULL, -- 'cash_in', 'cash_out'
+  amount INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (movement_type IN ('cash_in', 'cash_out')),
+  CHECK (amount > 0)
+);
+
+ALTER TABLE public.cash_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the functions below only
+CREATE POLICY "Authenticated users can view cash shifts"
+  ON public.cash_shifts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view cash movements"
+  ON public.cash_movements FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- One drawer per cashier at a time
+CREATE UNIQUE INDEX idx_cash_shifts_open_cashier ON public.cash_shifts(cashier_id) WHERE status = 'open';
+CREATE INDEX idx_cash_shifts_opened_at ON public.cash_shifts(opened_at);
+CREATE INDEX idx_cash_movements_shift_id ON public.cash_movements(shift_id);
+
+ALTER TABLE public.order_payments
+  ADD COLUMN shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+ALTER TABLE public.order_refunds
+  ADD COLUMN shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_order_payments_shift_id ON public.order_payments(shift_id);
+CREATE INDEX idx_order_refunds_shift_id ON public.order_refunds(shift_id);
+
+-- Stamps payments and refunds with the caller's open shift, so every function that
+-- records money keeps working unchanged
+CREATE OR REPLACE FUNCTION public.assign_cash_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM public.cash_shifts
+    WHERE cashier_id = auth.uid() AND status = 'open';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_order_payment_shift
+  BEFORE INSERT ON public.order_payments
+  FOR EACH ROW EXECUTE FUNCTION public.assign_cash_shift();
+
+CREATE TRIGGER assign_order_refund_shift
+  BEFORE INSERT ON public.order_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.assign_cash_shift();
+
+CREATE OR REPLACE FUNCTION public.open_cash_shift(_opening_float INTEGER)
+RETURNS public.cash_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.cash_shifts;
+BEGIN
+  PERFORM public.require_staff();
+
+  IF _opening_float IS NULL OR _opening_float < 0 THEN
+    RAISE EXCEPTION 'Opening float must not be negative';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.cash_shifts WHERE cashier_id = auth.uid() AND status = 'open') THEN
+    RAISE EXCEPTION 'A shift is already open for this cashier';
+  END IF;
+
+  INSERT INTO public.cash_shifts (cashier_id, cashier_name, opening_float)
+  VALUES (
+    auth.uid(),
+    COALESCE((SELECT full_name FROM public.profiles WHERE id = auth.uid()), 'Kasir'),
+    _opening_float
+  )
+  RETURNING * INTO _shift;
+
+  RETURN _shift;
+END;
+$$;
+
+-- The cashier who owns the shift, or an admin, may change it while it is open
+CREATE OR REPLACE FUNCTION public.lock_open_cash_shift(_shift_id UUID)
+RETURNS public.cash_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.cash_shifts;
+BEGIN
+  SELECT * INTO _shift FROM public.cash_shifts WHERE id = _shift_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF _shift.cashier_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF _shift.status <> 'open' THEN
+    RAISE EXCEPTION 'Shift is already closed';
+  END IF;
+
+  RETURN _shift;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_cash_movement(_shift_id UUID, _movement_type TEXT, _amount INTEGER, _reason TEXT)
+RETURNS public.cash_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _movement public.cash_movements;
+BEGIN
+  PERFORM public.lock_open_cash_shift(_shift_id);
+
+  IF _movement_type NOT IN ('cash_in', 'cash_out') THEN
+    RAISE EXCEPTION 'Unknown cash movement type %', _movement_type;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  INSERT INTO public.cash_movements (shift_id, movement_type, amount, reason, created_by)
+  VALUES (_shift_id, _movement_type, _amount, btrim(_reason), auth.uid())
+  RETURNING * INTO _movement;
+
+  RETURN _movement;
+END;
+$$;
+
+-- Cash the drawer should hold: float, plus cash sales (tendered less change), less cash
+-- refunds, plus cash in, less cash out. Closed shifts report the figures frozen at close.
+CREATE OR REPLACE FUNCTION public.cash_shift_summary(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.cash_shifts;
+  _cash_sales INTEGER;
+  _cash_refunds INTEGER;
+  _cash_in INTEGER;
+  _cash_out INTEGER;
+  _expected INTEGER;
+BEGIN
+  PERFORM public.require_staff();
+
+  SELECT * INTO _shift FROM public.cash_shifts WHERE id = _shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _cash_sales
+  FROM public.order_payments
+  WHERE shift_id = _shift_id AND payment_method = 'cash';
+
+  SELECT COALESCE(SUM(amount), 0) INTO _cash_refunds
+  FROM public.order_refunds
+  WHERE shift_id = _shift_id AND payment_method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_out'), 0)
+  INTO _cash_in, _cash_out
+  FROM public.cash_movements
+  WHERE shift_id = _shift_id;
+
+  _expected := COALESCE(_shift.expected_cash, _shift.opening_float + _cash_sales - _cash_refunds + _cash_in - _cash_out);
+
+  RETURN jsonb_build_object(
+    'shift', to_jsonb(_shift),
+    'cash_sales', _cash_sales,
+    'cash_refunds', _cash_refunds,
+    'cash_in', _cash_in,
+    'cash_out', _cash_out,
+    'expected_cash', _expected,
+    'order_count', (SELECT COUNT(DISTINCT order_id) FROM public.order_payments WHERE shift_id = _shift_id),
+    'payments_by_method', COALESCE((
+      SELECT jsonb_object_agg(payment_method, total)
+      FROM (
+        SELECT payment_method, SUM(amount) AS total
+        FROM public.order_payments
+        WHERE shift_id = _shift_id
+        GROUP BY payment_method
+      ) AS tenders
+    ), '{}'::jsonb),
+    'movements', COALESCE((
+      SELECT jsonb_agg(to_jsonb(m) ORDER BY m.created_at)
+      FROM public.cash_movements m
+      WHERE m.shift_id = _shift_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Close with the drawer count ({ "<denomination>": count }); stores expected cash and the
+-- variance so later corrections to orders do not rewrite a settled drawer
+CREATE OR REPLACE FUNCTION public.close_cash_shift(_shift_id UUID, _counts JSONB, _notes TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _counted INTEGER;
+  _expected INTEGER;
+BEGIN
+  PERFORM public.lock_open_cash_shift(_shift_id);
+
+  IF _counts IS NULL OR jsonb_typeof(_counts) <> 'object' THEN
+    RAISE EXCEPTION 'Closing count is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_each_text(_counts) AS c
+    WHERE c.key !~ '^[1-9][0-9]*$' OR c.value !~ '^[0-9]+$'
+  ) THEN
+    RAISE EXCEPTION 'Closing count must map denominations to whole counts';
+  END IF;
+
+  SELECT COALESCE(SUM(c.key::INTEGER * c.value::INTEGER), 0) INTO _counted
+  FROM jsonb_each_text(_counts) AS c;
+
+  _expected := (public.cash_shift_summary(_shift_id) ->> 'expected_cash')::INTEGER;
+
+  UPDATE public.cash_shifts
+  SET status = 'closed',
+      closed_at = now(),
+      closing_counts = _counts,
+      counted_cash = _counted,
+      expected_cash = _expected,
+      variance = _counted - _expected,
+      closing_notes = NULLIF(btrim(COALESCE(_notes, '')), '')
+  WHERE id = _shift_id;
+
+  RETURN public.cash_shift_summary(_shift_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_cash_shift(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_cash_movement(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cash_shift_summary(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_cash_shift(UUID, JSONB, TEXT) TO authenticated;
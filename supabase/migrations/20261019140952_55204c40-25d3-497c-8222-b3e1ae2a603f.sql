@@ -0,0 +1,265 @@
+-- Ingredient stock and recipes. Completing an order deducts the recipe quantities of its
+-- items and chosen modifier options; a menu item whose required ingredient runs short is
+-- taken off the menu until stock comes back.
+CREATE TABLE public.ingredients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  unit TEXT NOT NULL, -- e.g. 'gram', 'ml', 'pcs'
+  stock NUMERIC(12,3) NOT NULL DEFAULT 0, -- may go below zero when recipes undercount
+  low_stock_threshold NUMERIC(12,3) NOT NULL DEFAULT 0,
+  low_stock_alerted_at TIMESTAMP WITH TIME ZONE, -- set once the alert went out, cleared on restock
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (low_stock_threshold >= 0)
+);
+
+-- One line per ingredient used by a menu item or by a modifier option, per portion
+CREATE TABLE public.recipe_ingredients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  modifier_option_id UUID REFERENCES public.menu_modifier_options(id) ON DELETE CASCADE,
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE CASCADE NOT NULL,
+  quantity NUMERIC(12,3) NOT NULL,
+  is_required BOOLEAN NOT NULL DEFAULT true, -- the item cannot be made without it
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(menu_item_id, modifier_option_id) = 1),
+  CHECK (quantity > 0),
+  UNIQUE (menu_item_id, ingredient_id),
+  UNIQUE (modifier_option_id, ingredient_id)
+);
+
+CREATE TABLE public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE CASCADE NOT NULL,
+  movement_type TEXT NOT NULL, -- 'sale', 'restock', 'adjustment'
+  quantity NUMERIC(12,3) NOT NULL, -- signed change to stock
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (movement_type IN ('sale', 'restock', 'adjustment')),
+  CHECK (quantity <> 0)
+);
+
+ALTER TABLE public.ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view ingredients"
+  ON public.ingredients FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage ingredients"
+  ON public.ingredients FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view recipes"
+  ON public.recipe_ingredients FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage recipes"
+  ON public.recipe_ingredients FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Movements are written by the functions below only
+CREATE POLICY "Authenticated users can view stock movements"
+  ON public.stock_movements FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX idx_recipe_ingredients_menu_item_id ON public.recipe_ingredients(menu_item_id);
+CREATE INDEX idx_recipe_ingredients_modifier_option_id ON public.recipe_ingredients(modifier_option_id);
+CREATE INDEX idx_recipe_ingredients_ingredient_id ON public.recipe_ingredients(ingredient_id);
+CREATE INDEX idx_stock_movements_ingredient_id ON public.stock_movements(ingredient_id, created_at);
+
+CREATE TRIGGER update_ingredients_updated_at
+  BEFORE UPDATE ON public.ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.orders
+  ADD COLUMN stock_deducted_at TIMESTAMP WITH TIME ZONE;
+
+-- Set when the POS took the item off the menu, so restocking puts back only those items
+-- and never one an admin switched off by hand
+ALTER TABLE public.menu_items
+  ADD COLUMN auto_unavailable BOOLEAN NOT NULL DEFAULT false;
+
+-- Back above the threshold, the next drop alerts again
+CREATE OR REPLACE FUNCTION public.reset_low_stock_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stock > NEW.low_stock_threshold THEN
+    NEW.low_stock_alerted_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_ingredient_low_stock_alert
+  BEFORE UPDATE OF stock, low_stock_threshold ON public.ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.reset_low_stock_alert();
+
+-- A menu item is available only while every required ingredient covers one portion
+CREATE OR REPLACE FUNCTION public.refresh_menu_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.menu_items mi
+  SET is_available = false,
+      auto_unavailable = true
+  WHERE mi.is_available
+    AND EXISTS (
+      SELECT 1
+      FROM public.recipe_ingredients ri
+      JOIN public.ingredients i ON i.id = ri.ingredient_id
+      WHERE ri.menu_item_id = mi.id AND ri.is_required AND i.stock < ri.quantity
+    );
+
+  UPDATE public.menu_items mi
+  SET is_available = true,
+      auto_unavailable = false
+  WHERE mi.auto_unavailable
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.recipe_ingredients ri
+      JOIN public.ingredients i ON i.id = ri.ingredient_id
+      WHERE ri.menu_item_id = mi.id AND ri.is_required AND i.stock < ri.quantity
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_menu_availability_on_stock
+  AFTER UPDATE OF stock ON public.ingredients
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_menu_availability();
+
+CREATE TRIGGER refresh_menu_availability_on_recipe
+  AFTER INSERT OR UPDATE OR DELETE ON public.recipe_ingredients
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_menu_availability();
+
+-- Deducts the recipes of a completed order once. Modifier recipes need the option id that
+-- the POS stores on order_items.modifiers.
+CREATE OR REPLACE FUNCTION public.deduct_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.orders
+  SET stock_deducted_at = now()
+  WHERE id = NEW.id AND status = 'completed' AND stock_deducted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  WITH usage AS (
+    SELECT lines.ingredient_id, SUM(lines.quantity) AS quantity
+    FROM (
+      SELECT ri.ingredient_id, ri.quantity * oi.quantity AS quantity
+      FROM public.order_items oi
+      JOIN public.recipe_ingredients ri ON ri.menu_item_id = oi.menu_item_id
+      WHERE oi.order_id = NEW.id
+      UNION ALL
+      SELECT ri.ingredient_id, ri.quantity * oi.quantity
+      FROM public.order_items oi
+      CROSS JOIN LATERAL jsonb_array_elements(oi.modifiers) AS modifier
+      JOIN public.recipe_ingredients ri ON ri.modifier_option_id::TEXT = modifier ->> 'option_id'
+      WHERE oi.order_id = NEW.id
+    ) AS lines
+    GROUP BY lines.ingredient_id
+  ),
+  logged AS (
+    INSERT INTO public.stock_movements (ingredient_id, movement_type, quantity, order_id, created_by)
+    SELECT ingredient_id, 'sale', -quantity, NEW.id, auth.uid()
+    FROM usage
+  )
+  UPDATE public.ingredients i
+  SET stock = i.stock - usage.quantity
+  FROM usage
+  WHERE i.id = usage.ingredient_id;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Deferred to commit, when the order functions have inserted every item of the order
+CREATE CONSTRAINT TRIGGER deduct_order_stock_on_completion
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND NEW.stock_deducted_at IS NULL)
+  EXECUTE FUNCTION public.deduct_order_stock();
+
+-- Restock (positive) or stock-take correction (signed) by an admin
+CREATE OR REPLACE FUNCTION public.adjust_ingredient_stock(
+  _ingredient_id UUID,
+  _quantity NUMERIC,
+  _movement_type TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.ingredients
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ingredient public.ingredients;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF _movement_type NOT IN ('restock', 'adjustment') THEN
+    RAISE EXCEPTION 'Unknown stock movement type %', _movement_type;
+  END IF;
+
+  IF _quantity IS NULL OR _quantity = 0 OR (_movement_type = 'restock' AND _quantity < 0) THEN
+    RAISE EXCEPTION 'Invalid stock quantity';
+  END IF;
+
+  INSERT INTO public.stock_movements (ingredient_id, movement_type, quantity, note, created_by)
+  VALUES (_ingredient_id, _movement_type, _quantity, NULLIF(btrim(COALESCE(_note, '')), ''), auth.uid());
+
+  UPDATE public.ingredients
+  SET stock = stock + _quantity
+  WHERE id = _ingredient_id
+  RETURNING * INTO _ingredient;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ingredient not found';
+  END IF;
+
+  RETURN _ingredient;
+END;
+$$;
+
+-- Ingredients at or below their threshold that have not been alerted yet, marked as alerted.
+-- Called by the notification edge function with the service role.
+CREATE OR REPLACE FUNCTION public.claim_low_stock_alerts()
+RETURNS SETOF public.ingredients
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.ingredients
+  SET low_stock_alerted_at = now()
+  WHERE low_stock_alerted_at IS NULL
+    AND stock <= low_stock_threshold
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_low_stock_alerts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.adjust_ingredient_stock(UUID, NUMERIC, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,436 @@
+-- Purchasing. Admins order ingredients from suppliers, receive goods against the purchase
+-- order (which adds stock at the received cost) and pay suppliers, which books an expense in
+-- accounting_entries.
+CREATE TABLE public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  phone TEXT,
+  address TEXT,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT NOT NULL UNIQUE, -- PO-YYYYMMDD-01
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'ordered', -- 'ordered', 'partial', 'received', 'cancelled'
+  order_date DATE NOT NULL DEFAULT (now() AT TIME ZONE 'Asia/Jakarta')::DATE,
+  total_amount INTEGER NOT NULL DEFAULT 0, -- ordered quantities at the agreed cost
+  received_amount INTEGER NOT NULL DEFAULT 0, -- goods received so far, at the received cost
+  paid_amount INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (status IN ('ordered', 'partial', 'received', 'cancelled'))
+);
+
+CREATE TABLE public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE RESTRICT NOT NULL,
+  quantity NUMERIC(12,3) NOT NULL,
+  unit_cost INTEGER NOT NULL, -- Rupiah per ingredient unit
+  received_quantity NUMERIC(12,3) NOT NULL DEFAULT 0,
+  CHECK (quantity > 0),
+  CHECK (unit_cost >= 0)
+);
+
+CREATE TABLE public.goods_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE RESTRICT NOT NULL,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT NOT NULL,
+  total_cost INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  received_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.goods_receipt_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goods_receipt_id UUID REFERENCES public.goods_receipts(id) ON DELETE CASCADE NOT NULL,
+  purchase_order_item_id UUID REFERENCES public.purchase_order_items(id) ON DELETE RESTRICT NOT NULL,
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE RESTRICT NOT NULL,
+  quantity NUMERIC(12,3) NOT NULL,
+  unit_cost INTEGER NOT NULL,
+  total_cost INTEGER NOT NULL,
+  CHECK (quantity > 0),
+  CHECK (unit_cost >= 0)
+);
+
+CREATE TABLE public.supplier_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT NOT NULL,
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL,
+  amount INTEGER NOT NULL,
+  payment_method TEXT NOT NULL, -- 'cash', 'transfer'
+  note TEXT,
+  paid_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (amount > 0),
+  CHECK (payment_method IN ('cash', 'transfer'))
+);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_receipt_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view suppliers"
+  ON public.suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage suppliers"
+  ON public.suppliers FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Purchase orders, receipts and payments are written by the functions below only
+CREATE POLICY "Admins can view purchase orders"
+  ON public.purchase_orders FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view purchase order items"
+  ON public.purchase_order_items FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view goods receipts"
+  ON public.goods_receipts FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view goods receipt items"
+  ON public.goods_receipt_items FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view supplier payments"
+  ON public.supplier_payments FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_orders_order_date ON public.purchase_orders(order_date);
+CREATE INDEX idx_purchase_order_items_purchase_order_id ON public.purchase_order_items(purchase_order_id);
+CREATE INDEX idx_goods_receipts_purchase_order_id ON public.goods_receipts(purchase_order_id);
+CREATE INDEX idx_goods_receipt_items_goods_receipt_id ON public.goods_receipt_items(goods_receipt_id);
+CREATE INDEX idx_supplier_payments_supplier_id ON public.supplier_payments(supplier_id);
+
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON public.suppliers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Received goods enter the stock ledger as purchases and remember their latest cost
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_movement_type_check,
+  ADD CONSTRAINT stock_movements_movement_type_check
+    CHECK (movement_type IN ('sale', 'restock', 'adjustment', 'purchase')),
+  ADD COLUMN goods_receipt_id UUID REFERENCES public.goods_receipts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ingredients
+  ADD COLUMN last_unit_cost INTEGER;
+
+-- The purchase order with its lines, as the purchasing screen shows it
+CREATE OR REPLACE FUNCTION public.purchase_order_with_items(_purchase_order_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_jsonb(po) || jsonb_build_object(
+    'purchase_order_items', COALESCE((
+      SELECT jsonb_agg(to_jsonb(poi) ORDER BY poi.id)
+      FROM public.purchase_order_items poi
+      WHERE poi.purchase_order_id = po.id
+    ), '[]'::jsonb)
+  )
+  FROM public.purchase_orders po
+  WHERE po.id = _purchase_order_id;
+$$;
+
+-- _items: [{ ingredient_id, quantity, unit_cost }]
+CREATE OR REPLACE FUNCTION public.create_purchase_order(_supplier_id UUID, _items JSONB, _notes TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_date DATE := (now() AT TIME ZONE 'Asia/Jakarta')::DATE;
+  _next_number INTEGER;
+  _purchase_order_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.suppliers WHERE id = _supplier_id AND is_active) THEN
+    RAISE EXCEPTION 'Supplier not found';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one item';
+  END IF;
+
+  -- Numbers restart every day; the lock keeps two admins from taking the same one
+  PERFORM pg_advisory_xact_lock(hashtext('purchase_order_number'));
+
+  SELECT COUNT(*) + 1 INTO _next_number
+  FROM public.purchase_orders
+  WHERE order_date = _order_date;
+
+  INSERT INTO public.purchase_orders (po_number, supplier_id, order_date, notes, created_by)
+  VALUES (
+    'PO-' || TO_CHAR(_order_date, 'YYYYMMDD') || '-' || LPAD(_next_number::TEXT, 2, '0'),
+    _supplier_id,
+    _order_date,
+    NULLIF(btrim(COALESCE(_notes, '')), ''),
+    auth.uid()
+  )
+  RETURNING id INTO _purchase_order_id;
+
+  INSERT INTO public.purchase_order_items (purchase_order_id, ingredient_id, quantity, unit_cost)
+  SELECT
+    _purchase_order_id,
+    (item ->> 'ingredient_id')::UUID,
+    (item ->> 'quantity')::NUMERIC,
+    (item ->> 'unit_cost')::INTEGER
+  FROM jsonb_array_elements(_items) AS item;
+
+  UPDATE public.purchase_orders
+  SET total_amount = (
+    SELECT COALESCE(ROUND(SUM(quantity * unit_cost)), 0)::INTEGER
+    FROM public.purchase_order_items
+    WHERE purchase_order_id = _purchase_order_id
+  )
+  WHERE id = _purchase_order_id;
+
+  RETURN public.purchase_order_with_items(_purchase_order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_purchase_order(_purchase_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _purchase_order public.purchase_orders;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO _purchase_order FROM public.purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF _purchase_order.status <> 'ordered' OR _purchase_order.paid_amount > 0 THEN
+    RAISE EXCEPTION 'Only an unreceived, unpaid purchase order can be cancelled';
+  END IF;
+
+  UPDATE public.purchase_orders SET status = 'cancelled' WHERE id = _purchase_order_id;
+
+  RETURN public.purchase_order_with_items(_purchase_order_id);
+END;
+$$;
+
+-- Books goods received against a purchase order: _items is [{ purchase_order_item_id,
+-- quantity, unit_cost }] where unit_cost is what the supplier actually charged
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(_purchase_order_id UUID, _items JSONB, _notes TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _purchase_order public.purchase_orders;
+  _receipt_id UUID;
+  _receipt_total INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO _purchase_order FROM public.purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF _purchase_order.status NOT IN ('ordered', 'partial') THEN
+    RAISE EXCEPTION 'Purchase order is already %', _purchase_order.status;
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Nothing to receive';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_items) AS item
+    LEFT JOIN public.purchase_order_items poi
+      ON poi.id = (item ->> 'purchase_order_item_id')::UUID AND poi.purchase_order_id = _purchase_order_id
+    WHERE poi.id IS NULL
+      OR (item ->> 'quantity')::NUMERIC <= 0
+      OR (item ->> 'unit_cost')::INTEGER < 0
+  ) THEN
+    RAISE EXCEPTION 'Invalid goods receipt line';
+  END IF;
+
+  INSERT INTO public.goods_receipts (purchase_order_id, supplier_id, notes, received_by)
+  VALUES (_purchase_order_id, _purchase_order.supplier_id, NULLIF(btrim(COALESCE(_notes, '')), ''), auth.uid())
+  RETURNING id INTO _receipt_id;
+
+  INSERT INTO public.goods_receipt_items (goods_receipt_id, purchase_order_item_id, ingredient_id, quantity, unit_cost, total_cost)
+  SELECT
+    _receipt_id,
+    poi.id,
+    poi.ingredient_id,
+    (item ->> 'quantity')::NUMERIC,
+    (item ->> 'unit_cost')::INTEGER,
+    ROUND((item ->> 'quantity')::NUMERIC * (item ->> 'unit_cost')::INTEGER)::INTEGER
+  FROM jsonb_array_elements(_items) AS item
+  JOIN public.purchase_order_items poi ON poi.id = (item ->> 'purchase_order_item_id')::UUID;
+
+  UPDATE public.purchase_order_items poi
+  SET received_quantity = poi.received_quantity + received.quantity
+  FROM (
+    SELECT purchase_order_item_id, SUM(quantity) AS quantity
+    FROM public.goods_receipt_items
+    WHERE goods_receipt_id = _receipt_id
+    GROUP BY purchase_order_item_id
+  ) AS received
+  WHERE poi.id = received.purchase_order_item_id;
+
+  INSERT INTO public.stock_movements (ingredient_id, movement_type, quantity, goods_receipt_id, note, created_by)
+  SELECT ingredient_id, 'purchase', SUM(quantity), _receipt_id, _purchase_order.po_number, auth.uid()
+  FROM public.goods_receipt_items
+  WHERE goods_receipt_id = _receipt_id
+  GROUP BY ingredient_id;
+
+  UPDATE public.ingredients i
+  SET stock = i.stock + received.quantity,
+      last_unit_cost = received.unit_cost
+  FROM (
+    SELECT ingredient_id, SUM(quantity) AS quantity, MAX(unit_cost) AS unit_cost
+    FROM public.goods_receipt_items
+    WHERE goods_receipt_id = _receipt_id
+    GROUP BY ingredient_id
+  ) AS received
+  WHERE i.id = received.ingredient_id;
+
+  SELECT COALESCE(SUM(total_cost), 0) INTO _receipt_total
+  FROM public.goods_receipt_items
+  WHERE goods_receipt_id = _receipt_id;
+
+  UPDATE public.goods_receipts SET total_cost = _receipt_total WHERE id = _receipt_id;
+
+  UPDATE public.purchase_orders
+  SET received_amount = received_amount + _receipt_total,
+      status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = _purchase_order_id AND received_quantity < quantity
+        ) THEN 'received'
+        ELSE 'partial'
+      END
+  WHERE id = _purchase_order_id;
+
+  RETURN public.purchase_order_with_items(_purchase_order_id);
+END;
+$$;
+
+-- Pays a supplier, optionally against one purchase order, and books the outflow as an
+-- expense (credit) in the accounting journal
+CREATE OR REPLACE FUNCTION public.record_supplier_payment(
+  _supplier_id UUID,
+  _amount INTEGER,
+  _payment_method TEXT,
+  _purchase_order_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.supplier_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _supplier public.suppliers;
+  _purchase_order public.purchase_orders;
+  _payment public.supplier_payments;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO _supplier FROM public.suppliers WHERE id = _supplier_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier not found';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  IF _payment_method NOT IN ('cash', 'transfer') THEN
+    RAISE EXCEPTION 'Unknown payment method %', _payment_method;
+  END IF;
+
+  IF _purchase_order_id IS NOT NULL THEN
+    SELECT * INTO _purchase_order FROM public.purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND OR _purchase_order.supplier_id <> _supplier_id THEN
+      RAISE EXCEPTION 'Purchase order not found for this supplier';
+    END IF;
+
+    IF _purchase_order.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Purchase order is cancelled';
+    END IF;
+
+    UPDATE public.purchase_orders
+    SET paid_amount = paid_amount + _amount
+    WHERE id = _purchase_order_id;
+  END IF;
+
+  INSERT INTO public.supplier_payments (supplier_id, purchase_order_id, amount, payment_method, note, paid_by)
+  VALUES (_supplier_id, _purchase_order_id, _amount, _payment_method, NULLIF(btrim(COALESCE(_note, '')), ''), auth.uid())
+  RETURNING * INTO _payment;
+
+  INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, reference_id, reference_type, payment_method)
+  VALUES (
+    (now() AT TIME ZONE 'Asia/Jakarta')::DATE,
+    'expense',
+    'Pembayaran ' || _supplier.name || COALESCE(' - ' || _purchase_order.po_number, ''),
+    0,
+    _amount,
+    _payment.id,
+    'supplier_payment',
+    _payment_method
+  );
+
+  RETURN _payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.purchase_order_with_items(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_purchase_order(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_supplier_payment(UUID, INTEGER, TEXT, UUID, TEXT) TO authenticated;
@@ -0,0 +1,600 @@
+-- Double-entry general ledger. Every journal entry has lines that debit and credit accounts
+-- from the chart of accounts, and its debits must equal its credits. Sales, refunds, voids,
+-- purchases, supplier payments and cash drawer movements post themselves; each source row
+-- posts once, so re-running a posting never books it twice.
+CREATE TABLE public.accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  account_type TEXT NOT NULL, -- 'asset', 'liability', 'equity', 'revenue', 'expense'
+  is_system BOOLEAN NOT NULL DEFAULT false, -- used by automatic postings
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (account_type IN ('asset', 'liability', 'equity', 'revenue', 'expense'))
+);
+
+CREATE TABLE public.journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_date DATE NOT NULL,
+  description TEXT NOT NULL,
+  source_type TEXT NOT NULL, -- 'order', 'order_cogs', 'order_refund', 'order_void', 'goods_receipt', 'supplier_payment', 'cash_movement', 'settlement'
+  source_id UUID NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source_id)
+);
+
+CREATE TABLE public.journal_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_entry_id UUID REFERENCES public.journal_entries(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT NOT NULL,
+  debit INTEGER NOT NULL DEFAULT 0,
+  credit INTEGER NOT NULL DEFAULT 0,
+  CHECK (debit >= 0 AND credit >= 0),
+  CHECK (debit = 0 OR credit = 0)
+);
+
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view accounts"
+  ON public.accounts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage accounts"
+  ON public.accounts FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Journal rows are written by the posting functions below only
+CREATE POLICY "Admins can view journal entries"
+  ON public.journal_entries FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view journal lines"
+  ON public.journal_lines FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_journal_entries_entry_date ON public.journal_entries(entry_date);
+CREATE INDEX idx_journal_lines_journal_entry_id ON public.journal_lines(journal_entry_id);
+CREATE INDEX idx_journal_lines_account_id ON public.journal_lines(account_id);
+
+INSERT INTO public.accounts (code, name, account_type, is_system) VALUES
+  ('1101', 'Kas', 'asset', true),
+  ('1102', 'Bank', 'asset', true),
+  ('1103', 'Kliring QRIS', 'asset', true),
+  ('1201', 'Persediaan Bahan', 'asset', true),
+  ('2101', 'Hutang Usaha', 'liability', true),
+  ('2102', 'Hutang PB1', 'liability', true),
+  ('3101', 'Modal Pemilik', 'equity', true),
+  ('4101', 'Pendapatan Penjualan', 'revenue', true),
+  ('5101', 'Harga Pokok Penjualan (HPP)', 'expense', true),
+  ('6101', 'Beban Operasional', 'expense', true);
+
+-- Checked at commit, once every line of the entry is in
+CREATE OR REPLACE FUNCTION public.check_journal_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _entry_id UUID := COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.journal_lines
+    WHERE journal_entry_id = _entry_id
+    HAVING SUM(debit) <> SUM(credit)
+  ) THEN
+    RAISE EXCEPTION 'Journal entry % is not balanced', _entry_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_journal_lines_balance
+  AFTER INSERT OR UPDATE OR DELETE ON public.journal_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_journal_balance();
+
+-- Posts an entry from _lines ([{ account: '<code>', debit, credit }]). A line's net amount
+-- lands on the side it belongs to and zero lines are dropped. Returns NULL when the source
+-- was already posted or there is nothing to post.
+CREATE OR REPLACE FUNCTION public.post_journal_entry(
+  _entry_date DATE,
+  _description TEXT,
+  _source_type TEXT,
+  _source_id UUID,
+  _lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_lines) AS line
+    WHERE COALESCE((line ->> 'debit')::INTEGER, 0) <> COALESCE((line ->> 'credit')::INTEGER, 0)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_lines) AS line
+    WHERE NOT EXISTS (SELECT 1 FROM public.accounts WHERE code = line ->> 'account')
+  ) THEN
+    RAISE EXCEPTION 'Unknown account in journal lines %', _lines;
+  END IF;
+
+  INSERT INTO public.journal_entries (entry_date, description, source_type, source_id, created_by)
+  VALUES (_entry_date, _description, _source_type, _source_id, auth.uid())
+  ON CONFLICT (source_type, source_id) DO NOTHING
+  RETURNING id INTO _entry_id;
+
+  IF _entry_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.journal_lines (journal_entry_id, account_id, debit, credit)
+  SELECT
+    _entry_id,
+    a.id,
+    GREATEST(line.net, 0),
+    GREATEST(-line.net, 0)
+  FROM (
+    SELECT
+      l ->> 'account' AS code,
+      SUM(COALESCE((l ->> 'debit')::INTEGER, 0) - COALESCE((l ->> 'credit')::INTEGER, 0)) AS net
+    FROM jsonb_array_elements(_lines) AS l
+    GROUP BY l ->> 'account'
+  ) AS line
+  JOIN public.accounts a ON a.code = line.code
+  WHERE line.net <> 0;
+
+  RETURN _entry_id;
+END;
+$$;
+
+-- Where each tender lands
+CREATE OR REPLACE FUNCTION public.tender_account(_payment_method TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _payment_method
+    WHEN 'cash' THEN '1101'
+    WHEN 'transfer' THEN '1102'
+    WHEN 'qris' THEN '1103'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.business_date(_at TIMESTAMP WITH TIME ZONE)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (_at AT TIME ZONE 'Asia/Jakarta')::DATE;
+$$;
+
+-- Sale: tenders received against revenue and PB1 collected. Orders from before split
+-- tenders have no payment rows and count their single method. The ingredients the order
+-- used post separately at their last purchase cost.
+CREATE OR REPLACE FUNCTION public.post_order_sale(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _entry_date DATE;
+  _tenders JSONB;
+  _paid INTEGER;
+  _cost INTEGER;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id;
+
+  IF NOT FOUND OR _order.status = 'pending' THEN
+    RETURN;
+  END IF;
+
+  _entry_date := public.business_date(COALESCE(_order.completed_at, _order.created_at));
+
+  SELECT
+    jsonb_agg(jsonb_build_object('account', public.tender_account(payment_method::TEXT), 'debit', amount)),
+    SUM(amount)
+  INTO _tenders, _paid
+  FROM (
+    SELECT payment_method, SUM(amount)::INTEGER AS amount
+    FROM public.order_payments
+    WHERE order_id = _order_id
+    GROUP BY payment_method
+  ) AS tenders;
+
+  IF _tenders IS NULL AND _order.payment_method IS NOT NULL AND _order.status <> 'cancelled' THEN
+    _tenders := jsonb_build_array(jsonb_build_object('account', public.tender_account(_order.payment_method::TEXT), 'debit', _order.total));
+    _paid := _order.total;
+  END IF;
+
+  IF _tenders IS NOT NULL THEN
+    PERFORM public.post_journal_entry(
+      _entry_date,
+      'Penjualan #' || _order.order_number,
+      'order',
+      _order_id,
+      _tenders || jsonb_build_array(
+        jsonb_build_object('account', '4101', 'credit', _paid - _order.tax),
+        jsonb_build_object('account', '2102', 'credit', _order.tax)
+      )
+    );
+  END IF;
+
+  SELECT COALESCE(ROUND(SUM(-sm.quantity * COALESCE(i.last_unit_cost, 0))), 0)::INTEGER INTO _cost
+  FROM public.stock_movements sm
+  JOIN public.ingredients i ON i.id = sm.ingredient_id
+  WHERE sm.order_id = _order_id AND sm.movement_type = 'sale';
+
+  PERFORM public.post_journal_entry(
+    _entry_date,
+    'HPP #' || _order.order_number,
+    'order_cogs',
+    _order_id,
+    jsonb_build_array(
+      jsonb_build_object('account', '5101', 'debit', _cost),
+      jsonb_build_object('account', '1201', 'credit', _cost)
+    )
+  );
+END;
+$$;
+
+-- Refund: revenue and its share of PB1 reversed, paid out of the refund's tender
+CREATE OR REPLACE FUNCTION public.post_order_refund(_refund_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _refund public.order_refunds;
+  _order public.orders;
+  _tax INTEGER;
+BEGIN
+  SELECT * INTO _refund FROM public.order_refunds WHERE id = _refund_id;
+  SELECT * INTO _order FROM public.orders WHERE id = _refund.order_id;
+
+  _tax := CASE WHEN _order.total > 0 THEN ROUND(_refund.amount::NUMERIC * _order.tax / _order.total)::INTEGER ELSE 0 END;
+
+  PERFORM public.post_journal_entry(
+    public.business_date(_refund.created_at),
+    'Refund #' || _order.order_number || ' - ' || _refund.reason,
+    'order_refund',
+    _refund_id,
+    jsonb_build_array(
+      jsonb_build_object('account', '4101', 'debit', _refund.amount - _tax),
+      jsonb_build_object('account', '2102', 'debit', _tax),
+      jsonb_build_object('account', public.tender_account(_refund.payment_method::TEXT), 'credit', _refund.amount)
+    )
+  );
+END;
+$$;
+
+-- Voiding a whole order reverses its sale entry; a pending order never posted one
+CREATE OR REPLACE FUNCTION public.post_order_void(_void_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _void public.order_voids;
+  _lines JSONB;
+BEGIN
+  SELECT * INTO _void FROM public.order_voids WHERE id = _void_id;
+
+  IF NOT FOUND OR _void.order_item_id IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('account', a.code, 'debit', jl.credit, 'credit', jl.debit))
+  INTO _lines
+  FROM public.journal_entries je
+  JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE je.source_type = 'order' AND je.source_id = _void.order_id;
+
+  IF _lines IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.post_journal_entry(
+    public.business_date(_void.created_at),
+    'Void #' || (SELECT order_number FROM public.orders WHERE id = _void.order_id) || ' - ' || _void.reason,
+    'order_void',
+    _void_id,
+    _lines
+  );
+END;
+$$;
+
+-- Goods received go into inventory and are owed to the supplier until paid
+CREATE OR REPLACE FUNCTION public.post_goods_receipt(_receipt_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt public.goods_receipts;
+BEGIN
+  SELECT * INTO _receipt FROM public.goods_receipts WHERE id = _receipt_id;
+
+  PERFORM public.post_journal_entry(
+    public.business_date(_receipt.received_at),
+    'Penerimaan ' || (SELECT po_number FROM public.purchase_orders WHERE id = _receipt.purchase_order_id)
+      || ' - ' || (SELECT name FROM public.suppliers WHERE id = _receipt.supplier_id),
+    'goods_receipt',
+    _receipt_id,
+    jsonb_build_array(
+      jsonb_build_object('account', '1201', 'debit', _receipt.total_cost),
+      jsonb_build_object('account', '2101', 'credit', _receipt.total_cost)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_supplier_payment(_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.supplier_payments;
+BEGIN
+  SELECT * INTO _payment FROM public.supplier_payments WHERE id = _payment_id;
+
+  PERFORM public.post_journal_entry(
+    public.business_date(_payment.paid_at),
+    'Pembayaran ' || (SELECT name FROM public.suppliers WHERE id = _payment.supplier_id),
+    'supplier_payment',
+    _payment_id,
+    jsonb_build_array(
+      jsonb_build_object('account', '2101', 'debit', _payment.amount),
+      jsonb_build_object('account', public.tender_account(_payment.payment_method), 'credit', _payment.amount)
+    )
+  );
+END;
+$$;
+
+-- Cash put into the drawer is owner's capital; cash paid out of it is an operating expense
+CREATE OR REPLACE FUNCTION public.post_cash_movement(_movement_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _movement public.cash_movements;
+BEGIN
+  SELECT * INTO _movement FROM public.cash_movements WHERE id = _movement_id;
+
+  PERFORM public.post_journal_entry(
+    public.business_date(_movement.created_at),
+    CASE _movement.movement_type WHEN 'cash_in' THEN 'Kas masuk - ' ELSE 'Kas keluar - ' END || _movement.reason,
+    'cash_movement',
+    _movement_id,
+    CASE _movement.movement_type
+      WHEN 'cash_in' THEN jsonb_build_array(
+        jsonb_build_object('account', '1101', 'debit', _movement.amount),
+        jsonb_build_object('account', '3101', 'credit', _movement.amount)
+      )
+      ELSE jsonb_build_array(
+        jsonb_build_object('account', '6101', 'debit', _movement.amount),
+        jsonb_build_object('account', '1101', 'credit', _movement.amount)
+      )
+    END
+  );
+END;
+$$;
+
+-- Daily settlement: QRIS collected up to the report date has reached the bank. Posts once per
+-- daily report; QRIS taken after a same-day re-run is swept by the next day's settlement.
+CREATE OR REPLACE FUNCTION public.post_daily_settlement(_daily_report_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report_date DATE;
+  _clearing INTEGER;
+BEGIN
+  SELECT report_date INTO _report_date FROM public.daily_reports WHERE id = _daily_report_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Daily report not found';
+  END IF;
+
+  SELECT COALESCE(SUM(jl.debit - jl.credit), 0) INTO _clearing
+  FROM public.journal_lines jl
+  JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE a.code = '1103' AND je.entry_date <= _report_date;
+
+  RETURN public.post_journal_entry(
+    _report_date,
+    'Settlement QRIS ' || TO_CHAR(_report_date, 'DD/MM/YYYY'),
+    'settlement',
+    _daily_report_id,
+    jsonb_build_array(
+      jsonb_build_object('account', '1102', 'debit', _clearing),
+      jsonb_build_object('account', '1103', 'credit', _clearing)
+    )
+  );
+END;
+$$;
+
+-- Cash, bank and QRIS clearing together, for the balance line of the daily report
+CREATE OR REPLACE FUNCTION public.cash_position(_as_of DATE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(jl.debit - jl.credit), 0)::INTEGER
+  FROM public.journal_lines jl
+  JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE a.code IN ('1101', '1102', '1103') AND je.entry_date <= _as_of;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_journal_for_row()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'orders' THEN PERFORM public.post_order_sale(NEW.id);
+    WHEN 'order_refunds' THEN PERFORM public.post_order_refund(NEW.id);
+    WHEN 'order_voids' THEN PERFORM public.post_order_void(NEW.id);
+    WHEN 'goods_receipts' THEN PERFORM public.post_goods_receipt(NEW.id);
+    WHEN 'supplier_payments' THEN PERFORM public.post_supplier_payment(NEW.id);
+    WHEN 'cash_movements' THEN PERFORM public.post_cash_movement(NEW.id);
+  END CASE;
+  RETURN NULL;
+END;
+$$;
+
+-- Deferred like the stock deduction, which fires first (trigger names run in order) so the
+-- cost of goods sold sees the ingredients the order used
+CREATE CONSTRAINT TRIGGER post_order_journal_on_completion
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed')
+  EXECUTE FUNCTION public.post_journal_for_row();
+
+CREATE TRIGGER post_order_refund_journal
+  AFTER INSERT ON public.order_refunds
+  FOR EACH ROW EXECUTE FUNCTION public.post_journal_for_row();
+
+CREATE TRIGGER post_order_void_journal
+  AFTER INSERT ON public.order_voids
+  FOR EACH ROW
+  WHEN (NEW.order_item_id IS NULL)
+  EXECUTE FUNCTION public.post_journal_for_row();
+
+-- receive_purchase_order fills in the receipt total after inserting it
+CREATE CONSTRAINT TRIGGER post_goods_receipt_journal
+  AFTER INSERT ON public.goods_receipts
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.post_journal_for_row();
+
+CREATE TRIGGER post_supplier_payment_journal
+  AFTER INSERT ON public.supplier_payments
+  FOR EACH ROW EXECUTE FUNCTION public.post_journal_for_row();
+
+CREATE TRIGGER post_cash_movement_journal
+  AFTER INSERT ON public.cash_movements
+  FOR EACH ROW EXECUTE FUNCTION public.post_journal_for_row();
+
+-- Balances as of a date, on the side each account's balance falls
+CREATE OR REPLACE FUNCTION public.trial_balance(_as_of DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'account_id', a.id,
+      'code', a.code,
+      'name', a.name,
+      'account_type', a.account_type,
+      'debit', GREATEST(COALESCE(t.net, 0), 0),
+      'credit', GREATEST(-COALESCE(t.net, 0), 0)
+    ) ORDER BY a.code)
+    FROM public.accounts a
+    LEFT JOIN (
+      SELECT jl.account_id, SUM(jl.debit - jl.credit) AS net
+      FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+      WHERE je.entry_date <= _as_of
+      GROUP BY jl.account_id
+    ) AS t ON t.account_id = a.id
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- One account's postings in a period, with the balance brought forward (debit minus credit)
+CREATE OR REPLACE FUNCTION public.account_ledger(_account_id UUID, _from DATE, _to DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'opening_balance', (
+      SELECT COALESCE(SUM(jl.debit - jl.credit), 0)
+      FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+      WHERE jl.account_id = _account_id AND je.entry_date < _from
+    ),
+    'lines', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', jl.id,
+        'journal_entry_id', je.id,
+        'entry_date', je.entry_date,
+        'description', je.description,
+        'source_type', je.source_type,
+        'debit', jl.debit,
+        'credit', jl.credit
+      ) ORDER BY je.entry_date, je.created_at, jl.id)
+      FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+      WHERE jl.account_id = _account_id AND je.entry_date BETWEEN _from AND _to
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Post what happened before the ledger existed
+SELECT public.post_order_sale(id) FROM public.orders ORDER BY created_at;
+SELECT public.post_order_refund(id) FROM public.order_refunds ORDER BY created_at;
+SELECT public.post_order_void(id) FROM public.order_voids WHERE order_item_id IS NULL ORDER BY created_at;
+SELECT public.post_goods_receipt(id) FROM public.goods_receipts ORDER BY received_at;
+SELECT public.post_supplier_payment(id) FROM public.supplier_payments ORDER BY paid_at;
+SELECT public.post_cash_movement(id) FROM public.cash_movements ORDER BY created_at;
+
+REVOKE EXECUTE ON FUNCTION public.post_journal_entry(DATE, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_order_sale(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_order_refund(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_order_void(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_goods_receipt(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_supplier_payment(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_cash_movement(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_daily_settlement(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cash_position(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.trial_balance(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.account_ledger(UUID, DATE, DATE) TO authenticated;
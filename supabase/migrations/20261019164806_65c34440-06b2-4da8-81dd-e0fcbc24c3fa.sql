@@ -0,0 +1,68 @@
+-- Ledger figures behind the financial statements for one period: each account's balance
+-- brought forward and its movement in the period, and the net change in cash (Kas, Bank and
+-- Kliring QRIS) per kind of source. Moves between cash accounts, like the QRIS settlement,
+-- net to zero and do not show up as cash flow.
+CREATE OR REPLACE FUNCTION public.ledger_summary(_from DATE, _to DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'accounts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'account_id', a.id,
+        'code', a.code,
+        'name', a.name,
+        'account_type', a.account_type,
+        'opening', COALESCE(t.opening, 0),
+        'debit', COALESCE(t.debit, 0),
+        'credit', COALESCE(t.credit, 0)
+      ) ORDER BY a.code)
+      FROM public.accounts a
+      LEFT JOIN (
+        SELECT
+          jl.account_id,
+          SUM(jl.debit - jl.credit) FILTER (WHERE je.entry_date < _from) AS opening,
+          SUM(jl.debit) FILTER (WHERE je.entry_date >= _from) AS debit,
+          SUM(jl.credit) FILTER (WHERE je.entry_date >= _from) AS credit
+        FROM public.journal_lines jl
+        JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+        WHERE je.entry_date <= _to
+        GROUP BY jl.account_id
+      ) AS t ON t.account_id = a.id
+    ), '[]'::jsonb),
+    'cash_flows', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'source_type', source_type,
+        'cash_in', cash_in,
+        'cash_out', cash_out
+      ) ORDER BY source_type)
+      FROM (
+        SELECT
+          source_type,
+          COALESCE(SUM(delta) FILTER (WHERE delta > 0), 0) AS cash_in,
+          COALESCE(-SUM(delta) FILTER (WHERE delta < 0), 0) AS cash_out
+        FROM (
+          SELECT je.source_type, SUM(jl.debit - jl.credit) AS delta
+          FROM public.journal_entries je
+          JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+          JOIN public.accounts a ON a.id = jl.account_id
+          WHERE a.code IN ('1101', '1102', '1103') AND je.entry_date BETWEEN _from AND _to
+          GROUP BY je.id, je.source_type
+        ) AS entries
+        WHERE delta <> 0
+        GROUP BY source_type
+      ) AS flows
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ledger_summary(DATE, DATE) TO authenticated;
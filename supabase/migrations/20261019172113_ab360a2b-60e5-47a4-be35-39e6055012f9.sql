@@ -0,0 +1,394 @@
+-- Operating expenses (gas, electricity, wages, rent). Each category books to its own expense
+-- account, is paid from a cash drawer or the bank, and may carry a photo of the paper receipt.
+-- Recurring expenses are recorded automatically when they fall due.
+INSERT INTO public.accounts (code, name, account_type, is_system) VALUES
+  ('6102', 'Beban Gas & Bahan Bakar', 'expense', true),
+  ('6103', 'Beban Listrik & Air', 'expense', true),
+  ('6104', 'Beban Gaji', 'expense', true),
+  ('6105', 'Beban Sewa', 'expense', true);
+
+CREATE TABLE public.expense_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.recurring_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id UUID REFERENCES public.expense_categories(id) ON DELETE RESTRICT NOT NULL,
+  description TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  payment_source TEXT NOT NULL, -- 'cash_drawer', 'bank'
+  frequency TEXT NOT NULL, -- 'weekly', 'monthly'
+  start_date DATE NOT NULL,
+  posted_count INTEGER NOT NULL DEFAULT 0,
+  next_due_date DATE NOT NULL, -- start_date plus posted_count periods
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (amount > 0),
+  CHECK (payment_source IN ('cash_drawer', 'bank')),
+  CHECK (frequency IN ('weekly', 'monthly'))
+);
+
+CREATE TABLE public.expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id UUID REFERENCES public.expense_categories(id) ON DELETE RESTRICT NOT NULL,
+  description TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  payment_source TEXT NOT NULL, -- 'cash_drawer', 'bank'
+  expense_date DATE NOT NULL,
+  receipt_path TEXT, -- object in the expense-receipts bucket
+  shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE SET NULL, -- drawer the cash came out of
+  recurring_expense_id UUID REFERENCES public.recurring_expenses(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (amount > 0),
+  CHECK (payment_source IN ('cash_drawer', 'bank'))
+);
+
+-- Cash paid out of a drawer for an expense; the expense posts to the ledger, not the movement
+ALTER TABLE public.cash_movements
+  ADD COLUMN expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL;
+
+ALTER TABLE public.expense_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view expense categories"
+  ON public.expense_categories FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage expense categories"
+  ON public.expense_categories FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view recurring expenses"
+  ON public.recurring_expenses FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage recurring expenses"
+  ON public.recurring_expenses FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Expenses are written by record_expense only
+CREATE POLICY "Admins can view expenses"
+  ON public.expenses FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_expenses_expense_date ON public.expenses(expense_date);
+CREATE UNIQUE INDEX idx_expenses_recurring_date ON public.expenses(recurring_expense_id, expense_date)
+  WHERE recurring_expense_id IS NOT NULL;
+
+CREATE TRIGGER update_recurring_expenses_updated_at
+  BEFORE UPDATE ON public.recurring_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.expense_categories (name, account_id)
+SELECT category.name, a.id
+FROM (VALUES
+  ('Gas', '6102'),
+  ('Listrik & Air', '6103'),
+  ('Gaji Karyawan', '6104'),
+  ('Sewa Tempat', '6105'),
+  ('Lain-lain', '6101')
+) AS category(name, code)
+JOIN public.accounts a ON a.code = category.code;
+
+-- Receipt photos, private to admins
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('expense-receipts', 'expense-receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can view expense receipts"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'expense-receipts' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can upload expense receipts"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'expense-receipts' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete expense receipts"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'expense-receipts' AND public.has_role(auth.uid(), 'admin'));
+
+-- Shared by record_expense and the recurring run. Drawer expenses inside a shift also take
+-- the cash out of that drawer so the shift's expected cash stays right.
+CREATE OR REPLACE FUNCTION public.create_expense(
+  _category_id UUID,
+  _amount INTEGER,
+  _payment_source TEXT,
+  _expense_date DATE,
+  _description TEXT,
+  _receipt_path TEXT DEFAULT NULL,
+  _shift_id UUID DEFAULT NULL,
+  _recurring_expense_id UUID DEFAULT NULL
+)
+RETURNS public.expenses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category public.expense_categories;
+  _expense public.expenses;
+BEGIN
+  SELECT * INTO _category FROM public.expense_categories WHERE id = _category_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expense category not found';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  IF _payment_source NOT IN ('cash_drawer', 'bank') THEN
+    RAISE EXCEPTION 'Unknown payment source %', _payment_source;
+  END IF;
+
+  IF _description IS NULL OR btrim(_description) = '' THEN
+    RAISE EXCEPTION 'A description is required';
+  END IF;
+
+  IF _shift_id IS NOT NULL THEN
+    IF _payment_source <> 'cash_drawer' THEN
+      RAISE EXCEPTION 'Only cash drawer expenses belong to a shift';
+    END IF;
+    PERFORM public.lock_open_cash_shift(_shift_id);
+  END IF;
+
+  INSERT INTO public.expenses (
+    category_id, description, amount, payment_source, expense_date,
+    receipt_path, shift_id, recurring_expense_id, created_by
+  )
+  VALUES (
+    _category_id, btrim(_description), _amount, _payment_source, _expense_date,
+    _receipt_path, _shift_id, _recurring_expense_id, auth.uid()
+  )
+  RETURNING * INTO _expense;
+
+  IF _shift_id IS NOT NULL THEN
+    INSERT INTO public.cash_movements (shift_id, movement_type, amount, reason, created_by, expense_id)
+    VALUES (_shift_id, 'cash_out', _amount, _category.name || ' - ' || _expense.description, auth.uid(), _expense.id);
+  END IF;
+
+  INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, reference_id, reference_type, payment_method)
+  VALUES (
+    _expense_date,
+    'expense',
+    _category.name || ' - ' || _expense.description,
+    0,
+    _amount,
+    _expense.id,
+    'expense',
+    CASE _payment_source WHEN 'cash_drawer' THEN 'cash' ELSE 'transfer' END
+  );
+
+  RETURN _expense;
+END;
+$$;
+
+-- A drawer expense without a shift comes out of the caller's open shift, if any
+CREATE OR REPLACE FUNCTION public.record_expense(
+  _category_id UUID,
+  _amount INTEGER,
+  _payment_source TEXT,
+  _expense_date DATE,
+  _description TEXT,
+  _receipt_path TEXT DEFAULT NULL,
+  _shift_id UUID DEFAULT NULL
+)
+RETURNS public.expenses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF _payment_source = 'cash_drawer' AND _shift_id IS NULL THEN
+    SELECT id INTO _shift_id
+    FROM public.cash_shifts
+    WHERE cashier_id = auth.uid() AND status = 'open';
+  END IF;
+
+  RETURN public.create_expense(
+    _category_id, _amount, _payment_source,
+    COALESCE(_expense_date, (now() AT TIME ZONE 'Asia/Jakarta')::DATE),
+    _description, _receipt_path, _shift_id
+  );
+END;
+$$;
+
+-- Records every recurring expense that has fallen due, catching up on missed periods.
+-- Called from the expense screen and by the daily summary; the row lock and the unique
+-- (recurring_expense_id, expense_date) index keep concurrent runs from double posting.
+CREATE OR REPLACE FUNCTION public.post_due_recurring_expenses()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today DATE := (now() AT TIME ZONE 'Asia/Jakarta')::DATE;
+  _recurring public.recurring_expenses;
+  _posted INTEGER := 0;
+BEGIN
+  -- No caller means the service role (execute is revoked from anon)
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  FOR _recurring IN
+    SELECT * FROM public.recurring_expenses
+    WHERE is_active AND next_due_date <= _today
+    ORDER BY next_due_date
+    FOR UPDATE
+  LOOP
+    WHILE _recurring.next_due_date <= _today LOOP
+      PERFORM public.create_expense(
+        _recurring.category_id, _recurring.amount, _recurring.payment_source,
+        _recurring.next_due_date, _recurring.description, NULL, NULL, _recurring.id
+      );
+      _recurring.posted_count := _recurring.posted_count + 1;
+      _recurring.next_due_date := (_recurring.start_date + CASE _recurring.frequency
+        WHEN 'weekly' THEN INTERVAL '7 days' * _recurring.posted_count
+        ELSE INTERVAL '1 month' * _recurring.posted_count
+      END)::DATE;
+      _posted := _posted + 1;
+    END LOOP;
+
+    UPDATE public.recurring_expenses
+    SET posted_count = _recurring.posted_count,
+        next_due_date = _recurring.next_due_date
+    WHERE id = _recurring.id;
+  END LOOP;
+
+  RETURN _posted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_expense(_expense_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expense public.expenses;
+  _category public.expense_categories;
+BEGIN
+  SELECT * INTO _expense FROM public.expenses WHERE id = _expense_id;
+  SELECT * INTO _category FROM public.expense_categories WHERE id = _expense.category_id;
+
+  PERFORM public.post_journal_entry(
+    _expense.expense_date,
+    _category.name || ' - ' || _expense.description,
+    'expense',
+    _expense_id,
+    jsonb_build_array(
+      jsonb_build_object('account', (SELECT code FROM public.accounts WHERE id = _category.account_id), 'debit', _expense.amount),
+      jsonb_build_object('account', CASE _expense.payment_source WHEN 'cash_drawer' THEN '1101' ELSE '1102' END, 'credit', _expense.amount)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_cash_movement(_movement_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _movement public.cash_movements;
+BEGIN
+  SELECT * INTO _movement FROM public.cash_movements WHERE id = _movement_id;
+
+  IF _movement.expense_id IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.post_journal_entry(
+    public.business_date(_movement.created_at),
+    CASE _movement.movement_type WHEN 'cash_in' THEN 'Kas masuk - ' ELSE 'Kas keluar - ' END || _movement.reason,
+    'cash_movement',
+    _movement_id,
+    CASE _movement.movement_type
+      WHEN 'cash_in' THEN jsonb_build_array(
+        jsonb_build_object('account', '1101', 'debit', _movement.amount),
+        jsonb_build_object('account', '3101', 'credit', _movement.amount)
+      )
+      ELSE jsonb_build_array(
+        jsonb_build_object('account', '6101', 'debit', _movement.amount),
+        jsonb_build_object('account', '1101', 'credit', _movement.amount)
+      )
+    END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_journal_for_row()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'orders' THEN PERFORM public.post_order_sale(NEW.id);
+    WHEN 'order_refunds' THEN PERFORM public.post_order_refund(NEW.id);
+    WHEN 'order_voids' THEN PERFORM public.post_order_void(NEW.id);
+    WHEN 'goods_receipts' THEN PERFORM public.post_goods_receipt(NEW.id);
+    WHEN 'supplier_payments' THEN PERFORM public.post_supplier_payment(NEW.id);
+    WHEN 'cash_movements' THEN PERFORM public.post_cash_movement(NEW.id);
+    WHEN 'expenses' THEN PERFORM public.post_expense(NEW.id);
+  END CASE;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_expense_journal
+  AFTER INSERT ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.post_journal_for_row();
+
+-- Revenue, cost of goods sold, expenses and net profit over a period, for the daily summary
+CREATE OR REPLACE FUNCTION public.profit_summary(_from DATE, _to DATE)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'revenue', COALESCE(SUM(jl.credit - jl.debit) FILTER (WHERE a.account_type = 'revenue'), 0),
+    'cogs', COALESCE(SUM(jl.debit - jl.credit) FILTER (WHERE a.account_type = 'expense' AND a.code LIKE '5%'), 0),
+    'expenses', COALESCE(SUM(jl.debit - jl.credit) FILTER (WHERE a.account_type = 'expense' AND a.code NOT LIKE '5%'), 0),
+    'net_profit', COALESCE(SUM(jl.credit - jl.debit) FILTER (WHERE a.account_type IN ('revenue', 'expense')), 0)
+  )
+  FROM public.journal_lines jl
+  JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE je.entry_date BETWEEN _from AND _to;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_expense(UUID, INTEGER, TEXT, DATE, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_expense(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_due_recurring_expenses() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.profit_summary(DATE, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_expense(UUID, INTEGER, TEXT, DATE, TEXT, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.post_due_recurring_expenses() TO authenticated;
@@ -0,0 +1,424 @@
+-- Period closing. Closing the books through a date snapshots the daily and monthly totals up
+-- to it and locks orders, their items and payments, daily reports and accounting and journal
+-- entries dated on or before it. The lock is enforced by triggers, so neither the admin
+-- screens nor direct API calls can change closed data; corrections are adjusting journal
+-- entries dated in the open period.
+CREATE TABLE public.period_closings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  closed_through DATE NOT NULL UNIQUE,
+  notes TEXT,
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.period_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_closing_id UUID REFERENCES public.period_closings(id) ON DELETE CASCADE NOT NULL,
+  period_type TEXT NOT NULL, -- 'day', 'month'
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  order_count INTEGER NOT NULL DEFAULT 0,
+  sales_total INTEGER NOT NULL DEFAULT 0, -- what customers were charged, tax included
+  tax_total INTEGER NOT NULL DEFAULT 0,
+  refund_total INTEGER NOT NULL DEFAULT 0,
+  revenue INTEGER NOT NULL DEFAULT 0, -- from the ledger, net of refunds, voids and tax
+  cogs INTEGER NOT NULL DEFAULT 0,
+  expenses INTEGER NOT NULL DEFAULT 0,
+  net_profit INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (period_type, period_start),
+  CHECK (period_type IN ('day', 'month'))
+);
+
+ALTER TABLE public.period_closings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.period_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Written by close_period only
+CREATE POLICY "Admins can view period closings"
+  ON public.period_closings FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view period snapshots"
+  ON public.period_snapshots FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Last closed business date; NULL while nothing has been closed
+CREATE OR REPLACE FUNCTION public.locked_through()
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MAX(closed_through) FROM public.period_closings;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_period_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _locked DATE := public.locked_through();
+  _old_date DATE;
+  _new_date DATE;
+BEGIN
+  IF _locked IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  CASE TG_TABLE_NAME
+    WHEN 'orders' THEN
+      IF TG_OP <> 'INSERT' THEN _old_date := public.business_date(OLD.created_at); END IF;
+      IF TG_OP <> 'DELETE' THEN _new_date := public.business_date(COALESCE(NEW.created_at, now())); END IF;
+    WHEN 'order_items', 'order_payments' THEN
+      IF TG_OP <> 'INSERT' THEN
+        SELECT public.business_date(created_at) INTO _old_date FROM public.orders WHERE id = OLD.order_id;
+      END IF;
+      IF TG_OP <> 'DELETE' THEN
+        SELECT public.business_date(created_at) INTO _new_date FROM public.orders WHERE id = NEW.order_id;
+      END IF;
+    WHEN 'daily_reports' THEN
+      IF TG_OP <> 'INSERT' THEN _old_date := OLD.report_date; END IF;
+      IF TG_OP <> 'DELETE' THEN _new_date := NEW.report_date; END IF;
+    WHEN 'accounting_entries', 'journal_entries' THEN
+      IF TG_OP <> 'INSERT' THEN _old_date := OLD.entry_date; END IF;
+      IF TG_OP <> 'DELETE' THEN _new_date := NEW.entry_date; END IF;
+    WHEN 'journal_lines' THEN
+      IF TG_OP <> 'INSERT' THEN
+        SELECT entry_date INTO _old_date FROM public.journal_entries WHERE id = OLD.journal_entry_id;
+      END IF;
+      IF TG_OP <> 'DELETE' THEN
+        SELECT entry_date INTO _new_date FROM public.journal_entries WHERE id = NEW.journal_entry_id;
+      END IF;
+  END CASE;
+
+  IF _old_date <= _locked OR _new_date <= _locked THEN
+    RAISE EXCEPTION 'Period closed through %; record an adjusting entry in the open period instead', _locked;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER enforce_orders_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock();
+
+CREATE TRIGGER enforce_order_items_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock();
+
+CREATE TRIGGER enforce_order_payments_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.order_payments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock();
+
+CREATE TRIGGER enforce_daily_reports_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.daily_reports
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock();
+
+CREATE TRIGGER enforce_accounting_entries_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.accounting_entries
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock();
+
+CREATE TRIGGER enforce_journal_entries_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock();
+
+CREATE TRIGGER enforce_journal_lines_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.journal_lines
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock();
+
+-- Totals for one snapshot period
+CREATE OR REPLACE FUNCTION public.insert_period_snapshot(
+  _period_closing_id UUID,
+  _period_type TEXT,
+  _from DATE,
+  _to DATE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profit JSONB := public.profit_summary(_from, _to);
+BEGIN
+  INSERT INTO public.period_snapshots (
+    period_closing_id, period_type, period_start, period_end,
+    order_count, sales_total, tax_total, refund_total,
+    revenue, cogs, expenses, net_profit
+  )
+  SELECT
+    _period_closing_id, _period_type, _from, _to,
+    COUNT(*), COALESCE(SUM(total), 0), COALESCE(SUM(tax), 0),
+    (SELECT COALESCE(SUM(amount), 0) FROM public.order_refunds
+     WHERE public.business_date(created_at) BETWEEN _from AND _to),
+    (_profit ->> 'revenue')::INTEGER, (_profit ->> 'cogs')::INTEGER,
+    (_profit ->> 'expenses')::INTEGER, (_profit ->> 'net_profit')::INTEGER
+  FROM public.orders
+  WHERE status IN ('completed', 'refunded')
+    AND public.business_date(created_at) BETWEEN _from AND _to;
+END;
+$$;
+
+-- Closes the books through _through. Every day since the previous close that has sales or
+-- journal entries gets a snapshot, and so does every month that is now closed to its end.
+CREATE OR REPLACE FUNCTION public.close_period(_through DATE, _notes TEXT DEFAULT NULL)
+RETURNS public.period_closings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous DATE;
+  _from DATE;
+  _closing public.period_closings;
+  _day DATE;
+  _month DATE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('period_closing'));
+
+  _previous := public.locked_through();
+
+  IF _through IS NULL OR _through >= (now() AT TIME ZONE 'Asia/Jakarta')::DATE THEN
+    RAISE EXCEPTION 'Only past days can be closed';
+  END IF;
+
+  IF _through <= _previous THEN
+    RAISE EXCEPTION 'Already closed through %', _previous;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE status = 'pending' AND public.business_date(created_at) <= _through
+  ) THEN
+    RAISE EXCEPTION 'Settle or cancel the open orders dated on or before % first', _through;
+  END IF;
+
+  _from := COALESCE(_previous + 1, LEAST(
+    (SELECT MIN(public.business_date(created_at)) FROM public.orders),
+    (SELECT MIN(entry_date) FROM public.journal_entries)
+  ), _through);
+
+  INSERT INTO public.period_closings (closed_through, notes, closed_by)
+  VALUES (_through, NULLIF(btrim(COALESCE(_notes, '')), ''), auth.uid())
+  RETURNING * INTO _closing;
+
+  FOR _day IN
+    SELECT day::DATE FROM generate_series(_from, _through, INTERVAL '1 day') AS day
+  LOOP
+    IF EXISTS (SELECT 1 FROM public.orders WHERE public.business_date(created_at) = _day)
+      OR EXISTS (SELECT 1 FROM public.journal_entries WHERE entry_date = _day) THEN
+      PERFORM public.insert_period_snapshot(_closing.id, 'day', _day, _day);
+    END IF;
+  END LOOP;
+
+  FOR _month IN
+    SELECT month::DATE
+    FROM generate_series(date_trunc('month', _from), date_trunc('month', _through), INTERVAL '1 month') AS month
+    WHERE (month + INTERVAL '1 month - 1 day')::DATE <= _through
+  LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.period_snapshots WHERE period_type = 'month' AND period_start = _month) THEN
+      PERFORM public.insert_period_snapshot(_closing.id, 'month', _month, (_month + INTERVAL '1 month - 1 day')::DATE);
+    END IF;
+  END LOOP;
+
+  RETURN _closing;
+END;
+$$;
+
+-- A balanced journal entry written by hand ([{ account: '<code>', debit, credit }]). Its date
+-- has to be in the open period, which the lock trigger checks.
+CREATE OR REPLACE FUNCTION public.post_adjusting_entry(_entry_date DATE, _description TEXT, _lines JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF _description IS NULL OR btrim(_description) = '' THEN
+    RAISE EXCEPTION 'A description is required';
+  END IF;
+
+  IF _entry_date IS NULL OR _entry_date > (now() AT TIME ZONE 'Asia/Jakarta')::DATE THEN
+    RAISE EXCEPTION 'Adjusting entries cannot be dated in the future';
+  END IF;
+
+  IF (SELECT SUM(COALESCE((line ->> 'debit')::INTEGER, 0) - COALESCE((line ->> 'credit')::INTEGER, 0))
+      FROM jsonb_array_elements(_lines) AS line) <> 0 THEN
+    RAISE EXCEPTION 'Debits and credits must balance';
+  END IF;
+
+  _entry_id := public.post_journal_entry(_entry_date, btrim(_description), 'adjustment', gen_random_uuid(), _lines);
+
+  IF _entry_id IS NULL THEN
+    RAISE EXCEPTION 'An adjusting entry needs at least one amount';
+  END IF;
+
+  RETURN _entry_id;
+END;
+$$;
+
+-- Recurring expenses missed while a period was closed are booked on the first open day.
+-- Several can land on the same day, so occurrences are told apart by their number instead of
+-- their date.
+ALTER TABLE public.expenses
+  ADD COLUMN recurring_occurrence INTEGER;
+
+UPDATE public.expenses e
+SET recurring_occurrence = numbered.occurrence
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY recurring_expense_id ORDER BY expense_date, created_at) AS occurrence
+  FROM public.expenses
+  WHERE recurring_expense_id IS NOT NULL
+) AS numbered
+WHERE numbered.id = e.id;
+
+DROP INDEX public.idx_expenses_recurring_date;
+CREATE UNIQUE INDEX idx_expenses_recurring_occurrence ON public.expenses(recurring_expense_id, recurring_occurrence)
+  WHERE recurring_expense_id IS NOT NULL;
+
+DROP FUNCTION public.create_expense(UUID, INTEGER, TEXT, DATE, TEXT, TEXT, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_expense(
+  _category_id UUID,
+  _amount INTEGER,
+  _payment_source TEXT,
+  _expense_date DATE,
+  _description TEXT,
+  _receipt_path TEXT DEFAULT NULL,
+  _shift_id UUID DEFAULT NULL,
+  _recurring_expense_id UUID DEFAULT NULL,
+  _recurring_occurrence INTEGER DEFAULT NULL
+)
+RETURNS public.expenses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category public.expense_categories;
+  _expense public.expenses;
+BEGIN
+  SELECT * INTO _category FROM public.expense_categories WHERE id = _category_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expense category not found';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  IF _payment_source NOT IN ('cash_drawer', 'bank') THEN
+    RAISE EXCEPTION 'Unknown payment source %', _payment_source;
+  END IF;
+
+  IF _description IS NULL OR btrim(_description) = '' THEN
+    RAISE EXCEPTION 'A description is required';
+  END IF;
+
+  IF _shift_id IS NOT NULL THEN
+    IF _payment_source <> 'cash_drawer' THEN
+      RAISE EXCEPTION 'Only cash drawer expenses belong to a shift';
+    END IF;
+    PERFORM public.lock_open_cash_shift(_shift_id);
+  END IF;
+
+  INSERT INTO public.expenses (
+    category_id, description, amount, payment_source, expense_date,
+    receipt_path, shift_id, recurring_expense_id, recurring_occurrence, created_by
+  )
+  VALUES (
+    _category_id, btrim(_description), _amount, _payment_source, _expense_date,
+    _receipt_path, _shift_id, _recurring_expense_id, _recurring_occurrence, auth.uid()
+  )
+  RETURNING * INTO _expense;
+
+  IF _shift_id IS NOT NULL THEN
+    INSERT INTO public.cash_movements (shift_id, movement_type, amount, reason, created_by, expense_id)
+    VALUES (_shift_id, 'cash_out', _amount, _category.name || ' - ' || _expense.description, auth.uid(), _expense.id);
+  END IF;
+
+  INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, reference_id, reference_type, payment_method)
+  VALUES (
+    _expense_date,
+    'expense',
+    _category.name || ' - ' || _expense.description,
+    0,
+    _amount,
+    _expense.id,
+    'expense',
+    CASE _payment_source WHEN 'cash_drawer' THEN 'cash' ELSE 'transfer' END
+  );
+
+  RETURN _expense;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_due_recurring_expenses()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today DATE := (now() AT TIME ZONE 'Asia/Jakarta')::DATE;
+  _open_from DATE := COALESCE(public.locked_through() + 1, '-infinity'::DATE);
+  _recurring public.recurring_expenses;
+  _posted INTEGER := 0;
+BEGIN
+  -- No caller means the service role (execute is revoked from anon)
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  FOR _recurring IN
+    SELECT * FROM public.recurring_expenses
+    WHERE is_active AND next_due_date <= _today
+    ORDER BY next_due_date
+    FOR UPDATE
+  LOOP
+    WHILE _recurring.next_due_date <= _today LOOP
+      _recurring.posted_count := _recurring.posted_count + 1;
+      PERFORM public.create_expense(
+        _recurring.category_id, _recurring.amount, _recurring.payment_source,
+        GREATEST(_recurring.next_due_date, _open_from), _recurring.description,
+        NULL, NULL, _recurring.id, _recurring.posted_count
+      );
+      _recurring.next_due_date := (_recurring.start_date + CASE _recurring.frequency
+        WHEN 'weekly' THEN INTERVAL '7 days' * _recurring.posted_count
+        ELSE INTERVAL '1 month' * _recurring.posted_count
+      END)::DATE;
+      _posted := _posted + 1;
+    END LOOP;
+
+    UPDATE public.recurring_expenses
+    SET posted_count = _recurring.posted_count,
+        next_due_date = _recurring.next_due_date
+    WHERE id = _recurring.id;
+  END LOOP;
+
+  RETURN _posted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_expense(UUID, INTEGER, TEXT, DATE, TEXT, TEXT, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.insert_period_snapshot(UUID, TEXT, DATE, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.locked_through() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_period(DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.post_adjusting_entry(DATE, TEXT, JSONB) TO authenticated;
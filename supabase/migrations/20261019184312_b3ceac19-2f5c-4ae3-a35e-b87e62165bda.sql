@@ -0,0 +1,256 @@
+-- Daily settlement moves from the edge function into the database. A business day (Asia/Jakarta)
+-- is settled in one transaction under a per-day lock: the daily report is upserted, its legacy
+-- accounting rows are replaced and the QRIS sweep is reposted. Running it again, or twice at
+-- once, gives the same result. Every run is logged with what triggered it.
+CREATE TABLE public.settlement_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_date DATE NOT NULL,
+  trigger TEXT NOT NULL, -- 'manual', 'schedule', 'backfill'
+  triggered_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running', -- 'running', 'succeeded', 'failed'
+  daily_report_id UUID REFERENCES public.daily_reports(id) ON DELETE SET NULL,
+  stats JSONB,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  CHECK (trigger IN ('manual', 'schedule', 'backfill')),
+  CHECK (status IN ('running', 'succeeded', 'failed'))
+);
+
+CREATE INDEX idx_settlement_runs_business_date ON public.settlement_runs(business_date);
+
+ALTER TABLE public.settlement_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by settle_business_day only
+CREATE POLICY "Admins can view settlement runs"
+  ON public.settlement_runs FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- The sweep never takes more than a later settlement left in clearing, so settling a missed
+-- day after the days that follow it does not move the same QRIS money twice
+CREATE OR REPLACE FUNCTION public.post_daily_settlement(_daily_report_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report_date DATE;
+  _later_settlement DATE;
+  _clearing INTEGER;
+BEGIN
+  SELECT report_date INTO _report_date FROM public.daily_reports WHERE id = _daily_report_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Daily report not found';
+  END IF;
+
+  SELECT MAX(entry_date) INTO _later_settlement
+  FROM public.journal_entries
+  WHERE source_type = 'settlement' AND entry_date > _report_date;
+
+  SELECT GREATEST(0, LEAST(
+    COALESCE(SUM(jl.debit - jl.credit) FILTER (WHERE je.entry_date <= _report_date), 0),
+    COALESCE(SUM(jl.debit - jl.credit) FILTER (WHERE je.entry_date <= COALESCE(_later_settlement, _report_date)), 0)
+  )) INTO _clearing
+  FROM public.journal_lines jl
+  JOIN public.journal_entries je ON je.id = jl.journal_entry_id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE a.code = '1103';
+
+  RETURN public.post_journal_entry(
+    _report_date,
+    'Settlement QRIS ' || TO_CHAR(_report_date, 'DD/MM/YYYY'),
+    'settlement',
+    _daily_report_id,
+    jsonb_build_array(
+      jsonb_build_object('account', '1102', 'debit', _clearing),
+      jsonb_build_object('account', '1103', 'credit', _clearing)
+    )
+  );
+END;
+$$;
+
+-- Settles one business day and returns its settlement_runs row. A failure is recorded on the
+-- run rather than raised, so the log keeps it.
+CREATE OR REPLACE FUNCTION public.settle_business_day(
+  _business_date DATE,
+  _trigger TEXT,
+  _triggered_by UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _run_id UUID;
+  _report public.daily_reports;
+  _total_orders INTEGER;
+  _cash INTEGER;
+  _transfer INTEGER;
+  _qris INTEGER;
+  _total INTEGER;
+  _label TEXT := TO_CHAR(_business_date, 'DD/MM/YYYY');
+BEGIN
+  -- No caller means the service role (execute is revoked from anon)
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF _business_date IS NULL OR _business_date > (now() AT TIME ZONE 'Asia/Jakarta')::DATE THEN
+    RAISE EXCEPTION 'Cannot settle a future business day';
+  END IF;
+
+  -- Concurrent runs for the same day wait here and then redo the work on committed data
+  PERFORM pg_advisory_xact_lock(hashtext('daily_settlement:' || _business_date));
+
+  INSERT INTO public.settlement_runs (business_date, trigger, triggered_by)
+  VALUES (_business_date, _trigger, COALESCE(auth.uid(), _triggered_by))
+  RETURNING id INTO _run_id;
+
+  BEGIN
+    -- Voided orders still count as sales here: their payments were reversed by separate
+    -- entries when they were voided. Orders without tender rows count towards their
+    -- single method.
+    WITH day_orders AS (
+      SELECT o.*
+      FROM public.orders o
+      WHERE public.business_date(o.created_at) = _business_date
+        AND o.status IN ('completed', 'refunded', 'cancelled')
+        AND (o.status <> 'cancelled' OR EXISTS (SELECT 1 FROM public.order_payments p WHERE p.order_id = o.id))
+    ),
+    tenders AS (
+      SELECT p.payment_method::TEXT AS method, p.amount
+      FROM public.order_payments p
+      JOIN day_orders o ON o.id = p.order_id
+      UNION ALL
+      SELECT o.payment_method::TEXT, o.total
+      FROM day_orders o
+      WHERE o.payment_method IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM public.order_payments p WHERE p.order_id = o.id)
+    )
+    SELECT
+      (SELECT COUNT(*) FROM day_orders WHERE status <> 'cancelled'),
+      COALESCE(SUM(amount) FILTER (WHERE method = 'cash'), 0),
+      COALESCE(SUM(amount) FILTER (WHERE method = 'transfer'), 0),
+      COALESCE(SUM(amount) FILTER (WHERE method = 'qris'), 0)
+    INTO _total_orders, _cash, _transfer, _qris
+    FROM tenders;
+
+    _total := _cash + _transfer + _qris;
+
+    INSERT INTO public.daily_reports (report_date, total_orders, total_revenue, cash_revenue, transfer_revenue, qris_revenue)
+    VALUES (_business_date, _total_orders, _total, _cash, _transfer, _qris)
+    ON CONFLICT (report_date) DO UPDATE
+    SET total_orders = EXCLUDED.total_orders,
+        total_revenue = EXCLUDED.total_revenue,
+        cash_revenue = EXCLUDED.cash_revenue,
+        transfer_revenue = EXCLUDED.transfer_revenue,
+        qris_revenue = EXCLUDED.qris_revenue
+    RETURNING * INTO _report;
+
+    -- Void, refund and expense entries are written when they happen and are left alone
+    DELETE FROM public.accounting_entries
+    WHERE reference_type = 'daily_report' AND reference_id = _report.id;
+
+    IF _total > 0 THEN
+      INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, balance, reference_id, reference_type, payment_method)
+      SELECT _business_date, 'income', tender.label || ' - ' || _label, tender.amount, 0, 0, _report.id, 'daily_report', tender.method
+      FROM (VALUES
+        ('Pendapatan Tunai', _cash, 'cash'),
+        ('Pendapatan Transfer', _transfer, 'transfer'),
+        ('Pendapatan QRIS', _qris, 'qris')
+      ) AS tender(label, amount, method)
+      WHERE tender.amount > 0;
+
+      INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, balance, reference_id, reference_type, payment_method)
+      VALUES (
+        _business_date,
+        'daily_summary',
+        'Total Settlement - ' || _label || ' (' || _total_orders || ' pesanan)',
+        _total,
+        0,
+        public.cash_position(_business_date),
+        _report.id,
+        'daily_report',
+        NULL
+      );
+    END IF;
+
+    -- Reposted so a re-run later in the day also sweeps the QRIS paid since the last run
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'settlement' AND source_id = _report.id;
+
+    PERFORM public.post_daily_settlement(_report.id);
+
+    UPDATE public.settlement_runs
+    SET status = 'succeeded',
+        daily_report_id = _report.id,
+        stats = jsonb_build_object(
+          'total_orders', _total_orders,
+          'total_revenue', _total,
+          'cash_revenue', _cash,
+          'transfer_revenue', _transfer,
+          'qris_revenue', _qris
+        ),
+        finished_at = now()
+    WHERE id = _run_id;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.settlement_runs
+    SET status = 'failed', error = SQLERRM, finished_at = now()
+    WHERE id = _run_id;
+  END;
+
+  RETURN (SELECT to_jsonb(r) FROM public.settlement_runs r WHERE r.id = _run_id);
+END;
+$$;
+
+-- Settles the days before _before that had sales but never got a daily report, back to the
+-- last period closing. Returns the runs, oldest first.
+CREATE OR REPLACE FUNCTION public.backfill_daily_settlements(_before DATE, _triggered_by UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from DATE;
+  _day DATE;
+  _runs JSONB := '[]'::JSONB;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  _from := COALESCE(
+    public.locked_through() + 1,
+    (SELECT public.business_date(MIN(created_at)) FROM public.orders)
+  );
+
+  IF _from IS NULL THEN
+    RETURN _runs;
+  END IF;
+
+  FOR _day IN
+    SELECT day::DATE
+    FROM generate_series(_from, _before - 1, INTERVAL '1 day') AS day
+    WHERE NOT EXISTS (SELECT 1 FROM public.daily_reports WHERE report_date = day::DATE)
+      AND EXISTS (
+        SELECT 1 FROM public.orders
+        WHERE public.business_date(created_at) = day::DATE
+          AND status IN ('completed', 'refunded', 'cancelled')
+      )
+  LOOP
+    _runs := _runs || jsonb_build_array(public.settle_business_day(_day, 'backfill', _triggered_by));
+  END LOOP;
+
+  RETURN _runs;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_business_day(DATE, TEXT, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.backfill_daily_settlements(DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.settle_business_day(DATE, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.backfill_daily_settlements(DATE, UUID) TO authenticated;
@@ -0,0 +1,113 @@
+-- Item splits could pick an item another share had already paid for, so the same dish was
+-- paid twice. Picks are now checked against the order and against earlier shares.
+CREATE OR REPLACE FUNCTION public.pay_order_split(
+  _order_id UUID,
+  _amount INTEGER,
+  _payment_method payment_method,
+  _amount_paid INTEGER,
+  _split_type TEXT DEFAULT 'custom',
+  _items JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _already_paid INTEGER;
+  _split_count INTEGER;
+  _split_id UUID;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Order % is not open', _order.order_number;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0)::INTEGER, COUNT(*)::INTEGER
+  INTO _already_paid, _split_count
+  FROM public.order_splits
+  WHERE order_id = _order_id;
+
+  IF _amount <= 0 OR _amount > _order.total - _already_paid THEN
+    RAISE EXCEPTION 'Split amount % exceeds the remaining balance %', _amount, _order.total - _already_paid;
+  END IF;
+
+  IF _amount_paid < _amount THEN
+    RAISE EXCEPTION 'Amount paid is less than the split amount';
+  END IF;
+
+  IF _payment_method <> 'cash' AND _amount_paid <> _amount THEN
+    RAISE EXCEPTION 'Only cash payments can return change';
+  END IF;
+
+  -- Each picked item has to be on this order and not already paid by an earlier share
+  IF _split_type = 'items' THEN
+    IF _items IS NULL OR jsonb_array_length(_items) = 0 THEN
+      RAISE EXCEPTION 'An item split needs at least one item';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM (
+        SELECT pick ->> 'order_item_id' AS order_item_id, SUM((pick ->> 'quantity')::INTEGER) AS quantity
+        FROM jsonb_array_elements(_items) AS pick
+        GROUP BY pick ->> 'order_item_id'
+      ) AS picked
+      LEFT JOIN public.order_items oi
+        ON oi.id::TEXT = picked.order_item_id AND oi.order_id = _order_id
+      LEFT JOIN (
+        SELECT paid_pick ->> 'order_item_id' AS order_item_id, SUM((paid_pick ->> 'quantity')::INTEGER) AS quantity
+        FROM public.order_splits os, jsonb_array_elements(os.items) AS paid_pick
+        WHERE os.order_id = _order_id AND os.items IS NOT NULL
+        GROUP BY paid_pick ->> 'order_item_id'
+      ) AS paid ON paid.order_item_id = picked.order_item_id
+      WHERE oi.id IS NULL
+        OR picked.quantity <= 0
+        OR picked.quantity + COALESCE(paid.quantity, 0) > oi.quantity
+    ) THEN
+      RAISE EXCEPTION 'Some picked items are not on the order or were already paid by another share';
+    END IF;
+  END IF;
+
+  INSERT INTO public.order_splits (order_id, split_number, split_type, amount, payment_method, amount_paid, change_amount, items, cashier_id)
+  VALUES (_order_id, _split_count + 1, _split_type, _amount, _payment_method, _amount_paid, _amount_paid - _amount, _items, auth.uid())
+  RETURNING id INTO _split_id;
+
+  INSERT INTO public.order_payments (order_id, split_id, payment_method, amount, amount_tendered, change_amount)
+  VALUES (_order_id, _split_id, _payment_method, _amount, _amount_paid, _amount_paid - _amount);
+
+  IF _already_paid + _amount = _order.total THEN
+    UPDATE public.orders o
+    SET status = 'completed',
+        payment_method = (
+          SELECT os.payment_method
+          FROM public.order_splits os
+          WHERE os.order_id = _order_id
+          GROUP BY os.payment_method
+          ORDER BY SUM(os.amount) DESC
+          LIMIT 1
+        ),
+        amount_paid = totals.amount_paid,
+        change_amount = totals.change_amount,
+        completed_at = now()
+    FROM (
+      SELECT SUM(amount_paid)::INTEGER AS amount_paid, SUM(change_amount)::INTEGER AS change_amount
+      FROM public.order_splits
+      WHERE order_id = _order_id
+    ) AS totals
+    WHERE o.id = _order_id;
+
+    UPDATE public.restaurant_tables
+    SET status = 'available', current_order_id = NULL
+    WHERE current_order_id = _order_id;
+  END IF;
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
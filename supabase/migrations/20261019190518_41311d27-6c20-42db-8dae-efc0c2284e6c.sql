@@ -0,0 +1,330 @@
+-- Promotion discounts were taken from the client as sent, so any discount could be labelled a
+-- promotion and skip the manual discount approval. The server now works out what the promotion
+-- gives from its rule and the order's items, the same way the POS does, and refuses more.
+
+-- What a promotion takes off an order at _at (Asia/Jakarta), or NULL when the promotion does
+-- not exist, is switched off or is outside its dates or hours. Mirrors getPromotionDiscount in
+-- src/utils/promotions.ts.
+CREATE OR REPLACE FUNCTION public.promotion_discount(_promotion_id UUID, _order_id UUID, _at TIMESTAMPTZ DEFAULT now())
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions;
+  _local TIMESTAMP := _at AT TIME ZONE 'Asia/Jakarta';
+  _subtotal INTEGER;
+  _eligible_subtotal INTEGER;
+  _eligible_units INTEGER;
+  _free_units INTEGER;
+  _discount INTEGER;
+BEGIN
+  SELECT * INTO _promotion FROM public.promotions WHERE id = _promotion_id;
+
+  IF NOT FOUND OR NOT _promotion.is_active THEN
+    RETURN NULL;
+  END IF;
+
+  IF _local::DATE < _promotion.start_date OR _local::DATE > _promotion.end_date THEN
+    RETURN NULL;
+  END IF;
+
+  -- Happy hours may run past midnight
+  IF _promotion.start_time IS NOT NULL AND _promotion.end_time IS NOT NULL AND NOT (
+    CASE WHEN _promotion.start_time <= _promotion.end_time
+      THEN _local::TIME >= _promotion.start_time AND _local::TIME < _promotion.end_time
+      ELSE _local::TIME >= _promotion.start_time OR _local::TIME < _promotion.end_time
+    END
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(total_price), 0)::INTEGER INTO _subtotal
+  FROM public.order_items
+  WHERE order_id = _order_id;
+
+  IF _subtotal < _promotion.min_spend THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(oi.unit_price * oi.quantity), 0)::INTEGER, COALESCE(SUM(oi.quantity), 0)::INTEGER
+  INTO _eligible_subtotal, _eligible_units
+  FROM public.order_items oi
+  LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+  WHERE oi.order_id = _order_id
+    AND (
+      _promotion.scope = 'order'
+      OR (_promotion.scope = 'item' AND oi.menu_item_id = _promotion.menu_item_id)
+      OR (_promotion.scope = 'category' AND mi.category_id = _promotion.category_id)
+    );
+
+  IF _eligible_subtotal <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF _promotion.promo_type = 'percent' THEN
+    _discount := FLOOR(_eligible_subtotal * _promotion.value / 100.0);
+  ELSIF _promotion.promo_type = 'fixed' THEN
+    _discount := CASE WHEN _promotion.scope = 'order' THEN _promotion.value ELSE _promotion.value * _eligible_units END;
+  ELSE
+    -- Buy X get Y: the cheapest Y units of every X + Y are free
+    _free_units := (_eligible_units / (_promotion.buy_quantity + _promotion.get_quantity)) * _promotion.get_quantity;
+
+    SELECT COALESCE(SUM(unit_price), 0)::INTEGER INTO _discount
+    FROM (
+      SELECT oi.unit_price
+      FROM public.order_items oi
+      LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+      CROSS JOIN generate_series(1, oi.quantity)
+      WHERE oi.order_id = _order_id
+        AND (
+          _promotion.scope = 'order'
+          OR (_promotion.scope = 'item' AND oi.menu_item_id = _promotion.menu_item_id)
+          OR (_promotion.scope = 'category' AND mi.category_id = _promotion.category_id)
+        )
+      ORDER BY oi.unit_price
+      LIMIT _free_units
+    ) AS free_units;
+  END IF;
+
+  RETURN LEAST(_discount, _eligible_subtotal);
+END;
+$$;
+
+-- The promotion's name now comes from the promotion itself
+CREATE OR REPLACE FUNCTION public.apply_order_discount(_order_id UUID, _discount JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _promotion_discount INTEGER := COALESCE((_discount ->> 'promotion_discount')::INTEGER, 0);
+  _manual_discount INTEGER := COALESCE((_discount ->> 'manual_discount')::INTEGER, 0);
+  _promotion public.promotions;
+  _allowed INTEGER;
+  _limit INTEGER;
+  _approver UUID;
+BEGIN
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'Order % is already paid', _order.order_number;
+  END IF;
+
+  IF _promotion_discount < 0 OR _manual_discount < 0 THEN
+    RAISE EXCEPTION 'Discounts cannot be negative';
+  END IF;
+
+  IF _promotion_discount + _manual_discount > _order.subtotal THEN
+    RAISE EXCEPTION 'Discount exceeds the order subtotal';
+  END IF;
+
+  IF _promotion_discount > 0 THEN
+    SELECT * INTO _promotion FROM public.promotions WHERE id = NULLIF(_discount ->> 'promotion_id', '')::UUID;
+    _allowed := public.promotion_discount(_promotion.id, _order_id);
+
+    IF _allowed IS NULL THEN
+      RAISE EXCEPTION 'Promotion is not available';
+    END IF;
+
+    IF _promotion_discount > _allowed THEN
+      RAISE EXCEPTION 'Promotion discount % exceeds the % the promotion gives', _promotion_discount, _allowed;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(NULLIF(value, '')::INTEGER, 0) INTO _limit
+  FROM public.app_settings
+  WHERE key = 'manual_discount_approval_limit';
+
+  IF _manual_discount > 0 AND public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSIF _manual_discount > COALESCE(_limit, 0) THEN
+    _approver := public.approval_pin_user(_discount ->> 'approval_pin');
+
+    IF _approver IS NULL THEN
+      RAISE EXCEPTION 'Manual discount above % needs admin approval', COALESCE(_limit, 0);
+    END IF;
+  END IF;
+
+  UPDATE public.orders
+  SET promotion_id = CASE WHEN _promotion_discount > 0 THEN _promotion.id END,
+      promotion_name = CASE WHEN _promotion_discount > 0 THEN _promotion.name END,
+      promotion_discount = _promotion_discount,
+      manual_discount = _manual_discount,
+      discount_approved_by = _approver,
+      discount = _promotion_discount + _manual_discount
+  WHERE id = _order_id;
+
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  RETURN public.order_with_items(_order_id);
+END;
+$$;
+
+
+-- Offline sales keep what was charged; a promotion that did not hold is reported as a conflict
+CREATE OR REPLACE FUNCTION public.sync_offline_order(
+  _client_id UUID,
+  _created_at TIMESTAMPTZ,
+  _items JSONB,
+  _payments JSONB,
+  _totals JSONB,
+  _table_id UUID DEFAULT NULL,
+  _discount JSONB DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL,
+  _receipt_token UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _clean_items JSONB := '[]'::jsonb;
+  _item JSONB;
+  _menu_item public.menu_items;
+  _base_price INTEGER;
+  _table UUID := _table_id;
+  _promotion_id UUID := NULLIF(_discount ->> 'promotion_id', '')::UUID;
+  _promotion_discount INTEGER := COALESCE((_discount ->> 'promotion_discount')::INTEGER, 0);
+  _manual_discount INTEGER := COALESCE((_discount ->> 'manual_discount')::INTEGER, 0);
+  _limit INTEGER;
+  _approver UUID;
+  _server_total INTEGER;
+  _allowed INTEGER;
+BEGIN
+  PERFORM public.require_staff();
+
+  SELECT id INTO _order_id FROM public.orders WHERE client_id = _client_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'order', public.order_with_items(_order_id),
+      'conflicts', '[]'::jsonb,
+      'duplicate', true
+    );
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = NULLIF(_item ->> 'menu_item_id', '')::UUID;
+
+    IF NOT FOUND THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'menu_item_deleted',
+        'item', _item ->> 'menu_item_name'
+      );
+      _item := jsonb_set(_item, '{menu_item_id}', 'null'::jsonb);
+    ELSE
+      _base_price := (_item ->> 'unit_price')::INTEGER - COALESCE((
+        SELECT SUM((modifier ->> 'price_delta')::INTEGER)
+        FROM jsonb_array_elements(COALESCE(_item -> 'modifiers', '[]'::jsonb)) AS modifier
+      ), 0);
+
+      IF _base_price <> _menu_item.price THEN
+        _conflicts := _conflicts || jsonb_build_object(
+          'type', 'price_changed',
+          'item', _menu_item.name,
+          'sold_price', _base_price,
+          'current_price', _menu_item.price
+        );
+      END IF;
+    END IF;
+
+    _clean_items := _clean_items || jsonb_build_array(_item);
+  END LOOP;
+
+  IF _table IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.restaurant_tables WHERE id = _table) THEN
+    _conflicts := _conflicts || jsonb_build_object('type', 'table_deleted');
+    _table := NULL;
+  END IF;
+
+  IF _promotion_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.promotions WHERE id = _promotion_id) THEN
+    _promotion_id := NULL;
+  END IF;
+
+  SELECT COALESCE(NULLIF(value, '')::INTEGER, 0) INTO _limit
+  FROM public.app_settings
+  WHERE key = 'manual_discount_approval_limit';
+
+  IF _manual_discount > 0 AND public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSIF _manual_discount > COALESCE(_limit, 0) THEN
+    _approver := public.approval_pin_user(_discount ->> 'approval_pin');
+
+    IF _approver IS NULL THEN
+      _conflicts := _conflicts || jsonb_build_object('type', 'discount_unapproved', 'amount', _manual_discount);
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    order_number, client_id, receipt_token, table_id, cashier_id, cashier_name, status, notes, created_at, completed_at,
+    promotion_id, promotion_name, promotion_discount, manual_discount, discount, discount_approved_by
+  )
+  VALUES (
+    '', _client_id, COALESCE(_receipt_token, gen_random_uuid()), _table, auth.uid(), _cashier_name, 'completed', _notes,
+    _created_at, _created_at,
+    _promotion_id, CASE WHEN _promotion_discount > 0 THEN _discount ->> 'promotion_name' END,
+    _promotion_discount, _manual_discount, _promotion_discount + _manual_discount, _approver
+  )
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _clean_items);
+
+  -- Checked as of the sale, so a happy hour that has ended since still counts
+  IF _promotion_discount > 0 THEN
+    _allowed := public.promotion_discount(_promotion_id, _order_id, _created_at);
+
+    IF _allowed IS NULL OR _promotion_discount > _allowed THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'promotion_invalid',
+        'amount', _promotion_discount,
+        'allowed', COALESCE(_allowed, 0)
+      );
+    END IF;
+  END IF;
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  SELECT total INTO _server_total FROM public.orders WHERE id = _order_id;
+
+  IF _server_total <> (_totals ->> 'total')::INTEGER THEN
+    _conflicts := _conflicts || jsonb_build_object(
+      'type', 'total_changed',
+      'offline_total', (_totals ->> 'total')::INTEGER,
+      'current_total', _server_total
+    );
+  END IF;
+
+  -- Keep what the customer was charged
+  UPDATE public.orders
+  SET service_charge = (_totals ->> 'service_charge')::INTEGER,
+      tax = (_totals ->> 'tax')::INTEGER,
+      rounding = (_totals ->> 'rounding')::INTEGER,
+      total = (_totals ->> 'total')::INTEGER,
+      tax_rate = (_totals ->> 'tax_rate')::NUMERIC,
+      service_charge_rate = (_totals ->> 'service_charge_rate')::NUMERIC,
+      prices_include_tax = (_totals ->> 'prices_include_tax')::BOOLEAN
+  WHERE id = _order_id;
+
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  RETURN jsonb_build_object(
+    'order', public.order_with_items(_order_id),
+    'conflicts', _conflicts,
+    'duplicate', false
+  );
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION public.promotion_discount(UUID, UUID, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.promotion_discount(UUID, UUID, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,286 @@
+-- The approval PIN could be guessed without limit, through verify_approval_pin or through the
+-- void, refund and discount functions that check it. Every check is now logged per caller, and
+-- five wrong PINs in a row lock that caller out for 15 minutes. The functions that act on an
+-- approval only accept a PIN the caller has already verified, because a wrong PIN there rolls
+-- back with the rest of the call and could not be counted.
+CREATE TABLE public.approval_pin_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  caller_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  approver_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for a wrong PIN
+  succeeded BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_approval_pin_attempts_caller ON public.approval_pin_attempts(caller_id, created_at);
+
+ALTER TABLE public.approval_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Written by check_approval_pin only
+CREATE POLICY "Admins can view approval PIN attempts"
+  ON public.approval_pin_attempts FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- When the caller may try a PIN again, or NULL when they are not locked out
+CREATE OR REPLACE FUNCTION public.approval_pin_locked_until(_caller UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MAX(a.created_at) + INTERVAL '15 minutes'
+  FROM public.approval_pin_attempts a
+  WHERE a.caller_id = _caller
+    AND NOT a.succeeded
+    AND a.created_at > now() - INTERVAL '15 minutes'
+    AND a.created_at > COALESCE((
+      SELECT MAX(s.created_at) FROM public.approval_pin_attempts s
+      WHERE s.caller_id = _caller AND s.succeeded
+    ), '-infinity')
+  HAVING COUNT(*) >= 5
+$$;
+
+-- Admin whose PIN matches, or NULL. Logs the attempt; a locked-out caller gets NULL without
+-- the PIN being checked.
+CREATE OR REPLACE FUNCTION public.check_approval_pin(_pin TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _approver UUID;
+BEGIN
+  IF auth.uid() IS NULL OR public.approval_pin_locked_until(auth.uid()) IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT ap.user_id INTO _approver
+  FROM public.approval_pins ap
+  WHERE _pin IS NOT NULL
+    AND ap.pin_hash = extensions.crypt(_pin, ap.pin_hash)
+    AND public.has_role(ap.user_id, 'admin')
+  LIMIT 1;
+
+  INSERT INTO public.approval_pin_attempts (caller_id, approver_id, succeeded)
+  VALUES (auth.uid(), _approver, _approver IS NOT NULL);
+
+  RETURN _approver;
+END;
+$$;
+
+-- Returns the approving admin's name, or NULL for a wrong PIN. Not raised, so the failed
+-- attempt stays logged.
+CREATE OR REPLACE FUNCTION public.verify_approval_pin(_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _locked_until TIMESTAMPTZ := public.approval_pin_locked_until(auth.uid());
+  _approver UUID;
+  _name TEXT;
+BEGIN
+  IF _locked_until IS NOT NULL THEN
+    RAISE EXCEPTION 'Too many approval PIN attempts, try again after %',
+      TO_CHAR(_locked_until AT TIME ZONE 'Asia/Jakarta', 'HH24:MI');
+  END IF;
+
+  _approver := public.check_approval_pin(_pin);
+
+  IF _approver IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT full_name INTO _name FROM public.profiles WHERE id = _approver;
+  RETURN COALESCE(_name, 'Admin');
+END;
+$$;
+
+-- Admin whose PIN matches and was verified by the caller through verify_approval_pin in the
+-- last 12 hours, or NULL
+CREATE OR REPLACE FUNCTION public.approval_pin_user(_pin TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ap.user_id
+  FROM public.approval_pins ap
+  WHERE _pin IS NOT NULL
+    AND public.approval_pin_locked_until(auth.uid()) IS NULL
+    AND ap.pin_hash = extensions.crypt(_pin, ap.pin_hash)
+    AND public.has_role(ap.user_id, 'admin')
+    AND EXISTS (
+      SELECT 1 FROM public.approval_pin_attempts a
+      WHERE a.caller_id = auth.uid()
+        AND a.approver_id = ap.user_id
+        AND a.succeeded
+        AND a.created_at > now() - INTERVAL '12 hours'
+    )
+  LIMIT 1
+$$;
+
+-- A PIN taken offline could not be verified first, so it is checked (and counted) here
+CREATE OR REPLACE FUNCTION public.sync_offline_order(
+  _client_id UUID,
+  _created_at TIMESTAMPTZ,
+  _items JSONB,
+  _payments JSONB,
+  _totals JSONB,
+  _table_id UUID DEFAULT NULL,
+  _discount JSONB DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL,
+  _receipt_token UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _clean_items JSONB := '[]'::jsonb;
+  _item JSONB;
+  _menu_item public.menu_items;
+  _base_price INTEGER;
+  _table UUID := _table_id;
+  _promotion_id UUID := NULLIF(_discount ->> 'promotion_id', '')::UUID;
+  _promotion_discount INTEGER := COALESCE((_discount ->> 'promotion_discount')::INTEGER, 0);
+  _manual_discount INTEGER := COALESCE((_discount ->> 'manual_discount')::INTEGER, 0);
+  _limit INTEGER;
+  _approver UUID;
+  _server_total INTEGER;
+  _allowed INTEGER;
+BEGIN
+  PERFORM public.require_staff();
+
+  SELECT id INTO _order_id FROM public.orders WHERE client_id = _client_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'order', public.order_with_items(_order_id),
+      'conflicts', '[]'::jsonb,
+      'duplicate', true
+    );
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = NULLIF(_item ->> 'menu_item_id', '')::UUID;
+
+    IF NOT FOUND THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'menu_item_deleted',
+        'item', _item ->> 'menu_item_name'
+      );
+      _item := jsonb_set(_item, '{menu_item_id}', 'null'::jsonb);
+    ELSE
+      _base_price := (_item ->> 'unit_price')::INTEGER - COALESCE((
+        SELECT SUM((modifier ->> 'price_delta')::INTEGER)
+        FROM jsonb_array_elements(COALESCE(_item -> 'modifiers', '[]'::jsonb)) AS modifier
+      ), 0);
+
+      IF _base_price <> _menu_item.price THEN
+        _conflicts := _conflicts || jsonb_build_object(
+          'type', 'price_changed',
+          'item', _menu_item.name,
+          'sold_price', _base_price,
+          'current_price', _menu_item.price
+        );
+      END IF;
+    END IF;
+
+    _clean_items := _clean_items || jsonb_build_array(_item);
+  END LOOP;
+
+  IF _table IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.restaurant_tables WHERE id = _table) THEN
+    _conflicts := _conflicts || jsonb_build_object('type', 'table_deleted');
+    _table := NULL;
+  END IF;
+
+  IF _promotion_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.promotions WHERE id = _promotion_id) THEN
+    _promotion_id := NULL;
+  END IF;
+
+  SELECT COALESCE(NULLIF(value, '')::INTEGER, 0) INTO _limit
+  FROM public.app_settings
+  WHERE key = 'manual_discount_approval_limit';
+
+  IF _manual_discount > 0 AND public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSIF _manual_discount > COALESCE(_limit, 0) THEN
+    _approver := public.check_approval_pin(_discount ->> 'approval_pin');
+
+    IF _approver IS NULL THEN
+      _conflicts := _conflicts || jsonb_build_object('type', 'discount_unapproved', 'amount', _manual_discount);
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    order_number, client_id, receipt_token, table_id, cashier_id, cashier_name, status, notes, created_at, completed_at,
+    promotion_id, promotion_name, promotion_discount, manual_discount, discount, discount_approved_by
+  )
+  VALUES (
+    '', _client_id, COALESCE(_receipt_token, gen_random_uuid()), _table, auth.uid(), _cashier_name, 'completed', _notes,
+    _created_at, _created_at,
+    _promotion_id, CASE WHEN _promotion_discount > 0 THEN _discount ->> 'promotion_name' END,
+    _promotion_discount, _manual_discount, _promotion_discount + _manual_discount, _approver
+  )
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _clean_items);
+
+  -- Checked as of the sale, so a happy hour that has ended since still counts
+  IF _promotion_discount > 0 THEN
+    _allowed := public.promotion_discount(_promotion_id, _order_id, _created_at);
+
+    IF _allowed IS NULL OR _promotion_discount > _allowed THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'promotion_invalid',
+        'amount', _promotion_discount,
+        'allowed', COALESCE(_allowed, 0)
+      );
+    END IF;
+  END IF;
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  SELECT total INTO _server_total FROM public.orders WHERE id = _order_id;
+
+  IF _server_total <> (_totals ->> 'total')::INTEGER THEN
+    _conflicts := _conflicts || jsonb_build_object(
+      'type', 'total_changed',
+      'offline_total', (_totals ->> 'total')::INTEGER,
+      'current_total', _server_total
+    );
+  END IF;
+
+  -- Keep what the customer was charged
+  UPDATE public.orders
+  SET service_charge = (_totals ->> 'service_charge')::INTEGER,
+      tax = (_totals ->> 'tax')::INTEGER,
+      rounding = (_totals ->> 'rounding')::INTEGER,
+      total = (_totals ->> 'total')::INTEGER,
+      tax_rate = (_totals ->> 'tax_rate')::NUMERIC,
+      service_charge_rate = (_totals ->> 'service_charge_rate')::NUMERIC,
+      prices_include_tax = (_totals ->> 'prices_include_tax')::BOOLEAN
+  WHERE id = _order_id;
+
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  RETURN jsonb_build_object(
+    'order', public.order_with_items(_order_id),
+    'conflicts', _conflicts,
+    'duplicate', false
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approval_pin_locked_until(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.approval_pin_user(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.check_approval_pin(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approval_pin_user(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.check_approval_pin(TEXT) TO authenticated;
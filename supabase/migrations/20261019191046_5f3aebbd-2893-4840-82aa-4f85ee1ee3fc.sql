@@ -0,0 +1,44 @@
+-- The monthly PB1 report left out refunded orders and never took refunds off. Refunded orders
+-- now count as sales in the month they were completed, and each refund takes its share of the
+-- order's tax off the month it was made, rounded per refund the same way post_order_refund
+-- books it.
+CREATE OR REPLACE VIEW public.monthly_tax_report
+WITH (security_invoker = true)
+AS
+WITH sales AS (
+  SELECT
+    date_trunc('month', completed_at AT TIME ZONE 'Asia/Jakarta')::DATE AS month,
+    COUNT(*) AS order_count,
+    SUM(subtotal) AS subtotal,
+    SUM(discount) AS discount,
+    SUM(service_charge) AS service_charge,
+    SUM(total - tax - rounding) AS taxable_amount,
+    SUM(tax) AS tax,
+    SUM(total) AS total
+  FROM public.orders
+  WHERE status IN ('completed', 'refunded')
+    AND completed_at IS NOT NULL
+  GROUP BY 1
+),
+refunds AS (
+  SELECT
+    date_trunc('month', r.created_at AT TIME ZONE 'Asia/Jakarta')::DATE AS month,
+    SUM(r.amount) AS amount,
+    SUM(CASE WHEN o.total > 0 THEN ROUND(r.amount::NUMERIC * o.tax / o.total) ELSE 0 END) AS tax
+  FROM public.order_refunds r
+  JOIN public.orders o ON o.id = r.order_id
+  GROUP BY 1
+)
+SELECT
+  COALESCE(s.month, r.month) AS month,
+  COALESCE(s.order_count, 0)::INTEGER AS order_count,
+  COALESCE(s.subtotal, 0)::INTEGER AS subtotal,
+  COALESCE(s.discount, 0)::INTEGER AS discount,
+  COALESCE(s.service_charge, 0)::INTEGER AS service_charge,
+  (COALESCE(s.taxable_amount, 0) - COALESCE(r.amount - r.tax, 0))::INTEGER AS taxable_amount,
+  (COALESCE(s.tax, 0) - COALESCE(r.tax, 0))::INTEGER AS tax,
+  (COALESCE(s.total, 0) - COALESCE(r.amount, 0))::INTEGER AS total,
+  COALESCE(r.amount, 0)::INTEGER AS refund_amount,
+  COALESCE(r.tax, 0)::INTEGER AS refunded_tax
+FROM sales s
+FULL JOIN refunds r ON r.month = s.month;
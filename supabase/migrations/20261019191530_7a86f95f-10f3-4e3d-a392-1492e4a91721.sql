@@ -0,0 +1,96 @@
+-- Cash taken for an order that was later voided stayed in the shift's expected cash, so the
+-- drawer always looked short by it. Whole-order voids now belong to the shift of whoever
+-- voided the order, like refunds, and their cash comes off that shift's expected cash.
+ALTER TABLE public.order_voids
+  ADD COLUMN shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_order_voids_shift_id ON public.order_voids(shift_id);
+
+CREATE TRIGGER assign_order_void_shift
+  BEFORE INSERT ON public.order_voids
+  FOR EACH ROW EXECUTE FUNCTION public.assign_cash_shift();
+
+-- Earlier voids go to the shift their voider had open at the time. Closed shifts keep the
+-- expected cash frozen when they were closed.
+UPDATE public.order_voids v
+SET shift_id = s.id
+FROM public.cash_shifts s
+WHERE v.shift_id IS NULL
+  AND v.order_item_id IS NULL
+  AND s.cashier_id = v.voided_by
+  AND v.created_at >= s.opened_at
+  AND (s.closed_at IS NULL OR v.created_at <= s.closed_at);
+
+CREATE OR REPLACE FUNCTION public.cash_shift_summary(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.cash_shifts;
+  _cash_sales INTEGER;
+  _cash_refunds INTEGER;
+  _cash_voids INTEGER;
+  _cash_in INTEGER;
+  _cash_out INTEGER;
+  _expected INTEGER;
+BEGIN
+  PERFORM public.require_staff();
+
+  SELECT * INTO _shift FROM public.cash_shifts WHERE id = _shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _cash_sales
+  FROM public.order_payments
+  WHERE shift_id = _shift_id AND payment_method = 'cash';
+
+  SELECT COALESCE(SUM(amount), 0) INTO _cash_refunds
+  FROM public.order_refunds
+  WHERE shift_id = _shift_id AND payment_method = 'cash';
+
+  -- Cash of a paid order voided in this shift went back to the customer from this drawer
+  SELECT COALESCE(SUM(p.amount), 0) INTO _cash_voids
+  FROM public.order_voids v
+  JOIN public.order_payments p ON p.order_id = v.order_id
+  WHERE v.shift_id = _shift_id AND v.order_item_id IS NULL AND p.payment_method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_out'), 0)
+  INTO _cash_in, _cash_out
+  FROM public.cash_movements
+  WHERE shift_id = _shift_id;
+
+  _expected := COALESCE(_shift.expected_cash, _shift.opening_float + _cash_sales - _cash_refunds - _cash_voids + _cash_in - _cash_out);
+
+  RETURN jsonb_build_object(
+    'shift', to_jsonb(_shift),
+    'cash_sales', _cash_sales,
+    'cash_refunds', _cash_refunds,
+    'cash_voids', _cash_voids,
+    'cash_in', _cash_in,
+    'cash_out', _cash_out,
+    'expected_cash', _expected,
+    'order_count', (SELECT COUNT(DISTINCT order_id) FROM public.order_payments WHERE shift_id = _shift_id),
+    'payments_by_method', COALESCE((
+      SELECT jsonb_object_agg(payment_method, total)
+      FROM (
+        SELECT payment_method, SUM(amount) AS total
+        FROM public.order_payments
+        WHERE shift_id = _shift_id
+        GROUP BY payment_method
+      ) AS tenders
+    ), '{}'::jsonb),
+    'movements', COALESCE((
+      SELECT jsonb_agg(to_jsonb(m) ORDER BY m.created_at)
+      FROM public.cash_movements m
+      WHERE m.shift_id = _shift_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
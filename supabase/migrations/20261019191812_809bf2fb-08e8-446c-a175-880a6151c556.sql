@@ -0,0 +1,198 @@
+-- Goods could be received beyond what was ordered and a purchase order could be paid any
+-- amount, so stock and payables drifted from the order. Each line now takes at most what is
+-- still outstanding, and payments against an order stop at what it is worth.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(_purchase_order_id UUID, _items JSONB, _notes TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _purchase_order public.purchase_orders;
+  _receipt_id UUID;
+  _receipt_total INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO _purchase_order FROM public.purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF _purchase_order.status NOT IN ('ordered', 'partial') THEN
+    RAISE EXCEPTION 'Purchase order is already %', _purchase_order.status;
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Nothing to receive';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_items) AS item
+    LEFT JOIN public.purchase_order_items poi
+      ON poi.id = (item ->> 'purchase_order_item_id')::UUID AND poi.purchase_order_id = _purchase_order_id
+    WHERE poi.id IS NULL
+      OR (item ->> 'quantity')::NUMERIC <= 0
+      OR (item ->> 'unit_cost')::INTEGER < 0
+  ) THEN
+    RAISE EXCEPTION 'Invalid goods receipt line';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT (item ->> 'purchase_order_item_id')::UUID AS purchase_order_item_id, SUM((item ->> 'quantity')::NUMERIC) AS quantity
+      FROM jsonb_array_elements(_items) AS item
+      GROUP BY 1
+    ) AS received
+    JOIN public.purchase_order_items poi ON poi.id = received.purchase_order_item_id
+    WHERE poi.received_quantity + received.quantity > poi.quantity
+  ) THEN
+    RAISE EXCEPTION 'Received quantity exceeds what is outstanding on the order';
+  END IF;
+
+  INSERT INTO public.goods_receipts (purchase_order_id, supplier_id, notes, received_by)
+  VALUES (_purchase_order_id, _purchase_order.supplier_id, NULLIF(btrim(COALESCE(_notes, '')), ''), auth.uid())
+  RETURNING id INTO _receipt_id;
+
+  INSERT INTO public.goods_receipt_items (goods_receipt_id, purchase_order_item_id, ingredient_id, quantity, unit_cost, total_cost)
+  SELECT
+    _receipt_id,
+    poi.id,
+    poi.ingredient_id,
+    (item ->> 'quantity')::NUMERIC,
+    (item ->> 'unit_cost')::INTEGER,
+    ROUND((item ->> 'quantity')::NUMERIC * (item ->> 'unit_cost')::INTEGER)::INTEGER
+  FROM jsonb_array_elements(_items) AS item
+  JOIN public.purchase_order_items poi ON poi.id = (item ->> 'purchase_order_item_id')::UUID;
+
+  UPDATE public.purchase_order_items poi
+  SET received_quantity = poi.received_quantity + received.quantity
+  FROM (
+    SELECT purchase_order_item_id, SUM(quantity) AS quantity
+    FROM public.goods_receipt_items
+    WHERE goods_receipt_id = _receipt_id
+    GROUP BY purchase_order_item_id
+  ) AS received
+  WHERE poi.id = received.purchase_order_item_id;
+
+  INSERT INTO public.stock_movements (ingredient_id, movement_type, quantity, goods_receipt_id, note, created_by)
+  SELECT ingredient_id, 'purchase', SUM(quantity), _receipt_id, _purchase_order.po_number, auth.uid()
+  FROM public.goods_receipt_items
+  WHERE goods_receipt_id = _receipt_id
+  GROUP BY ingredient_id;
+
+  UPDATE public.ingredients i
+  SET stock = i.stock + received.quantity,
+      last_unit_cost = received.unit_cost
+  FROM (
+    SELECT ingredient_id, SUM(quantity) AS quantity, MAX(unit_cost) AS unit_cost
+    FROM public.goods_receipt_items
+    WHERE goods_receipt_id = _receipt_id
+    GROUP BY ingredient_id
+  ) AS received
+  WHERE i.id = received.ingredient_id;
+
+  SELECT COALESCE(SUM(total_cost), 0) INTO _receipt_total
+  FROM public.goods_receipt_items
+  WHERE goods_receipt_id = _receipt_id;
+
+  UPDATE public.goods_receipts SET total_cost = _receipt_total WHERE id = _receipt_id;
+
+  UPDATE public.purchase_orders
+  SET received_amount = received_amount + _receipt_total,
+      status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = _purchase_order_id AND received_quantity < quantity
+        ) THEN 'received'
+        ELSE 'partial'
+      END
+  WHERE id = _purchase_order_id;
+
+  RETURN public.purchase_order_with_items(_purchase_order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_supplier_payment(
+  _supplier_id UUID,
+  _amount INTEGER,
+  _payment_method TEXT,
+  _purchase_order_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.supplier_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _supplier public.suppliers;
+  _purchase_order public.purchase_orders;
+  _payment public.supplier_payments;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO _supplier FROM public.suppliers WHERE id = _supplier_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier not found';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  IF _payment_method NOT IN ('cash', 'transfer') THEN
+    RAISE EXCEPTION 'Unknown payment method %', _payment_method;
+  END IF;
+
+  IF _purchase_order_id IS NOT NULL THEN
+    SELECT * INTO _purchase_order FROM public.purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND OR _purchase_order.supplier_id <> _supplier_id THEN
+      RAISE EXCEPTION 'Purchase order not found for this supplier';
+    END IF;
+
+    IF _purchase_order.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Purchase order is cancelled';
+    END IF;
+
+    -- Up to what was ordered, so a deposit can go out before the goods arrive, or more when
+    -- the goods came in dearer than agreed
+    IF _purchase_order.paid_amount + _amount > GREATEST(_purchase_order.total_amount, _purchase_order.received_amount) THEN
+      RAISE EXCEPTION 'Payment exceeds what is owed on % (% left)',
+        _purchase_order.po_number,
+        GREATEST(0, GREATEST(_purchase_order.total_amount, _purchase_order.received_amount) - _purchase_order.paid_amount);
+    END IF;
+
+    UPDATE public.purchase_orders
+    SET paid_amount = paid_amount + _amount
+    WHERE id = _purchase_order_id;
+  END IF;
+
+  INSERT INTO public.supplier_payments (supplier_id, purchase_order_id, amount, payment_method, note, paid_by)
+  VALUES (_supplier_id, _purchase_order_id, _amount, _payment_method, NULLIF(btrim(COALESCE(_note, '')), ''), auth.uid())
+  RETURNING * INTO _payment;
+
+  INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, reference_id, reference_type, payment_method)
+  VALUES (
+    (now() AT TIME ZONE 'Asia/Jakarta')::DATE,
+    'expense',
+    'Pembayaran ' || _supplier.name || COALESCE(' - ' || _purchase_order.po_number, ''),
+    0,
+    _amount,
+    _payment.id,
+    'supplier_payment',
+    _payment_method
+  );
+
+  RETURN _payment;
+END;
+$$;
@@ -0,0 +1,115 @@
+-- Two ledger fixes. The journal balance check ran with the caller's rights, and RLS hides
+-- journal_lines from cashiers, so it could not see the lines it had to check. A voided order
+-- also kept its cost of goods sold and the stock its recipes used. The void now reverses the
+-- HPP entry as its own entry and puts the ingredients back into stock.
+CREATE OR REPLACE FUNCTION public.check_journal_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry_id UUID := COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.journal_lines
+    WHERE journal_entry_id = _entry_id
+    HAVING SUM(debit) <> SUM(credit)
+  ) THEN
+    RAISE EXCEPTION 'Journal entry % is not balanced', _entry_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_movement_type_check,
+  ADD CONSTRAINT stock_movements_movement_type_check
+    CHECK (movement_type IN ('sale', 'restock', 'adjustment', 'purchase', 'void'));
+
+-- Void of a whole order: the sale and its HPP are reversed, and what the order took from
+-- stock goes back
+CREATE OR REPLACE FUNCTION public.post_order_void(_void_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _void public.order_voids;
+  _order_number TEXT;
+  _lines JSONB;
+BEGIN
+  SELECT * INTO _void FROM public.order_voids WHERE id = _void_id;
+
+  IF NOT FOUND OR _void.order_item_id IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT order_number INTO _order_number FROM public.orders WHERE id = _void.order_id;
+
+  SELECT jsonb_agg(jsonb_build_object('account', a.code, 'debit', jl.credit, 'credit', jl.debit))
+  INTO _lines
+  FROM public.journal_entries je
+  JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE je.source_type = 'order' AND je.source_id = _void.order_id;
+
+  IF _lines IS NOT NULL THEN
+    PERFORM public.post_journal_entry(
+      public.business_date(_void.created_at),
+      'Void #' || _order_number || ' - ' || _void.reason,
+      'order_void',
+      _void_id,
+      _lines
+    );
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('account', a.code, 'debit', jl.credit, 'credit', jl.debit))
+  INTO _lines
+  FROM public.journal_entries je
+  JOIN public.journal_lines jl ON jl.journal_entry_id = je.id
+  JOIN public.accounts a ON a.id = jl.account_id
+  WHERE je.source_type = 'order_cogs' AND je.source_id = _void.order_id;
+
+  IF _lines IS NOT NULL THEN
+    PERFORM public.post_journal_entry(
+      public.business_date(_void.created_at),
+      'Void HPP #' || _order_number,
+      'order_void_cogs',
+      _void_id,
+      _lines
+    );
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_movements WHERE order_id = _void.order_id AND movement_type = 'void') THEN
+    RETURN;
+  END IF;
+
+  WITH returned AS (
+    SELECT ingredient_id, -SUM(quantity) AS quantity
+    FROM public.stock_movements
+    WHERE order_id = _void.order_id AND movement_type = 'sale'
+    GROUP BY ingredient_id
+    HAVING SUM(quantity) <> 0
+  ),
+  logged AS (
+    INSERT INTO public.stock_movements (ingredient_id, movement_type, quantity, order_id, note, created_by)
+    SELECT ingredient_id, 'void', quantity, _void.order_id, 'Void #' || _order_number, _void.voided_by
+    FROM returned
+  )
+  UPDATE public.ingredients i
+  SET stock = i.stock + returned.quantity
+  FROM returned
+  WHERE i.id = returned.ingredient_id;
+END;
+$$;
+
+-- Voids already in the open period get their HPP reversal and stock back now; closed periods
+-- are corrected with adjusting entries
+SELECT public.post_order_void(v.id)
+FROM public.order_voids v
+WHERE v.order_item_id IS NULL
+  AND public.business_date(v.created_at) > COALESCE(public.locked_through(), '-infinity'::DATE)
+ORDER BY v.created_at;
@@ -0,0 +1,191 @@
+-- Offline orders keep the time they were taken, so one from a day that was closed before the
+-- device synced was rejected by the period lock on every retry. It is now booked at the start
+-- of the first open day and reported as a conflict with the original sale time.
+CREATE OR REPLACE FUNCTION public.sync_offline_order(
+  _client_id UUID,
+  _created_at TIMESTAMPTZ,
+  _items JSONB,
+  _payments JSONB,
+  _totals JSONB,
+  _table_id UUID DEFAULT NULL,
+  _discount JSONB DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL,
+  _receipt_token UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _clean_items JSONB := '[]'::jsonb;
+  _item JSONB;
+  _menu_item public.menu_items;
+  _base_price INTEGER;
+  _table UUID := _table_id;
+  _promotion_id UUID := NULLIF(_discount ->> 'promotion_id', '')::UUID;
+  _promotion_discount INTEGER := COALESCE((_discount ->> 'promotion_discount')::INTEGER, 0);
+  _manual_discount INTEGER := COALESCE((_discount ->> 'manual_discount')::INTEGER, 0);
+  _limit INTEGER;
+  _approver UUID;
+  _server_total INTEGER;
+  _allowed INTEGER;
+  _open_from TIMESTAMPTZ := (public.locked_through() + 1)::TIMESTAMP AT TIME ZONE 'Asia/Jakarta';
+  _booked_at TIMESTAMPTZ := _created_at;
+BEGIN
+  PERFORM public.require_staff();
+
+  SELECT id INTO _order_id FROM public.orders WHERE client_id = _client_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'order', public.order_with_items(_order_id),
+      'conflicts', '[]'::jsonb,
+      'duplicate', true
+    );
+  END IF;
+
+  -- A sale from a day that was closed while the device was offline goes on the first open day
+  IF _created_at < _open_from THEN
+    _booked_at := _open_from;
+    _conflicts := _conflicts || jsonb_build_object(
+      'type', 'period_closed',
+      'sold_at', _created_at,
+      'booked_on', public.business_date(_open_from)
+    );
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = NULLIF(_item ->> 'menu_item_id', '')::UUID;
+
+    IF NOT FOUND THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'menu_item_deleted',
+        'item', _item ->> 'menu_item_name'
+      );
+      _item := jsonb_set(_item, '{menu_item_id}', 'null'::jsonb);
+    ELSE
+      _base_price := (_item ->> 'unit_price')::INTEGER - COALESCE((
+        SELECT SUM((modifier ->> 'price_delta')::INTEGER)
+        FROM jsonb_array_elements(COALESCE(_item -> 'modifiers', '[]'::jsonb)) AS modifier
+      ), 0);
+
+      IF _base_price <> _menu_item.price THEN
+        _conflicts := _conflicts || jsonb_build_object(
+          'type', 'price_changed',
+          'item', _menu_item.name,
+          'sold_price', _base_price,
+          'current_price', _menu_item.price
+        );
+      END IF;
+    END IF;
+
+    _clean_items := _clean_items || jsonb_build_array(_item);
+  END LOOP;
+
+  IF _table IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.restaurant_tables WHERE id = _table) THEN
+    _conflicts := _conflicts || jsonb_build_object('type', 'table_deleted');
+    _table := NULL;
+  END IF;
+
+  IF _promotion_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.promotions WHERE id = _promotion_id) THEN
+    _promotion_id := NULL;
+  END IF;
+
+  SELECT COALESCE(NULLIF(value, '')::INTEGER, 0) INTO _limit
+  FROM public.app_settings
+  WHERE key = 'manual_discount_approval_limit';
+
+  IF _manual_discount > 0 AND public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSIF _manual_discount > COALESCE(_limit, 0) THEN
+    _approver := public.check_approval_pin(_discount ->> 'approval_pin');
+
+    IF _approver IS NULL THEN
+      _conflicts := _conflicts || jsonb_build_object('type', 'discount_unapproved', 'amount', _manual_discount);
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    order_number, client_id, receipt_token, table_id, cashier_id, cashier_name, status, notes, created_at, completed_at,
+    promotion_id, promotion_name, promotion_discount, manual_discount, discount, discount_approved_by
+  )
+  VALUES (
+    '', _client_id, COALESCE(_receipt_token, gen_random_uuid()), _table, auth.uid(), _cashier_name, 'completed', _notes,
+    _booked_at, _booked_at,
+    _promotion_id, CASE WHEN _promotion_discount > 0 THEN _discount ->> 'promotion_name' END,
+    _promotion_discount, _manual_discount, _promotion_discount + _manual_discount, _approver
+  )
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _clean_items);
+
+  -- Checked as of the sale, so a happy hour that has ended since still counts
+  IF _promotion_discount > 0 THEN
+    _allowed := public.promotion_discount(_promotion_id, _order_id, _created_at);
+
+    IF _allowed IS NULL OR _promotion_discount > _allowed THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'promotion_invalid',
+        'amount', _promotion_discount,
+        'allowed', COALESCE(_allowed, 0)
+      );
+    END IF;
+  END IF;
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  SELECT total INTO _server_total FROM public.orders WHERE id = _order_id;
+
+  IF _server_total <> (_totals ->> 'total')::INTEGER THEN
+    _conflicts := _conflicts || jsonb_build_object(
+      'type', 'total_changed',
+      'offline_total', (_totals ->> 'total')::INTEGER,
+      'current_total', _server_total
+    );
+  END IF;
+
+  -- Keep what the customer was charged
+  UPDATE public.orders
+  SET service_charge = (_totals ->> 'service_charge')::INTEGER,
+      tax = (_totals ->> 'tax')::INTEGER,
+      rounding = (_totals ->> 'rounding')::INTEGER,
+      total = (_totals ->> 'total')::INTEGER,
+      tax_rate = (_totals ->> 'tax_rate')::NUMERIC,
+      service_charge_rate = (_totals ->> 'service_charge_rate')::NUMERIC,
+      prices_include_tax = (_totals ->> 'prices_include_tax')::BOOLEAN
+  WHERE id = _order_id;
+
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  RETURN jsonb_build_object(
+    'order', public.order_with_items(_order_id),
+    'conflicts', _conflicts,
+    'duplicate', false
+  );
+END;
+$$;
+
+-- Deleting a completed order left its sale, HPP, stock and shift postings behind. An order
+-- that reached the ledger can only be voided or refunded.
+CREATE OR REPLACE FUNCTION public.prevent_posted_order_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.journal_entries
+    WHERE source_id = OLD.id AND source_type IN ('order', 'order_cogs')
+  ) THEN
+    RAISE EXCEPTION 'Order % has ledger postings; void or refund it instead', OLD.order_number;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_posted_order_delete
+  BEFORE DELETE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_posted_order_delete();
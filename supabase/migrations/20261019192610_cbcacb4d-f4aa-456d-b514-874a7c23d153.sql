@@ -0,0 +1,200 @@
+-- Daily reports grouped orders by the day they were opened while the ledger books them on the
+-- day they were completed, so an order opened before midnight and paid after it landed on
+-- different days in each. Settlement now uses the ledger's date, and backfill also re-settles
+-- reports whose totals no longer match.
+CREATE OR REPLACE FUNCTION public.business_day_totals(_business_date DATE)
+RETURNS TABLE (total_orders INTEGER, cash_revenue INTEGER, transfer_revenue INTEGER, qris_revenue INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- Voided orders still count as sales here: their payments were reversed by separate
+  -- entries when they were voided. Orders without tender rows count towards their
+  -- single method.
+  WITH day_orders AS (
+    SELECT o.*
+    FROM public.orders o
+    WHERE public.business_date(COALESCE(o.completed_at, o.created_at)) = _business_date
+      AND o.status IN ('completed', 'refunded', 'cancelled')
+      AND (o.status <> 'cancelled' OR EXISTS (SELECT 1 FROM public.order_payments p WHERE p.order_id = o.id))
+  ),
+  tenders AS (
+    SELECT p.payment_method::TEXT AS method, p.amount
+    FROM public.order_payments p
+    JOIN day_orders o ON o.id = p.order_id
+    UNION ALL
+    SELECT o.payment_method::TEXT, o.total
+    FROM day_orders o
+    WHERE o.payment_method IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.order_payments p WHERE p.order_id = o.id)
+  )
+  SELECT
+    (SELECT COUNT(*) FROM day_orders WHERE status <> 'cancelled')::INTEGER,
+    COALESCE(SUM(amount) FILTER (WHERE method = 'cash'), 0)::INTEGER,
+    COALESCE(SUM(amount) FILTER (WHERE method = 'transfer'), 0)::INTEGER,
+    COALESCE(SUM(amount) FILTER (WHERE method = 'qris'), 0)::INTEGER
+  FROM tenders;
+$$;
+
+CREATE OR REPLACE FUNCTION public.settle_business_day(
+  _business_date DATE,
+  _trigger TEXT,
+  _triggered_by UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _run_id UUID;
+  _report public.daily_reports;
+  _total_orders INTEGER;
+  _cash INTEGER;
+  _transfer INTEGER;
+  _qris INTEGER;
+  _total INTEGER;
+  _label TEXT := TO_CHAR(_business_date, 'DD/MM/YYYY');
+BEGIN
+  -- No caller means the service role (execute is revoked from anon)
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF _business_date IS NULL OR _business_date > (now() AT TIME ZONE 'Asia/Jakarta')::DATE THEN
+    RAISE EXCEPTION 'Cannot settle a future business day';
+  END IF;
+
+  -- Concurrent runs for the same day wait here and then redo the work on committed data
+  PERFORM pg_advisory_xact_lock(hashtext('daily_settlement:' || _business_date));
+
+  INSERT INTO public.settlement_runs (business_date, trigger, triggered_by)
+  VALUES (_business_date, _trigger, COALESCE(auth.uid(), _triggered_by))
+  RETURNING id INTO _run_id;
+
+  BEGIN
+    SELECT t.total_orders, t.cash_revenue, t.transfer_revenue, t.qris_revenue
+    INTO _total_orders, _cash, _transfer, _qris
+    FROM public.business_day_totals(_business_date) t;
+
+    _total := _cash + _transfer + _qris;
+
+    INSERT INTO public.daily_reports (report_date, total_orders, total_revenue, cash_revenue, transfer_revenue, qris_revenue)
+    VALUES (_business_date, _total_orders, _total, _cash, _transfer, _qris)
+    ON CONFLICT (report_date) DO UPDATE
+    SET total_orders = EXCLUDED.total_orders,
+        total_revenue = EXCLUDED.total_revenue,
+        cash_revenue = EXCLUDED.cash_revenue,
+        transfer_revenue = EXCLUDED.transfer_revenue,
+        qris_revenue = EXCLUDED.qris_revenue
+    RETURNING * INTO _report;
+
+    -- Void, refund and expense entries are written when they happen and are left alone
+    DELETE FROM public.accounting_entries
+    WHERE reference_type = 'daily_report' AND reference_id = _report.id;
+
+    IF _total > 0 THEN
+      INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, balance, reference_id, reference_type, payment_method)
+      SELECT _business_date, 'income', tender.label || ' - ' || _label, tender.amount, 0, 0, _report.id, 'daily_report', tender.method
+      FROM (VALUES
+        ('Pendapatan Tunai', _cash, 'cash'),
+        ('Pendapatan Transfer', _transfer, 'transfer'),
+        ('Pendapatan QRIS', _qris, 'qris')
+      ) AS tender(label, amount, method)
+      WHERE tender.amount > 0;
+
+      INSERT INTO public.accounting_entries (entry_date, entry_type, description, debit, credit, balance, reference_id, reference_type, payment_method)
+      VALUES (
+        _business_date,
+        'daily_summary',
+        'Total Settlement - ' || _label || ' (' || _total_orders || ' pesanan)',
+        _total,
+        0,
+        public.cash_position(_business_date),
+        _report.id,
+        'daily_report',
+        NULL
+      );
+    END IF;
+
+    -- Reposted so a re-run later in the day also sweeps the QRIS paid since the last run
+    DELETE FROM public.journal_entries
+    WHERE source_type = 'settlement' AND source_id = _report.id;
+
+    PERFORM public.post_daily_settlement(_report.id);
+
+    UPDATE public.settlement_runs
+    SET status = 'succeeded',
+        daily_report_id = _report.id,
+        stats = jsonb_build_object(
+          'total_orders', _total_orders,
+          'total_revenue', _total,
+          'cash_revenue', _cash,
+          'transfer_revenue', _transfer,
+          'qris_revenue', _qris
+        ),
+        finished_at = now()
+    WHERE id = _run_id;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.settlement_runs
+    SET status = 'failed', error = SQLERRM, finished_at = now()
+    WHERE id = _run_id;
+  END;
+
+  RETURN (SELECT to_jsonb(r) FROM public.settlement_runs r WHERE r.id = _run_id);
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.backfill_daily_settlements(_before DATE, _triggered_by UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from DATE;
+  _day DATE;
+  _runs JSONB := '[]'::JSONB;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  _from := COALESCE(
+    public.locked_through() + 1,
+    (SELECT LEAST(
+      public.business_date(MIN(COALESCE(completed_at, created_at))),
+      (SELECT MIN(report_date) FROM public.daily_reports)
+    ) FROM public.orders)
+  );
+
+  IF _from IS NULL THEN
+    RETURN _runs;
+  END IF;
+
+  -- Days with sales but no report, and reports that no longer match their day's orders
+  FOR _day IN
+    SELECT day::DATE
+    FROM generate_series(_from, _before - 1, INTERVAL '1 day') AS day
+    CROSS JOIN LATERAL public.business_day_totals(day::DATE) t
+    LEFT JOIN public.daily_reports dr ON dr.report_date = day::DATE
+    WHERE CASE
+      WHEN dr.id IS NULL THEN EXISTS (
+        SELECT 1 FROM public.orders
+        WHERE public.business_date(COALESCE(completed_at, created_at)) = day::DATE
+          AND status IN ('completed', 'refunded', 'cancelled')
+      )
+      ELSE (dr.total_orders, dr.cash_revenue, dr.transfer_revenue, dr.qris_revenue)
+        IS DISTINCT FROM (t.total_orders, t.cash_revenue, t.transfer_revenue, t.qris_revenue)
+    END
+  LOOP
+    _runs := _runs || jsonb_build_array(public.settle_business_day(_day, 'backfill', _triggered_by));
+  END LOOP;
+
+  RETURN _runs;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_day_totals(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.business_day_totals(DATE) TO authenticated;
@@ -0,0 +1,227 @@
+-- Conflicts found while syncing an offline order were only returned to the device, which kept
+-- them in memory until a reload. They are now stored with the order and stay listed until an
+-- admin marks them as checked.
+CREATE TABLE public.order_sync_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  offline_number TEXT, -- the number on the receipt printed offline
+  conflicts JSONB NOT NULL,
+  synced_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_order_sync_conflicts_open ON public.order_sync_conflicts(created_at) WHERE reviewed_at IS NULL;
+
+ALTER TABLE public.order_sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+-- Cashiers see the conflicts of the orders they synced, admins see all of them
+CREATE POLICY "Staff can view their sync conflicts"
+  ON public.order_sync_conflicts FOR SELECT
+  TO authenticated
+  USING (synced_by = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+-- Written by sync_offline_order, which runs as the cashier
+CREATE POLICY "Staff can record their sync conflicts"
+  ON public.order_sync_conflicts FOR INSERT
+  TO authenticated
+  WITH CHECK (synced_by = auth.uid());
+
+DROP FUNCTION IF EXISTS public.sync_offline_order(UUID, TIMESTAMPTZ, JSONB, JSONB, JSONB, UUID, JSONB, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.sync_offline_order(
+  _client_id UUID,
+  _created_at TIMESTAMPTZ,
+  _items JSONB,
+  _payments JSONB,
+  _totals JSONB,
+  _table_id UUID DEFAULT NULL,
+  _discount JSONB DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _cashier_name TEXT DEFAULT NULL,
+  _receipt_token UUID DEFAULT NULL,
+  _offline_number TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _clean_items JSONB := '[]'::jsonb;
+  _item JSONB;
+  _menu_item public.menu_items;
+  _base_price INTEGER;
+  _table UUID := _table_id;
+  _promotion_id UUID := NULLIF(_discount ->> 'promotion_id', '')::UUID;
+  _promotion_discount INTEGER := COALESCE((_discount ->> 'promotion_discount')::INTEGER, 0);
+  _manual_discount INTEGER := COALESCE((_discount ->> 'manual_discount')::INTEGER, 0);
+  _limit INTEGER;
+  _approver UUID;
+  _server_total INTEGER;
+  _allowed INTEGER;
+  _open_from TIMESTAMPTZ := (public.locked_through() + 1)::TIMESTAMP AT TIME ZONE 'Asia/Jakarta';
+  _booked_at TIMESTAMPTZ := _created_at;
+BEGIN
+  PERFORM public.require_staff();
+
+  SELECT id INTO _order_id FROM public.orders WHERE client_id = _client_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'order', public.order_with_items(_order_id),
+      'conflicts', '[]'::jsonb,
+      'duplicate', true
+    );
+  END IF;
+
+  -- A sale from a day that was closed while the device was offline goes on the first open day
+  IF _created_at < _open_from THEN
+    _booked_at := _open_from;
+    _conflicts := _conflicts || jsonb_build_object(
+      'type', 'period_closed',
+      'sold_at', _created_at,
+      'booked_on', public.business_date(_open_from)
+    );
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    SELECT * INTO _menu_item FROM public.menu_items WHERE id = NULLIF(_item ->> 'menu_item_id', '')::UUID;
+
+    IF NOT FOUND THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'menu_item_deleted',
+        'item', _item ->> 'menu_item_name'
+      );
+      _item := jsonb_set(_item, '{menu_item_id}', 'null'::jsonb);
+    ELSE
+      _base_price := (_item ->> 'unit_price')::INTEGER - COALESCE((
+        SELECT SUM((modifier ->> 'price_delta')::INTEGER)
+        FROM jsonb_array_elements(COALESCE(_item -> 'modifiers', '[]'::jsonb)) AS modifier
+      ), 0);
+
+      IF _base_price <> _menu_item.price THEN
+        _conflicts := _conflicts || jsonb_build_object(
+          'type', 'price_changed',
+          'item', _menu_item.name,
+          'sold_price', _base_price,
+          'current_price', _menu_item.price
+        );
+      END IF;
+    END IF;
+
+    _clean_items := _clean_items || jsonb_build_array(_item);
+  END LOOP;
+
+  IF _table IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.restaurant_tables WHERE id = _table) THEN
+    _conflicts := _conflicts || jsonb_build_object('type', 'table_deleted');
+    _table := NULL;
+  END IF;
+
+  IF _promotion_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.promotions WHERE id = _promotion_id) THEN
+    _promotion_id := NULL;
+  END IF;
+
+  SELECT COALESCE(NULLIF(value, '')::INTEGER, 0) INTO _limit
+  FROM public.app_settings
+  WHERE key = 'manual_discount_approval_limit';
+
+  IF _manual_discount > 0 AND public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSIF _manual_discount > COALESCE(_limit, 0) THEN
+    _approver := public.check_approval_pin(_discount ->> 'approval_pin');
+
+    -- Returned rather than raised so the failed attempt stays logged against the caller
+    IF _approver IS NULL THEN
+      RETURN jsonb_build_object(
+        'order', NULL,
+        'conflicts', jsonb_build_array(jsonb_build_object('type', 'discount_unapproved', 'amount', _manual_discount)),
+        'rejected', 'Manual discount needs admin approval'
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO public.orders (
+    order_number, client_id, receipt_token, table_id, cashier_id, cashier_name, status, notes, created_at, completed_at,
+    promotion_id, promotion_name, promotion_discount, manual_discount, discount, discount_approved_by
+  )
+  VALUES (
+    '', _client_id, COALESCE(_receipt_token, gen_random_uuid()), _table, auth.uid(), _cashier_name, 'completed', _notes,
+    _booked_at, _booked_at,
+    _promotion_id, CASE WHEN _promotion_discount > 0 THEN (SELECT name FROM public.promotions WHERE id = _promotion_id) END,
+    _promotion_discount, _manual_discount, _promotion_discount + _manual_discount, _approver
+  )
+  RETURNING id INTO _order_id;
+
+  PERFORM public.insert_order_items(_order_id, _clean_items);
+
+  -- Checked as of the sale, so a happy hour that has ended since still counts. Anything above
+  -- what the promotion gives is taken off.
+  IF _promotion_discount > 0 THEN
+    _allowed := COALESCE(public.promotion_discount(_promotion_id, _order_id, _created_at), 0);
+
+    IF _promotion_discount > _allowed THEN
+      _conflicts := _conflicts || jsonb_build_object(
+        'type', 'promotion_invalid',
+        'amount', _promotion_discount,
+        'allowed', _allowed
+      );
+
+      UPDATE public.orders
+      SET promotion_id = CASE WHEN _allowed > 0 THEN promotion_id END,
+          promotion_name = CASE WHEN _allowed > 0 THEN promotion_name END,
+          promotion_discount = _allowed,
+          discount = _allowed + _manual_discount
+      WHERE id = _order_id;
+    END IF;
+  END IF;
+
+  PERFORM public.recalculate_order_totals(_order_id);
+
+  SELECT total INTO _server_total FROM public.orders WHERE id = _order_id;
+
+  IF _server_total <> (_totals ->> 'total')::INTEGER THEN
+    _conflicts := _conflicts || jsonb_build_object(
+      'type', 'total_changed',
+      'offline_total', (_totals ->> 'total')::INTEGER,
+      'current_total', _server_total
+    );
+  END IF;
+
+  -- The server's total is booked; payments that no longer cover it reject the order
+  PERFORM public.record_order_payments(_order_id, _payments);
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    INSERT INTO public.order_sync_conflicts (order_id, offline_number, conflicts, synced_by)
+    VALUES (_order_id, _offline_number, _conflicts, auth.uid());
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order', public.order_with_items(_order_id),
+    'conflicts', _conflicts,
+    'duplicate', false
+  );
+END;
+$$;
+
+
+GRANT EXECUTE ON FUNCTION public.sync_offline_order(UUID, TIMESTAMPTZ, JSONB, JSONB, JSONB, UUID, JSONB, TEXT, TEXT, UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.review_sync_conflicts(_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  UPDATE public.order_sync_conflicts
+  SET reviewed_at = now(), reviewed_by = auth.uid()
+  WHERE id = ANY(_ids) AND reviewed_at IS NULL;
+END;
+$$;
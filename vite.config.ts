@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +10,60 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    VitePWA({
+      // New builds wait for the cashier to accept the update prompt instead of reloading mid-order
+      registerType: "prompt",
+      includeAssets: ["favicon.ico", "placeholder.svg", "icons/*.png"],
+      manifest: {
+        name: "RM MINANG MAIMBAOE POS",
+        short_name: "POS Maimbaoe",
+        description: "Sistem Kasir Digital untuk RM Minang Maimbaoe",
+        start_url: "/",
+        display: "standalone",
+        orientation: "portrait",
+        background_color: "#0f1419",
+        theme_color: "#0f1419",
+        icons: [
+          { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "any" },
+          { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+        ],
+      },
+      workbox: {
+        globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2}"],
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+        navigateFallback: "index.html",
+        cleanupOutdatedCaches: true,
+        runtimeCaching: [
+          {
+            // Menu, table and settings reads the cashier screen needs to start without a connection
+            urlPattern: ({ url, request }) =>
+              request.method === "GET" &&
+              /^\/rest\/v1\/(menu_categories|menu_items|menu_modifier_groups|restaurant_tables|restaurant_settings)$/.test(url.pathname),
+            handler: "NetworkFirst",
+            options: {
+              cacheName: "supabase-reads",
+              networkTimeoutSeconds: 5,
+              expiration: { maxEntries: 50, maxAgeSeconds: 7 * 24 * 60 * 60 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+          {
+            // Menu photos and the receipt logo live on other origins (storage, CDNs)
+            urlPattern: ({ request, sameOrigin }) => request.destination === "image" && !sameOrigin,
+            handler: "CacheFirst",
+            options: {
+              cacheName: "images",
+              expiration: { maxEntries: 300, maxAgeSeconds: 30 * 24 * 60 * 60 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
+      },
+    }),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),